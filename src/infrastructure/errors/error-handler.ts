@@ -34,6 +34,13 @@ export class TemplateValidationError extends McpError {
   }
 }
 
+export class DataSourceError extends McpError {
+  constructor(message: string) {
+    super(message, 'DATA_SOURCE_ERROR', 400);
+    this.name = 'DataSourceError';
+  }
+}
+
 export class ErrorHandler {
   static handleError(error: unknown): McpError {
     if (error instanceof McpError) {
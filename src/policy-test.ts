@@ -0,0 +1,31 @@
+#!/usr/bin/env node
+
+/**
+ * Command line entry for running policy unit tests against fixture resources
+ *
+ * Usage: azure-policy-test <policy.json> <fixture file or directory>
+ */
+
+import { PolicyTestRunner } from './services/policy/policy-test-runner.js';
+
+async function main(): Promise<void> {
+  const [policyPath, fixturesPath] = process.argv.slice(2);
+  if (!policyPath || !fixturesPath) {
+    console.error('Usage: azure-policy-test <policy.json> <fixture file or directory>');
+    process.exitCode = 2;
+    return;
+  }
+
+  try {
+    const runner = new PolicyTestRunner();
+    const report = await runner.runFiles(policyPath, fixturesPath);
+
+    console.log(runner.formatReport(report));
+    process.exitCode = report.failed > 0 ? 1 : 0;
+  } catch (error) {
+    console.error(`Error running policy tests: ${String(error)}`);
+    process.exitCode = 2;
+  }
+}
+
+main().catch(console.error);
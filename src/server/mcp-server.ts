@@ -15,12 +15,44 @@ import { ErrorHandler } from '../infrastructure/errors/error-handler.js';
 import { GitHubClient } from '../services/github/github-client.js';
 import { DataSourceManager } from '../services/github/data-source-manager.js';
 import { PolicyParser } from '../services/policy/policy-parser.js';
+import { PolicySetParser } from '../services/policy/policy-set-parser.js';
+import { PolicyAssignmentManager } from '../services/policy/policy-assignment-manager.js';
+import { PolicyEffectSimulator } from '../services/policy/policy-effect-simulator.js';
+import { PolicyExistenceChecker } from '../services/policy/policy-existence-checker.js';
+import { PolicyParameterValidator } from '../services/policy/policy-parameter-validator.js';
+import { PolicyAuthor } from '../services/policy/policy-author.js';
+import { PolicyDiffer } from '../services/policy/policy-differ.js';
+import { PolicyTestRunner } from '../services/policy/policy-test-runner.js';
+import { PolicyLinter } from '../services/policy/policy-linter.js';
+import { PolicyExplainer } from '../services/policy/policy-explainer.js';
+import { PolicyCatalog } from '../services/policy/policy-catalog.js';
+import { PolicyComplianceMapper, COMPLIANCE_FRAMEWORKS, findComplianceFramework } from '../services/policy/policy-compliance-mapper.js';
+import { PolicyOutcomeResolver } from '../services/policy/policy-outcome-resolver.js';
+import { PolicyImpactAnalyzer } from '../services/policy/policy-impact-analyzer.js';
+import { PolicyCoverageMapper } from '../services/policy/policy-coverage-mapper.js';
+import { PolicyConflictDetector } from '../services/policy/policy-conflict-detector.js';
+import { getDataPlaneModeReason } from '../services/policy/policy-modes.js';
+import { appliesToResourceType } from '../services/policy/resource-type-applicability.js';
+import { PolicyEvaluator } from '../services/policy/policy-evaluator.js';
+import { PolicyExpressionEvaluator } from '../services/policy/policy-expression.js';
+import { PolicyAliasResolver } from '../services/policy/alias-resolver.js';
 import { TemplateIndexer } from '../services/templates/template-indexer.js';
+import { BicepResourceParser } from '../services/templates/bicep-resource-parser.js';
+import { ArmResourceParser } from '../services/templates/arm-resource-parser.js';
 import { AzureDocsScraperService } from '../services/documentation/azure-docs-scraper.js';
 
 import type { ToolExecutionContext } from '../types/mcp.js';
-import type { PolicySearchCriteria } from '../types/policy.js';
-import type { TemplateSearchCriteria } from '../types/templates.js';
+import type {
+  AzurePolicyDefinition,
+  ParsedPolicy,
+  PolicyApplication,
+  PolicyAssignment,
+  PolicyParameterValidationResult,
+  PolicySearchCriteria,
+  PolicySetDefinition,
+  ResourceEffectiveOutcome
+} from '../types/policy.js';
+import type { TemplateResource, TemplateSearchCriteria } from '../types/templates.js';
 import type { ScrapeParams } from '../types/azure.js';
 
 export class AzurePolicyMcpServer {
@@ -31,7 +63,27 @@ export class AzurePolicyMcpServer {
   private githubClient!: GitHubClient;
   private dataSourceManager!: DataSourceManager;
   private policyParser!: PolicyParser;
+  private policySetParser!: PolicySetParser;
+  private assignmentManager!: PolicyAssignmentManager;
+  private effectSimulator!: PolicyEffectSimulator;
+  private existenceChecker!: PolicyExistenceChecker;
+  private parameterValidator!: PolicyParameterValidator;
+  private policyAuthor!: PolicyAuthor;
+  private policyDiffer!: PolicyDiffer;
+  private policyTestRunner!: PolicyTestRunner;
+  private policyLinter!: PolicyLinter;
+  private policyExplainer!: PolicyExplainer;
+  private policyCatalog!: PolicyCatalog;
+  private complianceMapper!: PolicyComplianceMapper;
+  private outcomeResolver!: PolicyOutcomeResolver;
+  private impactAnalyzer!: PolicyImpactAnalyzer;
+  private coverageMapper!: PolicyCoverageMapper;
+  private conflictDetector!: PolicyConflictDetector;
+  private policyEvaluator!: PolicyEvaluator;
+  private aliasResolver!: PolicyAliasResolver;
   private templateIndexer!: TemplateIndexer;
+  private bicepResourceParser!: BicepResourceParser;
+  private armResourceParser!: ArmResourceParser;
   private azureDocsScraperService!: AzureDocsScraperService;
 
   constructor() {
@@ -60,8 +112,28 @@ export class AzurePolicyMcpServer {
     // Initialize core services
     this.githubClient = new GitHubClient(this.cache);
     this.dataSourceManager = new DataSourceManager(this.githubClient, this.cache);
-    this.policyParser = new PolicyParser();
+    this.aliasResolver = new PolicyAliasResolver();
+    this.policyParser = new PolicyParser(this.aliasResolver);
+    this.policySetParser = new PolicySetParser(this.dataSourceManager, this.policyParser);
+    this.assignmentManager = new PolicyAssignmentManager();
+    this.policyEvaluator = new PolicyEvaluator(new PolicyExpressionEvaluator(), this.aliasResolver);
+    this.effectSimulator = new PolicyEffectSimulator(this.policyEvaluator, new PolicyExpressionEvaluator(), this.aliasResolver);
+    this.existenceChecker = new PolicyExistenceChecker(this.policyEvaluator, new PolicyExpressionEvaluator());
+    this.parameterValidator = new PolicyParameterValidator(this.policyParser);
+    this.policyAuthor = new PolicyAuthor(this.aliasResolver, this.policyParser, this.policyEvaluator);
+    this.policyDiffer = new PolicyDiffer();
+    this.policyTestRunner = new PolicyTestRunner(this.policyParser, this.policyEvaluator, this.existenceChecker);
+    this.policyLinter = new PolicyLinter(undefined, this.policyParser);
+    this.policyExplainer = new PolicyExplainer();
+    this.policyCatalog = new PolicyCatalog(this.dataSourceManager, this.policyParser);
+    this.outcomeResolver = new PolicyOutcomeResolver(this.policyEvaluator, this.effectSimulator, this.existenceChecker);
+    this.complianceMapper = new PolicyComplianceMapper(this.outcomeResolver);
+    this.impactAnalyzer = new PolicyImpactAnalyzer(this.outcomeResolver);
+    this.coverageMapper = new PolicyCoverageMapper(this.aliasResolver, this.policyEvaluator);
+    this.conflictDetector = new PolicyConflictDetector(this.aliasResolver, this.policyEvaluator, this.policyParser);
     this.templateIndexer = new TemplateIndexer(this.githubClient, this.cache);
+    this.bicepResourceParser = new BicepResourceParser();
+    this.armResourceParser = new ArmResourceParser();
     this.azureDocsScraperService = new AzureDocsScraperService(this.cache);
     
     // Initialize MCP tools
@@ -93,145 +165,1117 @@ export class AzurePolicyMcpServer {
             include_deprecated: {
               type: 'boolean',
               description: 'Include deprecated policies in analysis (default: false)'
+            },
+            explain_rules: {
+              type: 'boolean',
+              description: 'Include a plain-language explanation of each policy rule (default: false)'
+            }
+          },
+          required: ['resource_types']
+        }
+      }),
+      execute: async (args: Record<string, any>) => {
+        try {
+          const policyFiles = await this.searchPolicyFiles(args.resource_types, args.policy_categories);
+          const analysis = [];
+          let builtInCount = 0;
+          
+          for (const { path: policyFile, local } of policyFiles) {
+            if (!local && builtInCount >= 5) break; // Limit to 5 applicable built-in policies for speed
+            try {
+              const policyContent = await this.readPolicyFile(policyFile);
+              if (policyContent) {
+                const parsedPolicy = this.policyParser.parsePolicy(policyContent, policyFile);
+                if (!args.include_deprecated && parsedPolicy.deprecated) continue;
+                if (!args.resource_types.some((type: string) => appliesToResourceType(parsedPolicy.applicability, type))) continue;
+                if (!local) builtInCount++;
+                
+                analysis.push({
+                  id: parsedPolicy.id,
+                  name: parsedPolicy.displayName,
+                  category: parsedPolicy.category,
+                  description: parsedPolicy.description,
+                  effects: parsedPolicy.effects,
+                  resourceTypes: parsedPolicy.resourceTypes,
+                  parameters: parsedPolicy.parameters,
+                  complexity: parsedPolicy.rules?.complexity || 'unknown',
+                  explanation: args.explain_rules ? this.policyExplainer.explain(JSON.parse(policyContent)) : undefined
+                });
+              }
+            } catch (error) {
+              console.warn(`Failed to fetch policy ${policyFile}:`, error);
+            }
+          }
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Found ${analysis.length} applicable policies for resource types: ${args.resource_types.join(', ')}\n\n` +
+                    analysis.map(p => 
+                      `**${p.name}** (${p.category})\n` +
+                      `Description: ${p.description}\n` +
+                      `Effects: ${p.effects.map(e => e.effect).join(', ')}\n` +
+                      `Complexity: ${p.complexity}\n` +
+                      `Parameters: ${p.parameters.length} required\n` +
+                      (p.explanation ? `Rule: ${p.explanation}\n` : '')
+                    ).join('\n')
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: 'text', 
+              text: `Error analyzing policies: ${String(error)}`
+            }]
+          };
+        }
+      }
+    });
+
+    // Policy validation tool
+    this.tools.set('validate_bicep_against_policies', {
+      getToolDefinition: () => ({
+        name: 'validate_bicep_against_policies',
+        description: 'Validate Bicep template against Azure policies and identify compliance issues',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bicep_content: {
+              type: 'string',
+              description: 'Bicep template content to validate'
+            },
+            arm_template_content: {
+              type: 'string',
+              description: 'Optional: ARM template JSON to validate instead of bicep_content'
+            },
+            policy_categories: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Policy categories to validate against (default: all)'
+            },
+            target_scope: {
+              type: 'string',
+              description: 'Optional: Resource group id the template is deployed to (e.g., /subscriptions/<id>/resourceGroups/<name>). Validates only the policy assignments covering this scope instead of catalog policies'
+            },
+            assignments_path: {
+              type: 'string',
+              description: 'Optional: Policy assignment JSON file or directory (default: AZURE_POLICY_ASSIGNMENTS_PATH)'
+            },
+            management_groups: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional: Management group ids above the target subscription, for management group assignments'
+            },
+            compliance_framework: {
+              type: 'string',
+              description: `Optional: Regulatory compliance framework to report results by control (${COMPLIANCE_FRAMEWORKS.map(framework => framework.id).join(', ')}) or a built-in initiative path below built-in-policies/policySetDefinitions`
+            },
+            include_not_applicable: {
+              type: 'boolean',
+              description: 'Optional: List framework controls and policies that do not apply to the template resources (default: false)'
+            },
+            max_policies: {
+              type: 'number',
+              description: 'Optional: Maximum number of applicable built-in policies to evaluate when no framework or target scope is given; local policies are always evaluated (default: 50)'
+            }
+          }
+        }
+      }),
+      execute: async (args: Record<string, any>) => {
+        try {
+          if (!args.bicep_content && !args.arm_template_content) {
+            return {
+              content: [{
+                type: 'text',
+                text: 'Either bicep_content or arm_template_content is required.'
+              }]
+            };
+          }
+
+          // Parse the template into resource objects for evaluation
+          const resources = (args.arm_template_content
+            ? this.armResourceParser.parseResources(args.arm_template_content)
+            : this.bicepResourceParser.parseResources(args.bicep_content))
+            .filter(resource => !resource.existing);
+          const resourceTypes = Array.from(new Set(resources.map(resource => resource.type)));
+          
+          if (resourceTypes.length === 0) {
+            return {
+              content: [{
+                type: 'text',
+                text: `No Azure resources found in the provided ${args.arm_template_content ? 'ARM' : 'Bicep'} template.`
+              }]
+            };
+          }
+
+          if (args.compliance_framework) {
+            return await this.validateAgainstFramework(resources, args);
+          }
+
+          if (args.target_scope) {
+            return await this.validateAgainstAssignments(resources, args);
+          }
+
+          // Get applicable policies
+          const policyFiles = await this.searchPolicyFiles(resourceTypes, args.policy_categories);
+          const violations = [];
+          const recommendations = [];
+          const applications: PolicyApplication[] = [];
+          const notEvaluable: string[] = [];
+          const maxPolicies: number = args.max_policies ?? 50;
+          let evaluated = 0;
+          let builtInCount = 0;
+          let truncated = false;
+
+          for (const { path: policyFile, local } of policyFiles) {
+            let policy: ParsedPolicy | undefined;
+            try {
+              const policyContent = await this.readPolicyFile(policyFile);
+              if (policyContent) {
+                const parsed = this.policyParser.parsePolicy(policyContent, policyFile);
+                if (!resourceTypes.some(type => appliesToResourceType(parsed.applicability, type))) continue;
+                policy = parsed;
+                if (!local && builtInCount >= maxPolicies) {
+                  truncated = true;
+                  break;
+                }
+                if (!local) builtInCount++;
+
+                const policyDefinition = JSON.parse(policyContent) as AzurePolicyDefinition;
+
+                // Data-plane modes target components a template does not declare
+                const dataPlaneReason = getDataPlaneModeReason(policyDefinition.properties.mode);
+                if (dataPlaneReason) {
+                  notEvaluable.push(`${policy.displayName}: ${dataPlaneReason}`);
+                  continue;
+                }
+
+                // No assignment supplies parameter values, so parameters without a default cannot be resolved
+                const missing = policy.parameters.filter(parameter => parameter.required);
+                if (missing.length > 0) {
+                  notEvaluable.push(`${policy.displayName}: Missing value for parameter(s) without a default: ${missing.map(parameter => parameter.name).join(', ')}`);
+                  continue;
+                }
+                
+                // Evaluate the policy rule against every declared resource
+                const hasViolations = this.checkPolicyViolations(resources, policyDefinition);
+                evaluated++;
+                if (hasViolations.length > 0) {
+                  violations.push({
+                    policy: policy.displayName,
+                    category: policy.category,
+                    violations: hasViolations
+                  });
+                }
+                
+                applications.push({ name: policy.displayName, definition: policyDefinition });
+                recommendations.push(`Ensure compliance with ${policy.displayName}: ${policy.description}`);
+              }
+            } catch (error) {
+              if (policy) {
+                notEvaluable.push(`${policy.displayName}: ${error instanceof Error ? error.message : String(error)}`);
+              } else {
+                console.warn(`Failed to fetch policy ${policyFile}:`, error);
+              }
+            }
+          }
+
+          return {
+            content: [{
+              type: 'text',
+              text: `**Policy Validation Results**\n\n` +
+                    `Resource Types Found: ${resourceTypes.join(', ')}\n` +
+                    `Policies Evaluated: ${evaluated}` +
+                    (truncated ? ` (local policies and the first ${maxPolicies} applicable built-in policies; raise max_policies to evaluate more)` : '') + '\n\n' +
+                    `**Potential Violations (${violations.length}):**\n` +
+                    violations.map(v => `- ${v.policy}: ${v.violations.join(', ')}`).join('\n') + '\n\n' +
+                    `**Recommendations (${recommendations.length}):**\n` +
+                    recommendations.map(r => `- ${r}`).join('\n') +
+                    (notEvaluable.length > 0
+                      ? `\n\n**Not Evaluable from Template (${notEvaluable.length}):**\n${notEvaluable.map(n => `- ${n}`).join('\n')}`
+                      : '') +
+                    this.formatEffectiveOutcomes(resources.map(resource =>
+                      this.outcomeResolver.resolve(resource, applications, resources)))
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error validating template: ${String(error)}`
+            }]
+          };
+        }
+      }
+    });
+
+    // Policy initiative analysis tool
+    this.tools.set('analyze_policy_initiative', {
+      getToolDefinition: () => ({
+        name: 'analyze_policy_initiative',
+        description: 'Analyze an Azure Policy initiative (policy set definition), resolving its member policies, and optionally validate a Bicep template against every member',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            initiative_path: {
+              type: 'string',
+              description: 'Path of a built-in initiative below built-in-policies/policySetDefinitions (e.g., Security Center/AzureSecurityBenchmark.json)'
+            },
+            initiative_content: {
+              type: 'string',
+              description: 'Policy set definition JSON, used instead of initiative_path for custom initiatives'
+            },
+            parameters: {
+              type: 'object',
+              description: 'Optional: Initiative parameter values (defaults apply otherwise)'
+            },
+            bicep_content: {
+              type: 'string',
+              description: 'Optional: Bicep template content to validate against the member policies'
+            }
+          }
+        }
+      }),
+      execute: async (args: Record<string, any>) => {
+        try {
+          let policySet: PolicySetDefinition | undefined;
+          if (args.initiative_content) {
+            policySet = this.policySetParser.parsePolicySet(args.initiative_content);
+          } else if (args.initiative_path) {
+            policySet = await this.dataSourceManager.getPolicySetDefinition(args.initiative_path);
+            if (!policySet) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: `Policy initiative not found: ${args.initiative_path}`
+                }]
+              };
+            }
+          } else {
+            return {
+              content: [{
+                type: 'text',
+                text: 'Either initiative_path or initiative_content is required.'
+              }]
+            };
+          }
+
+          const initiative = await this.policySetParser.analyzePolicySet(policySet, args.parameters || {});
+          const groupNames = new Map(initiative.groups.map(group => [group.name, group.displayName || group.name]));
+
+          let text = `**${initiative.displayName}** (${initiative.category})\n` +
+            `${initiative.description}\n\n` +
+            `Member policies: ${initiative.members.length} (${initiative.unresolvedDefinitionIds.length} unresolved)\n` +
+            `Groups: ${initiative.groups.length}\n` +
+            `Parameters: ${initiative.parameters.length} (${initiative.parameters.filter(p => p.required).length} required)\n\n` +
+            `**Members:**\n` +
+            initiative.members.map(member =>
+              `- ${member.policy?.displayName ?? member.policyDefinitionId} [${member.referenceId}]` +
+              (member.effect ? ` - ${member.effect}` : ' - unresolved') +
+              (member.groupNames.length > 0 ? ` (${member.groupNames.map(name => groupNames.get(name) ?? name).join(', ')})` : '')
+            ).join('\n');
+
+          if (args.bicep_content) {
+            const resources = this.bicepResourceParser.parseResources(args.bicep_content)
+              .filter(resource => !resource.existing);
+            const findings = [];
+            const notEvaluable: string[] = [];
+
+            for (const member of initiative.members) {
+              if (!member.definition) continue;
+
+              const dataPlaneReason = getDataPlaneModeReason(member.definition.properties.mode);
+              if (dataPlaneReason) {
+                notEvaluable.push(`- ${member.policy?.displayName ?? member.referenceId}: ${dataPlaneReason}`);
+                continue;
+              }
+
+              try {
+                const violations = this.checkPolicyViolations(resources, member.definition, { parameters: member.parameters });
+                if (violations.length > 0) {
+                  findings.push(
+                    `- ${member.policy?.displayName ?? member.referenceId}` +
+                    (member.groupNames.length > 0 ? ` [${member.groupNames.join(', ')}]` : '') +
+                    `: ${violations.join(', ')}`
+                  );
+                }
+              } catch (error) {
+                console.warn(`Failed to evaluate initiative member ${member.referenceId}:`, error);
+              }
+            }
+
+            text += `\n\n**Template Validation (${resources.length} resources, ${findings.length} policies with findings):**\n` +
+              (findings.length > 0 ? findings.join('\n') : 'No member policy matched the template resources.') +
+              (notEvaluable.length > 0 ? `\n\n**Not Evaluable from Template (${notEvaluable.length}):**\n${notEvaluable.join('\n')}` : '');
+          }
+
+          return {
+            content: [{
+              type: 'text',
+              text
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error analyzing policy initiative: ${String(error)}`
+            }]
+          };
+        }
+      }
+    });
+
+    // Policy parameter validation tool
+    this.tools.set('validate_policy_parameters', {
+      getToolDefinition: () => ({
+        name: 'validate_policy_parameters',
+        description: 'Validate policy assignment parameter values against the parameters a policy or initiative defines (types, allowed values, strongType hints and missing required values)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            policy_content: {
+              type: 'string',
+              description: 'Policy or policy set definition JSON whose parameters the values are validated against'
+            },
+            parameters: {
+              type: 'object',
+              description: 'Parameter values to validate, plain or in assignment format ({ "name": { "value": ... } })'
+            },
+            assignments_path: {
+              type: 'string',
+              description: 'Optional: Policy assignment JSON file or directory. Every assignment\'s parameters are validated against its definition, resolved from the built-in policy repository unless policy_content is given'
+            }
+          }
+        }
+      }),
+      execute: async (args: Record<string, any>) => {
+        try {
+          const definition: AzurePolicyDefinition | PolicySetDefinition | undefined = args.policy_content
+            ? JSON.parse(args.policy_content)
+            : undefined;
+          const sections: string[] = [];
+
+          if (args.assignments_path) {
+            const manager = new PolicyAssignmentManager();
+            await manager.loadFromPath(args.assignments_path);
+
+            for (const assignment of manager.getAssignments()) {
+              const name = assignment.properties.displayName || assignment.name || assignment.properties.policyDefinitionId;
+              const target = definition ?? await this.resolveAssignmentDefinition(assignment);
+              sections.push(target
+                ? this.formatParameterValidation(name, this.parameterValidator.validateDefinition(target, assignment.properties.parameters || {}))
+                : `**${name}**\n- Skipped: definition ${assignment.properties.policyDefinitionId} not found`);
+            }
+          } else if (definition) {
+            sections.push(this.formatParameterValidation(
+              definition.properties?.displayName || definition.name || 'Policy parameters',
+              this.parameterValidator.validateDefinition(definition, args.parameters || {})
+            ));
+          } else {
+            return {
+              content: [{
+                type: 'text',
+                text: 'Either policy_content or assignments_path is required.'
+              }]
+            };
+          }
+
+          return {
+            content: [{
+              type: 'text',
+              text: `**Policy Parameter Validation Results**\n\n${sections.join('\n\n') || 'No policy assignments found.'}`
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error validating policy parameters: ${String(error)}`
+            }]
+          };
+        }
+      }
+    });
+
+    // Custom policy authoring tool
+    this.tools.set('author_custom_policy', {
+      getToolDefinition: () => ({
+        name: 'author_custom_policy',
+        description: 'Author a custom Azure Policy definition requiring a resource property to have a value, one of a set of values, match a pattern or exist. Returns a validated definition with compliant and non-compliant sample resources',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            resource_type: {
+              type: 'string',
+              description: 'Resource type the policy applies to (e.g., Microsoft.Storage/storageAccounts)'
+            },
+            property: {
+              type: 'string',
+              description: 'Policy alias, alias property name (e.g., minimumTlsVersion) or built-in field (e.g., location, tags[\'env\'])'
+            },
+            required_value: {
+              description: 'Value the property must be set to'
+            },
+            allowed_values: {
+              type: 'array',
+              description: 'Values the property may be set to'
+            },
+            pattern: {
+              type: 'string',
+              description: 'Pattern the property must match'
+            },
+            pattern_type: {
+              type: 'string',
+              enum: ['like', 'match', 'matchInsensitively'],
+              description: 'Pattern syntax: like (* wildcard, default), match (# digit, ? letter) or matchInsensitively'
+            },
+            must_exist: {
+              type: 'boolean',
+              description: 'Require the property to be set'
+            },
+            effect: {
+              type: 'string',
+              enum: ['Audit', 'Deny', 'Disabled'],
+              description: 'Effect for non-compliant resources (default: Audit)'
+            },
+            parameterize_effect: {
+              type: 'boolean',
+              description: 'Expose the effect as a parameter (default: true)'
+            },
+            parameterize_value: {
+              type: 'boolean',
+              description: 'Expose the required value, allowed values or pattern as a parameter (default: false)'
+            },
+            display_name: {
+              type: 'string',
+              description: 'Optional: Policy display name'
+            },
+            description: {
+              type: 'string',
+              description: 'Optional: Policy description'
+            },
+            category: {
+              type: 'string',
+              description: 'Optional: Metadata category (default: the resource provider, e.g. Storage)'
+            },
+            mode: {
+              type: 'string',
+              description: 'Optional: Policy mode (default: Indexed)'
+            }
+          },
+          required: ['resource_type', 'property']
+        }
+      }),
+      execute: async (args: Record<string, any>) => {
+        try {
+          const authored = this.policyAuthor.author({
+            resourceType: args.resource_type,
+            property: args.property,
+            ...(args.required_value !== undefined && { requiredValue: args.required_value }),
+            ...(args.allowed_values !== undefined && { allowedValues: args.allowed_values }),
+            ...(args.pattern !== undefined && { pattern: args.pattern }),
+            ...(args.pattern_type && { patternType: args.pattern_type }),
+            ...(args.must_exist !== undefined && { mustExist: args.must_exist }),
+            ...(args.effect && { effect: args.effect }),
+            ...(args.parameterize_effect !== undefined && { parameterizeEffect: args.parameterize_effect }),
+            ...(args.parameterize_value !== undefined && { parameterizeValue: args.parameterize_value }),
+            ...(args.display_name && { displayName: args.display_name }),
+            ...(args.description && { description: args.description }),
+            ...(args.category && { category: args.category }),
+            ...(args.mode && { mode: args.mode })
+          });
+
+          return {
+            content: [{
+              type: 'text',
+              text: `**${authored.definition.properties.displayName}**\n\n` +
+                    `Field: ${authored.field}\n` +
+                    `Validation: ${authored.validation.isValid ? '✅ valid' : '❌ invalid'}` +
+                    (authored.validation.warnings.length > 0 ? ` (${authored.validation.warnings.join('; ')})` : '') + '\n' +
+                    authored.warnings.map(warning => `⚠️ ${warning}\n`).join('') +
+                    `\n**Policy Definition:**\n\`\`\`json\n${JSON.stringify(authored.definition, null, 2)}\n\`\`\`\n\n` +
+                    `**Compliant Sample:**\n\`\`\`json\n${JSON.stringify(authored.compliantSample, null, 2)}\n\`\`\`\n\n` +
+                    `**Non-Compliant Sample:**\n\`\`\`json\n${JSON.stringify(authored.nonCompliantSample, null, 2)}\n\`\`\``
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error authoring custom policy: ${String(error)}`
+            }]
+          };
+        }
+      }
+    });
+
+    // Policy definition diff tool
+    this.tools.set('diff_policy_definitions', {
+      getToolDefinition: () => ({
+        name: 'diff_policy_definitions',
+        description: 'Compare two versions of an Azure Policy definition semantically: conditions, operator values, effect, mode and parameters, with each change classified as breaking or non-breaking',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            before_content: {
+              type: 'string',
+              description: 'Previous policy definition JSON'
+            },
+            after_content: {
+              type: 'string',
+              description: 'New policy definition JSON'
+            }
+          },
+          required: ['before_content', 'after_content']
+        }
+      }),
+      execute: async (args: Record<string, any>) => {
+        try {
+          const before: AzurePolicyDefinition = JSON.parse(args.before_content);
+          const after: AzurePolicyDefinition = JSON.parse(args.after_content);
+          const diff = this.policyDiffer.diff(before, after);
+          const breaking = diff.changes.filter(change => change.breaking);
+          const nonBreaking = diff.changes.filter(change => !change.breaking);
+
+          return {
+            content: [{
+              type: 'text',
+              text: `**${after.properties?.displayName || after.name || 'Policy definition'}**` +
+                    (diff.fromVersion || diff.toVersion ? ` (${diff.fromVersion ?? 'unversioned'} → ${diff.toVersion ?? 'unversioned'})` : '') + '\n\n' +
+                    (diff.identical
+                      ? 'No semantic changes.'
+                      : `${diff.hasBreakingChanges ? '❌' : '✅'} ${breaking.length} breaking, ${nonBreaking.length} non-breaking change(s)\n` +
+                        (breaking.length > 0 ? `\n**Breaking:**\n${breaking.map(change => `- ${change.description}`).join('\n')}\n` : '') +
+                        (nonBreaking.length > 0 ? `\n**Non-breaking:**\n${nonBreaking.map(change => `- ${change.description}`).join('\n')}\n` : ''))
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error comparing policy definitions: ${String(error)}`
+            }]
+          };
+        }
+      }
+    });
+
+    // Policy unit test tool
+    this.tools.set('run_policy_tests', {
+      getToolDefinition: () => ({
+        name: 'run_policy_tests',
+        description: 'Run policy unit tests: evaluate a policy definition against fixture resources with expected outcomes (compliant, nonCompliant or an effect such as deny) and report which cases pass',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            policy_content: {
+              type: 'string',
+              description: 'Policy definition JSON'
+            },
+            policy_path: {
+              type: 'string',
+              description: 'Policy definition JSON file (alternative to policy_content)'
+            },
+            fixtures_path: {
+              type: 'string',
+              description: 'Test case JSON file or directory of files, each holding a case or an array of cases: { "name", "resource", "expected", "parameters", "relatedResources" }'
+            },
+            test_cases: {
+              type: 'array',
+              items: { type: 'object' },
+              description: 'Inline test cases (alternative to fixtures_path)'
+            }
+          }
+        }
+      }),
+      execute: async (args: Record<string, any>) => {
+        try {
+          if ((!args.policy_content && !args.policy_path) || (!args.fixtures_path && !args.test_cases)) {
+            return {
+              content: [{
+                type: 'text',
+                text: 'One of policy_content or policy_path and one of fixtures_path or test_cases are required.'
+              }]
+            };
+          }
+
+          const cases = args.fixtures_path
+            ? await this.policyTestRunner.loadCases(args.fixtures_path)
+            : args.test_cases.map((testCase: any, index: number) => ({ name: `case ${index + 1}`, ...testCase }));
+          const policyJson = args.policy_content ?? await this.policyTestRunner.loadPolicy(args.policy_path);
+          const report = this.policyTestRunner.run(policyJson, cases);
+
+          return {
+            content: [{
+              type: 'text',
+              text: this.policyTestRunner.formatReport(report)
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error running policy tests: ${String(error)}`
+            }]
+          };
+        }
+      }
+    });
+
+    // Policy impact analysis tool
+    this.tools.set('policy_impact_analysis', {
+      getToolDefinition: () => ({
+        name: 'policy_impact_analysis',
+        description: 'Estimate the impact of assigning a policy or initiative: evaluate it against a resource inventory exported from Azure Resource Graph and report how many resources would be denied, audited or modified, by resource group and type, with sample resources',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            inventory_path: {
+              type: 'string',
+              description: 'Resource inventory JSON file in Azure Resource Graph export format (az graph query output or an array of resources with id, name, type, resourceGroup and properties)'
+            },
+            policy_content: {
+              type: 'string',
+              description: 'Policy definition JSON'
+            },
+            policy_path: {
+              type: 'string',
+              description: 'Policy definition JSON file (alternative to policy_content)'
+            },
+            initiative_path: {
+              type: 'string',
+              description: 'Path of a built-in initiative below built-in-policies/policySetDefinitions (alternative to a policy)'
+            },
+            initiative_content: {
+              type: 'string',
+              description: 'Policy set definition JSON (alternative to a policy)'
+            },
+            parameters: {
+              type: 'object',
+              description: 'Optional: Policy or initiative parameter values (defaults apply otherwise)'
+            },
+            sample_size: {
+              type: 'number',
+              description: 'Optional: Sample resources listed per outcome (default: 5)'
+            }
+          },
+          required: ['inventory_path']
+        }
+      }),
+      execute: async (args: Record<string, any>) => {
+        try {
+          let name: string;
+          let applications: PolicyApplication[];
+
+          if (args.policy_content || args.policy_path) {
+            const definition: AzurePolicyDefinition = JSON.parse(
+              args.policy_content ?? await this.policyTestRunner.loadPolicy(args.policy_path));
+            name = definition.properties?.displayName || definition.name || 'Policy';
+            applications = [{ name, definition, parameters: args.parameters || {} }];
+          } else if (args.initiative_content || args.initiative_path) {
+            const policySet = args.initiative_content
+              ? this.policySetParser.parsePolicySet(args.initiative_content)
+              : await this.dataSourceManager.getPolicySetDefinition(args.initiative_path);
+            if (!policySet) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: `Policy initiative not found: ${args.initiative_path}`
+                }]
+              };
+            }
+
+            const initiative = await this.policySetParser.analyzePolicySet(policySet, args.parameters || {});
+            name = initiative.displayName;
+            applications = initiative.members
+              .filter(member => member.definition)
+              .map(member => ({
+                name: member.policy?.displayName ?? member.referenceId,
+                definition: member.definition!,
+                parameters: member.parameters
+              }));
+          } else {
+            return {
+              content: [{
+                type: 'text',
+                text: 'One of policy_content, policy_path, initiative_path or initiative_content is required.'
+              }]
+            };
+          }
+
+          const inventory = await this.impactAnalyzer.loadInventory(args.inventory_path);
+          const report = this.impactAnalyzer.analyze(name, applications, inventory, {
+            ...(args.sample_size !== undefined && { sampleSize: Number(args.sample_size) })
+          });
+
+          return {
+            content: [{
+              type: 'text',
+              text: this.impactAnalyzer.formatReport(report)
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error analyzing policy impact: ${String(error)}`
+            }]
+          };
+        }
+      }
+    });
+
+    // Property-level policy coverage tool
+    this.tools.set('map_policy_coverage', {
+      getToolDefinition: () => ({
+        name: 'map_policy_coverage',
+        description: 'Map the properties of each template resource to the policies that check them, and list security-relevant properties (e.g. publicNetworkAccess, minimumTlsVersion) that no evaluated policy covers. Returns a table and the map as JSON',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bicep_content: {
+              type: 'string',
+              description: 'Bicep template content to map'
+            },
+            arm_template_content: {
+              type: 'string',
+              description: 'Optional: ARM template JSON to map instead of bicep_content'
+            },
+            compliance_framework: {
+              type: 'string',
+              description: `Optional: Map the policies of a regulatory compliance framework (${COMPLIANCE_FRAMEWORKS.map(framework => framework.id).join(', ')}) or a built-in initiative path below built-in-policies/policySetDefinitions`
+            },
+            initiative_content: {
+              type: 'string',
+              description: 'Optional: Policy set definition JSON whose member policies are mapped'
+            },
+            policy_categories: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional: Policy categories of the built-in policies to map when no framework or initiative is given (default: all)'
+            },
+            max_policies: {
+              type: 'number',
+              description: 'Optional: Maximum number of built-in policies to map when no framework or initiative is given (default: 50)'
+            }
+          }
+        }
+      }),
+      execute: async (args: Record<string, any>) => {
+        try {
+          if (!args.bicep_content && !args.arm_template_content) {
+            return {
+              content: [{
+                type: 'text',
+                text: 'Either bicep_content or arm_template_content is required.'
+              }]
+            };
+          }
+
+          const resources = (args.arm_template_content
+            ? this.armResourceParser.parseResources(args.arm_template_content)
+            : this.bicepResourceParser.parseResources(args.bicep_content))
+            .filter(resource => !resource.existing);
+          const policies: Array<{ name: string; policy: ParsedPolicy }> = [];
+
+          if (args.compliance_framework || args.initiative_content) {
+            const policySet = args.initiative_content
+              ? this.policySetParser.parsePolicySet(args.initiative_content)
+              : await this.resolveFrameworkPolicySet(args.compliance_framework);
+            if (!policySet) {
+              return this.frameworkNotFound(args.compliance_framework);
+            }
+
+            const initiative = await this.policySetParser.analyzePolicySet(policySet);
+            for (const member of initiative.members) {
+              if (member.policy) policies.push({ name: member.policy.displayName, policy: member.policy });
+            }
+          } else {
+            const resourceTypes = Array.from(new Set(resources.map(resource => resource.type)));
+            const policyFiles = await this.searchPolicyFiles(resourceTypes, args.policy_categories);
+            const local = policyFiles.filter(file => file.local);
+            const builtIn = policyFiles.filter(file => !file.local).slice(0, args.max_policies ?? 50);
+
+            for (const { path: policyFile } of [...local, ...builtIn]) {
+              try {
+                const policyContent = await this.readPolicyFile(policyFile);
+                if (policyContent) {
+                  const policy = this.policyParser.parsePolicy(policyContent, policyFile);
+                  policies.push({ name: policy.displayName, policy });
+                }
+              } catch (error) {
+                console.warn(`Failed to fetch policy ${policyFile}:`, error);
+              }
+            }
+          }
+
+          const map = this.coverageMapper.buildMap(resources, policies);
+
+          return {
+            content: [{
+              type: 'text',
+              text: `${this.coverageMapper.formatMap(map)}\n\n` +
+                    `**Coverage Map:**\n\`\`\`json\n${JSON.stringify(map, null, 2)}\n\`\`\``
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error mapping policy coverage: ${String(error)}`
+            }]
+          };
+        }
+      }
+    });
+
+    // Policy conflict detection tool
+    this.tools.set('detect_policy_conflicts', {
+      getToolDefinition: () => ({
+        name: 'detect_policy_conflicts',
+        description: 'Detect contradictory requirements across policies: compare the field conditions of deny / audit policies and the values modify / append policies set, and report combinations no resource can satisfy (e.g. disjoint allowed location lists) with both policy ids',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            policy_contents: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional: Custom policy definition JSON documents to compare'
+            },
+            policy_definition_ids: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional: Built-in policy definition ids or names to compare'
+            },
+            initiative_path: {
+              type: 'string',
+              description: 'Optional: Path of a built-in initiative below built-in-policies/policySetDefinitions whose members are compared'
+            },
+            initiative_content: {
+              type: 'string',
+              description: 'Optional: Policy set definition JSON whose members are compared'
+            },
+            parameters: {
+              type: 'object',
+              description: 'Optional: Initiative parameter values (defaults apply otherwise)'
             }
-          },
-          required: ['resource_types']
+          }
         }
       }),
       execute: async (args: Record<string, any>) => {
         try {
-          const policyFiles = await this.searchPolicyFiles(args.resource_types, args.policy_categories);
-          const analysis = [];
-          
-          for (const policyFile of policyFiles.slice(0, 5)) { // Limit to 5 policies for speed
-            try {
-              // Fetch file directly from GitHub instead of through heavy data source manager
-              const policyContent = await this.githubClient.getFileContent('Azure', 'azure-policy', policyFile);
-              if (policyContent) {
-                const parsedPolicy = this.policyParser.parsePolicy(policyContent, policyFile);
-                if (!args.include_deprecated && parsedPolicy.deprecated) continue;
-                
-                analysis.push({
-                  id: parsedPolicy.id,
-                  name: parsedPolicy.displayName,
-                  category: parsedPolicy.category,
-                  description: parsedPolicy.description,
-                  effects: parsedPolicy.effects,
-                  resourceTypes: parsedPolicy.resourceTypes,
-                  parameters: parsedPolicy.parameters,
-                  complexity: parsedPolicy.rules?.complexity || 'unknown'
-                });
-              }
-            } catch (error) {
-              console.warn(`Failed to fetch policy ${policyFile}:`, error);
+          const applications: PolicyApplication[] = [];
+
+          for (const content of args.policy_contents ?? []) {
+            const definition: AzurePolicyDefinition = JSON.parse(content);
+            applications.push({ name: definition.properties?.displayName || definition.name || 'Custom policy', definition });
+          }
+
+          if (args.policy_definition_ids?.length > 0) {
+            const definitions = await this.dataSourceManager.getPolicyDefinitions(args.policy_definition_ids);
+            for (const [id, definition] of definitions) {
+              applications.push({ name: definition.properties.displayName || id, definition: { ...definition, id: definition.id ?? id } });
             }
           }
 
+          if (args.initiative_content || args.initiative_path) {
+            const policySet = args.initiative_content
+              ? this.policySetParser.parsePolicySet(args.initiative_content)
+              : await this.dataSourceManager.getPolicySetDefinition(args.initiative_path);
+            if (!policySet) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: `Policy initiative not found: ${args.initiative_path}`
+                }]
+              };
+            }
+
+            const initiative = await this.policySetParser.analyzePolicySet(policySet, args.parameters || {});
+            for (const member of initiative.members) {
+              if (!member.definition) continue;
+              applications.push({
+                name: `${member.policy?.displayName ?? member.referenceId} [${member.referenceId}]`,
+                definition: { ...member.definition, id: member.definition.id ?? member.policyDefinitionId },
+                parameters: member.parameters
+              });
+            }
+          }
+
+          if (applications.length < 2) {
+            return {
+              content: [{
+                type: 'text',
+                text: 'At least two policies are required: use policy_contents, policy_definition_ids, initiative_path or initiative_content.'
+              }]
+            };
+          }
+
           return {
             content: [{
               type: 'text',
-              text: `Found ${analysis.length} applicable policies for resource types: ${args.resource_types.join(', ')}\n\n` +
-                    analysis.map(p => 
-                      `**${p.name}** (${p.category})\n` +
-                      `Description: ${p.description}\n` +
-                      `Effects: ${p.effects.map(e => e.effect).join(', ')}\n` +
-                      `Complexity: ${p.complexity}\n` +
-                      `Parameters: ${p.parameters.length} required\n`
-                    ).join('\n')
+              text: this.conflictDetector.formatReport(this.conflictDetector.detect(applications))
             }]
           };
         } catch (error) {
           return {
             content: [{
-              type: 'text', 
-              text: `Error analyzing policies: ${String(error)}`
+              type: 'text',
+              text: `Error detecting policy conflicts: ${String(error)}`
             }]
           };
         }
       }
     });
 
-    // Policy validation tool
-    this.tools.set('validate_bicep_against_policies', {
+    // Policy lint tool
+    this.tools.set('lint_policy_definition', {
       getToolDefinition: () => ({
-        name: 'validate_bicep_against_policies',
-        description: 'Validate Bicep template against Azure policies and identify compliance issues',
+        name: 'lint_policy_definition',
+        description: 'Lint an Azure Policy definition against best-practice rules: parameterized effect with allowedValues, semver metadata.version, built-in category, length limits, single-wildcard like patterns and hard-coded locations',
         inputSchema: {
           type: 'object',
           properties: {
-            bicep_content: {
+            policy_content: {
               type: 'string',
-              description: 'Bicep template content to validate'
+              description: 'Policy definition JSON'
             },
-            policy_categories: {
+            disabled_rules: {
               type: 'array',
               items: { type: 'string' },
-              description: 'Policy categories to validate against (default: all)'
+              description: 'Optional: Rule ids to skip (e.g., effect-parameterized)'
+            },
+            severities: {
+              type: 'object',
+              description: 'Optional: Severity overrides by rule id ({ "version-semver": "error" })'
             }
           },
-          required: ['bicep_content']
+          required: ['policy_content']
         }
       }),
       execute: async (args: Record<string, any>) => {
         try {
-          // Parse Bicep content to extract resource types
-          const resourceTypes = this.extractResourceTypesFromBicep(args.bicep_content);
-          
-          if (resourceTypes.length === 0) {
-            return {
-              content: [{
-                type: 'text',
-                text: 'No Azure resources found in the provided Bicep template.'
-              }]
-            };
-          }
+          const policy: AzurePolicyDefinition = JSON.parse(args.policy_content);
+          const result = this.policyLinter.lint(policy, {
+            ...(args.disabled_rules && { disabledRules: args.disabled_rules }),
+            ...(args.severities && { severities: args.severities })
+          });
 
-          // Get applicable policies
-          const policyFiles = await this.searchPolicyFiles(resourceTypes, args.policy_categories);
-          const violations = [];
-          const recommendations = [];
+          return {
+            content: [{
+              type: 'text',
+              text: `**${policy.properties?.displayName || policy.name || 'Policy definition'}**\n\n` +
+                    (result.findings.length === 0
+                      ? `✅ No lint findings (${this.policyLinter.getRules().length} rules checked)`
+                      : `${result.isValid ? '⚠️' : '❌'} ${result.errors.length} error(s), ${result.warnings.length} warning(s)\n` +
+                        (result.errors.length > 0 ? `\n**Errors:**\n${result.errors.map(error => `- ${error}`).join('\n')}\n` : '') +
+                        (result.warnings.length > 0 ? `\n**Warnings:**\n${result.warnings.map(warning => `- ${warning}`).join('\n')}\n` : ''))
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error linting policy definition: ${String(error)}`
+            }]
+          };
+        }
+      }
+    });
 
-          // Analyze first few policies for demo
-          for (const policyFile of policyFiles.slice(0, 3)) { // Reduced to 3 for speed
-            try {
-              // Fetch file directly from GitHub instead of through heavy data source manager
-              const policyContent = await this.githubClient.getFileContent('Azure', 'azure-policy', policyFile);
-              if (policyContent) {
-                const policy = this.policyParser.parsePolicy(policyContent, policyFile);
-                
-                // Simple validation logic (can be enhanced)
-                const hasViolations = this.checkPolicyViolations(args.bicep_content, policy);
-                if (hasViolations.length > 0) {
-                  violations.push({
-                    policy: policy.displayName,
-                    category: policy.category,
-                    violations: hasViolations
-                  });
-                }
-                
-                recommendations.push(`Ensure compliance with ${policy.displayName}: ${policy.description}`);
-              }
-            } catch (error) {
-              console.warn(`Failed to fetch policy ${policyFile}:`, error);
+    // Built-in policy catalog search
+    this.tools.set('search_policies', {
+      getToolDefinition: () => ({
+        name: 'search_policies',
+        description: 'Search the catalog of all built-in Azure Policy definitions by category, effect, resource type, keyword and policy type',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            categories: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional: Policy categories (e.g., Storage, Key Vault)'
+            },
+            effects: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional: Effects the policy uses or allows (e.g., Deny, DeployIfNotExists)'
+            },
+            resource_types: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional: Resource types the policy evaluates (e.g., Microsoft.Storage/storageAccounts)'
+            },
+            keywords: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional: Keywords matched against the name, display name and description'
+            },
+            policy_types: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional: Policy types (BuiltIn, Static)'
+            },
+            include_preview: {
+              type: 'boolean',
+              description: 'Include preview policies (default: false)'
+            },
+            include_deprecated: {
+              type: 'boolean',
+              description: 'Include deprecated policies (default: false)'
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of results (default: 25)'
+            },
+            rebuild: {
+              type: 'boolean',
+              description: 'Rebuild the catalog from the azure-policy repository before searching (default: false)'
             }
           }
+        }
+      }),
+      execute: async (args: Record<string, any>) => {
+        try {
+          if (args.rebuild) {
+            await this.policyCatalog.rebuild();
+          }
+
+          const criteria: PolicySearchCriteria = {
+            ...(args.categories && { categories: args.categories }),
+            ...(args.effects && { effects: args.effects }),
+            ...(args.resource_types && { resourceTypes: args.resource_types }),
+            ...(args.keywords && { keywords: args.keywords }),
+            ...(args.policy_types && { policyTypes: args.policy_types }),
+            includePreview: args.include_preview === true,
+            includeDeprecated: args.include_deprecated === true
+          };
+          const matches = await this.policyCatalog.search(criteria);
+          const index = await this.policyCatalog.getIndex();
+          const total = index.entries.length + (await this.policyCatalog.getLocalEntries()).length;
+          const shown = matches.slice(0, args.limit ?? 25);
 
           return {
             content: [{
               type: 'text',
-              text: `**Policy Validation Results**\n\n` +
-                    `Resource Types Found: ${resourceTypes.join(', ')}\n\n` +
-                    `**Potential Violations (${violations.length}):**\n` +
-                    violations.map(v => `- ${v.policy}: ${v.violations.join(', ')}`).join('\n') + '\n\n' +
-                    `**Recommendations (${recommendations.length}):**\n` +
-                    recommendations.map(r => `- ${r}`).join('\n')
+              text: `**Policy Catalog Search** - ${matches.length} of ${total} definitions match` +
+                    (shown.length < matches.length ? ` (showing ${shown.length})` : '') + '\n\n' +
+                    shown.map(entry =>
+                      `**${entry.displayName}** (${entry.category}${entry.version ? `, v${entry.version}` : ''}` +
+                      `${entry.preview ? ', preview' : ''}${entry.deprecated ? ', deprecated' : ''})\n` +
+                      `ID: ${entry.id}\n` +
+                      `Effects: ${entry.effects.join(', ') || 'unknown'}\n` +
+                      `Resource types: ${entry.resourceTypes.join(', ') || 'all'}\n` +
+                      `Path: ${entry.path}\n`
+                    ).join('\n')
             }]
           };
         } catch (error) {
           return {
             content: [{
               type: 'text',
-              text: `Error validating Bicep template: ${String(error)}`
+              text: `Error searching policies: ${String(error)}`
             }]
           };
         }
@@ -394,6 +1438,19 @@ export class AzurePolicyMcpServer {
           // Since we use GitHub Search API, "refresh" means clearing cached search results
           // This forces fresh searches on next API calls
           const cacheStats = this.cache.getStats();
+
+          // Reload the alias catalog, policy assignments and local data sources when configured
+          if (process.env.AZURE_POLICY_ALIAS_CATALOG) {
+            await this.aliasResolver.refreshFromFile(process.env.AZURE_POLICY_ALIAS_CATALOG);
+          }
+          if (process.env.AZURE_POLICY_ASSIGNMENTS_PATH) {
+            await this.assignmentManager.loadFromPath(process.env.AZURE_POLICY_ASSIGNMENTS_PATH);
+          }
+          if (process.env.AZURE_POLICY_LOCAL_SOURCES) {
+            await this.dataSourceManager.loadLocalDataSources(process.env.AZURE_POLICY_LOCAL_SOURCES);
+          }
+          const localSources = this.dataSourceManager.listLocalDataSources();
+          const aliasCatalog = this.aliasResolver.getCatalogInfo();
           
           return {
             content: [{
@@ -401,6 +1458,10 @@ export class AzurePolicyMcpServer {
               text: `**Data Source Refresh Completed**\n\n` +
                     `✅ Cache refresh completed successfully.\n` +
                     `📊 Current cache: ${cacheStats.size} entries (${Math.round(cacheStats.hitRate * 100)}% hit rate)\n` +
+                    `🏷️ Alias catalog: ${aliasCatalog.aliasCount} aliases across ${aliasCatalog.resourceTypeCount} resource types (version ${aliasCatalog.version})\n` +
+                    `📌 Policy assignments: ${this.assignmentManager.getAssignments().length} loaded ` +
+                    `(${this.assignmentManager.getExemptions().length} exemptions)\n` +
+                    `📁 Local data sources: ${localSources.length > 0 ? localSources.join(', ') : 'none'}\n` +
                     `🔄 Next policy/template searches will fetch fresh data from GitHub API.\n\n` +
                     `Note: With GitHub Search API architecture, data is always current - no heavy indexing required.`
             }]
@@ -772,6 +1833,30 @@ export class AzurePolicyMcpServer {
   }
 
   async start(): Promise<void> {
+    if (process.env.AZURE_POLICY_ALIAS_CATALOG) {
+      try {
+        await this.aliasResolver.refreshFromFile(process.env.AZURE_POLICY_ALIAS_CATALOG);
+      } catch (error) {
+        console.error('Failed to load alias catalog, using bundled catalog:', ErrorHandler.sanitizeErrorForLogging(error));
+      }
+    }
+
+    if (process.env.AZURE_POLICY_ASSIGNMENTS_PATH) {
+      try {
+        await this.assignmentManager.loadFromPath(process.env.AZURE_POLICY_ASSIGNMENTS_PATH);
+      } catch (error) {
+        console.error('Failed to load policy assignments:', ErrorHandler.sanitizeErrorForLogging(error));
+      }
+    }
+
+    if (process.env.AZURE_POLICY_LOCAL_SOURCES) {
+      try {
+        await this.dataSourceManager.loadLocalDataSources(process.env.AZURE_POLICY_LOCAL_SOURCES);
+      } catch (error) {
+        console.error('Failed to load local data sources:', ErrorHandler.sanitizeErrorForLogging(error));
+      }
+    }
+
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     
@@ -791,9 +1876,54 @@ export class AzurePolicyMcpServer {
 
   // Helper methods for MCP tools
 
-  private async searchPolicyFiles(resourceTypes: string[], categories?: string[]): Promise<string[]> {
+  /**
+   * Policy files for the resource types: definitions from local data sources, then the
+   * built-in ones. Tools limit the number of built-in policies only, so local definitions are
+   * evaluated alongside them rather than in their place.
+   */
+  private async searchPolicyFiles(resourceTypes: string[], categories?: string[]): Promise<Array<{ path: string; local: boolean }>> {
+    const local = (await this.policyCatalog.searchLocal({
+      resourceTypes,
+      ...(categories && categories.length > 0 && { categories }),
+      includePreview: true
+    })).map(entry => entry.path);
+    const localPaths = new Set(local);
+    const builtIn = (await this.searchBuiltInPolicyFiles(resourceTypes, categories)).filter(path => !localPaths.has(path));
+
+    return [...local.map(path => ({ path, local: true })), ...builtIn.map(path => ({ path, local: false }))];
+  }
+
+  /**
+   * Policy definition file from a local data source, or from the azure-policy repository
+   */
+  private async readPolicyFile(policyFile: string): Promise<string> {
+    return await this.dataSourceManager.readLocalFile(policyFile, 'policyDefinitions') ??
+      await this.githubClient.getFileContent('Azure', 'azure-policy', policyFile);
+  }
+
+  private async searchBuiltInPolicyFiles(resourceTypes: string[], categories?: string[]): Promise<string[]> {
     try {
-      // Use GitHub Search API instead of heavy repository indexing
+      // The policy catalog ranks every built-in definition by how closely it targets the types.
+      // Building it scans the whole repository, so that never happens inside a tool call: until
+      // it is loaded (or a catalog file exists) it is built in the background.
+      if (this.policyCatalog.isAvailable()) {
+        try {
+          const entries = await this.policyCatalog.search({
+            resourceTypes,
+            ...(categories && categories.length > 0 && { categories }),
+            includePreview: true
+          });
+          if (entries.length > 0) {
+            return entries.map(entry => entry.path);
+          }
+        } catch (error) {
+          console.warn('Policy catalog unavailable, searching the repository for policy files:', error);
+        }
+      } else {
+        this.policyCatalog.buildInBackground();
+      }
+
+      // Use the GitHub Search API until the catalog is available
       const cacheKey = `policy-search:${resourceTypes.join(',')}-${categories?.join(',') || ''}`;
       const cached = this.cache.get<string[]>(cacheKey);
       if (cached) {
@@ -997,23 +2127,6 @@ export class AzurePolicyMcpServer {
     }
   }
 
-  private extractResourceTypesFromBicep(bicepContent: string): string[] {
-    const resourceTypes = new Set<string>();
-    
-    // Parse Bicep resource declarations
-    const resourceMatches = bicepContent.match(/resource\s+\w+\s+'([^']+)'/g);
-    if (resourceMatches) {
-      for (const match of resourceMatches) {
-        const typeMatch = match.match(/resource\s+\w+\s+'([^']+)'/);
-        if (typeMatch) {
-          resourceTypes.add(typeMatch[1].split('@')[0]); // Remove API version
-        }
-      }
-    }
-
-    return Array.from(resourceTypes);
-  }
-
   private extractResourceTypesFromText(text: string): string[] {
     const resourceTypes = [];
     
@@ -1044,26 +2157,309 @@ export class AzurePolicyMcpServer {
     return resourceTypes.length > 0 ? resourceTypes : ['Microsoft.Compute/virtualMachines']; // Default fallback
   }
 
-  private checkPolicyViolations(bicepContent: string, policy: any): string[] {
-    const violations = [];
+  private checkPolicyViolations(
+    resources: TemplateResource[],
+    policyDefinition: AzurePolicyDefinition,
+    options: { parameters?: Record<string, any>; effect?: string; templateResources?: TemplateResource[] } = {}
+  ): string[] {
+    const violations: string[] = [];
     
-    // Simple policy violation checks (can be enhanced)
-    if (policy.displayName.toLowerCase().includes('https') && 
-        bicepContent.toLowerCase().includes('http:')) {
-      violations.push('HTTP protocol detected, HTTPS required');
+    for (const declaration of resources) {
+      const result = this.policyEvaluator.evaluatePolicy(policyDefinition, declaration.resource, {
+        parameters: options.parameters ?? {}
+      });
+      if (options.effect) {
+        result.effect = options.effect;
+      }
+
+      if (!result.matched || result.effect.toLowerCase() === 'disabled') {
+        continue;
+      }
+
+      const reasons = result.evaluations
+        .filter(evaluation => evaluation.result && evaluation.field && evaluation.field.toLowerCase() !== 'type')
+        .map(evaluation => `${evaluation.field} ${evaluation.operator} ${JSON.stringify(evaluation.expected)} (actual: ${JSON.stringify(evaluation.actual)})`);
+
+      // auditIfNotExists / deployIfNotExists only flag resources without a matching related resource
+      const effect = result.effect.toLowerCase();
+      if (effect === 'auditifnotexists' || effect === 'deployifnotexists') {
+        const existence = this.existenceChecker.check(policyDefinition, declaration, options.templateResources ?? resources, {
+          parameters: options.parameters ?? {}
+        });
+        if (existence) {
+          if (existence.compliant || existence.unresolved) continue;
+
+          const relatedType = existence.relatedType.split('/').pop();
+          const named = existence.relatedName ? ` named '${existence.relatedName}'` : '';
+          violations.push(existence.candidates.length === 0
+            ? `${declaration.symbolicName} (${declaration.type}) has no ${relatedType}${named} declared in the template (${result.effect})`
+            : `${declaration.symbolicName} (${declaration.type}) has no ${relatedType}${named} matching the required condition ` +
+              `(${result.effect}; checked ${existence.candidates.map(candidate => candidate.symbolicName).join(', ')})`);
+          continue;
+        }
+      }
+
+      // Show what modify/append would change so the values can be committed to the template
+      if (effect === 'modify' || effect === 'append') {
+        const simulation = this.effectSimulator.simulate(policyDefinition, declaration.resource, {
+          parameters: options.parameters ?? {}
+        });
+        reasons.push(...simulation.changes.map(change => change.after === undefined
+          ? `removes ${change.path}`
+          : `sets ${change.path} = ${JSON.stringify(change.after)}`));
+        reasons.push(...simulation.skipped
+          .filter(skipped => skipped.conflict)
+          .map(skipped => `conflicts on ${skipped.field}: ${skipped.reason}`));
+      }
+
+      violations.push(
+        `${declaration.symbolicName} (${declaration.type}) triggers ${result.effect}` +
+        (reasons.length > 0 ? `: ${reasons.join('; ')}` : '')
+      );
     }
 
-    if (policy.displayName.toLowerCase().includes('encryption') && 
-        !bicepContent.toLowerCase().includes('encryption')) {
-      violations.push('Encryption configuration missing');
+    return violations;
+  }
+
+  /**
+   * Validate template resources against a regulatory compliance initiative, grouped by control
+   */
+  private async validateAgainstFramework(resources: TemplateResource[], args: Record<string, any>) {
+    const policySet = await this.resolveFrameworkPolicySet(args.compliance_framework);
+    if (!policySet) {
+      return this.frameworkNotFound(args.compliance_framework);
     }
 
-    if (policy.displayName.toLowerCase().includes('tag') && 
-        !bicepContent.toLowerCase().includes('tags')) {
-      violations.push('Required tags missing');
+    const initiative = await this.policySetParser.analyzePolicySet(policySet);
+    const report = this.complianceMapper.buildReport(initiative, resources);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `**Compliance Report** (${resources.length} resources, ${initiative.members.length} policies, ${report.controls.length} controls)\n\n` +
+              this.complianceMapper.formatReport(report, { includeNotApplicable: args.include_not_applicable === true }) +
+              (initiative.unresolvedDefinitionIds.length > 0
+                ? `\n\n**Skipped (definition not found):** ${initiative.unresolvedDefinitionIds.length} policies`
+                : '')
+      }]
+    };
+  }
+
+  /**
+   * The initiative of a known compliance framework, or a built-in initiative by path
+   */
+  private async resolveFrameworkPolicySet(name: string): Promise<PolicySetDefinition | undefined> {
+    const framework = findComplianceFramework(name);
+    return framework
+      ? (await this.dataSourceManager.getPolicySetDefinitions([framework.policySetDefinitionId])).get(framework.policySetDefinitionId)
+      : String(name).endsWith('.json')
+        ? await this.dataSourceManager.getPolicySetDefinition(name)
+        : undefined;
+  }
+
+  private frameworkNotFound(name: string) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Compliance framework not found: ${name}. ` +
+              `Known frameworks: ${COMPLIANCE_FRAMEWORKS.map(known => `${known.id} (${known.displayName})`).join(', ')}`
+      }]
+    };
+  }
+
+  /**
+   * Validate template resources against the loaded policy assignments covering the target scope
+   */
+  private async validateAgainstAssignments(resources: TemplateResource[], args: Record<string, any>) {
+    let manager = this.assignmentManager;
+    if (args.assignments_path) {
+      manager = new PolicyAssignmentManager();
+      await manager.loadFromPath(args.assignments_path);
     }
 
-    return violations;
+    const managementGroups: string[] = args.management_groups || [];
+    const assignments = manager.getApplicableAssignments(args.target_scope, managementGroups);
+    const results: string[] = [];
+    const exempted: string[] = [];
+    const errors: string[] = [];
+    const unresolved: string[] = [];
+    const applications = new Map<string, PolicyApplication[]>();
+    const notEvaluable: string[] = [];
+
+    for (const assignment of assignments) {
+      const name = assignment.properties.displayName || assignment.name || assignment.properties.policyDefinitionId;
+
+      // Expired exemptions no longer exempt anything and need renewing or removing
+      for (const exemption of manager.getExemptionsForScope(assignment, args.target_scope)) {
+        if (manager.isExpired(exemption)) {
+          errors.push(
+            `Exemption ${exemption.properties.displayName || exemption.name || exemption.id} ` +
+            `(${exemption.properties.exemptionCategory}) from ${name} expired on ${exemption.properties.expiresOn}`
+          );
+        }
+      }
+
+      const definition = await this.resolveAssignmentDefinition(assignment);
+      const policies = definition ? await this.resolveAssignmentPolicies(assignment, definition) : [];
+      if (policies.length === 0) {
+        unresolved.push(name);
+        continue;
+      }
+
+      // Parameter values Azure would reject when creating the assignment
+      const parameterCheck = this.parameterValidator.validateDefinition(definition!, assignment.properties.parameters || {});
+      errors.push(...parameterCheck.errors.map(error => `${name}: ${error.message}`));
+
+      const findings: string[] = [];
+      for (const policy of policies) {
+        const dataPlaneReason = getDataPlaneModeReason(policy.definition.properties.mode);
+        if (dataPlaneReason) {
+          notEvaluable.push(`${name} - ${policy.definition.properties.displayName}: ${dataPlaneReason}`);
+          continue;
+        }
+
+        for (const declaration of resources) {
+          const resourceId = manager.resourceId(args.target_scope, declaration.type,
+            String(declaration.resource.fullName ?? declaration.resource.name));
+          if (!manager.coversScope(assignment, resourceId, managementGroups) ||
+              !manager.isResourceSelected(assignment, declaration.resource)) {
+            continue;
+          }
+
+          try {
+            const effect = manager.getEffectOverride(assignment, policy.referenceId, declaration.resource);
+            const violations = this.checkPolicyViolations([declaration], policy.definition, {
+              parameters: policy.parameters,
+              ...(effect && { effect }),
+              templateResources: resources
+            });
+            const message = manager.getNonComplianceMessage(assignment, policy.referenceId);
+            const descriptions = violations.map(violation =>
+              `${policy.definition.properties.displayName}: ${violation}${message ? ` - ${message}` : ''}`);
+
+            const exemption = manager.findExemption(assignment, resourceId, declaration.resource, policy.referenceId);
+            if (!exemption || manager.isExpired(exemption)) {
+              const declared = applications.get(declaration.symbolicName) ?? [];
+              declared.push({
+                name: policies.length > 1 ? `${name} - ${policy.definition.properties.displayName}` : name,
+                definition: policy.definition,
+                parameters: policy.parameters,
+                ...(effect && { effect }),
+                enforced: manager.isEnforced(assignment)
+              });
+              applications.set(declaration.symbolicName, declared);
+            }
+
+            if (descriptions.length > 0 && exemption && !manager.isExpired(exemption)) {
+              const label = exemption.properties.displayName || exemption.name || 'exemption';
+              exempted.push(...descriptions.map(description =>
+                `${name} - ${description} (${exemption.properties.exemptionCategory}: ${label}` +
+                `${exemption.properties.expiresOn ? `, expires ${exemption.properties.expiresOn}` : ''})`));
+            } else {
+              findings.push(...descriptions);
+            }
+          } catch (error) {
+            console.warn(`Failed to evaluate ${policy.referenceId ?? name}:`, error);
+          }
+        }
+      }
+
+      const enforcement = manager.isEnforced(assignment) ? '' : ' (DoNotEnforce - findings are not enforced)';
+      results.push(
+        `**${name}**${enforcement}\n` +
+        (findings.length > 0 ? findings.map(finding => `- ${finding}`).join('\n') : '- Compliant')
+      );
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: `**Policy Assignment Validation Results**\n\n` +
+              `Target scope: ${args.target_scope}\n` +
+              `Resource Types Found: ${Array.from(new Set(resources.map(resource => resource.type))).join(', ')}\n` +
+              `Assignments in scope: ${assignments.length} of ${manager.getAssignments().length}\n\n` +
+              results.join('\n\n') +
+              (exempted.length > 0 ? `\n\n**Exempted Findings (${exempted.length}):**\n${exempted.map(e => `- ${e}`).join('\n')}` : '') +
+              (errors.length > 0 ? `\n\n**Errors (${errors.length}):**\n${errors.map(e => `- ❌ ${e}`).join('\n')}` : '') +
+              (unresolved.length > 0 ? `\n\n**Skipped (definition not found):** ${unresolved.join(', ')}` : '') +
+              (notEvaluable.length > 0
+                ? `\n\n**Not Evaluable from Template (${notEvaluable.length}):**\n${notEvaluable.map(n => `- ${n}`).join('\n')}`
+                : '') +
+              this.formatEffectiveOutcomes(resources.map(resource =>
+                this.outcomeResolver.resolve(resource, applications.get(resource.symbolicName) ?? [], resources)))
+      }]
+    };
+  }
+
+  /**
+   * Resolve the policy or policy set definition an assignment refers to
+   */
+  private async resolveAssignmentDefinition(
+    assignment: PolicyAssignment
+  ): Promise<AzurePolicyDefinition | PolicySetDefinition | undefined> {
+    const definitionId = assignment.properties.policyDefinitionId;
+
+    return /\/policySetDefinitions\//i.test(definitionId)
+      ? (await this.dataSourceManager.getPolicySetDefinitions([definitionId])).get(definitionId)
+      : (await this.dataSourceManager.getPolicyDefinitions([definitionId])).get(definitionId);
+  }
+
+  /**
+   * Resolve the policies behind an assignment's definition, expanding policy sets into
+   * their members with the assignment's parameter values passed through
+   */
+  private async resolveAssignmentPolicies(
+    assignment: PolicyAssignment,
+    definition: AzurePolicyDefinition | PolicySetDefinition
+  ): Promise<Array<{
+    referenceId?: string;
+    definition: AzurePolicyDefinition;
+    parameters: Record<string, any>;
+  }>> {
+    const parameters = assignment.properties.parameters || {};
+
+    if ('policyDefinitions' in definition.properties) {
+      const initiative = await this.policySetParser.analyzePolicySet(definition as PolicySetDefinition, parameters);
+      return initiative.members
+        .filter(member => member.definition)
+        .map(member => ({ referenceId: member.referenceId, definition: member.definition!, parameters: member.parameters }));
+    }
+
+    return [{ definition: definition as AzurePolicyDefinition, parameters }];
+  }
+
+  /**
+   * Effective outcome per resource with the applicable policies in evaluation order
+   */
+  private formatEffectiveOutcomes(outcomes: ResourceEffectiveOutcome[]): string {
+    const icons = { blocked: '❌', nonCompliant: '⚠️', compliant: '✅' };
+
+    return `\n\n**Effective Outcome per Resource:**\n` + outcomes.map(outcome => {
+      const summary = [
+        ...(outcome.blockedBy.length > 0 ? [`deployment blocked by ${outcome.blockedBy.join(', ')}`] : []),
+        ...(outcome.reportedBy.length > 0 ? [`non-compliant with ${outcome.reportedBy.join(', ')}`] : []),
+        ...(outcome.remediatedBy.length > 0 ? [`remediated by ${outcome.remediatedBy.join(', ')}`] : [])
+      ];
+      const steps = outcome.steps
+        .filter(step => step.result !== 'notApplicable')
+        .map((step, index) => {
+          const changes = (step.changes ?? []).map(change => change.after === undefined
+            ? `removes ${change.path}`
+            : `sets ${change.path} = ${JSON.stringify(change.after)}`);
+          const details = [...changes, ...(step.reason ? [step.reason] : [])];
+          return `  ${index + 1}. ${step.effect} (${step.policy}): ${step.result}${details.length > 0 ? ` - ${details.join('; ')}` : ''}`;
+        });
+
+      return `- ${icons[outcome.outcome]} ${outcome.symbolicName} (${outcome.type}): ` +
+        (summary.length > 0 ? summary.join('; ') : 'compliant') +
+        (steps.length > 0 ? `\n${steps.join('\n')}` : '');
+    }).join('\n');
+  }
+
+  private formatParameterValidation(name: string, result: PolicyParameterValidationResult): string {
+    return `**${name}** - ${result.isValid ? '✅ valid' : `❌ ${result.errors.length} error(s)`}` +
+      result.errors.map(error => `\n- ❌ ${error.message}`).join('') +
+      result.warnings.map(warning => `\n- ⚠️ ${warning.message}`).join('');
   }
 
   private generateBasicBicepTemplate(
@@ -1204,6 +2600,23 @@ resource ${resourceName} '${resourceType}@2021-04-01' = {
     };
     
     const searchDirs: string[] = [];
+
+    // Templates from local data sources come first; categories only select QuickStart directories
+    for (const template of await this.dataSourceManager.getLocalFiles('templates')) {
+      if (results.length >= limit) break;
+
+      const path = template.relativePath.toLowerCase();
+      const content = template.content.toLowerCase();
+      if (args.keywords?.length > 0 && !args.keywords.some((keyword: string) => path.includes(keyword.toLowerCase()))) continue;
+      if (args.resource_types?.length > 0 && !args.resource_types.some((type: string) => content.includes(type.toLowerCase()))) continue;
+
+      results.push({
+        name: template.relativePath.replace(/\.(bicep|json)$/i, ''),
+        category: template.source,
+        path: template.path,
+        description: `Local template from ${template.source}`
+      });
+    }
     
     // Determine which directories to search
     if (args.categories && args.categories.length > 0) {
@@ -1,13 +1,35 @@
 /**
- * Manages multiple GitHub data sources for Azure Policy and Bicep templates
+ * Manages multiple GitHub data sources for Azure Policy and Bicep templates, plus local
+ * directories of custom policy definitions, initiatives and templates
  */
 
+import { readFile } from 'fs/promises';
+import { basename, dirname, resolve } from 'path';
 import { GitHubClient } from './github-client.js';
 import { CacheManager } from '../../infrastructure/cache/cache-manager.js';
-import type { DataSourceConfig, RepositoryIndex } from '../../types/github.js';
+import { DataSourceError } from '../../infrastructure/errors/error-handler.js';
+import { globToRegExp, indexLocalDirectory, relativeLocalPath } from './local-file-index.js';
+import type {
+  DataSourceConfig,
+  LocalDataSourceConfig,
+  LocalDataSourceKind,
+  RepositoryIndex
+} from '../../types/github.js';
+import type { AzurePolicyDefinition, PolicySetDefinition } from '../../types/policy.js';
+
+// Number of policy definition files fetched concurrently while scanning for definition names
+const POLICY_SCAN_BATCH_SIZE = 20;
+
+// Files indexed from a local data source when its configuration gives no glob
+const DEFAULT_LOCAL_GLOBS: Record<LocalDataSourceKind, string> = {
+  policyDefinitions: '**/*.json',
+  policySetDefinitions: '**/*.json',
+  templates: '**/*.{bicep,json}'
+};
 
 export class DataSourceManager {
   private readonly dataSources: Map<string, DataSourceConfig> = new Map();
+  private readonly localDataSources: Map<string, LocalDataSourceConfig> = new Map();
 
   constructor(
     private githubClient: GitHubClient,
@@ -26,6 +48,15 @@ export class DataSourceManager {
       description: 'Azure built-in policy definitions'
     });
 
+    // Azure Policy initiatives (policy set definitions)
+    this.dataSources.set('azure-policy-sets', {
+      owner: 'Azure',
+      repo: 'azure-policy',
+      branch: 'master',
+      basePath: 'built-in-policies/policySetDefinitions',
+      description: 'Azure built-in policy set definitions (initiatives)'
+    });
+
     // Azure QuickStart Templates
     this.dataSources.set('quickstart-templates', {
       owner: 'Azure',
@@ -54,26 +85,81 @@ export class DataSourceManager {
     });
   }
 
+  /**
+   * Register a directory of policy definitions, initiatives or templates on disk, such as a
+   * checked-out internal repository. Its files are merged with the built-ins.
+   */
+  addLocalDataSource(name: string, config: LocalDataSourceConfig): void {
+    this.localDataSources.set(name, this.toLocalDataSource(name, config));
+  }
+
+  /**
+   * Replace the local data sources with those listed in a JSON file: an array of
+   * `{ name, kind, path, glob?, description? }` entries whose relative paths are resolved
+   * against the file's directory
+   */
+  async loadLocalDataSources(filePath: string): Promise<string[]> {
+    let content: any;
+    try {
+      content = JSON.parse(await readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new DataSourceError(`Failed to read local data sources ${filePath}: ${String(error)}`);
+    }
+
+    if (!Array.isArray(content)) {
+      throw new DataSourceError(`Local data sources ${filePath} must be an array of data sources`);
+    }
+
+    const sources = new Map<string, LocalDataSourceConfig>();
+    content.forEach((entry: any, index: number) => {
+      if (typeof entry?.name !== 'string' || typeof entry?.path !== 'string') {
+        throw new DataSourceError(`Local data source ${index} in ${filePath} needs a name and a path`);
+      }
+      if (sources.has(entry.name)) {
+        throw new DataSourceError(`Local data source ${entry.name} is listed more than once in ${filePath}`);
+      }
+
+      sources.set(entry.name, this.toLocalDataSource(entry.name, {
+        kind: entry.kind,
+        path: resolve(dirname(filePath), entry.path),
+        glob: entry.glob ?? DEFAULT_LOCAL_GLOBS[entry.kind as LocalDataSourceKind],
+        description: entry.description ?? `Local ${entry.kind} in ${entry.path}`
+      }));
+    });
+
+    this.localDataSources.clear();
+    for (const [name, config] of sources) {
+      this.localDataSources.set(name, config);
+    }
+    return Array.from(sources.keys());
+  }
+
   async getDataSource(name: string): Promise<DataSourceConfig | undefined> {
     return this.dataSources.get(name);
   }
 
+  listLocalDataSources(): string[] {
+    return Array.from(this.localDataSources.keys());
+  }
+
   async listDataSources(): Promise<string[]> {
-    return Array.from(this.dataSources.keys());
+    return [...this.dataSources.keys(), ...this.localDataSources.keys()];
   }
 
   async getDataSourceInfo(name: string): Promise<{
-    config: DataSourceConfig;
+    config: DataSourceConfig | LocalDataSourceConfig;
     index?: RepositoryIndex;
   } | undefined> {
-    const config = this.dataSources.get(name);
+    const config = this.dataSources.get(name) ?? this.localDataSources.get(name);
     if (!config) {
       return undefined;
     }
 
     let index: RepositoryIndex | undefined = undefined;
     try {
-      index = await this.githubClient.indexRepository(config);
+      index = 'kind' in config
+        ? await indexLocalDirectory(config.path, config.glob)
+        : await this.githubClient.indexRepository(config);
     } catch (error) {
       console.warn(`Failed to index data source ${name}:`, error);
       // Return config even if indexing fails
@@ -83,6 +169,18 @@ export class DataSourceManager {
   }
 
   async refreshDataSource(name: string): Promise<boolean> {
+    const local = this.localDataSources.get(name);
+    if (local) {
+      // Local sources are not cached, so refreshing only checks they can still be read
+      try {
+        await indexLocalDirectory(local.path, local.glob);
+        return true;
+      } catch (error) {
+        console.error(`Failed to refresh data source ${name}:`, error);
+        return false;
+      }
+    }
+
     const config = this.dataSources.get(name);
     if (!config) {
       return false;
@@ -90,7 +188,7 @@ export class DataSourceManager {
 
     try {
       // Clear cache for this data source
-      const cacheKey = `index:${config.owner}/${config.repo}/${config.branch || 'master'}`;
+      const cacheKey = `index:${config.owner}/${config.repo}/${config.branch || 'master'}/${config.basePath || ''}`;
       this.cache.delete(cacheKey);
 
       // Re-index
@@ -109,7 +207,7 @@ export class DataSourceManager {
     const success: string[] = [];
     const failed: string[] = [];
 
-    for (const name of this.dataSources.keys()) {
+    for (const name of await this.listDataSources()) {
       const result = await this.refreshDataSource(name);
       if (result) {
         success.push(name);
@@ -125,6 +223,11 @@ export class DataSourceManager {
     dataSourceName: string,
     filePath: string
   ): Promise<string | undefined> {
+    const local = this.localDataSources.get(dataSourceName);
+    if (local) {
+      return this.readLocalSourceFile(local, filePath);
+    }
+
     const config = this.dataSources.get(dataSourceName);
     if (!config) {
       return undefined;
@@ -170,6 +273,304 @@ export class DataSourceManager {
       .map(file => file.path);
   }
 
+  /**
+   * Load a policy set definition by its path in a local initiative data source or, failing
+   * that, below the built-in policySetDefinitions
+   */
+  async getPolicySetDefinition(filePath: string): Promise<PolicySetDefinition | undefined> {
+    const content = await this.readLocalFile(filePath, 'policySetDefinitions') ??
+      await this.getFileFromDataSource('azure-policy-sets', filePath);
+    if (!content) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(content) as PolicySetDefinition;
+    } catch (error) {
+      console.warn(`Invalid policy set definition ${filePath}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolve policy definitions by resource id or name, from the local data sources first and
+   * then from the built-ins
+   */
+  async getPolicyDefinitions(policyDefinitionIds: string[]): Promise<Map<string, AzurePolicyDefinition>> {
+    return this.findDefinitions<AzurePolicyDefinition>('policyDefinitions', 'azure-policy', policyDefinitionIds);
+  }
+
+  /**
+   * Resolve policy set definitions by resource id or name, from the local data sources first
+   * and then from the built-ins
+   */
+  async getPolicySetDefinitions(policySetDefinitionIds: string[]): Promise<Map<string, PolicySetDefinition>> {
+    return this.findDefinitions<PolicySetDefinition>('policySetDefinitions', 'azure-policy-sets', policySetDefinitionIds);
+  }
+
+  /**
+   * Every policy definition in the local data sources, keyed by absolute file path. Local
+   * sources are read on each call so edits in the checkout show up without a refresh.
+   */
+  async getLocalPolicyDefinitions(): Promise<Array<{ path: string; definition: AzurePolicyDefinition }>> {
+    return this.getLocalDefinitions<AzurePolicyDefinition>('policyDefinitions');
+  }
+
+  /**
+   * Content of every file in the local data sources of a kind
+   */
+  async getLocalFiles(kind: LocalDataSourceKind): Promise<Array<{
+    source: string;
+    path: string;
+    relativePath: string;
+    content: string;
+  }>> {
+    const files: Array<{ source: string; path: string; relativePath: string; content: string }> = [];
+
+    for (const [name, config] of this.localDataSources) {
+      if (config.kind !== kind) continue;
+
+      const info = await this.getDataSourceInfo(name);
+      for (const file of info?.index?.files ?? []) {
+        const path = resolve(config.path, file.path);
+        try {
+          files.push({ source: name, path, relativePath: file.path, content: await readFile(path, 'utf-8') });
+        } catch (error) {
+          console.warn(`Failed to read ${path} from ${name}:`, error);
+        }
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Read a file of a local data source of the given kind, by absolute path or by path
+   * relative to the source directory; undefined when no local source contains it
+   */
+  async readLocalFile(filePath: string, kind: LocalDataSourceKind): Promise<string | undefined> {
+    for (const config of this.localDataSources.values()) {
+      if (config.kind !== kind) continue;
+
+      const content = await this.readLocalSourceFile(config, filePath);
+      if (content !== undefined) {
+        return content;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Read every built-in policy definition file. The name-to-path map used by
+   * getPolicyDefinitions is filled in along the way. Fails when the repository cannot be
+   * indexed or a file cannot be downloaded; files that are not valid JSON are skipped.
+   */
+  async getAllPolicyDefinitions(): Promise<Array<{ path: string; definition: AzurePolicyDefinition }>> {
+    const config = this.dataSources.get('azure-policy');
+    if (!config) {
+      return [];
+    }
+
+    const index = await this.githubClient.indexRepository(config);
+    const files = index.files.filter(file => file.name.endsWith('.json'));
+    const pathsCacheKey = `definition-paths:${config.owner}/${config.repo}/${config.branch || 'master'}/${config.basePath || ''}`;
+    const knownPaths = this.cache.get<Record<string, string>>(pathsCacheKey) ?? {};
+    const definitions: Array<{ path: string; definition: AzurePolicyDefinition }> = [];
+
+    for (let i = 0; i < files.length; i += POLICY_SCAN_BATCH_SIZE) {
+      const batch = files.slice(i, i + POLICY_SCAN_BATCH_SIZE);
+      const contents = await Promise.all(batch.map(file =>
+        this.githubClient.getRawFileContent(config.owner, config.repo, file.path, config.branch)));
+
+      contents.forEach((content, index) => {
+        const path = batch[index].path;
+        const definition = this.parseDefinition<AzurePolicyDefinition>(content, path);
+        if (!definition?.properties) return;
+
+        if (definition.name) knownPaths[definition.name.toLowerCase()] = path;
+        definitions.push({ path, definition });
+      });
+    }
+
+    this.cache.set(pathsCacheKey, knownPaths, 24 * 3600000);
+    return definitions;
+  }
+
+  private async findDefinitions<T extends { name?: string }>(
+    kind: LocalDataSourceKind,
+    dataSourceName: string,
+    definitionIds: string[]
+  ): Promise<Map<string, T>> {
+    const found = await this.findLocalDefinitionsByName<T>(kind, definitionIds);
+    const remaining = definitionIds.filter(id => !found.has(id));
+
+    if (remaining.length > 0) {
+      for (const [id, definition] of await this.findDefinitionsByName<T>(dataSourceName, remaining)) {
+        found.set(id, definition);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Local definitions are matched on their name, or on their file name when they have none
+   */
+  private async findLocalDefinitionsByName<T extends { name?: string }>(
+    kind: LocalDataSourceKind,
+    definitionIds: string[]
+  ): Promise<Map<string, T>> {
+    const found = new Map<string, T>();
+    const pending = new Map<string, string>();
+    for (const id of definitionIds) {
+      pending.set(id.split('/').pop()!.toLowerCase(), id);
+    }
+
+    for (const { path, definition } of await this.getLocalDefinitions<T>(kind)) {
+      const name = (definition.name ?? basename(path).replace(/\.json$/i, '')).toLowerCase();
+      const id = pending.get(name);
+      if (id !== undefined) {
+        found.set(id, definition);
+        pending.delete(name);
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * JSON files of the local data sources of a kind that hold a definition (have properties)
+   */
+  private async getLocalDefinitions<T>(kind: LocalDataSourceKind): Promise<Array<{ path: string; definition: T }>> {
+    const definitions: Array<{ path: string; definition: T }> = [];
+
+    for (const file of await this.getLocalFiles(kind)) {
+      if (!file.path.toLowerCase().endsWith('.json')) continue;
+
+      try {
+        const definition = JSON.parse(file.content);
+        if (definition?.properties) {
+          definitions.push({ path: file.path, definition: definition as T });
+        }
+      } catch (error) {
+        console.warn(`Invalid definition ${file.path}:`, error);
+      }
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Definition files are organised by category and display name rather than by
+   * name, so files are scanned until every requested definition has been found;
+   * the name-to-path map is cached for later lookups.
+   */
+  private async findDefinitionsByName<T extends { name?: string }>(
+    dataSourceName: string,
+    definitionIds: string[]
+  ): Promise<Map<string, T>> {
+    const found = new Map<string, T>();
+    const config = this.dataSources.get(dataSourceName);
+    if (!config) {
+      return found;
+    }
+
+    const pending = new Map<string, string>();
+    for (const id of definitionIds) {
+      pending.set(id.split('/').pop()!.toLowerCase(), id);
+    }
+
+    const pathsCacheKey = `definition-paths:${config.owner}/${config.repo}/${config.branch || 'master'}/${config.basePath || ''}`;
+    const knownPaths = this.cache.get<Record<string, string>>(pathsCacheKey) ?? {};
+
+    for (const [name, id] of pending) {
+      const path = knownPaths[name];
+      const definition = path ? await this.readDefinitionFile<T>(config, path) : undefined;
+      if (definition) {
+        found.set(id, definition);
+        pending.delete(name);
+      }
+    }
+
+    if (pending.size === 0) {
+      return found;
+    }
+
+    const info = await this.getDataSourceInfo(dataSourceName);
+    const scannedPaths = new Set(Object.values(knownPaths));
+    const files = (info?.index?.files ?? [])
+      .filter(file => file.name.endsWith('.json') && !scannedPaths.has(file.path));
+
+    for (let i = 0; i < files.length && pending.size > 0; i += POLICY_SCAN_BATCH_SIZE) {
+      const batch = files.slice(i, i + POLICY_SCAN_BATCH_SIZE);
+      const definitions = await Promise.all(batch.map(file => this.readDefinitionFile<T>(config, file.path)));
+
+      definitions.forEach((definition, index) => {
+        const name = definition?.name?.toLowerCase();
+        if (!definition || !name) return;
+
+        knownPaths[name] = batch[index].path;
+        const id = pending.get(name);
+        if (id !== undefined) {
+          found.set(id, definition);
+          pending.delete(name);
+        }
+      });
+    }
+
+    this.cache.set(pathsCacheKey, knownPaths, 24 * 3600000);
+    return found;
+  }
+
+  private async readDefinitionFile<T>(config: DataSourceConfig, path: string): Promise<T | undefined> {
+    try {
+      const content = await this.githubClient.getRawFileContent(config.owner, config.repo, path, config.branch);
+      return JSON.parse(content) as T;
+    } catch (error) {
+      console.warn(`Failed to read definition ${path}:`, error);
+      return undefined;
+    }
+  }
+
+  private parseDefinition<T>(content: string, path: string): T | undefined {
+    try {
+      return JSON.parse(content) as T;
+    } catch (error) {
+      console.warn(`Failed to parse definition ${path}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Read a file below a local source's directory that matches its glob
+   */
+  private async readLocalSourceFile(config: LocalDataSourceConfig, filePath: string): Promise<string | undefined> {
+    const path = resolve(config.path, filePath);
+    const relativePath = relativeLocalPath(config.path, path);
+    if (!relativePath || !globToRegExp(config.glob).test(relativePath)) {
+      return undefined;
+    }
+
+    try {
+      return await readFile(path, 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private toLocalDataSource(name: string, config: LocalDataSourceConfig): LocalDataSourceConfig {
+    if (this.dataSources.has(name)) {
+      throw new DataSourceError(`Local data source ${name} has the name of a built-in data source`);
+    }
+    if (!(config.kind in DEFAULT_LOCAL_GLOBS)) {
+      throw new DataSourceError(
+        `Local data source ${name} has unknown kind ${String(config.kind)}; ` +
+        `expected one of ${Object.keys(DEFAULT_LOCAL_GLOBS).join(', ')}`
+      );
+    }
+
+    return { ...config, path: resolve(config.path) };
+  }
+
   getDataSourceStats(): Record<string, {
     description: string;
     fileCount?: number;
@@ -184,7 +585,7 @@ export class DataSourceManager {
       };
 
       // Try to get cached index stats
-      const cacheKey = `index:${config.owner}/${config.repo}/${config.branch || 'master'}`;
+      const cacheKey = `index:${config.owner}/${config.repo}/${config.branch || 'master'}/${config.basePath || ''}`;
       const index = this.cache.get<RepositoryIndex>(cacheKey);
       
       if (index) {
@@ -194,6 +595,12 @@ export class DataSourceManager {
       }
     }
 
+    for (const [name, config] of this.localDataSources) {
+      stats[name] = {
+        description: config.description
+      };
+    }
+
     return stats;
   }
 }
\ No newline at end of file
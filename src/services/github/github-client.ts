@@ -129,7 +129,7 @@ export class GitHubClient {
   }
 
   async indexRepository(config: DataSourceConfig): Promise<RepositoryIndex> {
-    const cacheKey = `index:${config.owner}/${config.repo}/${config.branch || 'master'}`;
+    const cacheKey = `index:${config.owner}/${config.repo}/${config.branch || 'master'}/${config.basePath || ''}`;
     const cached = this.cache.get<RepositoryIndex>(cacheKey);
     
     if (cached) {
@@ -177,29 +177,25 @@ export class GitHubClient {
       return;
     }
 
-    try {
-      const contents = await this.getRepositoryContents(owner, repo, path, branch);
+    // A directory that cannot be read fails the whole index rather than leaving it partial
+    const contents = await this.getRepositoryContents(owner, repo, path, branch);
       
-      for (const item of contents) {
-        if (item.type === 'file') {
-          files.push(item);
-        } else if (item.type === 'dir') {
-          directories.push(item.path);
-          await this.indexDirectoryRecursive(
-            owner, 
-            repo, 
-            item.path, 
-            branch, 
-            files, 
-            directories,
-            maxDepth,
-            currentDepth + 1
-          );
-        }
+    for (const item of contents) {
+      if (item.type === 'file') {
+        files.push(item);
+      } else if (item.type === 'dir') {
+        directories.push(item.path);
+        await this.indexDirectoryRecursive(
+          owner, 
+          repo, 
+          item.path, 
+          branch, 
+          files, 
+          directories,
+          maxDepth,
+          currentDepth + 1
+        );
       }
-    } catch (error) {
-      console.error(`Error indexing directory ${path}:`, error);
-      // Continue indexing other directories even if one fails
     }
   }
 
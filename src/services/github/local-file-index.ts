@@ -0,0 +1,108 @@
+/**
+ * Local directory indexing - lists the files of a directory on disk (such as a checked-out
+ * repository) that match a glob, in the same RepositoryIndex shape as GitHub repositories
+ */
+
+import { readdir, stat } from 'fs/promises';
+import { isAbsolute, join, relative, sep } from 'path';
+import { pathToFileURL } from 'url';
+import type { GitHubRepositoryContent, RepositoryIndex } from '../../types/github.js';
+
+/**
+ * Convert a glob to a regular expression over '/'-separated relative paths. Supports `**`
+ * (any number of directories), `*` and `?` within a path segment, and `{a,b}` alternatives.
+ */
+export function globToRegExp(glob: string): RegExp {
+  return new RegExp(`^${globToPattern(glob)}$`);
+}
+
+function globToPattern(glob: string): string {
+  let pattern = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      // '**/' matches zero or more directories, any other '**' everything from there on
+      if (glob[i + 2] === '/') {
+        pattern += '(?:.*/)?';
+        i += 2;
+      } else {
+        pattern += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{' && glob.indexOf('}', i) > i) {
+      const end = glob.indexOf('}', i);
+      pattern += `(?:${glob.slice(i + 1, end).split(',').map(globToPattern).join('|')})`;
+      i = end;
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return pattern;
+}
+
+/**
+ * Path of a file relative to a root directory, with '/' separators, or undefined when the
+ * file lies outside the root
+ */
+export function relativeLocalPath(root: string, filePath: string): string | undefined {
+  const path = relative(root, filePath);
+  if (!path || path.startsWith('..') || isAbsolute(path)) {
+    return undefined;
+  }
+  return path.split(sep).join('/');
+}
+
+/**
+ * Index the files below a directory whose relative paths match the glob. Hidden files and
+ * directories (such as .git) are skipped.
+ */
+export async function indexLocalDirectory(root: string, glob: string): Promise<RepositoryIndex> {
+  const matcher = globToRegExp(glob);
+  const files: GitHubRepositoryContent[] = [];
+  const directories: string[] = [];
+
+  const visit = async (directory: string) => {
+    const entries = (await readdir(directory, { withFileTypes: true }))
+      .sort((left, right) => left.name.localeCompare(right.name));
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+
+      const fullPath = join(directory, entry.name);
+      const path = relativeLocalPath(root, fullPath)!;
+      if (entry.isDirectory()) {
+        directories.push(path);
+        await visit(fullPath);
+      } else if (entry.isFile() && matcher.test(path)) {
+        const url = pathToFileURL(fullPath).href;
+        files.push({
+          name: entry.name,
+          path,
+          sha: '',
+          size: (await stat(fullPath)).size,
+          url,
+          html_url: url,
+          git_url: '',
+          download_url: url,
+          type: 'file'
+        });
+      }
+    }
+  };
+
+  await visit(root);
+
+  return {
+    lastUpdated: Date.now(),
+    files,
+    directories,
+    totalSize: files.reduce((total, file) => total + file.size, 0)
+  };
+}
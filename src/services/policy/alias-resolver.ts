@@ -0,0 +1,147 @@
+/**
+ * Policy alias resolver - maps policy aliases to ARM/Bicep resource property paths
+ */
+
+import { readFile } from 'fs/promises';
+import bundledCatalog from '../../data/policy-aliases.json' with { type: 'json' };
+import { PolicyParsingError } from '../../infrastructure/errors/error-handler.js';
+import type { PolicyAliasCatalog, PolicyAliasResolution } from '../../types/policy.js';
+
+// Fields that are part of the policy language rather than provider aliases
+const BUILT_IN_FIELDS = new Set(['type', 'name', 'fullname', 'kind', 'location', 'id', 'tags', 'identity.type']);
+
+// Aliases whose property path starts with one of these map to top-level resource fields
+const TOP_LEVEL_PROPERTIES = new Set([
+  'sku', 'kind', 'identity', 'location', 'tags', 'zones', 'plan', 'extendedLocation', 'managedBy'
+]);
+
+export class PolicyAliasResolver {
+  private catalog!: PolicyAliasCatalog;
+  private index = new Map<string, { alias: string; resourceType: string; path: string }>();
+
+  constructor(catalog: PolicyAliasCatalog = bundledCatalog as PolicyAliasCatalog) {
+    this.loadCatalog(catalog);
+  }
+
+  /**
+   * Replace the active alias catalog
+   */
+  loadCatalog(catalog: PolicyAliasCatalog): void {
+    if (!catalog || typeof catalog.resourceTypes !== 'object') {
+      throw new PolicyParsingError('Alias catalog must contain a resourceTypes object');
+    }
+
+    this.catalog = catalog;
+    this.index.clear();
+
+    for (const [resourceType, aliases] of Object.entries(catalog.resourceTypes)) {
+      for (const [alias, path] of Object.entries(aliases)) {
+        this.index.set(alias.toLowerCase(), { alias, resourceType, path });
+      }
+    }
+  }
+
+  /**
+   * Reload the catalog from a JSON file - either the bundled catalog format or the
+   * output of `az provider list --expand resourceTypes/aliases`
+   */
+  async refreshFromFile(filePath: string): Promise<number> {
+    let content: any;
+    try {
+      content = JSON.parse(await readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new PolicyParsingError(`Failed to read alias catalog ${filePath}: ${String(error)}`);
+    }
+
+    this.loadCatalog(Array.isArray(content) ? PolicyAliasResolver.fromProviderAliases(content) : content);
+    return this.index.size;
+  }
+
+  /**
+   * Convert Azure CLI provider output into the catalog format
+   */
+  static fromProviderAliases(providers: any[]): PolicyAliasCatalog {
+    const resourceTypes: Record<string, Record<string, string>> = {};
+
+    for (const provider of providers) {
+      for (const resourceType of provider.resourceTypes || []) {
+        const aliases: Record<string, string> = {};
+
+        for (const alias of resourceType.aliases || []) {
+          const path = alias.defaultPath || alias.paths?.[0]?.path;
+          if (alias.name && path) {
+            aliases[alias.name] = path;
+          }
+        }
+
+        if (Object.keys(aliases).length > 0) {
+          resourceTypes[`${provider.namespace}/${resourceType.resourceType}`] = aliases;
+        }
+      }
+    }
+
+    return {
+      version: new Date().toISOString().split('T')[0],
+      source: 'az provider list --expand resourceTypes/aliases',
+      resourceTypes
+    };
+  }
+
+  /**
+   * Resolve an alias to its resource type and property path, inferring the
+   * conventional properties.* path for aliases missing from the catalog
+   */
+  resolve(alias: string): PolicyAliasResolution | undefined {
+    const entry = this.index.get(alias.toLowerCase());
+    if (entry) {
+      return { ...entry, source: 'catalog' };
+    }
+
+    const segments = alias.split('/');
+    if (segments.length < 3 || !segments[0].includes('.')) {
+      return undefined;
+    }
+
+    const propertyPath = segments[segments.length - 1];
+    const root = propertyPath.split(/[.[]/)[0];
+
+    return {
+      alias,
+      resourceType: segments.slice(0, -1).join('/'),
+      path: TOP_LEVEL_PROPERTIES.has(root) ? propertyPath : `properties.${propertyPath}`,
+      source: 'inferred'
+    };
+  }
+
+  /**
+   * Resolve a policy field (built-in field or alias) to a property path
+   */
+  resolvePath(field: string): string {
+    if (this.isBuiltInField(field)) {
+      return field;
+    }
+    return this.resolve(field)?.path ?? field;
+  }
+
+  isBuiltInField(field: string): boolean {
+    const lower = field.toLowerCase();
+    return BUILT_IN_FIELDS.has(lower) || lower.startsWith('tags[') || lower.startsWith('tags.') ||
+      lower.startsWith('identity.');
+  }
+
+  /**
+   * List the catalogued aliases of a resource type
+   */
+  getAliases(resourceType: string): string[] {
+    const key = Object.keys(this.catalog.resourceTypes).find(rt => rt.toLowerCase() === resourceType.toLowerCase());
+    return key ? Object.keys(this.catalog.resourceTypes[key]) : [];
+  }
+
+  getCatalogInfo(): { version: string; resourceTypeCount: number; aliasCount: number } {
+    return {
+      version: this.catalog.version,
+      resourceTypeCount: Object.keys(this.catalog.resourceTypes).length,
+      aliasCount: this.index.size
+    };
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * Policy assignment manager - loads assignments and exemptions from local JSON files
+ * and decides which assignments apply to a scope or resource
+ */
+
+import { readFile, readdir, stat } from 'fs/promises';
+import { join } from 'path';
+import { PolicyParsingError } from '../../infrastructure/errors/error-handler.js';
+import type { PolicyAssignment, PolicyExemption, PolicyResource, PolicySelector } from '../../types/policy.js';
+
+const MANAGEMENT_GROUP_SCOPE = /^\/providers\/microsoft\.management\/managementgroups\/([^/]+)$/;
+const EXEMPTION_ID_SUFFIX = /\/providers\/Microsoft\.Authorization\/policyExemptions\/[^/]+$/i;
+
+// Assignment properties as flattened by `az policy assignment list`
+const ASSIGNMENT_PROPERTIES = [
+  'displayName', 'description', 'policyDefinitionId', 'parameters', 'scope', 'notScopes',
+  'enforcementMode', 'nonComplianceMessages', 'overrides', 'resourceSelectors', 'metadata'
+] as const;
+
+// Exemption properties as flattened by `az policy exemption list`
+const EXEMPTION_PROPERTIES = [
+  'displayName', 'description', 'policyAssignmentId', 'policyDefinitionReferenceIds', 'exemptionCategory',
+  'expiresOn', 'scope', 'resourceSelectors', 'metadata'
+] as const;
+
+export class PolicyAssignmentManager {
+  private assignments: PolicyAssignment[] = [];
+  private exemptions: PolicyExemption[] = [];
+
+  /**
+   * Replace the loaded assignments and exemptions with those found in a JSON file
+   * or in every JSON file of a directory
+   */
+  async loadFromPath(path: string): Promise<{ assignments: number; exemptions: number }> {
+    let files: string[];
+    try {
+      files = (await stat(path)).isDirectory()
+        ? (await readdir(path)).filter(name => name.endsWith('.json')).sort().map(name => join(path, name))
+        : [path];
+    } catch (error) {
+      throw new PolicyParsingError(`Failed to read policy assignments ${path}: ${String(error)}`);
+    }
+
+    const assignments: PolicyAssignment[] = [];
+    const exemptions: PolicyExemption[] = [];
+    for (const file of files) {
+      let content: any;
+      try {
+        content = JSON.parse(await readFile(file, 'utf-8'));
+      } catch (error) {
+        throw new PolicyParsingError(`Failed to read policy assignments ${file}: ${String(error)}`);
+      }
+
+      const entries = Array.isArray(content) ? content : Array.isArray(content?.value) ? content.value : [content];
+      for (const entry of entries) {
+        if (this.isExemption(entry)) {
+          exemptions.push(this.normalizeExemption(entry, file));
+        } else {
+          assignments.push(this.normalizeAssignment(entry, file));
+        }
+      }
+    }
+
+    this.assignments = assignments;
+    this.exemptions = exemptions;
+    return { assignments: assignments.length, exemptions: exemptions.length };
+  }
+
+  getAssignments(): PolicyAssignment[] {
+    return this.assignments;
+  }
+
+  getExemptions(): PolicyExemption[] {
+    return this.exemptions;
+  }
+
+  /**
+   * Exemption of a resource from an assignment (or one of its policy set members).
+   * Expired exemptions are returned as well - check them with isExpired().
+   */
+  findExemption(
+    assignment: PolicyAssignment,
+    resourceId: string,
+    resource?: PolicyResource,
+    referenceId?: string
+  ): PolicyExemption | undefined {
+    const target = this.normalizeScope(resourceId);
+
+    return this.exemptions.find(exemption => {
+      const props = exemption.properties;
+      const referenceIds = props.policyDefinitionReferenceIds || [];
+
+      return this.isExemptionFor(exemption, assignment) &&
+        this.isWithin(target, this.normalizeScope(props.scope!)) &&
+        (referenceIds.length === 0 || (referenceId !== undefined &&
+          referenceIds.some(id => id.toLowerCase() === referenceId.toLowerCase()))) &&
+        (!resource || !props.resourceSelectors?.length || props.resourceSelectors.some(resourceSelector =>
+          (resourceSelector.selectors || []).every(selector => this.matchesSelector(selector, resource))));
+    });
+  }
+
+  /**
+   * Exemptions of an assignment created at, above or below a scope
+   */
+  getExemptionsForScope(assignment: PolicyAssignment, targetScope: string): PolicyExemption[] {
+    const target = this.normalizeScope(targetScope);
+
+    return this.exemptions.filter(exemption => {
+      const scope = this.normalizeScope(exemption.properties.scope!);
+      return this.isExemptionFor(exemption, assignment) && (this.isWithin(target, scope) || this.isWithin(scope, target));
+    });
+  }
+
+  isExpired(exemption: PolicyExemption, now: Date = new Date()): boolean {
+    const expiresOn = exemption.properties.expiresOn;
+    return !!expiresOn && new Date(expiresOn).getTime() <= now.getTime();
+  }
+
+  /**
+   * Assignments whose scope covers the target scope (e.g. a resource group id)
+   *
+   * @param managementGroupIds - Management groups the target's subscription belongs to
+   */
+  getApplicableAssignments(targetScope: string, managementGroupIds: string[] = []): PolicyAssignment[] {
+    return this.assignments.filter(assignment => this.coversScope(assignment, targetScope, managementGroupIds));
+  }
+
+  /**
+   * Whether an assignment covers a scope or resource id and it is not excluded by notScopes
+   */
+  coversScope(assignment: PolicyAssignment, targetScope: string, managementGroupIds: string[] = []): boolean {
+    const scope = this.normalizeScope(assignment.properties.scope);
+    const target = this.normalizeScope(targetScope);
+
+    const managementGroup = scope.match(MANAGEMENT_GROUP_SCOPE);
+    const covered = managementGroup
+      ? managementGroupIds.some(id => this.normalizeScope(id).split('/').pop() === managementGroup[1])
+      : this.isWithin(target, scope);
+
+    return covered && !(assignment.properties.notScopes || [])
+      .some(notScope => this.isWithin(target, this.normalizeScope(notScope)));
+  }
+
+  /**
+   * Whether a resource matches the assignment's resource selectors (any selector
+   * set whose selectors all match)
+   */
+  isResourceSelected(assignment: PolicyAssignment, resource: PolicyResource): boolean {
+    const resourceSelectors = assignment.properties.resourceSelectors;
+    if (!resourceSelectors || resourceSelectors.length === 0) {
+      return true;
+    }
+
+    return resourceSelectors.some(resourceSelector =>
+      (resourceSelector.selectors || []).every(selector => this.matchesSelector(selector, resource)));
+  }
+
+  /**
+   * Effect override applying to a member (by policyDefinitionReferenceId) and resource
+   */
+  getEffectOverride(
+    assignment: PolicyAssignment,
+    referenceId?: string,
+    resource?: PolicyResource
+  ): string | undefined {
+    return (assignment.properties.overrides || []).find(override =>
+      override.kind?.toLowerCase() === 'policyeffect' &&
+      (override.selectors || []).every(selector => this.matchesSelector(selector, resource, referenceId))
+    )?.value;
+  }
+
+  /**
+   * Non-compliance message for a member, falling back to the assignment-wide message
+   */
+  getNonComplianceMessage(assignment: PolicyAssignment, referenceId?: string): string | undefined {
+    const messages = assignment.properties.nonComplianceMessages || [];
+    const specific = referenceId === undefined ? undefined : messages.find(message =>
+      message.policyDefinitionReferenceId?.toLowerCase() === referenceId.toLowerCase());
+    return (specific ?? messages.find(message => !message.policyDefinitionReferenceId))?.message;
+  }
+
+  isEnforced(assignment: PolicyAssignment): boolean {
+    return assignment.properties.enforcementMode?.toLowerCase() !== 'donotenforce';
+  }
+
+  /**
+   * Resource id of a template resource deployed to a scope, e.g.
+   * Microsoft.Web/sites/config + app/web => <scope>/providers/Microsoft.Web/sites/app/config/web
+   */
+  resourceId(scope: string, resourceType: string, resourceName: string): string {
+    const [namespace, ...types] = resourceType.split('/');
+    const names = resourceName.split('/');
+    const segments = types.flatMap((type, index) => [type, names[index] ?? '']);
+    return `${scope.replace(/\/+$/, '')}/providers/${namespace}/${segments.join('/')}`;
+  }
+
+  private normalizeAssignment(entry: any, file: string): PolicyAssignment {
+    const properties = entry?.properties ?? Object.fromEntries(
+      ASSIGNMENT_PROPERTIES.filter(key => entry?.[key] !== undefined).map(key => [key, entry[key]])
+    );
+
+    if (!properties.policyDefinitionId || !properties.scope) {
+      throw new PolicyParsingError(
+        `Policy assignment ${entry?.name ?? '(unnamed)'} in ${file} must specify policyDefinitionId and scope`
+      );
+    }
+
+    return {
+      properties,
+      ...(entry.id && { id: entry.id }),
+      ...(entry.name && { name: entry.name }),
+      ...(entry.type && { type: entry.type })
+    };
+  }
+
+  private isExemption(entry: any): boolean {
+    return entry?.type?.toLowerCase() === 'microsoft.authorization/policyexemptions' ||
+      (entry?.properties ?? entry)?.policyAssignmentId !== undefined;
+  }
+
+  private normalizeExemption(entry: any, file: string): PolicyExemption {
+    const properties = { ...(entry?.properties ?? Object.fromEntries(
+      EXEMPTION_PROPERTIES.filter(key => entry?.[key] !== undefined).map(key => [key, entry[key]])
+    )) };
+
+    // Exemptions are extension resources - their scope is the id without the exemption suffix
+    if (!properties.scope && typeof entry.id === 'string' && EXEMPTION_ID_SUFFIX.test(entry.id)) {
+      properties.scope = entry.id.replace(EXEMPTION_ID_SUFFIX, '') || '/';
+    }
+
+    if (!properties.scope || !properties.exemptionCategory) {
+      throw new PolicyParsingError(
+        `Policy exemption ${entry?.name ?? '(unnamed)'} in ${file} must specify an id or scope and an exemptionCategory`
+      );
+    }
+
+    return {
+      properties,
+      ...(entry.id && { id: entry.id }),
+      ...(entry.name && { name: entry.name }),
+      ...(entry.type && { type: entry.type })
+    };
+  }
+
+  /**
+   * Exemptions reference assignments by id; local assignment files may omit the id,
+   * in which case the assignment name is compared
+   */
+  private isExemptionFor(exemption: PolicyExemption, assignment: PolicyAssignment): boolean {
+    const exemptionAssignment = exemption.properties.policyAssignmentId.toLowerCase();
+    if (assignment.id) {
+      return exemptionAssignment === assignment.id.toLowerCase();
+    }
+    return !!assignment.name && exemptionAssignment.split('/').pop() === assignment.name.toLowerCase();
+  }
+
+  private matchesSelector(selector: PolicySelector, resource?: PolicyResource, referenceId?: string): boolean {
+    let value: string | undefined;
+
+    switch (selector.kind?.toLowerCase()) {
+      case 'resourcelocation':
+        value = resource?.location;
+        break;
+      case 'resourcetype':
+        value = resource?.type;
+        break;
+      case 'resourcewithoutlocation':
+        value = resource ? String(!resource.location) : undefined;
+        break;
+      case 'policydefinitionreferenceid':
+        value = referenceId;
+        break;
+      default:
+        // Unknown selector kinds are not evaluated
+        return true;
+    }
+
+    const includes = (list: string[]): boolean =>
+      value !== undefined && list.some(item => item.toLowerCase() === value!.toLowerCase());
+
+    if (selector.in) return includes(selector.in);
+    if (selector.notIn) return !includes(selector.notIn);
+    return true;
+  }
+
+  private normalizeScope(scope: string): string {
+    return scope.trim().replace(/\/+$/, '').toLowerCase();
+  }
+
+  private isWithin(target: string, scope: string): boolean {
+    return target === scope || target.startsWith(`${scope}/`);
+  }
+}
@@ -0,0 +1,350 @@
+/**
+ * Custom policy author - builds validated policy definitions, with sample resources,
+ * from a structured description of a property requirement
+ */
+
+import { PolicyParsingError } from '../../infrastructure/errors/error-handler.js';
+import { PolicyAliasResolver } from './alias-resolver.js';
+import { PolicyParser } from './policy-parser.js';
+import { PolicyEvaluator } from './policy-evaluator.js';
+import { PolicyExpressionEvaluator } from './policy-expression.js';
+import type {
+  AuthoredPolicy,
+  AzurePolicyDefinition,
+  CustomPolicyRequest,
+  PolicyCondition,
+  PolicyParameter,
+  PolicyResource
+} from '../../types/policy.js';
+
+const EFFECTS = ['Audit', 'Deny', 'Disabled'] as const;
+const RESOURCE_TYPE_PATTERN = /^[A-Za-z0-9]+(\.[A-Za-z0-9]+)+(\/[A-Za-z0-9]+)+$/;
+
+const PATTERN_OPERATORS = {
+  like: 'notLike',
+  match: 'notMatch',
+  matchInsensitively: 'notMatchInsensitively'
+} as const;
+
+export class PolicyAuthor {
+  constructor(
+    private aliases: PolicyAliasResolver = new PolicyAliasResolver(),
+    private policyParser: PolicyParser = new PolicyParser(aliases),
+    private evaluator: PolicyEvaluator = new PolicyEvaluator(new PolicyExpressionEvaluator(), aliases)
+  ) {}
+
+  /**
+   * Build a custom policy definition that flags resources of a type whose property does
+   * not meet the requirement, together with compliant and non-compliant sample resources
+   */
+  author(request: CustomPolicyRequest): AuthoredPolicy {
+    const { resourceType } = request;
+    if (!RESOURCE_TYPE_PATTERN.test(resourceType ?? '')) {
+      throw new PolicyParsingError(`Invalid resource type '${resourceType}' - expected e.g. Microsoft.Storage/storageAccounts`);
+    }
+    if (!request.property) {
+      throw new PolicyParsingError('A property (alias or alias property name) is required');
+    }
+
+    const requirements = [
+      request.requiredValue !== undefined,
+      request.allowedValues !== undefined,
+      request.pattern !== undefined,
+      request.mustExist === true
+    ].filter(Boolean).length;
+    if (requirements !== 1) {
+      throw new PolicyParsingError('Specify exactly one of requiredValue, allowedValues, pattern or mustExist');
+    }
+    if (request.allowedValues !== undefined && (!Array.isArray(request.allowedValues) || request.allowedValues.length === 0)) {
+      throw new PolicyParsingError('allowedValues must be a non-empty array');
+    }
+
+    const effect = EFFECTS.find(e => e.toLowerCase() === String(request.effect ?? 'Audit').toLowerCase());
+    if (!effect) {
+      throw new PolicyParsingError(`Unsupported effect '${request.effect}' - use ${EFFECTS.join(', ')}`);
+    }
+
+    const warnings: string[] = [];
+    const field = this.resolveField(resourceType, request.property, warnings);
+    const parameters: Record<string, PolicyParameter> = {};
+    const requirement = this.buildRequirement(request, field, parameters);
+
+    if (request.parameterizeEffect !== false) {
+      parameters.effect = {
+        type: 'String',
+        metadata: { displayName: 'Effect', description: 'Enable or disable the execution of the policy' },
+        allowedValues: [...EFFECTS],
+        defaultValue: effect
+      };
+    }
+
+    const displayName = request.displayName ?? this.defaultDisplayName(request, field);
+    const definition: AzurePolicyDefinition = {
+      name: request.name ?? this.slug(displayName),
+      properties: {
+        displayName,
+        policyType: 'Custom',
+        mode: request.mode ?? 'Indexed',
+        description: request.description ?? `${displayName}. Resources that do not meet the requirement are reported with the ${effect} effect.`,
+        metadata: {
+          version: '1.0.0',
+          category: request.category ?? resourceType.split('/')[0].replace(/^Microsoft\./i, '')
+        },
+        parameters,
+        policyRule: {
+          if: {
+            allOf: [
+              { field: 'type', equals: resourceType },
+              requirement
+            ]
+          },
+          then: {
+            effect: request.parameterizeEffect !== false ? "[parameters('effect')]" : effect
+          }
+        }
+      }
+    };
+
+    const validation = this.policyParser.validatePolicy(definition);
+    if (!validation.isValid) {
+      throw new PolicyParsingError(`Generated policy is invalid: ${validation.errors.join('; ')}`);
+    }
+
+    return {
+      definition,
+      field,
+      validation,
+      compliantSample: this.buildSample(definition, request, field, false),
+      nonCompliantSample: this.buildSample(definition, request, field, true),
+      warnings
+    };
+  }
+
+  /**
+   * Map the requested property to an alias of the resource type, accepting full aliases,
+   * alias property names and property paths
+   */
+  private resolveField(resourceType: string, property: string, warnings: string[]): string {
+    if (this.aliases.isBuiltInField(property)) {
+      return property;
+    }
+
+    if (property.includes('/')) {
+      const resolution = this.aliases.resolve(property);
+      if (!resolution) {
+        throw new PolicyParsingError(`'${property}' is not a policy alias`);
+      }
+      if (resolution.resourceType.toLowerCase() !== resourceType.toLowerCase()) {
+        throw new PolicyParsingError(`Alias ${property} applies to ${resolution.resourceType}, not ${resourceType}`);
+      }
+      if (resolution.source === 'inferred') {
+        warnings.push(`${property} is not in the alias catalog - verify the alias exists before assigning the policy`);
+      }
+      return property;
+    }
+
+    const lower = property.toLowerCase();
+    const catalogued = this.aliases.getAliases(resourceType);
+    const match = catalogued.find(alias => alias.substring(resourceType.length + 1).toLowerCase() === lower)
+      ?? catalogued.find(alias => {
+        const path = this.aliases.resolvePath(alias).toLowerCase();
+        return path === lower || path === `properties.${lower}`;
+      });
+    if (match) {
+      return match;
+    }
+
+    const alias = `${resourceType}/${property.replace(/^properties\./i, '')}`;
+    warnings.push(`${alias} is not in the alias catalog - verify the alias exists before assigning the policy`);
+    return alias;
+  }
+
+  /**
+   * Condition that is true for non-compliant resources. Array aliases ([*]) are
+   * non-compliant when any member fails the requirement.
+   */
+  private buildRequirement(
+    request: CustomPolicyRequest,
+    field: string,
+    parameters: Record<string, PolicyParameter>
+  ): PolicyCondition {
+    const name = this.parameterBaseName(field);
+    const operand = (parameterName: string, parameter: PolicyParameter, value: any): any => {
+      if (!request.parameterizeValue) return value;
+      parameters[parameterName] = { ...parameter, defaultValue: value };
+      return `[parameters('${parameterName}')]`;
+    };
+
+    let check: PolicyCondition;
+    if (request.requiredValue !== undefined) {
+      check = {
+        field,
+        notEquals: operand(name, {
+          type: this.parameterType(request.requiredValue),
+          metadata: { displayName: `Required ${name}`, description: `Value required for ${field}` }
+        }, request.requiredValue)
+      };
+    } else if (request.allowedValues !== undefined) {
+      const parameterName = `listOfAllowed${name.charAt(0).toUpperCase()}${name.substring(1)}`;
+      check = {
+        field,
+        notIn: operand(parameterName, {
+          type: 'Array',
+          metadata: { displayName: `Allowed ${name} values`, description: `Values allowed for ${field}` }
+        }, request.allowedValues)
+      };
+    } else if (request.pattern !== undefined) {
+      const operator = PATTERN_OPERATORS[request.patternType ?? 'like'];
+      if (!operator) {
+        throw new PolicyParsingError(`Unsupported pattern type '${request.patternType}' - use like, match or matchInsensitively`);
+      }
+      check = {
+        field,
+        [operator]: operand(`${name}Pattern`, {
+          type: 'String',
+          metadata: { displayName: `${name} pattern`, description: `Pattern values of ${field} must match` }
+        }, request.pattern)
+      };
+    } else {
+      check = { field, exists: false };
+    }
+
+    if (!field.includes('[*]')) {
+      return check;
+    }
+
+    return {
+      count: { field: field.substring(0, field.lastIndexOf('[*]') + 3), where: check },
+      greater: 0
+    };
+  }
+
+  /**
+   * Build a sample resource and confirm the policy treats it as expected
+   */
+  private buildSample(
+    definition: AzurePolicyDefinition,
+    request: CustomPolicyRequest,
+    field: string,
+    nonCompliant: boolean
+  ): PolicyResource {
+    const candidates = nonCompliant ? this.nonCompliantValues(request) : this.compliantValues(request);
+
+    for (const value of candidates) {
+      const resource: PolicyResource = {
+        name: nonCompliant ? 'noncompliant-example' : 'compliant-example',
+        type: request.resourceType,
+        ...(field.toLowerCase() !== 'location' && { location: 'eastus' }),
+        properties: {}
+      };
+      if (value !== undefined) {
+        this.writeField(resource, field, value);
+      }
+
+      if (this.evaluator.evaluatePolicy(definition, resource).matched === nonCompliant) {
+        return resource;
+      }
+    }
+
+    throw new PolicyParsingError(
+      `Could not build a ${nonCompliant ? 'non-compliant' : 'compliant'} sample for ${field} - check the requirement`
+    );
+  }
+
+  private compliantValues(request: CustomPolicyRequest): any[] {
+    if (request.requiredValue !== undefined) return [request.requiredValue];
+    if (request.allowedValues !== undefined) return [request.allowedValues[0]];
+    if (request.pattern !== undefined) return [this.patternSample(request.pattern, request.patternType ?? 'like')];
+    return ['example'];
+  }
+
+  private nonCompliantValues(request: CustomPolicyRequest): any[] {
+    if (request.mustExist) return [undefined];
+
+    const values: any[] = [];
+    const required = request.requiredValue;
+    if (typeof required === 'boolean') values.push(!required);
+    if (typeof required === 'number') values.push(required + 1);
+    if (typeof required === 'string') values.push(`${required}-noncompliant`);
+
+    const numbers = (request.allowedValues ?? []).filter(value => typeof value === 'number');
+    if (numbers.length > 0) values.push(Math.max(...numbers) + 1);
+
+    return [...values, 'noncompliant-value', '', undefined];
+  }
+
+  /**
+   * A value matching a like (* wildcard) or match (# digit, ? letter, . any) pattern
+   */
+  private patternSample(pattern: string, patternType: string): string {
+    if (patternType === 'like') {
+      return pattern.split('*').join('x');
+    }
+    return Array.from(pattern).map(char => char === '#' ? '0' : char === '?' ? 'a' : char === '.' ? 'x' : char).join('');
+  }
+
+  /**
+   * Set a field on a sample resource; [*] segments become single-member arrays
+   */
+  private writeField(resource: PolicyResource, field: string, value: any): void {
+    const tagMatch = field.match(/^tags(?:\[['"]?(.+?)['"]?\]|\.(.+))$/i);
+    const tokens = tagMatch
+      ? ['tags', tagMatch[1] ?? tagMatch[2]]
+      : this.aliases.resolvePath(field).split('.').flatMap(part => part.split(/(\[\*\])/).filter(piece => piece.length > 0));
+
+    let node: any = resource;
+    tokens.forEach((token, index) => {
+      const last = index === tokens.length - 1;
+      const next = tokens[index + 1];
+
+      if (token === '[*]') {
+        if (last) {
+          node.push(value);
+        } else {
+          const element = next === '[*]' ? [] : {};
+          node.push(element);
+          node = element;
+        }
+        return;
+      }
+
+      if (last) {
+        node[token] = value;
+      } else {
+        node[token] = node[token] ?? (next === '[*]' ? [] : {});
+        node = node[token];
+      }
+    });
+  }
+
+  private defaultDisplayName(request: CustomPolicyRequest, field: string): string {
+    const property = this.parameterBaseName(field);
+    const subject = request.resourceType.split('/').pop()!;
+
+    if (request.requiredValue !== undefined) return `${subject} should have ${property} set to ${JSON.stringify(request.requiredValue)}`;
+    if (request.allowedValues !== undefined) return `${subject} should have ${property} set to an allowed value`;
+    if (request.pattern !== undefined) return `${subject} should have ${property} matching '${request.pattern}'`;
+    return `${subject} should have ${property} configured`;
+  }
+
+  private parameterBaseName(field: string): string {
+    const tag = field.match(/^tags(?:\[['"]?(.+?)['"]?\]|\.(.+))$/i);
+    const segment = tag
+      ? `${tag[1] ?? tag[2]}Tag`
+      : field.split('/').pop()!.replace(/\[\*\]/g, '');
+    const name = segment.replace(/[^A-Za-z0-9]+(.)?/g, (_match, char?: string) => (char ?? '').toUpperCase());
+    return name ? `${name.charAt(0).toLowerCase()}${name.substring(1)}` : 'value';
+  }
+
+  private parameterType(value: any): PolicyParameter['type'] {
+    if (typeof value === 'boolean') return 'Boolean';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'Integer' : 'Float';
+    if (Array.isArray(value)) return 'Array';
+    if (value && typeof value === 'object') return 'Object';
+    return 'String';
+  }
+
+  private slug(displayName: string): string {
+    return displayName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 64);
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Policy catalog - searchable index of every built-in policy definition, built once from the
+ * azure-policy repository and optionally kept in a local file for offline use. Definitions
+ * from local data sources are indexed on each search and listed before the built-ins.
+ */
+
+import { existsSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { DataSourceManager } from '../github/data-source-manager.js';
+import { PolicyParser } from './policy-parser.js';
+import { PolicyParsingError } from '../../infrastructure/errors/error-handler.js';
+import { appliesToResourceType } from './resource-type-applicability.js';
+import type {
+  AzurePolicyDefinition,
+  PolicyCatalogEntry,
+  PolicyCatalogIndex,
+  PolicyCondition,
+  PolicySearchCriteria
+} from '../../types/policy.js';
+
+const CATALOG_SOURCE = 'Azure/azure-policy built-in-policies/policyDefinitions';
+const LOCAL_SOURCE = 'local data sources';
+
+export class PolicyCatalog {
+  private index: PolicyCatalogIndex | undefined;
+  private building: Promise<PolicyCatalogIndex> | undefined;
+
+  constructor(
+    private dataSourceManager: DataSourceManager,
+    private policyParser: PolicyParser = new PolicyParser(),
+    private catalogPath: string | undefined = process.env.AZURE_POLICY_CATALOG_PATH
+  ) {}
+
+  /**
+   * The catalog index: kept in memory once loaded, read from the catalog file when one exists,
+   * and otherwise built from the repository (and written to the catalog file)
+   */
+  async getIndex(): Promise<PolicyCatalogIndex> {
+    if (this.index) {
+      return this.index;
+    }
+
+    if (this.catalogPath && existsSync(this.catalogPath)) {
+      try {
+        return await this.loadFromFile(this.catalogPath);
+      } catch (error) {
+        console.warn(`Policy catalog ${this.catalogPath} not loaded, building from the repository:`, error);
+      }
+    }
+
+    return this.rebuild();
+  }
+
+  /**
+   * Whether the index is available without fetching every definition from the repository
+   */
+  isLoaded(): boolean {
+    return this.index !== undefined;
+  }
+
+  /**
+   * Whether a search can run without scanning the repository: the index is loaded or a
+   * catalog file exists to load it from
+   */
+  isAvailable(): boolean {
+    return this.isLoaded() || (this.catalogPath !== undefined && existsSync(this.catalogPath));
+  }
+
+  /**
+   * Start loading or building the index without waiting for it. A failed build is logged
+   * and nothing is kept, so the next call starts over.
+   */
+  buildInBackground(): void {
+    if (this.index || this.building) {
+      return;
+    }
+    this.getIndex().catch(error => console.warn('Policy catalog build failed:', error));
+  }
+
+  /**
+   * Read and parse every built-in definition again, replacing the current index. Concurrent
+   * calls share one build; an index is only kept (and written) when every definition was read.
+   */
+  async rebuild(): Promise<PolicyCatalogIndex> {
+    if (!this.building) {
+      this.building = this.build().finally(() => {
+        this.building = undefined;
+      });
+    }
+    return this.building;
+  }
+
+  private async build(): Promise<PolicyCatalogIndex> {
+    const definitions = await this.dataSourceManager.getAllPolicyDefinitions();
+    const index = this.indexDefinitions(definitions);
+
+    this.index = index;
+    if (this.catalogPath) {
+      try {
+        await writeFile(this.catalogPath, JSON.stringify(index), 'utf-8');
+      } catch (error) {
+        console.warn(`Failed to write policy catalog ${this.catalogPath}:`, error);
+      }
+    }
+    return index;
+  }
+
+  async loadFromFile(filePath: string): Promise<PolicyCatalogIndex> {
+    let content: any;
+    try {
+      content = JSON.parse(await readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new PolicyParsingError(`Failed to read policy catalog ${filePath}: ${String(error)}`);
+    }
+
+    if (!Array.isArray(content?.entries)) {
+      throw new PolicyParsingError(`Policy catalog ${filePath} has no entries`);
+    }
+
+    this.index = content as PolicyCatalogIndex;
+    return this.index;
+  }
+
+  /**
+   * Parse definitions into catalog entries; definitions that fail to parse are skipped
+   */
+  indexDefinitions(
+    definitions: Array<{ path: string; definition: AzurePolicyDefinition }>,
+    source: string = CATALOG_SOURCE
+  ): PolicyCatalogIndex {
+    const entries: PolicyCatalogEntry[] = [];
+
+    for (const { path, definition } of definitions) {
+      try {
+        entries.push(this.toEntry(path, definition));
+      } catch (error) {
+        console.warn(`Failed to index policy definition ${path}:`, error);
+      }
+    }
+
+    entries.sort((left, right) => left.displayName.localeCompare(right.displayName));
+    return { builtAt: Date.now(), source, entries };
+  }
+
+  async search(criteria: PolicySearchCriteria): Promise<PolicyCatalogEntry[]> {
+    const { limit, ...rest } = criteria;
+    const entries = [
+      ...this.filter(await this.getLocalEntries(), rest),
+      ...this.filter((await this.getIndex()).entries, rest)
+    ];
+    return limit && limit > 0 ? entries.slice(0, limit) : entries;
+  }
+
+  async searchLocal(criteria: PolicySearchCriteria): Promise<PolicyCatalogEntry[]> {
+    return this.filter(await this.getLocalEntries(), criteria);
+  }
+
+  /**
+   * Entries of the definitions in local data sources; never written to the catalog file so
+   * edits to local definitions are picked up without a rebuild
+   */
+  async getLocalEntries(): Promise<PolicyCatalogEntry[]> {
+    return this.indexDefinitions(await this.dataSourceManager.getLocalPolicyDefinitions(), LOCAL_SOURCE).entries;
+  }
+
+  /**
+   * Filter catalog entries. Every given criterion must match; within a criterion any value
+   * may match. Preview and deprecated definitions are excluded unless requested, and resource
+   * types only match definitions that target them, ranked by how closely they target them.
+   */
+  filter(entries: PolicyCatalogEntry[], criteria: PolicySearchCriteria): PolicyCatalogEntry[] {
+    const lower = (values?: string[]) => (values ?? []).map(value => value.toLowerCase());
+    const categories = lower(criteria.categories);
+    const effects = lower(criteria.effects);
+    const resourceTypes = lower(criteria.resourceTypes);
+    const keywords = lower(criteria.keywords);
+    const policyTypes = lower(criteria.policyTypes);
+
+    const results = entries.filter(entry => {
+      if (entry.preview && !criteria.includePreview) return false;
+      if (entry.deprecated && !criteria.includeDeprecated) return false;
+      if (categories.length > 0 && !categories.includes(entry.category.toLowerCase())) return false;
+      if (policyTypes.length > 0 && !policyTypes.includes(String(entry.policyType).toLowerCase())) return false;
+      if (effects.length > 0 && !entry.effects.some(effect => effects.includes(effect.toLowerCase()))) return false;
+
+      // Policies without type constraints apply to every type, so they would match any search
+      if (resourceTypes.length > 0) {
+        const applies = entry.applicability.source !== 'unconstrained' &&
+          resourceTypes.some(type => appliesToResourceType(entry.applicability, type));
+        if (!applies) return false;
+      }
+
+      if (keywords.length > 0) {
+        const text = `${entry.name} ${entry.displayName} ${entry.description} ${entry.category}`.toLowerCase();
+        if (!keywords.some(keyword => text.includes(keyword))) return false;
+      }
+
+      return true;
+    });
+
+    if (resourceTypes.length > 0) {
+      // Definitions naming a requested type come before those matching it through a wildcard,
+      // and definitions targeting fewer types before broader ones
+      const rank = (entry: PolicyCatalogEntry) =>
+        entry.applicability.includes.some(pattern => resourceTypes.includes(pattern.toLowerCase())) ? 0 : 1;
+      results.sort((left, right) =>
+        rank(left) - rank(right) || left.applicability.includes.length - right.applicability.includes.length);
+    }
+
+    return criteria.limit && criteria.limit > 0 ? results.slice(0, criteria.limit) : results;
+  }
+
+  private toEntry(path: string, definition: AzurePolicyDefinition): PolicyCatalogEntry {
+    const name = definition.name || path.split('/').pop()!.replace(/\.json$/i, '');
+    const parsed = this.policyParser.analyzePolicyDefinition(
+      definition,
+      definition.id || `/providers/Microsoft.Authorization/policyDefinitions/${name}`
+    );
+
+    const effects = new Map<string, string>();
+    for (const info of parsed.effects) {
+      for (const effect of [info.effect, ...(info.allowedValues ?? [])]) {
+        if (typeof effect === 'string' && !effects.has(effect.toLowerCase())) {
+          effects.set(effect.toLowerCase(), effect);
+        }
+      }
+    }
+
+    return {
+      id: parsed.id,
+      name,
+      path,
+      displayName: parsed.displayName,
+      description: parsed.description,
+      category: parsed.category,
+      policyType: parsed.policyType,
+      mode: parsed.mode,
+      ...(parsed.version !== undefined && { version: String(parsed.version) }),
+      deprecated: Boolean(parsed.deprecated),
+      preview: Boolean(parsed.preview),
+      resourceTypes: parsed.resourceTypes,
+      applicability: parsed.applicability,
+      aliases: this.collectAliases(definition),
+      effects: Array.from(effects.values())
+    };
+  }
+
+  /**
+   * Aliases referenced by the rule, count expressions and existence conditions
+   */
+  private collectAliases(definition: AzurePolicyDefinition): string[] {
+    const aliases = new Set<string>();
+
+    const visit = (condition: PolicyCondition | undefined) => {
+      if (!condition || typeof condition !== 'object') return;
+
+      for (const field of [condition.field, condition.count?.field]) {
+        if (typeof field === 'string' && field.includes('/') && !field.startsWith('[')) {
+          aliases.add(field);
+        }
+      }
+      condition.allOf?.forEach(visit);
+      condition.anyOf?.forEach(visit);
+      visit(condition.not);
+      visit(condition.count?.where);
+    };
+
+    const rule = definition.properties.policyRule;
+    visit(rule?.if);
+    visit((rule?.then?.details as Record<string, any> | undefined)?.existenceCondition);
+
+    return Array.from(aliases).sort();
+  }
+}
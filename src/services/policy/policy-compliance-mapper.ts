@@ -0,0 +1,221 @@
+/**
+ * Policy compliance mapper - groups template validation results by the regulatory
+ * compliance controls (policyDefinitionGroups) of a framework initiative
+ */
+
+import { PolicyOutcomeResolver } from './policy-outcome-resolver.js';
+import { appliesToResourceType } from './resource-type-applicability.js';
+import type {
+  ComplianceControlResult,
+  ComplianceFramework,
+  CompliancePolicyResult,
+  ComplianceReport,
+  ComplianceResourceResult,
+  ComplianceState,
+  ParsedPolicySet,
+  PolicySetMember
+} from '../../types/policy.js';
+import type { TemplateResource } from '../../types/templates.js';
+
+// Built-in regulatory compliance initiatives
+export const COMPLIANCE_FRAMEWORKS: ComplianceFramework[] = [
+  {
+    id: 'cis',
+    displayName: 'CIS Microsoft Azure Foundations Benchmark v2.0.0',
+    policySetDefinitionId: '/providers/Microsoft.Authorization/policySetDefinitions/06f19060-9e68-4070-92ca-f15cc126059e'
+  },
+  {
+    id: 'nist-sp-800-53',
+    displayName: 'NIST SP 800-53 Rev. 5',
+    policySetDefinitionId: '/providers/Microsoft.Authorization/policySetDefinitions/179d1daa-458f-4e47-8086-2a68d0d6c38f'
+  },
+  {
+    id: 'iso-27001',
+    displayName: 'ISO 27001:2013',
+    policySetDefinitionId: '/providers/Microsoft.Authorization/policySetDefinitions/89c6cddc-1c73-4ac1-b19c-54d1a15a42f2'
+  },
+  {
+    id: 'pci-dss',
+    displayName: 'PCI DSS v4',
+    policySetDefinitionId: '/providers/Microsoft.Authorization/policySetDefinitions/c676748e-3af9-4e22-bc28-50feed564afb'
+  },
+  {
+    id: 'mcsb',
+    displayName: 'Microsoft cloud security benchmark',
+    policySetDefinitionId: '/providers/Microsoft.Authorization/policySetDefinitions/1f3afdf9-d0c9-4c3d-847f-89da613e70a8'
+  }
+];
+
+// A failing control outranks a passing one; controls without any evaluated policy come last
+const STATE_PRIORITY: ComplianceState[] = ['failed', 'passed', 'notEvaluable', 'notApplicable'];
+
+const STATE_ICONS: Record<ComplianceState, string> = {
+  failed: '❌',
+  passed: '✅',
+  notEvaluable: '❔',
+  notApplicable: '➖'
+};
+
+/**
+ * Find a framework by id (e.g. nist-sp-800-53) or display name, case-insensitively
+ */
+export function findComplianceFramework(name: string): ComplianceFramework | undefined {
+  const key = name.trim().toLowerCase();
+  return COMPLIANCE_FRAMEWORKS.find(framework =>
+    framework.id === key || framework.displayName.toLowerCase() === key);
+}
+
+export class PolicyComplianceMapper {
+  constructor(private outcomeResolver: PolicyOutcomeResolver = new PolicyOutcomeResolver()) {}
+
+  /**
+   * Evaluate every member of a framework initiative against the template resources and group
+   * the results by control. A control fails when any of its policies reports a resource.
+   */
+  buildReport(initiative: ParsedPolicySet, resources: TemplateResource[]): ComplianceReport {
+    const results = new Map(initiative.members.map(member => [member.referenceId, this.evaluateMember(member, resources)]));
+
+    const groups = new Map(initiative.groups.map(group => [group.name.toLowerCase(), group]));
+    const controls = new Map<string, ComplianceControlResult>();
+    const ungroupedPolicies: CompliancePolicyResult[] = [];
+
+    for (const member of initiative.members) {
+      const result = results.get(member.referenceId)!;
+      if (member.groupNames.length === 0) {
+        ungroupedPolicies.push(result);
+        continue;
+      }
+
+      for (const groupName of member.groupNames) {
+        const key = groupName.toLowerCase();
+        let control = controls.get(key);
+        if (!control) {
+          const group = groups.get(key);
+          control = {
+            name: group?.name ?? groupName,
+            displayName: group?.displayName || group?.name || groupName,
+            ...(group?.category && { category: group.category }),
+            state: 'notApplicable',
+            policies: []
+          };
+          controls.set(key, control);
+        }
+        control.policies.push(result);
+      }
+    }
+
+    for (const control of controls.values()) {
+      control.state = this.combine(control.policies.map(policy => policy.state));
+    }
+
+    const summary: Record<ComplianceState, number> = { passed: 0, failed: 0, notApplicable: 0, notEvaluable: 0 };
+    controls.forEach(control => summary[control.state]++);
+
+    return {
+      framework: initiative.displayName,
+      policySetDefinitionId: initiative.id,
+      controls: Array.from(controls.values())
+        .sort((left, right) => STATE_PRIORITY.indexOf(left.state) - STATE_PRIORITY.indexOf(right.state) ||
+          left.name.localeCompare(right.name, undefined, { numeric: true })),
+      ungroupedPolicies,
+      summary
+    };
+  }
+
+  /**
+   * Render a report with one line per control and its policies and resources below it
+   */
+  formatReport(report: ComplianceReport, options: { includeNotApplicable?: boolean } = {}): string {
+    const { summary } = report;
+    const controls = report.controls.filter(control => options.includeNotApplicable || control.state !== 'notApplicable');
+
+    const lines = [
+      `**${report.framework}** - ${summary.failed} control(s) failed, ${summary.passed} passed, ` +
+      `${summary.notEvaluable} not evaluable, ${summary.notApplicable} not applicable`
+    ];
+
+    for (const control of controls) {
+      lines.push(`\n${STATE_ICONS[control.state]} **${control.name}**` +
+        (control.displayName !== control.name ? ` ${control.displayName}` : ''));
+
+      for (const policy of control.policies) {
+        if (policy.state === 'notApplicable' && !options.includeNotApplicable) continue;
+
+        lines.push(`  - ${STATE_ICONS[policy.state]} ${policy.displayName}${policy.effect ? ` (${policy.effect})` : ''}` +
+          (policy.reason ? ` - ${policy.reason}` : ''));
+        for (const resource of policy.resources) {
+          lines.push(`    - ${resource.state === 'failed' ? '❌' : '✅'} ${resource.symbolicName} (${resource.type})` +
+            (resource.reason ? `: ${resource.reason}` : ''));
+        }
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private evaluateMember(member: PolicySetMember, resources: TemplateResource[]): CompliancePolicyResult {
+    const base = {
+      referenceId: member.referenceId,
+      policyDefinitionId: member.policyDefinitionId,
+      displayName: member.policy?.displayName ?? member.referenceId,
+      ...(member.effect && { effect: member.effect })
+    };
+
+    if (!member.definition) {
+      return { ...base, state: 'notEvaluable', reason: 'Definition not found', resources: [] };
+    }
+
+    const involved: ComplianceResourceResult[] = [];
+    let notEvaluableReason: string | undefined;
+
+    for (const declaration of resources) {
+      const outcome = this.outcomeResolver.resolve(declaration, [{
+        name: member.referenceId,
+        definition: member.definition,
+        parameters: member.parameters
+      }], resources);
+      const step = outcome.steps[0];
+      if (!step) continue;
+
+      const resource = { symbolicName: declaration.symbolicName, type: declaration.type };
+      switch (step.result) {
+        case 'denied':
+        case 'nonCompliant':
+          involved.push({ ...resource, state: 'failed', ...(step.reason && { reason: step.reason }) });
+          break;
+        case 'compliant':
+        case 'modified':
+        case 'deployed':
+          involved.push({ ...resource, state: 'passed', ...(step.reason && { reason: step.reason }) });
+          break;
+        case 'notApplicable':
+          // The rule did not match a resource type it targets, so the resource passes
+          if (!step.reason && (!member.policy ||
+              appliesToResourceType(member.policy.applicability, declaration.type, declaration.resource.kind))) {
+            involved.push({ ...resource, state: 'passed' });
+          }
+          break;
+        case 'notEvaluable':
+          notEvaluableReason = step.reason;
+          break;
+        default:
+          break;
+      }
+    }
+
+    if (involved.some(resource => resource.state === 'failed')) {
+      return { ...base, state: 'failed', resources: involved };
+    }
+    if (involved.length > 0) {
+      return { ...base, state: 'passed', resources: involved };
+    }
+    if (notEvaluableReason) {
+      return { ...base, state: 'notEvaluable', reason: notEvaluableReason, resources: [] };
+    }
+    return { ...base, state: 'notApplicable', resources: [] };
+  }
+
+  private combine(states: ComplianceState[]): ComplianceState {
+    return STATE_PRIORITY.find(state => states.includes(state)) ?? 'notApplicable';
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * Policy conflict detector - compares the field requirements and modify / append operations
+ * of a set of policies and reports combinations no resource can satisfy
+ */
+
+import { PolicyAliasResolver } from './alias-resolver.js';
+import { CONDITION_OPERATORS, PolicyEvaluator } from './policy-evaluator.js';
+import { PolicyExpressionEvaluator } from './policy-expression.js';
+import { PolicyExplainer } from './policy-explainer.js';
+import { PolicyParser } from './policy-parser.js';
+import { appliesToResourceType, matchesTypePattern } from './resource-type-applicability.js';
+import type {
+  PolicyApplication,
+  PolicyCondition,
+  PolicyConflict,
+  PolicyConflictReport,
+  PolicyRequirement,
+  PolicyResource,
+  ResourceTypeApplicability
+} from '../../types/policy.js';
+
+const NEGATED_OPERATORS: Record<string, string> = {
+  equals: 'notEquals',
+  like: 'notLike',
+  match: 'notMatch',
+  matchInsensitively: 'notMatchInsensitively',
+  contains: 'notContains',
+  in: 'notIn',
+  containsKey: 'notContainsKey',
+  less: 'greaterOrEquals',
+  lessOrEquals: 'greater'
+};
+for (const [operator, negated] of Object.entries(NEGATED_OPERATORS)) {
+  NEGATED_OPERATORS[negated] = operator;
+}
+
+// Only deny and audit conditions describe what a compliant resource looks like; the other
+// effects use their condition to select resources
+const REQUIREMENT_EFFECTS = new Set(['deny', 'audit']);
+
+// 'scope' marks type and kind conditions, which applicability covers instead
+type Constraint = PolicyCondition | 'scope' | undefined;
+
+interface KeyedRequirement {
+  requirement: PolicyRequirement;
+  key: string;
+  // Resource type of the alias, when the field is one
+  aliasType?: string;
+  applicability: ResourceTypeApplicability;
+}
+
+export class PolicyConflictDetector {
+  constructor(
+    private aliases: PolicyAliasResolver = new PolicyAliasResolver(),
+    private evaluator: PolicyEvaluator = new PolicyEvaluator(new PolicyExpressionEvaluator(), aliases),
+    private policyParser: PolicyParser = new PolicyParser(aliases),
+    private expressions: PolicyExpressionEvaluator = new PolicyExpressionEvaluator(),
+    private explainer: PolicyExplainer = new PolicyExplainer(expressions)
+  ) {}
+
+  /**
+   * Compare the requirements of every pair of policies on the same property of the resource
+   * types both apply to. A pair conflicts when the values one of them allows (equals / in /
+   * exists false, or the value a modify sets) all violate the other.
+   */
+  detect(applications: PolicyApplication[]): PolicyConflictReport {
+    const requirements = applications.flatMap(application => this.extractRequirements(application));
+    const conflicts: PolicyConflict[] = [];
+
+    for (let i = 0; i < requirements.length; i++) {
+      for (let j = i + 1; j < requirements.length; j++) {
+        const [left, right] = [requirements[i], requirements[j]];
+        if (left.key !== right.key || left.requirement.policy === right.requirement.policy) continue;
+
+        const resourceTypes = left.aliasType !== undefined
+          ? (appliesToResourceType(left.applicability, left.aliasType) && appliesToResourceType(right.applicability, left.aliasType)
+            ? [left.aliasType]
+            : undefined)
+          : this.sharedTypes(left.applicability, right.applicability);
+        if (!resourceTypes) continue;
+
+        const common = this.commonValues(left, right);
+        if (common === undefined || (common.length > 0 && !this.disjointLists(left, right))) continue;
+
+        conflicts.push({
+          path: left.requirement.path,
+          resourceTypes,
+          first: left.requirement,
+          second: right.requirement,
+          reason: `${left.requirement.policy} ${left.requirement.description}, but ` +
+            `${right.requirement.policy} ${right.requirement.description}` +
+            (common.length > 0 ? ` (only ${common.map(value => JSON.stringify(value)).join(', ')} satisfies both)` : '')
+        });
+      }
+    }
+
+    return { policies: applications.length, requirements: requirements.length, conflicts };
+  }
+
+  /**
+   * Render the conflicts with both policy ids and the resource types affected
+   */
+  formatReport(report: PolicyConflictReport): string {
+    const header = `**Policy Conflicts** (${report.policies} policies, ${report.requirements} requirements compared): ` +
+      `${report.conflicts.length} conflict(s)`;
+
+    if (report.conflicts.length === 0) {
+      return `${header}\n\nNo unsatisfiable combination found.`;
+    }
+
+    return header + '\n\n' + report.conflicts.map(conflict =>
+      `- ❌ **${conflict.path}**` +
+      (conflict.resourceTypes.length > 0 ? ` (${conflict.resourceTypes.join(', ')})` : ' (all resource types)') +
+      `: ${conflict.reason}\n` +
+      `  - ${conflict.first.policyId}\n` +
+      `  - ${conflict.second.policyId}`
+    ).join('\n');
+  }
+
+  /**
+   * Requirements of a single policy: the field conditions its deny / audit rule implies for
+   * compliant resources, or the values its modify operations and append details set
+   */
+  private extractRequirements(application: PolicyApplication): KeyedRequirement[] {
+    const { definition } = application;
+    const rule = definition.properties.policyRule;
+    if (!rule?.if) return [];
+
+    const parameters = this.evaluator.resolveParameters(definition, application.parameters ?? {});
+    const resolve = (value: any) => this.expressions.resolve(value, { parameters });
+
+    let effect: string;
+    try {
+      effect = String(application.effect ?? resolve(rule.then?.effect));
+    } catch {
+      return [];
+    }
+
+    const base = { policyId: definition.id ?? definition.name ?? application.name, policy: application.name, effect };
+    const applicability = this.policyParser.analyzeResourceTypeApplicability(rule);
+    const requirements: KeyedRequirement[] = [];
+
+    const add = (source: PolicyRequirement['source'], field: string, condition: PolicyCondition, description: string) => {
+      const resolution = this.aliases.isBuiltInField(field) ? undefined : this.aliases.resolve(field);
+      const path = resolution?.path ?? field;
+      requirements.push({
+        requirement: { ...base, source, field, path, condition, description },
+        key: `${resolution?.resourceType.toLowerCase() ?? ''}|${path.toLowerCase()}`,
+        ...(resolution && { aliasType: resolution.resourceType }),
+        applicability
+      });
+    };
+
+    const lowerEffect = effect.toLowerCase();
+    try {
+      if (REQUIREMENT_EFFECTS.has(lowerEffect)) {
+        const compliant = this.normalize(rule.if, true, resolve);
+        const conjuncts = typeof compliant === 'object' ? (compliant.allOf ?? [compliant]) : [];
+        for (const conjunct of conjuncts) {
+          const fields = this.fieldsOf(conjunct);
+          if (fields.size === 1) {
+            add('condition', Array.from(fields.values())[0], conjunct, `requires ${this.explainer.explainCondition(conjunct)}`);
+          }
+        }
+      } else if (lowerEffect === 'modify' || lowerEffect === 'append') {
+        const details = rule.then?.details as Record<string, any> | any[] | undefined;
+        const operations: any[] = lowerEffect === 'modify'
+          ? (!Array.isArray(details) && Array.isArray(details?.operations) ? details.operations : [])
+          : (Array.isArray(details) ? details.map((entry: any) => ({ operation: 'addOrReplace', ...entry })) : []);
+
+        for (const operation of operations) {
+          const field = typeof operation?.field === 'string' ? operation.field : undefined;
+          if (!field || !this.isPlainField(field)) continue;
+
+          const kind = String(operation.operation ?? '').toLowerCase();
+          if (kind === 'remove') {
+            add(lowerEffect, field, { field, exists: false }, `removes \`${field}\``);
+          } else if (kind === 'add' || kind === 'addorreplace') {
+            const value = resolve(operation.value);
+            if (this.expressions.isExpression(value)) continue;
+            add(lowerEffect, field, { field, equals: value }, `sets \`${field}\` to ${JSON.stringify(value)}`);
+          }
+        }
+      }
+    } catch (error) {
+      console.warn(`Failed to extract requirements of policy ${base.policyId}:`, error);
+    }
+
+    return requirements;
+  }
+
+  /**
+   * Condition in negation normal form, without type / kind conditions and with resolved
+   * values. Conditions that cannot be compared (count, value, expression or [*] fields)
+   * are undefined: dropped from a conjunction, and making a disjunction unknown.
+   */
+  private normalize(condition: PolicyCondition, negated: boolean, resolve: (value: any) => any): Constraint {
+    if (!condition || typeof condition !== 'object') return undefined;
+
+    const children = condition.allOf ?? condition.anyOf;
+    if (children) {
+      const parts = children.map(child => this.normalize(child, negated, resolve));
+      const kept = parts.filter((part): part is PolicyCondition => typeof part === 'object');
+
+      // not anyOf is an allOf of the negated children, and not allOf an anyOf
+      if (Boolean(condition.allOf) !== negated) {
+        if (kept.length === 0) return parts.length > 0 && parts.every(part => part === 'scope') ? 'scope' : undefined;
+        return kept.length === 1 ? kept[0] : { allOf: kept.flatMap(part => part.allOf ?? [part]) };
+      }
+      if (parts.some(part => part === undefined)) return undefined;
+      if (kept.length === 0) return 'scope';
+      return kept.length === 1 ? kept[0] : { anyOf: kept.flatMap(part => part.anyOf ?? [part]) };
+    }
+
+    if (condition.not) return this.normalize(condition.not, !negated, resolve);
+
+    const field = condition.field;
+    if (condition.count || typeof field !== 'string' || !this.isPlainField(field)) return undefined;
+    if (['type', 'kind'].includes(field.toLowerCase())) return 'scope';
+
+    const operator = CONDITION_OPERATORS.find(op => condition[op] !== undefined);
+    if (!operator) return undefined;
+
+    const value = resolve(condition[operator]);
+    if (this.expressions.isExpression(value)) return undefined;
+
+    if (operator === 'exists') {
+      const exists = String(value).toLowerCase() === 'true';
+      return { field, exists: exists !== negated };
+    }
+    return { field, [negated ? NEGATED_OPERATORS[operator] : operator]: value };
+  }
+
+  /**
+   * The values satisfying both requirements. Only values one of them enumerates are tried;
+   * undefined when both allow open-ended values, which are assumed compatible.
+   */
+  private commonValues(left: KeyedRequirement, right: KeyedRequirement): any[] | undefined {
+    const enumerated = [left, right].map(entry => this.candidates(entry.requirement.condition));
+    if (enumerated.every(values => values === undefined)) return undefined;
+
+    const type = left.aliasType ?? right.aliasType ?? 'Microsoft.Resources/resources';
+    const satisfies = (entry: KeyedRequirement, value: any) =>
+      this.evaluator.evaluateCondition(entry.requirement.condition, this.resourceWith(entry.requirement.path, value, type));
+
+    const common: any[] = [];
+    for (const value of enumerated.flatMap(values => values ?? [])) {
+      if (satisfies(left, value) && satisfies(right, value) && !common.some(known => this.sameValue(known, value))) {
+        common.push(value);
+      }
+    }
+    return common;
+  }
+
+  /**
+   * Whether both requirements allow a list of values (in) and the lists share none, e.g.
+   * allowed locations that only agree on an exemption such as 'global'
+   */
+  private disjointLists(left: KeyedRequirement, right: KeyedRequirement): boolean {
+    const lists = (condition: PolicyCondition): any[] | undefined => {
+      if (Array.isArray(condition.in)) return condition.in;
+      const branches = [...(condition.anyOf ?? []), ...(condition.allOf ?? [])]
+        .map(lists).filter((values): values is any[] => values !== undefined);
+      return branches.length > 0 ? branches.flat() : undefined;
+    };
+
+    const [leftValues, rightValues] = [lists(left.requirement.condition), lists(right.requirement.condition)];
+    return leftValues !== undefined && rightValues !== undefined &&
+      !leftValues.some(value => rightValues.some(other => this.sameValue(value, other)));
+  }
+
+  // Policy comparisons of strings are case-insensitive
+  private sameValue(left: any, right: any): boolean {
+    return typeof left === 'string' && typeof right === 'string'
+      ? left.toLowerCase() === right.toLowerCase()
+      : JSON.stringify(left) === JSON.stringify(right);
+  }
+
+  /**
+   * Every value a condition allows, when it enumerates them (undefined stands for a
+   * missing property)
+   */
+  private candidates(condition: PolicyCondition): any[] | undefined {
+    if (condition.anyOf) {
+      const branches = condition.anyOf.map(branch => this.candidates(branch));
+      return branches.every(branch => branch !== undefined) ? branches.flat() : undefined;
+    }
+    if (condition.allOf) {
+      return condition.allOf.map(part => this.candidates(part)).find(part => part !== undefined);
+    }
+    if (condition.equals !== undefined) return [condition.equals];
+    if (Array.isArray(condition.in)) return condition.in;
+    if (condition.exists === false) return [undefined];
+    return undefined;
+  }
+
+  private resourceWith(path: string, value: any, type: string): PolicyResource {
+    const resource: PolicyResource = { name: 'resource', type };
+    if (value === undefined) return resource;
+
+    const segments = path.replace(/\[['"]?([^\]'"]+)['"]?\]/g, '.$1').split('.');
+    let target: Record<string, any> = resource;
+    segments.slice(0, -1).forEach(segment => {
+      target[segment] = target[segment] ?? {};
+      target = target[segment];
+    });
+    target[segments[segments.length - 1]] = value;
+    return resource;
+  }
+
+  /**
+   * Resource types both policies apply to: [] when both apply to every type, undefined
+   * when they share none
+   */
+  private sharedTypes(left: ResourceTypeApplicability, right: ResourceTypeApplicability): string[] | undefined {
+    if (left.source === 'unconstrained' && right.source === 'unconstrained') return [];
+
+    const shared = left.source === 'unconstrained'
+      ? right.includes.filter(type => appliesToResourceType(left, type))
+      : right.source === 'unconstrained'
+        ? left.includes.filter(type => appliesToResourceType(right, type))
+        : left.includes.filter(type => right.includes.some(other =>
+          matchesTypePattern(other, type) || matchesTypePattern(type, other)));
+    return shared.length > 0 ? shared : undefined;
+  }
+
+  private fieldsOf(condition: PolicyCondition): Map<string, string> {
+    const fields = new Map<string, string>();
+    const visit = (node: PolicyCondition) => {
+      if (node.field && !fields.has(node.field.toLowerCase())) fields.set(node.field.toLowerCase(), node.field);
+      [...(node.allOf ?? []), ...(node.anyOf ?? [])].forEach(visit);
+    };
+    visit(condition);
+    return fields;
+  }
+
+  // Array ([*]) fields and expressions are not compared
+  private isPlainField(field: string): boolean {
+    return !field.includes('[*]') && !this.expressions.isExpression(field);
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Policy coverage mapper - maps template resource properties to the policies whose field
+ * checks govern them, and lists security-relevant properties no policy covers
+ */
+
+import { PolicyAliasResolver } from './alias-resolver.js';
+import { PolicyEvaluator } from './policy-evaluator.js';
+import { PolicyExpressionEvaluator } from './policy-expression.js';
+import { appliesToResourceType } from './resource-type-applicability.js';
+import type {
+  ParsedPolicy,
+  PolicyCoverageMap,
+  PolicyResource,
+  PropertyCoverage,
+  ResourceCoverage
+} from '../../types/policy.js';
+import type { TemplateResource } from '../../types/templates.js';
+
+// Property names (last path segment) that commonly weaken a resource's security when unset
+export const SECURITY_PROPERTIES = [
+  'publicNetworkAccess',
+  'minimumTlsVersion',
+  'minimalTlsVersion',
+  'minTlsVersion',
+  'supportsHttpsTrafficOnly',
+  'httpsOnly',
+  'ftpsState',
+  'allowBlobPublicAccess',
+  'allowSharedKeyAccess',
+  'disableLocalAuth',
+  'adminUserEnabled',
+  'anonymousPullEnabled',
+  'enableNonSslPort',
+  'enablePurgeProtection',
+  'enableSoftDelete',
+  'enableRbacAuthorization',
+  'requireInfrastructureEncryption',
+  'defaultAction',
+  'remoteDebuggingEnabled'
+];
+
+export class PolicyCoverageMapper {
+  private securityProperties: Set<string>;
+
+  constructor(
+    private aliases: PolicyAliasResolver = new PolicyAliasResolver(),
+    private evaluator: PolicyEvaluator = new PolicyEvaluator(new PolicyExpressionEvaluator(), aliases),
+    securityProperties: string[] = SECURITY_PROPERTIES
+  ) {
+    this.securityProperties = new Set(securityProperties.map(property => property.toLowerCase()));
+  }
+
+  /**
+   * Map every resource's properties to the field checks of the policies applying to its type.
+   * Security-relevant properties are taken from the alias catalog and the template itself.
+   */
+  buildMap(resources: TemplateResource[], policies: Array<{ name: string; policy: ParsedPolicy }>): PolicyCoverageMap {
+    return {
+      policies: policies.length,
+      resources: resources.map(resource => this.mapResource(resource, policies))
+    };
+  }
+
+  /**
+   * Render the map as a table of governed properties followed by the uncovered
+   * security-relevant properties per resource
+   */
+  formatMap(map: PolicyCoverageMap): string {
+    const rows = map.resources.flatMap(resource => resource.properties.map(property =>
+      `| ${resource.symbolicName} | ${property.path}${property.securityRelevant ? ' 🔒' : ''} | ` +
+      `${property.declared ? 'yes' : 'no'} | ` +
+      `${property.policies.map(policy => `${policy.policy} (${policy.effect}: ${policy.operators.join(', ')})`).join('<br>')} |`));
+
+    const lines = [
+      `**Policy Coverage** (${map.resources.length} resources, ${map.policies} policies)`,
+      '',
+      ...(rows.length > 0
+        ? ['| Resource | Property | Declared | Policies |', '| --- | --- | --- | --- |', ...rows]
+        : ['No policy checks a property of the template resources.'])
+    ];
+
+    const gaps = map.resources.filter(resource => resource.uncoveredSecurityProperties.length > 0);
+    if (gaps.length > 0) {
+      lines.push('', '**Uncovered Security-Relevant Properties:**');
+      for (const resource of gaps) {
+        lines.push(`- ${resource.symbolicName} (${resource.type}): ` + resource.uncoveredSecurityProperties
+          .map(property => property.declared ? property.path : `${property.path} (not set)`).join(', '));
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private mapResource(declaration: TemplateResource, policies: Array<{ name: string; policy: ParsedPolicy }>): ResourceCoverage {
+    const resource = declaration.resource;
+    const applicable = policies.filter(({ policy }) =>
+      appliesToResourceType(policy.applicability, declaration.type, resource.kind));
+    const properties = new Map<string, PropertyCoverage>();
+
+    for (const { name, policy } of applicable) {
+      const effect = policy.effects[0]?.effect ?? 'unknown';
+
+      for (const check of policy.rules.fieldChecks) {
+        const path = this.propertyPath(check.field, declaration.type);
+        if (!path) continue;
+
+        const key = this.normalize(path);
+        let coverage = properties.get(key);
+        if (!coverage) {
+          coverage = {
+            path,
+            declared: this.isDeclared(check.field, resource),
+            securityRelevant: this.isSecurityRelevant(path),
+            policies: []
+          };
+          properties.set(key, coverage);
+        }
+        coverage.policies.push({ policy: name, effect, field: check.field, operators: Array.from(new Set(check.operators)) });
+      }
+    }
+
+    const covered = Array.from(properties.keys());
+    const uncoveredSecurityProperties = this.securityCandidates(declaration)
+      .filter(candidate => !covered.some(path => this.overlaps(path, this.normalize(candidate.path))));
+
+    return {
+      symbolicName: declaration.symbolicName,
+      type: declaration.type,
+      policies: applicable.map(({ name }) => name),
+      properties: Array.from(properties.values()).sort((left, right) => left.path.localeCompare(right.path)),
+      uncoveredSecurityProperties
+    };
+  }
+
+  /**
+   * Property path of a field check on the resource type; type conditions, expressions and
+   * aliases of other resource types are not properties of the resource
+   */
+  private propertyPath(field: string, resourceType: string): string | undefined {
+    const lower = field.toLowerCase();
+    if (lower === 'type' || field.startsWith('[')) return undefined;
+    if (this.aliases.isBuiltInField(field)) return field;
+
+    const resolution = this.aliases.resolve(field);
+    return resolution && resolution.resourceType.toLowerCase() === resourceType.toLowerCase()
+      ? resolution.path
+      : undefined;
+  }
+
+  /**
+   * Security-relevant properties the resource type has aliases for or the template sets
+   */
+  private securityCandidates(declaration: TemplateResource): Array<{ path: string; declared: boolean }> {
+    const candidates = new Map<string, { path: string; declared: boolean }>();
+
+    for (const alias of this.aliases.getAliases(declaration.type)) {
+      const path = this.aliases.resolve(alias)?.path;
+      if (path && this.isSecurityRelevant(path)) {
+        candidates.set(this.normalize(path), { path, declared: this.isDeclared(alias, declaration.resource) });
+      }
+    }
+
+    const visit = (value: any, path: string, depth: number) => {
+      if (!value || typeof value !== 'object' || Array.isArray(value) || depth > 4) return;
+      for (const [key, child] of Object.entries(value)) {
+        const childPath = `${path}.${key}`;
+        if (this.isSecurityRelevant(childPath) && !candidates.has(this.normalize(childPath))) {
+          candidates.set(this.normalize(childPath), { path: childPath, declared: true });
+        }
+        visit(child, childPath, depth + 1);
+      }
+    };
+    visit(declaration.resource.properties, 'properties', 0);
+
+    return Array.from(candidates.values()).sort((left, right) => left.path.localeCompare(right.path));
+  }
+
+  private isDeclared(field: string, resource: PolicyResource): boolean {
+    try {
+      const value = this.evaluator.getFieldValue(field, resource);
+      return Array.isArray(value) && field.includes('[*]')
+        ? value.some(member => member !== undefined)
+        : value !== undefined;
+    } catch {
+      return false;
+    }
+  }
+
+  private isSecurityRelevant(path: string): boolean {
+    return this.securityProperties.has(this.normalize(path).split('.').pop()!);
+  }
+
+  // A check on a parent object (e.g. properties.networkAcls) covers its members and vice versa
+  private overlaps(left: string, right: string): boolean {
+    return left === right || left.startsWith(`${right}.`) || right.startsWith(`${left}.`);
+  }
+
+  private normalize(path: string): string {
+    return path.replace(/\[\*\]/g, '').toLowerCase();
+  }
+}
@@ -0,0 +1,371 @@
+/**
+ * Policy differ - semantic comparison of two versions of a policy definition
+ */
+
+import { PolicyExpressionEvaluator } from './policy-expression.js';
+import type {
+  AzurePolicyDefinition,
+  PolicyDefinitionChange,
+  PolicyDefinitionDiff
+} from '../../types/policy.js';
+
+// A leaf condition located by its chain of logical operators rather than array
+// indexes, so reordered allOf/anyOf members are not reported as changes
+interface ConditionLeaf {
+  context: string;
+  subject: string;
+  operator: string;
+  value: any;
+  path: string;
+}
+
+const SUBJECT_KEYS = ['field', 'value', 'count'];
+
+// Metadata changes never alter evaluation results
+const METADATA_PROPERTIES = ['displayName', 'description', 'metadata.version', 'metadata.category', 'metadata.preview', 'metadata.deprecated'];
+
+export class PolicyDiffer {
+  constructor(private expressions: PolicyExpressionEvaluator = new PolicyExpressionEvaluator()) {}
+
+  /**
+   * Compare two versions of a policy definition. Rule, effect, mode and parameter changes that
+   * alter compliance results or break existing assignments are classified as breaking.
+   */
+  diff(before: AzurePolicyDefinition, after: AzurePolicyDefinition): PolicyDefinitionDiff {
+    const from = before.properties;
+    const to = after.properties;
+    const changes: PolicyDefinitionChange[] = [];
+
+    for (const property of METADATA_PROPERTIES) {
+      const previous = this.get(from, property);
+      const next = this.get(to, property);
+      if (!this.isSame(previous, next)) {
+        changes.push({
+          kind: 'metadata',
+          path: property,
+          description: `${property} changed from ${this.format(previous)} to ${this.format(next)}`,
+          breaking: false,
+          before: previous,
+          after: next
+        });
+      }
+    }
+
+    if (String(from.mode ?? '').toLowerCase() !== String(to.mode ?? '').toLowerCase()) {
+      changes.push({
+        kind: 'mode',
+        path: 'mode',
+        description: `Mode changed from ${from.mode} to ${to.mode}, changing which resources are evaluated`,
+        breaking: true,
+        before: from.mode,
+        after: to.mode
+      });
+    }
+
+    changes.push(...this.diffConditions(from.policyRule?.if, to.policyRule?.if));
+    changes.push(...this.diffEffect(before, after));
+    changes.push(...this.diffParameters(from.parameters || {}, to.parameters || {}));
+
+    return {
+      ...(from.metadata?.version && { fromVersion: from.metadata.version }),
+      ...(to.metadata?.version && { toVersion: to.metadata.version }),
+      identical: changes.length === 0,
+      hasBreakingChanges: changes.some(change => change.breaking),
+      changes
+    };
+  }
+
+  /**
+   * Match leaf conditions on the same subject within the same logical context: identical
+   * conditions cancel out, then conditions with the same operator are reported as changed
+   * values, then remaining pairs as changed operators; the rest were added or removed
+   */
+  private diffConditions(before: any, after: any): PolicyDefinitionChange[] {
+    const changes: PolicyDefinitionChange[] = [];
+    const previous = this.groupLeaves(before);
+    const next = this.groupLeaves(after);
+
+    for (const key of new Set([...previous.keys(), ...next.keys()])) {
+      const removed = [...(previous.get(key) ?? [])];
+      const added = [...(next.get(key) ?? [])];
+
+      for (const leaf of [...removed]) {
+        const index = added.findIndex(candidate => candidate.operator === leaf.operator && this.isSame(candidate.value, leaf.value));
+        if (index >= 0) {
+          added.splice(index, 1);
+          removed.splice(removed.indexOf(leaf), 1);
+        }
+      }
+
+      for (const leaf of [...removed]) {
+        const index = added.findIndex(candidate => candidate.operator === leaf.operator);
+        if (index < 0) continue;
+
+        const [match] = added.splice(index, 1);
+        removed.splice(removed.indexOf(leaf), 1);
+        changes.push({
+          kind: 'condition-changed',
+          path: match.path,
+          description: `Condition on ${leaf.subject} at ${match.path} changed ${leaf.operator} from ` +
+            `${this.format(leaf.value)} to ${this.format(match.value)}`,
+          breaking: true,
+          before: leaf.value,
+          after: match.value
+        });
+      }
+
+      while (removed.length > 0 && added.length > 0) {
+        const leaf = removed.shift()!;
+        const match = added.shift()!;
+        changes.push({
+          kind: 'condition-changed',
+          path: match.path,
+          description: `Condition on ${leaf.subject} at ${match.path} changed from ` +
+            `${leaf.operator} ${this.format(leaf.value)} to ${match.operator} ${this.format(match.value)}`,
+          breaking: true,
+          before: { [leaf.operator]: leaf.value },
+          after: { [match.operator]: match.value }
+        });
+      }
+
+      for (const leaf of removed) {
+        changes.push({
+          kind: 'condition-removed',
+          path: leaf.path,
+          description: `Removed condition at ${leaf.path}: ${leaf.subject} ${leaf.operator} ${this.format(leaf.value)}`,
+          breaking: true,
+          before: { [leaf.operator]: leaf.value }
+        });
+      }
+
+      for (const leaf of added) {
+        changes.push({
+          kind: 'condition-added',
+          path: leaf.path,
+          description: `Added condition at ${leaf.path}: ${leaf.subject} ${leaf.operator} ${this.format(leaf.value)}`,
+          breaking: true,
+          after: { [leaf.operator]: leaf.value }
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  private groupLeaves(condition: any): Map<string, ConditionLeaf[]> {
+    const groups = new Map<string, ConditionLeaf[]>();
+
+    const walk = (node: any, context: string, path: string) => {
+      if (!node || typeof node !== 'object') return;
+
+      for (const logical of ['allOf', 'anyOf'] as const) {
+        if (Array.isArray(node[logical])) {
+          node[logical].forEach((child: any, index: number) => walk(child, `${context}/${logical}`, `${path}.${logical}[${index}]`));
+        }
+      }
+      if (node.not) walk(node.not, `${context}/not`, `${path}.not`);
+
+      const subjectKey = SUBJECT_KEYS.find(key => node[key] !== undefined);
+      if (!subjectKey) return;
+
+      let subject: string;
+      if (subjectKey === 'count') {
+        const counted = node.count?.field !== undefined ? `field '${node.count.field}'` : `value ${this.format(node.count?.value)}`;
+        subject = `count of ${counted}`;
+        if (node.count?.where) walk(node.count.where, `${context}/${subject} where`, `${path}.count.where`);
+      } else {
+        subject = subjectKey === 'field' ? `field '${node.field}'` : `value ${this.format(node.value)}`;
+      }
+
+      const operator = Object.keys(node).find(key => !SUBJECT_KEYS.includes(key)) ?? '(none)';
+      const key = `${context}|${subject.toLowerCase()}`;
+      const leaves = groups.get(key) ?? [];
+      leaves.push({ context, subject, operator, value: node[operator], path });
+      groups.set(key, leaves);
+    };
+
+    walk(condition, '', 'if');
+    return groups;
+  }
+
+  /**
+   * A literal effect replaced by a parameter defaulting to the same effect keeps existing
+   * assignments unchanged; any other effect change alters enforcement
+   */
+  private diffEffect(before: AzurePolicyDefinition, after: AzurePolicyDefinition): PolicyDefinitionChange[] {
+    const changes: PolicyDefinitionChange[] = [];
+    const previous = before.properties.policyRule?.then?.effect;
+    const next = after.properties.policyRule?.then?.effect;
+
+    if (String(previous ?? '').toLowerCase() !== String(next ?? '').toLowerCase()) {
+      const nextDefault = this.effectDefault(next, after.properties.parameters || {});
+      const breaking = !(
+        !this.expressions.isExpression(previous) &&
+        typeof nextDefault === 'string' &&
+        nextDefault.toLowerCase() === String(previous).toLowerCase()
+      );
+
+      changes.push({
+        kind: 'effect',
+        path: 'policyRule.then.effect',
+        description: `Effect changed from ${previous} to ${next}` +
+          (next !== nextDefault && nextDefault !== undefined ? ` (default ${nextDefault})` : ''),
+        breaking,
+        before: previous,
+        after: next
+      });
+    }
+
+    const previousDetails: any = before.properties.policyRule?.then?.details;
+    const nextDetails: any = after.properties.policyRule?.then?.details;
+    if (!this.isSame(previousDetails, nextDetails)) {
+      const keys = Array.isArray(previousDetails) || Array.isArray(nextDetails)
+        ? ['details']
+        : [...new Set([...Object.keys(previousDetails || {}), ...Object.keys(nextDetails || {})])]
+          .filter(key => !this.isSame(previousDetails?.[key], nextDetails?.[key]));
+
+      changes.push({
+        kind: 'effect-details',
+        path: 'policyRule.then.details',
+        description: `Effect details changed: ${keys.join(', ')}` +
+          (keys.includes('roleDefinitionIds') ? ' (assignment identities may need new role assignments)' : ''),
+        breaking: true,
+        before: previousDetails,
+        after: nextDetails
+      });
+    }
+
+    return changes;
+  }
+
+  private effectDefault(effect: any, parameters: Record<string, any>): any {
+    if (!this.expressions.isExpression(effect)) return effect;
+
+    const match = String(effect).match(/^\[parameters\('([^']+)'\)\]$/i);
+    const name = match ? Object.keys(parameters).find(key => key.toLowerCase() === match[1].toLowerCase()) : undefined;
+    return name ? parameters[name].defaultValue : undefined;
+  }
+
+  /**
+   * New parameters without a default, removed parameters and type changes break existing
+   * assignments; removed allowed values may invalidate assigned values, and a changed default
+   * alters assignments that rely on it
+   */
+  private diffParameters(before: Record<string, any>, after: Record<string, any>): PolicyDefinitionChange[] {
+    const changes: PolicyDefinitionChange[] = [];
+    const find = (parameters: Record<string, any>, name: string) =>
+      Object.keys(parameters).find(key => key.toLowerCase() === name.toLowerCase());
+
+    for (const name of Object.keys(before)) {
+      if (!find(after, name)) {
+        changes.push({
+          kind: 'parameter-removed',
+          path: `parameters.${name}`,
+          description: `Parameter '${name}' was removed; assignments that set it will fail`,
+          breaking: true,
+          before: before[name]
+        });
+      }
+    }
+
+    for (const [name, parameter] of Object.entries(after)) {
+      const previousName = find(before, name);
+      if (!previousName) {
+        const hasDefault = parameter.defaultValue !== undefined;
+        changes.push({
+          kind: 'parameter-added',
+          path: `parameters.${name}`,
+          description: `Parameter '${name}' (${parameter.type}) was added ` +
+            (hasDefault ? `with default ${this.format(parameter.defaultValue)}` : 'without a default; existing assignments must set it'),
+          breaking: !hasDefault,
+          after: parameter
+        });
+        continue;
+      }
+
+      const previous = before[previousName];
+      const path = `parameters.${name}`;
+
+      if (String(previous.type ?? '').toLowerCase() !== String(parameter.type ?? '').toLowerCase()) {
+        changes.push({
+          kind: 'parameter-type',
+          path: `${path}.type`,
+          description: `Parameter '${name}' type changed from ${previous.type} to ${parameter.type}`,
+          breaking: true,
+          before: previous.type,
+          after: parameter.type
+        });
+      }
+
+      const allowedValuesChange = this.diffAllowedValues(name, `${path}.allowedValues`, previous.allowedValues, parameter.allowedValues);
+      if (allowedValuesChange) changes.push(allowedValuesChange);
+
+      if (!this.isSame(previous.defaultValue, parameter.defaultValue)) {
+        changes.push({
+          kind: 'parameter-defaultValue',
+          path: `${path}.defaultValue`,
+          description: `Parameter '${name}' default changed from ${this.format(previous.defaultValue)} to ` +
+            `${this.format(parameter.defaultValue)}` +
+            (parameter.defaultValue === undefined ? '; existing assignments must set it' : ''),
+          breaking: true,
+          before: previous.defaultValue,
+          after: parameter.defaultValue
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  private diffAllowedValues(name: string, path: string, before?: any[], after?: any[]): PolicyDefinitionChange | undefined {
+    if (!Array.isArray(before) && !Array.isArray(after)) return undefined;
+    if (!Array.isArray(after)) {
+      return {
+        kind: 'parameter-allowedValues',
+        path,
+        description: `Parameter '${name}' no longer restricts its allowed values`,
+        breaking: false,
+        before
+      };
+    }
+    if (!Array.isArray(before)) {
+      return {
+        kind: 'parameter-allowedValues',
+        path,
+        description: `Parameter '${name}' now only allows ${after.map(value => this.format(value)).join(', ')}`,
+        breaking: true,
+        after
+      };
+    }
+
+    const added = after.filter(value => !before.some(previous => this.isSame(previous, value)));
+    const removed = before.filter(value => !after.some(next => this.isSame(next, value)));
+    if (added.length === 0 && removed.length === 0) return undefined;
+
+    const parts = [
+      ...(added.length > 0 ? [`added ${added.map(value => this.format(value)).join(', ')}`] : []),
+      ...(removed.length > 0 ? [`removed ${removed.map(value => this.format(value)).join(', ')}`] : [])
+    ];
+
+    return {
+      kind: 'parameter-allowedValues',
+      path,
+      description: `Parameter '${name}' allowed values changed: ${parts.join('; ')}`,
+      breaking: removed.length > 0,
+      before,
+      after
+    };
+  }
+
+  private get(source: any, path: string): any {
+    return path.split('.').reduce((value, key) => value?.[key], source);
+  }
+
+  private isSame(left: any, right: any): boolean {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+
+  private format(value: any): string {
+    return value === undefined ? '(none)' : JSON.stringify(value);
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * Policy effect simulator - applies modify operations and append details to a
+ * resource to show what Azure changes on deployment
+ */
+
+import { PolicyParsingError } from '../../infrastructure/errors/error-handler.js';
+import { PolicyEvaluator } from './policy-evaluator.js';
+import { PolicyExpressionEvaluator } from './policy-expression.js';
+import { PolicyAliasResolver } from './alias-resolver.js';
+import type { ExpressionContext } from './policy-expression.js';
+import type {
+  AzurePolicyDefinition,
+  PolicyAppendDetail,
+  PolicyEffectDetails,
+  PolicyEffectSimulation,
+  PolicyEvaluationContext,
+  PolicyModifyOperation,
+  PolicyResource,
+  PolicyResourceChange
+} from '../../types/policy.js';
+
+type ChangeOperation = PolicyResourceChange['operation'];
+
+export class PolicyEffectSimulator {
+  constructor(
+    private evaluator: PolicyEvaluator = new PolicyEvaluator(),
+    private expressions: PolicyExpressionEvaluator = new PolicyExpressionEvaluator(),
+    private aliases: PolicyAliasResolver = new PolicyAliasResolver()
+  ) {}
+
+  /**
+   * Evaluate a policy against a resource and, when a modify or append effect
+   * applies, return the resource as it would be after the policy ran
+   */
+  simulate(
+    policy: AzurePolicyDefinition,
+    resource: PolicyResource,
+    context: PolicyEvaluationContext = {}
+  ): PolicyEffectSimulation {
+    const evaluationContext = {
+      ...context,
+      parameters: this.evaluator.resolveParameters(policy, context.parameters)
+    };
+    const rule = policy.properties.policyRule;
+    const result = this.evaluator.evaluatePolicy(policy, resource, evaluationContext);
+    const effect = result.effect.toLowerCase();
+
+    const simulation: PolicyEffectSimulation = {
+      effect: result.effect,
+      applied: false,
+      resource: structuredClone(resource),
+      changes: [],
+      skipped: [],
+      ...(result.unresolved && { unresolved: result.unresolved })
+    };
+
+    if (!result.matched || (effect !== 'modify' && effect !== 'append')) {
+      return simulation;
+    }
+
+    const expressionContext = this.expressionContext(resource, evaluationContext);
+
+    if (effect === 'modify') {
+      const details = rule.then.details as PolicyEffectDetails | undefined;
+      if (!Array.isArray(details?.operations)) {
+        throw new PolicyParsingError('Modify effect requires details.operations');
+      }
+      this.applyModify(details.operations, simulation, expressionContext);
+      if (simulation.skipped.some(skipped => skipped.conflict)) {
+        simulation.conflictEffect = String(this.expressions.resolve(details.conflictEffect ?? 'audit', expressionContext));
+      }
+    } else {
+      const details = rule.then.details;
+      if (!Array.isArray(details)) {
+        throw new PolicyParsingError('Append effect requires an array of field/value details');
+      }
+      this.applyAppend(details, simulation, expressionContext);
+    }
+
+    simulation.applied = simulation.changes.length > 0;
+    return simulation;
+  }
+
+  /**
+   * Apply modify operations in order. add never overwrites an existing different value.
+   */
+  private applyModify(
+    operations: PolicyModifyOperation[],
+    simulation: PolicyEffectSimulation,
+    context: ExpressionContext
+  ): void {
+    for (const operation of operations) {
+      if (operation.condition !== undefined && !this.toBoolean(this.expressions.resolve(operation.condition, context))) {
+        simulation.skipped.push({ operation: operation.operation, field: operation.field, reason: 'condition is false' });
+        continue;
+      }
+
+      const tokens = this.toTokens(operation.field, simulation);
+      if (!tokens) continue;
+
+      const value = this.expressions.resolve(operation.value, context);
+
+      switch (operation.operation) {
+        case 'addOrReplace':
+          this.write(simulation, 'addOrReplace', operation.field, tokens, () => ({ value }));
+          break;
+        case 'add':
+          this.write(simulation, 'add', operation.field, tokens, before =>
+            before === undefined || this.isSame(before, value)
+              ? { value }
+              : { conflict: `existing value ${JSON.stringify(before)} differs from ${JSON.stringify(value)}` });
+          break;
+        case 'remove':
+          this.write(simulation, 'remove', operation.field, tokens, () => ({ remove: true }));
+          break;
+        default:
+          throw new PolicyParsingError(`Unsupported modify operation: ${(operation as any).operation}`);
+      }
+    }
+  }
+
+  /**
+   * Apply legacy append details - [*] fields gain array members, other fields are
+   * only set when missing (a different existing value makes Azure deny the request)
+   */
+  private applyAppend(
+    details: PolicyAppendDetail[],
+    simulation: PolicyEffectSimulation,
+    context: ExpressionContext
+  ): void {
+    for (const detail of details) {
+      const tokens = this.toTokens(detail.field, simulation);
+      if (!tokens) continue;
+
+      const value = this.expressions.resolve(detail.value, context);
+      this.write(simulation, 'append', detail.field, tokens, before =>
+        before === undefined || this.isSame(before, value)
+          ? { value }
+          : { conflict: `request would be denied: existing value ${JSON.stringify(before)} differs from ${JSON.stringify(value)}` });
+    }
+  }
+
+  /**
+   * Write to every location a field path addresses, recording the changes. A trailing
+   * [*] appends to the array; [*] inside the path applies to every member.
+   */
+  private write(
+    simulation: PolicyEffectSimulation,
+    operation: ChangeOperation,
+    field: string,
+    tokens: string[],
+    decide: (before: any) => { value?: any; remove?: boolean; conflict?: string }
+  ): void {
+    const visit = (node: any, index: number, path: string): void => {
+      const token = tokens[index];
+      const last = index === tokens.length - 1;
+
+      if (token === '[*]') {
+        if (!Array.isArray(node)) return;
+
+        if (last) {
+          if (operation === 'remove') {
+            simulation.skipped.push({ operation, field, reason: 'remove is not supported on [*] fields' });
+            return;
+          }
+          const { value } = decide(undefined);
+          const before = [...node];
+          node.push(...(Array.isArray(value) ? value : [value]));
+          this.record(simulation, operation, field, path, before, [...node]);
+          return;
+        }
+
+        node.forEach((element, i) => visit(element, index + 1, `${path}[${i}]`));
+        return;
+      }
+
+      if (!node || typeof node !== 'object') return;
+
+      const key = Object.keys(node).find(k => k.toLowerCase() === token.toLowerCase()) ?? token;
+      const childPath = path ? `${path}.${key}` : key;
+
+      if (last) {
+        const before = node[key];
+        const decision = decide(before);
+
+        if (decision.conflict) {
+          simulation.skipped.push({ operation, field, reason: decision.conflict, conflict: true });
+        } else if (decision.remove) {
+          if (before !== undefined) {
+            delete node[key];
+            this.record(simulation, operation, field, childPath, before, undefined);
+          }
+        } else if (!this.isSame(before, decision.value)) {
+          node[key] = decision.value;
+          this.record(simulation, operation, field, childPath, before, decision.value);
+        }
+        return;
+      }
+
+      if (node[key] === undefined) {
+        if (operation === 'remove') return;
+        node[key] = tokens[index + 1] === '[*]' ? [] : {};
+      }
+      visit(node[key], index + 1, childPath);
+    };
+
+    visit(simulation.resource, 0, '');
+  }
+
+  private record(
+    simulation: PolicyEffectSimulation,
+    operation: ChangeOperation,
+    field: string,
+    path: string,
+    before: any,
+    after: any
+  ): void {
+    simulation.changes.push({
+      operation,
+      field,
+      path,
+      before: before === undefined ? undefined : structuredClone(before),
+      after: after === undefined ? undefined : structuredClone(after)
+    });
+  }
+
+  /**
+   * Split a policy field into property path tokens, skipping aliases of other resource types
+   */
+  private toTokens(field: string, simulation: PolicyEffectSimulation): string[] | undefined {
+    const tagMatch = field.match(/^tags(?:\[['"]?(.+?)['"]?\]|\.(.+))$/i);
+    if (tagMatch) {
+      return ['tags', tagMatch[1] ?? tagMatch[2]];
+    }
+
+    if (!this.aliases.isBuiltInField(field)) {
+      const resolution = this.aliases.resolve(field);
+      if (resolution && resolution.resourceType.toLowerCase() !== simulation.resource.type?.toLowerCase()) {
+        simulation.skipped.push({
+          operation: 'write',
+          field,
+          reason: `alias applies to ${resolution.resourceType}, not ${simulation.resource.type}`
+        });
+        return undefined;
+      }
+    }
+
+    return this.aliases.resolvePath(field)
+      .split('.')
+      .flatMap(part => part.split(/(\[\*\])/).filter(piece => piece.length > 0));
+  }
+
+  private expressionContext(resource: PolicyResource, context: PolicyEvaluationContext): ExpressionContext {
+    return {
+      parameters: context.parameters ?? {},
+      resolveField: field => this.evaluator.getFieldValue(field, resource, context),
+      ...(context.requestContext && { requestContext: context.requestContext })
+    };
+  }
+
+  private isSame(left: any, right: any): boolean {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+
+  private toBoolean(value: any): boolean {
+    return typeof value === 'string' ? value.toLowerCase() === 'true' : !!value;
+  }
+}
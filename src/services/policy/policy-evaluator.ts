@@ -0,0 +1,684 @@
+/**
+ * Azure Policy rule evaluator - decides whether a policy rule matches a resource
+ */
+
+import { PolicyParsingError } from '../../infrastructure/errors/error-handler.js';
+import { PolicyExpressionEvaluator } from './policy-expression.js';
+import { PolicyAliasResolver } from './alias-resolver.js';
+import { getDataPlaneModeReason, UNINDEXED_RESOURCE_TYPES } from './policy-modes.js';
+import type { ExpressionContext } from './policy-expression.js';
+import type {
+  AzurePolicyDefinition,
+  PolicyRule,
+  PolicyCondition,
+  PolicyResource,
+  PolicyEvaluationContext,
+  PolicyEvaluationResult,
+  PolicyModeExclusion,
+  PolicySetDefinition,
+  ConditionEvaluation
+} from '../../types/policy.js';
+
+export const CONDITION_OPERATORS = [
+  'equals', 'notEquals', 'like', 'notLike', 'match', 'notMatch',
+  'matchInsensitively', 'notMatchInsensitively', 'contains', 'notContains',
+  'in', 'notIn', 'containsKey', 'notContainsKey', 'less', 'lessOrEquals',
+  'greater', 'greaterOrEquals', 'exists'
+] as const;
+
+export const COUNT_OPERATORS = [
+  'equals', 'notEquals', 'less', 'lessOrEquals', 'greater', 'greaterOrEquals', 'in', 'notIn'
+] as const;
+
+// An enclosing count iteration - field counts are keyed by their array alias,
+// value counts by their optional name
+interface EvaluationScope {
+  prefix?: string;
+  name?: string;
+  element: any;
+}
+
+// undefined: the outcome depends on a template expression that cannot be resolved offline
+type ConditionResult = boolean | undefined;
+
+interface EvaluationState {
+  resource: PolicyResource;
+  context: PolicyEvaluationContext;
+  scopes: EvaluationScope[];
+  evaluations: ConditionEvaluation[];
+  // Resource field() expressions refer to when it differs from the evaluated resource
+  expressionResource?: PolicyResource;
+}
+
+export class PolicyEvaluator {
+  constructor(
+    private expressions: PolicyExpressionEvaluator = new PolicyExpressionEvaluator(),
+    private aliases: PolicyAliasResolver = new PolicyAliasResolver()
+  ) {}
+
+  /**
+   * Evaluate a policy definition against a resource, applying parameter defaults
+   * for any values not supplied in the context
+   */
+  evaluatePolicy(
+    policy: AzurePolicyDefinition,
+    resource: PolicyResource,
+    context: PolicyEvaluationContext = {}
+  ): PolicyEvaluationResult {
+    const evaluationContext = {
+      ...context,
+      parameters: this.resolveParameters(policy, context.parameters)
+    };
+
+    // Resources the policy mode does not evaluate never match
+    const exclusion = this.getModeExclusion(policy, resource);
+    if (exclusion) {
+      const effect = this.expressions.resolve(policy.properties.policyRule?.then?.effect, {
+        parameters: evaluationContext.parameters
+      });
+      return { matched: false, effect: String(effect), evaluations: [], exclusion };
+    }
+
+    return this.evaluateRule(policy.properties.policyRule, resource, evaluationContext);
+  }
+
+  /**
+   * Check whether the policy mode evaluates a resource: Indexed skips resource types without
+   * tags and location, and resource provider modes evaluate data-plane components that
+   * templates do not declare
+   */
+  getModeExclusion(policy: AzurePolicyDefinition, resource: PolicyResource): PolicyModeExclusion | undefined {
+    const mode = policy.properties.mode;
+    const dataPlaneReason = getDataPlaneModeReason(mode);
+    if (dataPlaneReason) {
+      return { kind: 'notEvaluable', reason: dataPlaneReason };
+    }
+
+    if (String(mode ?? '').toLowerCase() === 'indexed') {
+      const type = String(resource.type ?? '');
+      // Child resources declared without location and tags are assumed not to support them
+      const isChild = type.split('/').length > 2;
+      if (UNINDEXED_RESOURCE_TYPES.has(type.toLowerCase()) ||
+          (isChild && resource.location === undefined && resource.tags === undefined)) {
+        return {
+          kind: 'notApplicable',
+          reason: `Indexed mode only evaluates resource types that support tags and location; ${type} does not`
+        };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Merge supplied parameter values with the definition's (or initiative's) default values
+   */
+  resolveParameters(
+    policy: AzurePolicyDefinition | PolicySetDefinition,
+    values: Record<string, any> = {}
+  ): Record<string, any> {
+    const resolved: Record<string, any> = {};
+
+    for (const [name, parameter] of Object.entries(policy.properties.parameters || {})) {
+      if (parameter.defaultValue !== undefined) {
+        resolved[name] = parameter.defaultValue;
+      }
+    }
+
+    for (const [name, value] of Object.entries(values)) {
+      resolved[name] = value && typeof value === 'object' && 'value' in value && Object.keys(value).length === 1
+        ? value.value
+        : value;
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Evaluate a policy rule against a resource
+   */
+  evaluateRule(
+    rule: PolicyRule,
+    resource: PolicyResource,
+    context: PolicyEvaluationContext = {}
+  ): PolicyEvaluationResult {
+    if (!rule || !rule.if || !rule.then) {
+      throw new PolicyParsingError('Policy rule must contain if and then clauses');
+    }
+
+    const state: EvaluationState = { resource, context, scopes: [], evaluations: [] };
+    const matched = this.evaluate(rule.if, state);
+    const effect = this.expressions.resolve(rule.then.effect, this.expressionContext(state));
+
+    return {
+      matched: matched === true,
+      effect: String(effect),
+      evaluations: state.evaluations,
+      ...(matched === undefined && { unresolved: this.unresolvedFields(state) })
+    };
+  }
+
+  /**
+   * Evaluate a single condition tree against a resource
+   */
+  evaluateCondition(
+    condition: PolicyCondition,
+    resource: PolicyResource,
+    context: PolicyEvaluationContext = {}
+  ): boolean {
+    return this.evaluate(condition, { resource, context, scopes: [], evaluations: [] }) === true;
+  }
+
+  /**
+   * Evaluate an auditIfNotExists / deployIfNotExists existence condition against a
+   * related resource. Condition fields refer to the related resource while [field()]
+   * expressions refer to the resource that matched the if condition.
+   */
+  evaluateExistenceCondition(
+    condition: PolicyCondition,
+    related: PolicyResource,
+    resource: PolicyResource,
+    context: PolicyEvaluationContext = {}
+  ): Omit<PolicyEvaluationResult, 'effect'> {
+    const state: EvaluationState = { resource: related, context, scopes: [], evaluations: [], expressionResource: resource };
+    const matched = this.evaluate(condition, state);
+    return {
+      matched: matched === true,
+      evaluations: state.evaluations,
+      ...(matched === undefined && { unresolved: this.unresolvedFields(state) })
+    };
+  }
+
+  /**
+   * Resolve a policy field (built-in field or alias) against a resource
+   */
+  getFieldValue(field: string, resource: PolicyResource, context: PolicyEvaluationContext = {}): any {
+    return this.resolveField(field, { resource, context, scopes: [], evaluations: [] });
+  }
+
+  /**
+   * Evaluate a condition with three-valued logic: a false allOf member or a true anyOf member
+   * decides the result even when other members depend on unresolved values
+   */
+  private evaluate(condition: PolicyCondition, state: EvaluationState): ConditionResult {
+    if (!condition || typeof condition !== 'object') {
+      throw new PolicyParsingError('Policy condition must be an object');
+    }
+
+    if (condition.allOf) {
+      let result: ConditionResult = true;
+      for (const member of condition.allOf) {
+        const memberResult = this.evaluate(member, state);
+        if (memberResult === false) return false;
+        if (memberResult === undefined) result = undefined;
+      }
+      return result;
+    }
+
+    if (condition.anyOf) {
+      let result: ConditionResult = false;
+      for (const member of condition.anyOf) {
+        const memberResult = this.evaluate(member, state);
+        if (memberResult === true) return true;
+        if (memberResult === undefined) result = undefined;
+      }
+      return result;
+    }
+
+    if (condition.not) {
+      const result = this.evaluate(condition.not, state);
+      return result === undefined ? undefined : !result;
+    }
+
+    if (condition.count) {
+      return this.evaluateCount(condition, state);
+    }
+
+    let actual: any;
+    let field: string | undefined;
+    let wildcard = false;
+
+    const expressionContext = this.expressionContext(state);
+
+    if (condition.field !== undefined) {
+      field = String(this.expressions.resolve(condition.field, expressionContext));
+      ({ value: actual, wildcard } = this.locateField(field, state));
+    } else if ('value' in condition) {
+      actual = this.expressions.resolve(condition.value, expressionContext);
+    } else {
+      throw new PolicyParsingError('Policy condition must specify field, value, count or a logical operator');
+    }
+
+    const operator = CONDITION_OPERATORS.find(op => condition[op] !== undefined);
+    if (!operator) {
+      throw new PolicyParsingError(`Condition on ${field ?? 'value'} has no supported operator`);
+    }
+
+    const expected = this.expressions.resolve(condition[operator], expressionContext);
+
+    if (this.isUnresolved(actual) || this.isUnresolved(expected)) {
+      state.evaluations.push({
+        operator,
+        ...(field !== undefined && { field }),
+        expected,
+        actual,
+        result: false,
+        unresolved: true
+      });
+      return undefined;
+    }
+
+    // Outside of a count, a [*] alias means every array member must satisfy the condition
+    const result = wildcard
+      ? (Array.isArray(actual) ? actual : []).every(element => this.applyOperator(operator, element, expected))
+      : this.applyOperator(operator, actual, expected);
+
+    state.evaluations.push({
+      operator,
+      ...(field !== undefined && { field }),
+      expected,
+      actual,
+      result
+    });
+
+    return result;
+  }
+
+  /**
+   * Evaluate a field count ([*] alias) or value count (array value) expression
+   */
+  private evaluateCount(condition: PolicyCondition, state: EvaluationState): ConditionResult {
+    const count = condition.count!;
+    const expressionContext = this.expressionContext(state);
+
+    let elements: any[];
+    let scopeFor: (element: any) => EvaluationScope;
+    let label: string | undefined;
+
+    if (count.field !== undefined) {
+      const arrayPath = this.arrayPrefix(String(this.expressions.resolve(count.field, expressionContext)));
+      const array = this.resolveField(arrayPath, state);
+      if (this.isUnresolved(array)) {
+        state.evaluations.push({ operator: 'count', field: arrayPath, expected: undefined, actual: array, result: false, unresolved: true });
+        return undefined;
+      }
+      elements = Array.isArray(array) ? array : [];
+      scopeFor = element => ({ prefix: arrayPath, element });
+      label = arrayPath;
+    } else if ('value' in count) {
+      const value = this.expressions.resolve(count.value, expressionContext);
+      if (!Array.isArray(value)) {
+        throw new PolicyParsingError(`Count value${count.name ? ` '${count.name}'` : ''} must resolve to an array`);
+      }
+      elements = value;
+      scopeFor = element => ({ ...(count.name && { name: count.name }), element });
+      label = count.name;
+    } else {
+      throw new PolicyParsingError('Count expression must specify a field or value');
+    }
+
+    let total = 0;
+    let undetermined = false;
+    for (const element of elements) {
+      if (!count.where) {
+        total++;
+        continue;
+      }
+
+      state.scopes.push(scopeFor(element));
+      try {
+        const result = this.evaluate(count.where, state);
+        if (result === undefined) undetermined = true;
+        if (result === true) total++;
+      } finally {
+        state.scopes.pop();
+      }
+    }
+    if (undetermined) {
+      return undefined;
+    }
+
+    const operator = COUNT_OPERATORS.find(op => (count as Record<string, any>)[op] !== undefined)
+      ?? COUNT_OPERATORS.find(op => condition[op] !== undefined);
+    if (!operator) {
+      throw new PolicyParsingError(`Count expression on ${label ?? 'value'} has no supported operator`);
+    }
+
+    const expected = this.expressions.resolve(
+      (count as Record<string, any>)[operator] ?? condition[operator],
+      expressionContext
+    );
+    const result = this.applyOperator(operator, total, expected);
+
+    state.evaluations.push({
+      operator: `count.${operator}`,
+      ...(label !== undefined && { field: label }),
+      expected,
+      actual: total,
+      result
+    });
+    return result;
+  }
+
+  private expressionContext(state: EvaluationState): ExpressionContext {
+    return {
+      parameters: state.context.parameters ?? {},
+      resolveField: field => state.expressionResource
+        ? this.getFieldValue(field, state.expressionResource, state.context)
+        : this.resolveField(field, state),
+      resolveCurrent: name => this.resolveCurrent(name, state),
+      ...(state.context.requestContext && { requestContext: state.context.requestContext })
+    };
+  }
+
+  /**
+   * Resolve current() - the innermost count element, a named value count element,
+   * or the array member (or one of its properties) of an enclosing field count
+   */
+  private resolveCurrent(name: string | undefined, state: EvaluationState): any {
+    if (state.scopes.length === 0) {
+      throw new PolicyParsingError('current() can only be used inside a count expression');
+    }
+    if (name === undefined) {
+      return state.scopes[state.scopes.length - 1].element;
+    }
+
+    const lowerName = String(name).toLowerCase();
+    for (let i = state.scopes.length - 1; i >= 0; i--) {
+      const scope = state.scopes[i];
+      if (scope.name?.toLowerCase() === lowerName || scope.prefix?.toLowerCase() === lowerName) {
+        return scope.element;
+      }
+      if (scope.prefix && this.isWithinScope(lowerName, scope.prefix)) {
+        return this.resolveField(String(name), state);
+      }
+    }
+
+    throw new PolicyParsingError(`current('${name}') does not refer to an enclosing count expression`);
+  }
+
+  private resolveField(field: string, state: EvaluationState): any {
+    return this.locateField(field, state).value;
+  }
+
+  /**
+   * Resolve a policy field reference against the resource or the current count element.
+   * Fields that still iterate an array ([*]) are reported as wildcards and resolve to
+   * the list of member values.
+   */
+  private locateField(field: string, state: EvaluationState): { value: any; wildcard: boolean } {
+    const lowerField = field.toLowerCase();
+
+    for (let i = state.scopes.length - 1; i >= 0; i--) {
+      const scope = state.scopes[i];
+      if (!scope.prefix) continue;
+
+      if (lowerField === scope.prefix.toLowerCase()) {
+        return { value: scope.element, wildcard: false };
+      }
+      if (this.isWithinScope(lowerField, scope.prefix)) {
+        const path = this.relativePath(field, scope.prefix, state.resource);
+        return { value: this.readPath(scope.element, path), wildcard: path.includes('[*]') };
+      }
+    }
+
+    const tagMatch = field.match(/^tags(?:\[['"]?(.+?)['"]?\]|\.(.+))$/i);
+    if (tagMatch) {
+      const tagName = (tagMatch[1] ?? tagMatch[2]).toLowerCase();
+      const tags = state.resource.tags ?? {};
+      if (this.expressions.isExpression(tags)) {
+        return { value: tags, wildcard: false };
+      }
+      const key = Object.keys(tags).find(k => k.toLowerCase() === tagName);
+      return { value: key === undefined ? undefined : tags[key], wildcard: false };
+    }
+
+    const path = this.toResourcePath(field, state.resource);
+    return { value: this.readPath(state.resource, path), wildcard: !!path?.includes('[*]') };
+  }
+
+  private isWithinScope(lowerField: string, prefix: string): boolean {
+    const lowerPrefix = prefix.toLowerCase();
+    return lowerField.startsWith(`${lowerPrefix}.`) || lowerField.startsWith(`${lowerPrefix}[`);
+  }
+
+  /**
+   * Path of a field relative to the array element of an enclosing [*] scope
+   */
+  private relativePath(field: string, prefix: string, resource: PolicyResource): string {
+    const fieldPath = this.toResourcePath(field, resource);
+    const prefixPath = this.toResourcePath(prefix, resource);
+
+    if (fieldPath && prefixPath && fieldPath.toLowerCase().startsWith(prefixPath.toLowerCase())) {
+      return fieldPath.substring(prefixPath.length).replace(/^\./, '');
+    }
+    return field.substring(prefix.length).replace(/^\./, '');
+  }
+
+  /**
+   * Map a policy field (built-in field or alias) to a property path on the resource
+   */
+  private toResourcePath(field: string, resource: PolicyResource): string | undefined {
+    const lower = field.toLowerCase();
+
+    if (lower === 'fullname') {
+      return resource.fullName !== undefined ? 'fullName' : 'name';
+    }
+    if (this.aliases.isBuiltInField(field)) {
+      return field;
+    }
+
+    const resolution = this.aliases.resolve(field);
+    if (!resolution) {
+      return field;
+    }
+
+    // Aliases of other resource types never apply to this resource
+    if (resolution.resourceType.toLowerCase() !== resource.type?.toLowerCase()) {
+      return undefined;
+    }
+
+    return resolution.path;
+  }
+
+  /**
+   * Read a dotted property path, collecting member values through [*] wildcards.
+   * Members missing the property are kept as undefined so every member is evaluated;
+   * nested wildcards are flattened into a single list.
+   */
+  private readPath(target: any, path: string | undefined): any {
+    if (path === undefined) return undefined;
+
+    const tokens = path.split('.').flatMap(part => {
+      const pieces = part.split(/(\[\*\])/).filter(p => p.length > 0);
+      return pieces;
+    });
+
+    const walk = (value: any, index: number): any => {
+      if (index >= tokens.length) return value;
+      if (value === undefined || value === null) return undefined;
+      // Members of an unresolved expression are unresolved too
+      if (this.expressions.isExpression(value)) return value;
+
+      const token = tokens[index];
+      if (token === '[*]') {
+        if (!Array.isArray(value)) return undefined;
+        const nested = tokens.indexOf('[*]', index + 1) !== -1;
+        return value.flatMap(item => {
+          const next = walk(item, index + 1);
+          return nested ? (Array.isArray(next) ? next : []) : [next];
+        });
+      }
+
+      if (typeof value !== 'object') return undefined;
+      const key = Object.keys(value).find(k => k.toLowerCase() === token.toLowerCase());
+      return key === undefined ? undefined : walk(value[key], index + 1);
+    };
+
+    return walk(target, 0);
+  }
+
+  /**
+   * Whether a value holds template expressions (kept as '[...]' text by the template parsers)
+   * that could not be resolved
+   */
+  private isUnresolved(value: any): boolean {
+    if (typeof value === 'string') return this.expressions.isExpression(value);
+    if (Array.isArray(value)) return value.some(item => this.isUnresolved(item));
+    if (value && typeof value === 'object') return Object.values(value).some(item => this.isUnresolved(item));
+    return false;
+  }
+
+  private unresolvedFields(state: EvaluationState): string[] {
+    return Array.from(new Set(state.evaluations
+      .filter(evaluation => evaluation.unresolved)
+      .map(evaluation => evaluation.field ?? 'value')));
+  }
+
+  private arrayPrefix(field: string): string {
+    const index = field.lastIndexOf('[*]');
+    return index === -1 ? field : field.substring(0, index + 3);
+  }
+
+  /**
+   * Apply a condition operator to a resolved value
+   */
+  private applyOperator(operator: string, actual: any, expected: any): boolean {
+    switch (operator) {
+      case 'equals':
+        return this.isEqual(actual, expected);
+      case 'notEquals':
+        return !this.isEqual(actual, expected);
+      case 'like':
+        return typeof actual === 'string' && this.wildcardToRegex(expected).test(actual);
+      case 'notLike':
+        return !(typeof actual === 'string' && this.wildcardToRegex(expected).test(actual));
+      case 'match':
+        return typeof actual === 'string' && this.matchPatternToRegex(expected, false).test(actual);
+      case 'notMatch':
+        return !(typeof actual === 'string' && this.matchPatternToRegex(expected, false).test(actual));
+      case 'matchInsensitively':
+        return typeof actual === 'string' && this.matchPatternToRegex(expected, true).test(actual);
+      case 'notMatchInsensitively':
+        return !(typeof actual === 'string' && this.matchPatternToRegex(expected, true).test(actual));
+      case 'contains':
+        return this.contains(actual, expected);
+      case 'notContains':
+        return !this.contains(actual, expected);
+      case 'in':
+        return Array.isArray(expected) && expected.some(item => this.isEqual(actual, item));
+      case 'notIn':
+        return !(Array.isArray(expected) && expected.some(item => this.isEqual(actual, item)));
+      case 'containsKey':
+        return this.containsKey(actual, expected);
+      case 'notContainsKey':
+        return !this.containsKey(actual, expected);
+      case 'less':
+        return this.compare(actual, expected, result => result < 0);
+      case 'lessOrEquals':
+        return this.compare(actual, expected, result => result <= 0);
+      case 'greater':
+        return this.compare(actual, expected, result => result > 0);
+      case 'greaterOrEquals':
+        return this.compare(actual, expected, result => result >= 0);
+      case 'exists': {
+        const exists = actual !== undefined && actual !== null;
+        return this.toBoolean(expected) ? exists : !exists;
+      }
+      default:
+        throw new PolicyParsingError(`Unsupported condition operator: ${operator}`);
+    }
+  }
+
+  private isEqual(actual: any, expected: any): boolean {
+    if (actual === undefined || actual === null) {
+      return expected === null;
+    }
+    if (typeof actual === 'string' && typeof expected === 'string') {
+      return actual.toLowerCase() === expected.toLowerCase();
+    }
+    if (typeof actual === 'boolean' && typeof expected === 'string') {
+      return String(actual) === expected.toLowerCase();
+    }
+    if (typeof actual === 'string' && typeof expected === 'boolean') {
+      return actual.toLowerCase() === String(expected);
+    }
+    if (Array.isArray(actual) && Array.isArray(expected)) {
+      return actual.length === expected.length && actual.every((item, i) => this.isEqual(item, expected[i]));
+    }
+    if (actual && expected && typeof actual === 'object' && typeof expected === 'object') {
+      const actualKeys = Object.keys(actual);
+      const expectedKeys = Object.keys(expected);
+      return actualKeys.length === expectedKeys.length &&
+        expectedKeys.every(key => {
+          const match = actualKeys.find(k => k.toLowerCase() === key.toLowerCase());
+          return match !== undefined && this.isEqual(actual[match], expected[key]);
+        });
+    }
+    return actual === expected;
+  }
+
+  private contains(actual: any, expected: any): boolean {
+    if (typeof actual === 'string') {
+      return typeof expected === 'string' && actual.toLowerCase().includes(expected.toLowerCase());
+    }
+    if (Array.isArray(actual)) {
+      return actual.some(item => this.isEqual(item, expected));
+    }
+    return false;
+  }
+
+  private containsKey(actual: any, key: any): boolean {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual) || typeof key !== 'string') {
+      return false;
+    }
+    return Object.keys(actual).some(k => k.toLowerCase() === key.toLowerCase());
+  }
+
+  private compare(actual: any, expected: any, predicate: (result: number) => boolean): boolean {
+    if (actual === undefined || actual === null) return false;
+
+    if (typeof actual === 'number' && typeof expected === 'number') {
+      return predicate(actual - expected);
+    }
+
+    const actualNumber = Number(actual);
+    const expectedNumber = Number(expected);
+    if (actual !== '' && expected !== '' && !isNaN(actualNumber) && !isNaN(expectedNumber)) {
+      return predicate(actualNumber - expectedNumber);
+    }
+
+    const left = String(actual).toLowerCase();
+    const right = String(expected).toLowerCase();
+    return predicate(left < right ? -1 : left > right ? 1 : 0);
+  }
+
+  private toBoolean(value: any): boolean {
+    return typeof value === 'string' ? value.toLowerCase() === 'true' : !!value;
+  }
+
+  /**
+   * Convert a like pattern (* wildcard) into a case-insensitive regex
+   */
+  private wildcardToRegex(pattern: string): RegExp {
+    const escaped = String(pattern)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${escaped}$`, 'is');
+  }
+
+  /**
+   * Convert a match pattern (# digit, ? letter, . any character) into a regex
+   */
+  private matchPatternToRegex(pattern: string, insensitive: boolean): RegExp {
+    let source = '';
+    for (const char of String(pattern)) {
+      if (char === '#') source += '[0-9]';
+      else if (char === '?') source += '[a-zA-Z]';
+      else if (char === '.') source += '.';
+      else source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+    return new RegExp(`^${source}$`, insensitive ? 'is' : 's');
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Policy existence checker - evaluates auditIfNotExists / deployIfNotExists related
+ * resources against the other resources declared in the same template
+ */
+
+import { PolicyParsingError } from '../../infrastructure/errors/error-handler.js';
+import { PolicyEvaluator } from './policy-evaluator.js';
+import { PolicyExpressionEvaluator } from './policy-expression.js';
+import type { ExpressionContext } from './policy-expression.js';
+import type {
+  AzurePolicyDefinition,
+  PolicyEffectDetails,
+  PolicyEvaluationContext
+} from '../../types/policy.js';
+import type { TemplateExistenceCheck, TemplateResource } from '../../types/templates.js';
+
+const EXISTENCE_EFFECTS = new Set(['auditifnotexists', 'deployifnotexists']);
+
+export class PolicyExistenceChecker {
+  constructor(
+    private evaluator: PolicyEvaluator = new PolicyEvaluator(),
+    private expressions: PolicyExpressionEvaluator = new PolicyExpressionEvaluator()
+  ) {}
+
+  /**
+   * Check whether a template resource matched by an auditIfNotExists / deployIfNotExists
+   * policy has a related resource satisfying the existence condition in the template.
+   * Returns undefined when the policy does not apply to the resource or has another effect.
+   *
+   * @param resources - Every resource declared in the template
+   */
+  check(
+    policy: AzurePolicyDefinition,
+    declaration: TemplateResource,
+    resources: TemplateResource[],
+    context: PolicyEvaluationContext = {}
+  ): TemplateExistenceCheck | undefined {
+    const evaluationContext = {
+      ...context,
+      parameters: this.evaluator.resolveParameters(policy, context.parameters)
+    };
+    const rule = policy.properties.policyRule;
+    const result = this.evaluator.evaluatePolicy(policy, declaration.resource, evaluationContext);
+
+    if (!result.matched || !EXISTENCE_EFFECTS.has(result.effect.toLowerCase())) {
+      return undefined;
+    }
+
+    const details = rule.then.details as PolicyEffectDetails | undefined;
+    if (!details?.type) {
+      throw new PolicyParsingError(`${result.effect} effect requires details.type`);
+    }
+
+    // details.type and details.name may reference the matched resource through field()
+    const expressionContext: ExpressionContext = {
+      parameters: evaluationContext.parameters,
+      resolveField: field => this.evaluator.getFieldValue(field, declaration.resource, evaluationContext),
+      ...(evaluationContext.requestContext && { requestContext: evaluationContext.requestContext })
+    };
+    const relatedType = String(this.expressions.resolve(details.type, expressionContext));
+    const relatedName = details.name === undefined
+      ? undefined
+      : String(this.expressions.resolve(details.name, expressionContext));
+
+    const candidates = this.findRelated(declaration, resources, relatedType)
+      .filter(candidate => relatedName === undefined ||
+        this.lastSegment(candidate.resource.name) === this.lastSegment(relatedName))
+      .map(candidate => {
+        const evaluation = details.existenceCondition
+          ? this.evaluator.evaluateExistenceCondition(
+            details.existenceCondition, candidate.resource, declaration.resource, evaluationContext)
+          : { matched: true, evaluations: [] };
+        return {
+          symbolicName: candidate.symbolicName,
+          matched: evaluation.matched,
+          evaluations: evaluation.evaluations,
+          ...(evaluation.unresolved && { unresolved: evaluation.unresolved })
+        };
+      });
+    const satisfiedBy = candidates.find(candidate => candidate.matched)?.symbolicName;
+    const unresolved = satisfiedBy === undefined
+      ? Array.from(new Set(candidates.flatMap(candidate => candidate.unresolved ?? [])))
+      : [];
+
+    return {
+      effect: result.effect,
+      relatedType,
+      ...(relatedName !== undefined && { relatedName }),
+      candidates,
+      ...(satisfiedBy && { satisfiedBy }),
+      compliant: satisfiedBy !== undefined,
+      ...(unresolved.length > 0 && { unresolved })
+    };
+  }
+
+  /**
+   * Template resources of the related type that Azure would look at: children of the
+   * matched resource for child types, extension resources scoped to it, and otherwise
+   * resources of that type in the same resource group
+   */
+  private findRelated(
+    declaration: TemplateResource,
+    resources: TemplateResource[],
+    relatedType: string
+  ): TemplateResource[] {
+    const type = relatedType.toLowerCase();
+    const sameType = resources.filter(resource => resource !== declaration && resource.type.toLowerCase() === type);
+
+    if (type.startsWith(`${declaration.type.toLowerCase()}/`)) {
+      return sameType.filter(resource => this.isDescendant(resource, declaration, resources));
+    }
+
+    return sameType.filter(resource => resource.scope !== undefined
+      ? resource.scope === declaration.symbolicName
+      : this.resourceGroupOf(resource) === this.resourceGroupOf(declaration));
+  }
+
+  /**
+   * Resource group of an inventory resource; template resources share the deployment's
+   * resource group and have none
+   */
+  private resourceGroupOf(declaration: TemplateResource): string | undefined {
+    const { resourceGroup, id } = declaration.resource;
+    const group = resourceGroup ?? /\/resourceGroups\/([^/]+)/i.exec(String(id ?? ''))?.[1];
+    return group === undefined ? undefined : String(group).toLowerCase();
+  }
+
+  /**
+   * Whether a resource is nested below another, through parent references or a
+   * full child name such as 'sa/default'
+   */
+  private isDescendant(resource: TemplateResource, ancestor: TemplateResource, resources: TemplateResource[]): boolean {
+    let current: TemplateResource | undefined = resource;
+    for (let depth = 0; current?.parent && depth < resources.length; depth++) {
+      if (current.parent === ancestor.symbolicName) return true;
+      const parentName: string = current.parent;
+      current = resources.find(candidate => candidate.symbolicName === parentName);
+    }
+
+    const name = String(resource.resource.fullName ?? resource.resource.name ?? '').toLowerCase();
+    const ancestorName = String(ancestor.resource.fullName ?? ancestor.resource.name ?? '').toLowerCase();
+    return !resource.parent && ancestorName !== '' && name.startsWith(`${ancestorName}/`);
+  }
+
+  private lastSegment(name: any): string {
+    return String(name ?? '').split('/').pop()!.toLowerCase();
+  }
+}
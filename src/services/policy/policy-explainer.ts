@@ -0,0 +1,201 @@
+/**
+ * Policy explainer - renders a policy rule's condition tree and effect as a readable sentence
+ */
+
+import { CONDITION_OPERATORS, COUNT_OPERATORS } from './policy-evaluator.js';
+import { PolicyExpressionEvaluator } from './policy-expression.js';
+import type { AzurePolicyDefinition, PolicyCondition, PolicyParameter, PolicyRule } from '../../types/policy.js';
+
+const OPERATOR_PHRASES: Record<string, string> = {
+  equals: 'is',
+  notEquals: 'is not',
+  like: 'matches the pattern',
+  notLike: 'does not match the pattern',
+  match: 'matches the format',
+  notMatch: 'does not match the format',
+  matchInsensitively: 'matches the format (case-insensitive)',
+  notMatchInsensitively: 'does not match the format (case-insensitive)',
+  contains: 'contains',
+  notContains: 'does not contain',
+  in: 'is one of',
+  notIn: 'is not one of',
+  containsKey: 'has the key',
+  notContainsKey: 'does not have the key',
+  less: 'is less than',
+  lessOrEquals: 'is at most',
+  greater: 'is greater than',
+  greaterOrEquals: 'is at least'
+};
+
+const EXISTENCE_EFFECTS = new Set(['auditifnotexists', 'deployifnotexists']);
+
+const PARAMETER_REFERENCE = /^\[parameters\('([^']+)'\)\]$/i;
+
+export class PolicyExplainer {
+  constructor(private expressions: PolicyExpressionEvaluator = new PolicyExpressionEvaluator()) {}
+
+  /**
+   * Explain a policy definition, e.g. "Applies to storage accounts where
+   * `supportsHttpsTrafficOnly` is not true; effect is the `effect` parameter (default Audit)"
+   */
+  explain(policy: AzurePolicyDefinition): string {
+    return this.explainRule(policy.properties.policyRule, policy.properties.parameters);
+  }
+
+  /**
+   * Explain a policy rule. Resource type conditions at the top of the rule become the
+   * "Applies to" clause and the remaining conditions the "where" clause.
+   *
+   * @param parameters - The definition's parameters, for default values of referenced parameters
+   */
+  explainRule(rule: PolicyRule, parameters: Record<string, PolicyParameter> = {}): string {
+    const conditions = rule.if?.allOf ?? (rule.if ? [rule.if] : []);
+    const typeConditions = conditions.filter(condition => this.isTypeCondition(condition));
+    const otherConditions = conditions.filter(condition => !typeConditions.includes(condition));
+
+    const target = typeConditions.length > 0
+      ? typeConditions.map(condition => this.describeTypes(condition, parameters)).join(' and ')
+      : 'all resources';
+    const where = otherConditions.length > 0
+      ? ` where ${this.joinConditions(otherConditions, 'and', parameters)}`
+      : '';
+
+    return `Applies to ${target}${where}; ${this.describeEffect(rule, parameters)}`;
+  }
+
+  /**
+   * Explain a single condition, including nested allOf / anyOf / not and count expressions
+   */
+  explainCondition(condition: PolicyCondition, parameters: Record<string, PolicyParameter> = {}): string {
+    if (condition.allOf) return this.joinConditions(condition.allOf, 'and', parameters);
+    if (condition.anyOf) return this.joinConditions(condition.anyOf, 'or', parameters);
+    if (condition.not) return `not (${this.explainCondition(condition.not, parameters)})`;
+    if (condition.count) return this.describeCount(condition, parameters);
+
+    const subject = condition.field !== undefined
+      ? this.describeField(condition.field, parameters)
+      : this.describeValue(condition.value, parameters);
+
+    if (condition.exists !== undefined) {
+      return `${subject} ${String(condition.exists).toLowerCase() === 'true' ? 'exists' : 'does not exist'}`;
+    }
+
+    const operator = CONDITION_OPERATORS.find(op => (condition as Record<string, any>)[op] !== undefined);
+    if (!operator) return `${subject} (no operator)`;
+    return `${subject} ${OPERATOR_PHRASES[operator]} ${this.describeValue((condition as Record<string, any>)[operator], parameters)}`;
+  }
+
+  private joinConditions(
+    conditions: PolicyCondition[],
+    conjunction: 'and' | 'or',
+    parameters: Record<string, PolicyParameter>
+  ): string {
+    return conditions.map(condition => {
+      const text = this.explainCondition(condition, parameters);
+      // Group nested logical operators so "a and (b or c)" keeps its meaning
+      return (condition.allOf ?? condition.anyOf ?? []).length > 1 ? `(${text})` : text;
+    }).join(` ${conjunction} `);
+  }
+
+  private describeCount(condition: PolicyCondition, parameters: Record<string, PolicyParameter>): string {
+    const count = condition.count!;
+    const items = count.field !== undefined
+      ? `${this.describeField(count.field, parameters)} entries`
+      : `items in ${this.describeValue(count.value, parameters)}${count.name ? ` (as \`${count.name}\`)` : ''}`;
+    const where = count.where ? ` where ${this.explainCondition(count.where, parameters)}` : '';
+
+    const operator = COUNT_OPERATORS.find(op => (count as Record<string, any>)[op] !== undefined)
+      ?? COUNT_OPERATORS.find(op => (condition as Record<string, any>)[op] !== undefined);
+    const expected = operator ? (count as Record<string, any>)[operator] ?? (condition as Record<string, any>)[operator] : undefined;
+    const comparison = operator ? ` ${OPERATOR_PHRASES[operator]} ${this.describeValue(expected, parameters)}` : '';
+
+    return `the number of ${items}${where}${comparison}`;
+  }
+
+  private describeEffect(rule: PolicyRule, parameters: Record<string, PolicyParameter>): string {
+    const effect = rule.then?.effect;
+    const reference = this.parameterName(effect);
+    const description = `effect is ${reference ? this.describeParameter(reference, parameters) : effect ?? 'not set'}`;
+
+    const resolved = String(this.expressions.resolve(effect, { parameters: this.defaults(parameters) }) ?? '');
+    const details = rule.then?.details as Record<string, any> | undefined;
+    if (!details?.type || !EXISTENCE_EFFECTS.has(resolved.toLowerCase())) return description;
+
+    const existence = details.existenceCondition
+      ? ` where ${this.explainCondition(details.existenceCondition, parameters)}`
+      : '';
+    return `${description}, which requires a related ${details.type} resource${existence}`;
+  }
+
+  private describeTypes(condition: PolicyCondition, parameters: Record<string, PolicyParameter>): string {
+    const types = condition.equals ?? condition.in ?? condition.like;
+    if (Array.isArray(types)) return types.map(type => this.friendlyType(String(type))).join(' or ');
+    if (this.parameterName(types)) return `resource types in ${this.describeValue(types, parameters)}`;
+    return this.friendlyType(String(types));
+  }
+
+  private isTypeCondition(condition: PolicyCondition): boolean {
+    return typeof condition.field === 'string' && condition.field.toLowerCase() === 'type' &&
+      (condition.equals !== undefined || condition.in !== undefined ||
+        (typeof condition.like === 'string' && !condition.like.includes('*')));
+  }
+
+  /**
+   * Plural, lower-case name of a resource type: Microsoft.Storage/storageAccounts becomes
+   * "storage accounts". Single-word types keep the namespace (Microsoft.Sql/servers is "Sql servers").
+   */
+  private friendlyType(type: string): string {
+    const segments = type.split('/');
+    const words = (segments[segments.length - 1] ?? type).replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+    if (segments.length !== 2 || words.includes(' ')) return words;
+
+    const namespace = segments[0].replace(/^Microsoft\./i, '');
+    return `${namespace} ${words}`;
+  }
+
+  /**
+   * Aliases are shown by their property path, built-in fields by name
+   */
+  private describeField(field: string, parameters: Record<string, PolicyParameter>): string {
+    if (this.expressions.isExpression(field)) return this.describeValue(field, parameters);
+
+    const tag = field.match(/^tags(?:\[['"]?([^'"\]]+)['"]?\]|\.(.+))$/i);
+    if (tag) return `tag '${tag[1] ?? tag[2]}'`;
+
+    const path = field.includes('/') ? field.slice(field.lastIndexOf('/') + 1) : field;
+    return `\`${path}\``;
+  }
+
+  private describeValue(value: any, parameters: Record<string, PolicyParameter>): string {
+    const reference = this.parameterName(value);
+    if (reference) return this.describeParameter(reference, parameters);
+    if (this.expressions.isExpression(value)) return `\`${value}\``;
+    if (Array.isArray(value)) return value.map(item => this.describeValue(item, parameters)).join(', ');
+    if (typeof value === 'string') return `'${value}'`;
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  }
+
+  private describeParameter(name: string, parameters: Record<string, PolicyParameter>): string {
+    const key = Object.keys(parameters).find(parameter => parameter.toLowerCase() === name.toLowerCase());
+    const defaultValue = key ? parameters[key].defaultValue : undefined;
+    const shown = Array.isArray(defaultValue) ? defaultValue.join(', ') : typeof defaultValue === 'object' ? JSON.stringify(defaultValue) : defaultValue;
+    return `the \`${key ?? name}\` parameter${defaultValue !== undefined ? ` (default ${shown})` : ''}`;
+  }
+
+  private parameterName(value: any): string | undefined {
+    return typeof value === 'string' ? value.match(PARAMETER_REFERENCE)?.[1] : undefined;
+  }
+
+  private defaults(parameters: Record<string, PolicyParameter>): Record<string, any> {
+    return Object.fromEntries(Object.entries(parameters)
+      .filter(([, parameter]) => parameter.defaultValue !== undefined)
+      .map(([name, parameter]) => [name, parameter.defaultValue]));
+  }
+}
+
+/**
+ * Explain a policy definition with the default explainer
+ */
+export function explainPolicy(policy: AzurePolicyDefinition): string {
+  return new PolicyExplainer().explain(policy);
+}
@@ -0,0 +1,333 @@
+/**
+ * Azure Policy expression evaluator - parses and evaluates the template function
+ * subset allowed in policy rules, e.g. [parameters('effect')] or [toLower(field('name'))]
+ */
+
+import { PolicyParsingError } from '../../infrastructure/errors/error-handler.js';
+
+export interface ExpressionContext {
+  parameters?: Record<string, any>;
+  variables?: Record<string, any>;
+  resolveField?: (field: string) => any;
+  resolveCurrent?: (name?: string) => any;
+  requestContext?: { apiVersion?: string };
+  resourceGroup?: Record<string, any>;
+  subscription?: Record<string, any>;
+}
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: any }
+  | { kind: 'call'; name: string; args: ExpressionNode[] }
+  | { kind: 'property'; target: ExpressionNode; property: string }
+  | { kind: 'index'; target: ExpressionNode; index: ExpressionNode };
+
+type ExpressionFunction = (args: any[], context: ExpressionContext) => any;
+
+export class PolicyExpressionEvaluator {
+  private readonly functions: Record<string, ExpressionFunction> = {
+    parameters: ([name], context) => this.parameter(name, context),
+    variables: ([name], context) => {
+      const variables = context.variables ?? {};
+      const key = Object.keys(variables).find(k => k.toLowerCase() === String(name).toLowerCase());
+      if (key === undefined) {
+        throw new PolicyParsingError(`Variable '${name}' is not defined`);
+      }
+      return variables[key];
+    },
+    field: ([name], context) => {
+      if (!context.resolveField) {
+        throw new PolicyParsingError('field() is not available in this context');
+      }
+      return context.resolveField(String(name));
+    },
+    current: ([name], context) => {
+      if (!context.resolveCurrent) {
+        throw new PolicyParsingError('current() can only be used inside a count expression');
+      }
+      return context.resolveCurrent(name);
+    },
+    requestcontext: (_args, context) => ({ apiVersion: context.requestContext?.apiVersion ?? '' }),
+    resourcegroup: (_args, context) => context.resourceGroup ?? {},
+    subscription: (_args, context) => context.subscription ?? {},
+    utcnow: () => new Date().toISOString(),
+
+    concat: args => args.every(Array.isArray) ? args.flat() : args.map(arg => this.stringify(arg)).join(''),
+    tolower: ([value]) => this.requireString(value, 'toLower').toLowerCase(),
+    toupper: ([value]) => this.requireString(value, 'toUpper').toUpperCase(),
+    trim: ([value]) => this.requireString(value, 'trim').trim(),
+    string: ([value]) => this.stringify(value),
+    format: ([formatString, ...args]) => this.requireString(formatString, 'format')
+      .replace(/\{(\d+)(?::[^}]*)?\}/g, (_match, index) => this.stringify(args[Number(index)])),
+    int: ([value]) => parseInt(String(value), 10),
+    bool: ([value]) => typeof value === 'string' ? value.toLowerCase() === 'true' : !!value,
+    substring: ([value, start, length]) => this.requireString(value, 'substring')
+      .substring(start, length === undefined ? undefined : start + length),
+    replace: ([value, oldValue, newValue]) => this.requireString(value, 'replace').split(oldValue).join(newValue),
+    split: ([value, delimiter]) => this.requireString(value, 'split')
+      .split(new RegExp((Array.isArray(delimiter) ? delimiter : [delimiter])
+        .map(d => String(d).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'))),
+    startswith: ([value, prefix]) => this.requireString(value, 'startsWith').toLowerCase().startsWith(String(prefix).toLowerCase()),
+    endswith: ([value, suffix]) => this.requireString(value, 'endsWith').toLowerCase().endsWith(String(suffix).toLowerCase()),
+    indexof: ([value, search]) => this.requireString(value, 'indexOf').toLowerCase().indexOf(String(search).toLowerCase()),
+    lastindexof: ([value, search]) => this.requireString(value, 'lastIndexOf').toLowerCase().lastIndexOf(String(search).toLowerCase()),
+    length: ([value]) => {
+      if (typeof value === 'string' || Array.isArray(value)) return value.length;
+      if (value && typeof value === 'object') return Object.keys(value).length;
+      return 0;
+    },
+    empty: ([value]) => value === undefined || value === null || value === '' ||
+      (Array.isArray(value) && value.length === 0) ||
+      (typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0),
+    contains: ([container, item]) => {
+      if (typeof container === 'string') return container.toLowerCase().includes(String(item).toLowerCase());
+      if (Array.isArray(container)) return container.some(element => this.looseEquals(element, item));
+      if (container && typeof container === 'object') {
+        return Object.keys(container).some(key => key.toLowerCase() === String(item).toLowerCase());
+      }
+      return false;
+    },
+    first: ([value]) => typeof value === 'string' ? value.charAt(0) : Array.isArray(value) ? value[0] : undefined,
+    last: ([value]) => typeof value === 'string' ? value.charAt(value.length - 1) : Array.isArray(value) ? value[value.length - 1] : undefined,
+    createarray: args => args,
+    union: args => args.every(Array.isArray)
+      ? args.flat().filter((item, index, all) => all.findIndex(other => this.looseEquals(other, item)) === index)
+      : Object.assign({}, ...args),
+    intersection: ([firstArray, ...others]) => (firstArray ?? []).filter((item: any) =>
+      others.every(other => (other ?? []).some((candidate: any) => this.looseEquals(candidate, item)))),
+    coalesce: args => args.find(arg => arg !== undefined && arg !== null),
+    json: ([value]) => JSON.parse(String(value)),
+
+    equals: ([left, right]) => this.looseEquals(left, right),
+    less: ([left, right]) => left < right,
+    lessorequals: ([left, right]) => left <= right,
+    greater: ([left, right]) => left > right,
+    greaterorequals: ([left, right]) => left >= right,
+    and: args => args.every(Boolean),
+    or: args => args.some(Boolean),
+    not: ([value]) => !value,
+    true: () => true,
+    false: () => false,
+    null: () => null,
+
+    add: ([a, b]) => a + b,
+    sub: ([a, b]) => a - b,
+    mul: ([a, b]) => a * b,
+    div: ([a, b]) => Math.trunc(a / b),
+    mod: ([a, b]) => a % b,
+    adddays: ([date, days]) => new Date(new Date(date).getTime() + days * 24 * 3600000).toISOString()
+  };
+
+  /**
+   * Whether a value is a policy expression ("[...]" but not the "[[" escape)
+   */
+  isExpression(value: any): boolean {
+    return typeof value === 'string' && value.startsWith('[') && !value.startsWith('[[') && value.endsWith(']');
+  }
+
+  /**
+   * Resolve expressions anywhere in a value (strings, arrays and objects)
+   */
+  resolve(value: any, context: ExpressionContext = {}): any {
+    if (typeof value === 'string') {
+      if (this.isExpression(value)) return this.evaluate(value, context);
+      return value.startsWith('[[') ? value.substring(1) : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.resolve(item, context));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.resolve(item, context)]));
+    }
+    return value;
+  }
+
+  /**
+   * Evaluate a single "[...]" expression
+   */
+  evaluate(expression: string, context: ExpressionContext = {}): any {
+    const node = this.parse(expression);
+    return this.evaluateNode(node, context);
+  }
+
+  /**
+   * Parse an expression into a syntax tree
+   */
+  parse(expression: string): ExpressionNode {
+    if (!this.isExpression(expression)) {
+      throw new PolicyParsingError(`Not a policy expression: ${expression}`);
+    }
+
+    const source = expression.slice(1, -1);
+    let position = 0;
+
+    const error = (message: string): PolicyParsingError =>
+      new PolicyParsingError(`${message} at position ${position} in expression ${expression}`);
+
+    const skipWhitespace = (): void => {
+      while (position < source.length && /\s/.test(source[position])) position++;
+    };
+
+    const parseString = (): string => {
+      let value = '';
+      position++; // opening quote
+      while (position < source.length) {
+        if (source[position] === "'") {
+          if (source[position + 1] === "'") {
+            value += "'";
+            position += 2;
+            continue;
+          }
+          position++;
+          return value;
+        }
+        value += source[position++];
+      }
+      throw error('Unterminated string literal');
+    };
+
+    const parseIdentifier = (): string => {
+      const match = source.slice(position).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+      if (!match) throw error('Expected identifier');
+      position += match[0].length;
+      return match[0];
+    };
+
+    const parsePrimary = (): ExpressionNode => {
+      skipWhitespace();
+      const char = source[position];
+
+      if (char === "'") {
+        return { kind: 'literal', value: parseString() };
+      }
+
+      const numberMatch = source.slice(position).match(/^-?[0-9]+(\.[0-9]+)?/);
+      if (numberMatch) {
+        position += numberMatch[0].length;
+        return { kind: 'literal', value: Number(numberMatch[0]) };
+      }
+
+      const name = parseIdentifier();
+      skipWhitespace();
+      if (source[position] !== '(') {
+        throw error(`Expected '(' after ${name}`);
+      }
+      position++;
+
+      const args: ExpressionNode[] = [];
+      skipWhitespace();
+      if (source[position] === ')') {
+        position++;
+      } else {
+        while (position < source.length) {
+          args.push(parseExpression());
+          skipWhitespace();
+          if (source[position] === ',') {
+            position++;
+          } else if (source[position] === ')') {
+            position++;
+            break;
+          } else {
+            throw error(`Expected ',' or ')' in call to ${name}`);
+          }
+        }
+      }
+
+      return { kind: 'call', name, args };
+    };
+
+    const parseExpression = (): ExpressionNode => {
+      let node = parsePrimary();
+
+      for (;;) {
+        skipWhitespace();
+        if (source[position] === '.') {
+          position++;
+          node = { kind: 'property', target: node, property: parseIdentifier() };
+        } else if (source[position] === '[') {
+          position++;
+          const index = parseExpression();
+          skipWhitespace();
+          if (source[position] !== ']') throw error("Expected ']'");
+          position++;
+          node = { kind: 'index', target: node, index };
+        } else {
+          return node;
+        }
+      }
+    };
+
+    const node = parseExpression();
+    skipWhitespace();
+    if (position < source.length) {
+      throw error('Unexpected trailing characters');
+    }
+    return node;
+  }
+
+  private evaluateNode(node: ExpressionNode, context: ExpressionContext): any {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+      case 'property':
+        return this.readMember(this.evaluateNode(node.target, context), node.property);
+      case 'index':
+        return this.readMember(this.evaluateNode(node.target, context), this.evaluateNode(node.index, context));
+      case 'call': {
+        const name = node.name.toLowerCase();
+
+        // if() only evaluates the selected branch
+        if (name === 'if') {
+          if (node.args.length !== 3) {
+            throw new PolicyParsingError('if() requires exactly three arguments');
+          }
+          const condition = this.evaluateNode(node.args[0], context);
+          return this.evaluateNode(condition ? node.args[1] : node.args[2], context);
+        }
+
+        const fn = this.functions[name];
+        if (!fn) {
+          throw new PolicyParsingError(`Unsupported policy function: ${node.name}`);
+        }
+        return fn(node.args.map(arg => this.evaluateNode(arg, context)), context);
+      }
+    }
+  }
+
+  private parameter(name: any, context: ExpressionContext): any {
+    const parameters = context.parameters ?? {};
+    const key = Object.keys(parameters).find(k => k.toLowerCase() === String(name).toLowerCase());
+    if (key === undefined) {
+      throw new PolicyParsingError(`Parameter '${name}' has no value`);
+    }
+    return parameters[key];
+  }
+
+  private readMember(target: any, member: any): any {
+    if (target === undefined || target === null) return undefined;
+    if (Array.isArray(target) && typeof member === 'number') return target[member];
+    if (typeof target === 'object') {
+      const key = Object.keys(target).find(k => k.toLowerCase() === String(member).toLowerCase());
+      return key === undefined ? undefined : target[key];
+    }
+    return undefined;
+  }
+
+  private requireString(value: any, fn: string): string {
+    if (typeof value !== 'string') {
+      throw new PolicyParsingError(`${fn}() expects a string but received ${value === undefined ? 'no value' : typeof value}`);
+    }
+    return value;
+  }
+
+  private stringify(value: any): string {
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  private looseEquals(left: any, right: any): boolean {
+    if (typeof left === 'string' && typeof right === 'string') {
+      return left.toLowerCase() === right.toLowerCase();
+    }
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Policy impact analyzer - evaluates a policy or initiative against a resource inventory
+ * exported from Azure Resource Graph to estimate how many resources it would affect
+ */
+
+import { readFile } from 'fs/promises';
+import { PolicyParsingError } from '../../infrastructure/errors/error-handler.js';
+import { PolicyOutcomeResolver } from './policy-outcome-resolver.js';
+import type {
+  InventoryResource,
+  PolicyApplication,
+  PolicyEffectOutcome,
+  PolicyImpactCategory,
+  PolicyImpactGroup,
+  PolicyImpactReport,
+  PolicyImpactSample
+} from '../../types/policy.js';
+import type { TemplateResource } from '../../types/templates.js';
+
+const IMPACT_CATEGORIES: PolicyImpactCategory[] = ['denied', 'audited', 'modified'];
+
+// deployIfNotExists remediation counts as a modification of the environment
+const CATEGORY_RESULTS: Record<PolicyImpactCategory, Array<PolicyEffectOutcome['result']>> = {
+  denied: ['denied'],
+  audited: ['nonCompliant'],
+  modified: ['modified', 'deployed']
+};
+
+export class PolicyImpactAnalyzer {
+  constructor(private outcomeResolver: PolicyOutcomeResolver = new PolicyOutcomeResolver()) {}
+
+  /**
+   * Read an inventory file: the output of az graph query ({ "data": [...] }) or a plain array
+   * of resources as returned by Search-AzGraph
+   */
+  async loadInventory(path: string): Promise<InventoryResource[]> {
+    let content: any;
+    try {
+      content = JSON.parse(await readFile(path, 'utf-8'));
+    } catch (error) {
+      throw new PolicyParsingError(`Failed to read resource inventory ${path}: ${String(error)}`);
+    }
+
+    const resources = Array.isArray(content) ? content : content?.data;
+    if (!Array.isArray(resources)) {
+      throw new PolicyParsingError(`Resource inventory ${path} must be an array of resources or an object with a data array`);
+    }
+
+    resources.forEach((resource: any, index: number) => {
+      if (typeof resource?.id !== 'string' || typeof resource.name !== 'string' || typeof resource.type !== 'string') {
+        throw new PolicyParsingError(`Resource ${index} in inventory ${path} must have an id, name and type`);
+      }
+    });
+    return resources;
+  }
+
+  /**
+   * Resolve the outcome of the policies for every inventory resource and count the resources
+   * that would be denied, audited or modified, in total, per resource group and per type
+   */
+  analyze(
+    policy: string,
+    applications: PolicyApplication[],
+    inventory: InventoryResource[],
+    options: { sampleSize?: number } = {}
+  ): PolicyImpactReport {
+    const sampleSize = options.sampleSize ?? 5;
+    const declarations = this.toDeclarations(inventory);
+
+    const summary = this.emptyCounts();
+    const samples: Record<PolicyImpactCategory, PolicyImpactSample[]> = { denied: [], audited: [], modified: [] };
+    const byResourceGroup = new Map<string, PolicyImpactGroup>();
+    const byResourceType = new Map<string, PolicyImpactGroup>();
+    const notEvaluable = new Map<string, string>();
+    let impactedResources = 0;
+
+    declarations.forEach((declaration, index) => {
+      const resource = inventory[index];
+      const resourceGroup = this.resourceGroupOf(resource);
+      const groups = [
+        this.groupFor(byResourceGroup, resourceGroup),
+        this.groupFor(byResourceType, resource.type)
+      ];
+      groups.forEach(group => group.total++);
+
+      const { steps } = this.outcomeResolver.resolve(declaration, applications, declarations);
+      steps
+        .filter(step => step.result === 'notEvaluable' && !notEvaluable.has(step.policy))
+        .forEach(step => notEvaluable.set(step.policy, step.reason ?? 'Not evaluable'));
+
+      let impacted = false;
+      for (const category of IMPACT_CATEGORIES) {
+        const causes = steps.filter(step => CATEGORY_RESULTS[category].includes(step.result));
+        if (causes.length === 0) continue;
+
+        impacted = true;
+        summary[category]++;
+        groups.forEach(group => group.counts[category]++);
+        if (samples[category].length < sampleSize) {
+          samples[category].push({
+            id: resource.id,
+            name: resource.name,
+            type: resource.type,
+            resourceGroup,
+            policies: causes.map(step => ({ policy: step.policy, ...(step.reason && { reason: step.reason }) }))
+          });
+        }
+      }
+      if (impacted) impactedResources++;
+    });
+
+    return {
+      policy,
+      totalResources: inventory.length,
+      impactedResources,
+      summary,
+      byResourceGroup: this.impactedGroups(byResourceGroup),
+      byResourceType: this.impactedGroups(byResourceType),
+      samples,
+      notEvaluable: Array.from(notEvaluable, ([name, reason]) => ({ policy: name, reason }))
+    };
+  }
+
+  /**
+   * Render a report as totals, the affected resource groups and types, and sample resources
+   */
+  formatReport(report: PolicyImpactReport): string {
+    const counts = (group: Record<PolicyImpactCategory, number>) =>
+      IMPACT_CATEGORIES.map(category => `${group[category]} ${category}`).join(', ');
+
+    const lines = [
+      `**Policy impact: ${report.policy}** - ${report.impactedResources} of ${report.totalResources} resources affected`,
+      ...IMPACT_CATEGORIES.map(category => `- ${category[0].toUpperCase()}${category.slice(1)}: ${report.summary[category]}`)
+    ];
+
+    for (const [title, groups] of [['By resource group', report.byResourceGroup], ['By resource type', report.byResourceType]] as const) {
+      if (groups.length === 0) continue;
+      lines.push('', `**${title}:**`, ...groups.map(group => `- ${group.key} (${group.total} resources): ${counts(group.counts)}`));
+    }
+
+    for (const category of IMPACT_CATEGORIES) {
+      if (report.samples[category].length === 0) continue;
+      lines.push('', `**Sample ${category} resources:**`);
+      for (const sample of report.samples[category]) {
+        lines.push(`- ${sample.name} (${sample.type}, ${sample.resourceGroup}): ` +
+          sample.policies.map(cause => cause.policy + (cause.reason ? ` - ${cause.reason}` : '')).join('; '));
+      }
+    }
+
+    if (report.notEvaluable.length > 0) {
+      lines.push('', `**Not Evaluable (${report.notEvaluable.length}):**`,
+        ...report.notEvaluable.map(entry => `- ${entry.policy}: ${entry.reason}`));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Inventory resources as declarations keyed by resource id, with child resources linked to
+   * their parent and extension resources (ids with a second /providers/ segment, such as
+   * diagnostic settings) scoped to their target, so existence conditions can find them
+   */
+  private toDeclarations(inventory: InventoryResource[]): TemplateResource[] {
+    const ids = new Map(inventory.map(resource => [resource.id.toLowerCase(), resource.id]));
+
+    return inventory.map(resource => {
+      const providers = resource.id.toLowerCase().lastIndexOf('/providers/');
+      const target = resource.id.substring(0, providers);
+      const scope = target.toLowerCase().includes('/providers/')
+        ? ids.get(target.toLowerCase()) ?? target
+        : undefined;
+      const parent = ids.get(resource.id.split('/').slice(0, -2).join('/').toLowerCase());
+      // Resource Graph names child resources by their last segment; the id holds the full name
+      const fullName = resource.id.substring(providers).split('/').slice(3).filter((_, index) => index % 2 === 1).join('/');
+
+      return {
+        symbolicName: resource.id,
+        type: resource.type,
+        existing: false,
+        ...(parent && !scope && { parent }),
+        ...(scope && { scope }),
+        resource: fullName.includes('/') ? { ...resource, fullName } : resource
+      };
+    });
+  }
+
+  private resourceGroupOf(resource: InventoryResource): string {
+    return resource.resourceGroup || /\/resourceGroups\/([^/]+)/i.exec(resource.id)?.[1] || '(no resource group)';
+  }
+
+  // Resource groups and types are case-insensitive; the first spelling seen is reported
+  private groupFor(groups: Map<string, PolicyImpactGroup>, key: string): PolicyImpactGroup {
+    let group = groups.get(key.toLowerCase());
+    if (!group) {
+      group = { key, total: 0, counts: this.emptyCounts() };
+      groups.set(key.toLowerCase(), group);
+    }
+    return group;
+  }
+
+  private impactedGroups(groups: Map<string, PolicyImpactGroup>): PolicyImpactGroup[] {
+    const impact = (group: PolicyImpactGroup) => IMPACT_CATEGORIES.reduce((sum, category) => sum + group.counts[category], 0);
+    return Array.from(groups.values())
+      .filter(group => impact(group) > 0)
+      .sort((left, right) => impact(right) - impact(left) || left.key.localeCompare(right.key));
+  }
+
+  private emptyCounts(): Record<PolicyImpactCategory, number> {
+    return { denied: 0, audited: 0, modified: 0 };
+  }
+}
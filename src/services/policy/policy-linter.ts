@@ -0,0 +1,222 @@
+/**
+ * Policy linter - style and governance rules for policy definitions, beyond the
+ * structural checks in PolicyParser.validatePolicy
+ */
+
+import { PolicyParser } from './policy-parser.js';
+import { PolicyExpressionEvaluator } from './policy-expression.js';
+import type {
+  AzurePolicyDefinition,
+  PolicyLintFinding,
+  PolicyLintOptions,
+  PolicyLintResult,
+  PolicyLintRule
+} from '../../types/policy.js';
+
+const expressions = new PolicyExpressionEvaluator();
+
+// Categories used by built-in policy definitions
+const BUILT_IN_CATEGORIES = [
+  'API for FHIR', 'API Management', 'App Configuration', 'App Platform', 'App Service', 'Attestation',
+  'Automanage', 'Automation', 'Azure Active Directory', 'Azure Ai Services', 'Azure Arc', 'Azure Data Explorer',
+  'Azure Databricks', 'Azure Stack Edge', 'Azure Update Manager', 'Backup', 'Batch', 'Bot Service', 'Cache',
+  'CDN', 'ChangeTrackingAndInventory', 'Cognitive Services', 'Compute', 'Container Apps', 'Container Instance',
+  'Container Registry', 'Cosmos DB', 'Custom Provider', 'Data Box', 'Data Factory', 'Data Lake',
+  'Desktop Virtualization', 'Event Grid', 'Event Hub', 'General', 'Guest Configuration', 'HDInsight',
+  'Internet of Things', 'Key Vault', 'Kubernetes', 'Lighthouse', 'Logic Apps', 'Machine Learning',
+  'Managed Application', 'Managed Identity', 'Monitoring', 'Network', 'Portal', 'Regulatory Compliance',
+  'Search', 'Security Center', 'Service Bus', 'Service Fabric', 'SignalR', 'Site Recovery', 'SQL', 'Storage',
+  'Stream Analytics', 'Synapse', 'Tags', 'Trusted Launch', 'VM Image Builder', 'Web PubSub'
+];
+
+const SEMVER_PATTERN = /^\d+\.\d+\.\d+(-(preview|deprecated))?$/i;
+const DISPLAY_NAME_MAX_LENGTH = 128;
+const DESCRIPTION_MAX_LENGTH = 512;
+const LOCATION_FIELDS = new Set(['location', 'resourcegroup().location']);
+
+/**
+ * Visit every leaf condition (including count.where clauses) with its path
+ */
+function forEachCondition(condition: any, visit: (condition: any, path: string) => void, path = 'if'): void {
+  if (!condition || typeof condition !== 'object') return;
+
+  for (const logical of ['allOf', 'anyOf'] as const) {
+    if (Array.isArray(condition[logical])) {
+      condition[logical].forEach((child: any, index: number) => forEachCondition(child, visit, `${path}.${logical}[${index}]`));
+    }
+  }
+  if (condition.not) forEachCondition(condition.not, visit, `${path}.not`);
+  if (condition.count?.where) forEachCondition(condition.count.where, visit, `${path}.count.where`);
+
+  if (condition.field !== undefined || condition.value !== undefined || condition.count !== undefined) {
+    visit(condition, path);
+  }
+}
+
+function effectParameter(policy: AzurePolicyDefinition): string | undefined {
+  const effect = policy.properties.policyRule?.then?.effect;
+  return typeof effect === 'string' ? effect.match(/^\[parameters\('([^']+)'\)\]$/i)?.[1] : undefined;
+}
+
+export const DEFAULT_LINT_RULES: PolicyLintRule[] = [
+  {
+    id: 'effect-parameterized',
+    description: 'The effect should be a parameter so assignments can choose it',
+    severity: 'warning',
+    check: policy => {
+      const effect = policy.properties.policyRule?.then?.effect;
+      return effect && !expressions.isExpression(effect)
+        ? [`Effect '${effect}' is hard-coded; expose it as a parameter so assignments can choose it`]
+        : [];
+    }
+  },
+  {
+    id: 'effect-allowed-values',
+    description: 'The effect parameter should restrict its allowedValues',
+    severity: 'warning',
+    check: policy => {
+      const name = effectParameter(policy);
+      const parameters = policy.properties.parameters || {};
+      const key = name ? Object.keys(parameters).find(parameter => parameter.toLowerCase() === name.toLowerCase()) : undefined;
+      return key && !(Array.isArray(parameters[key].allowedValues) && parameters[key].allowedValues!.length > 0)
+        ? [`Effect parameter '${key}' has no allowedValues`]
+        : [];
+    }
+  },
+  {
+    id: 'version-semver',
+    description: 'metadata.version should be a semantic version',
+    severity: 'warning',
+    check: policy => {
+      const version = policy.properties.metadata?.version;
+      if (version === undefined) return ['metadata.version is missing'];
+      return SEMVER_PATTERN.test(String(version))
+        ? []
+        : [`metadata.version '${version}' is not a semantic version (e.g. 1.0.0 or 1.0.0-preview)`];
+    }
+  },
+  {
+    id: 'category-built-in',
+    description: 'metadata.category should be one of the built-in policy categories',
+    severity: 'warning',
+    check: policy => {
+      const category = policy.properties.metadata?.category;
+      if (!category) return [];
+      return BUILT_IN_CATEGORIES.some(builtIn => builtIn.toLowerCase() === String(category).toLowerCase())
+        ? []
+        : [`metadata.category '${category}' is not a built-in policy category`];
+    }
+  },
+  {
+    id: 'length-limits',
+    description: `displayName and description must not exceed ${DISPLAY_NAME_MAX_LENGTH} and ${DESCRIPTION_MAX_LENGTH} characters`,
+    severity: 'error',
+    check: policy => {
+      const { displayName, description } = policy.properties;
+      return [
+        ...(displayName && displayName.length > DISPLAY_NAME_MAX_LENGTH
+          ? [`displayName is ${displayName.length} characters (limit ${DISPLAY_NAME_MAX_LENGTH})`]
+          : []),
+        ...(description && description.length > DESCRIPTION_MAX_LENGTH
+          ? [`description is ${description.length} characters (limit ${DESCRIPTION_MAX_LENGTH})`]
+          : [])
+      ];
+    }
+  },
+  {
+    id: 'like-single-wildcard',
+    description: 'like and notLike patterns support a single * wildcard',
+    severity: 'error',
+    check: policy => {
+      const messages: string[] = [];
+      forEachCondition(policy.properties.policyRule?.if, (condition, path) => {
+        for (const operator of ['like', 'notLike']) {
+          const pattern = condition[operator];
+          if (typeof pattern === 'string' && !expressions.isExpression(pattern) && (pattern.match(/\*/g) ?? []).length > 1) {
+            messages.push(`${operator} pattern '${pattern}' at ${path} has more than one * wildcard; use match or split the condition`);
+          }
+        }
+      });
+      return messages;
+    }
+  },
+  {
+    id: 'no-hard-coded-locations',
+    description: 'Locations should come from a parameter rather than literals in the rule',
+    severity: 'warning',
+    check: policy => {
+      const messages: string[] = [];
+      forEachCondition(policy.properties.policyRule?.if, (condition, path) => {
+        const subject = condition.field ?? condition.value;
+        if (typeof subject !== 'string' || !LOCATION_FIELDS.has(subject.toLowerCase().replace(/^\[|\]$/g, ''))) return;
+
+        for (const operator of ['equals', 'notEquals', 'in', 'notIn', 'like', 'notLike']) {
+          const operand = condition[operator];
+          const values: any[] = operand === undefined ? [] : Array.isArray(operand) ? operand : [operand];
+          const literals = values.filter(value =>
+            typeof value === 'string' && !expressions.isExpression(value) && value.toLowerCase() !== 'global');
+          if (literals.length > 0) {
+            messages.push(`Location ${literals.map(value => `'${value}'`).join(', ')} at ${path} is hard-coded; ` +
+              'use a parameter with strongType location');
+          }
+        }
+      });
+      return messages;
+    }
+  }
+];
+
+export class PolicyLinter {
+  private rules: PolicyLintRule[];
+
+  constructor(
+    rules: PolicyLintRule[] = DEFAULT_LINT_RULES,
+    private policyParser: PolicyParser = new PolicyParser()
+  ) {
+    this.rules = [...rules];
+  }
+
+  /**
+   * Add a rule, replacing any rule with the same id
+   */
+  addRule(rule: PolicyLintRule): void {
+    this.rules = [...this.rules.filter(existing => existing.id !== rule.id), rule];
+  }
+
+  getRules(): PolicyLintRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Run every enabled rule against a definition. Messages are prefixed with the rule id
+   * and sorted into errors and warnings by the rule's (possibly overridden) severity.
+   */
+  lint(policy: AzurePolicyDefinition, options: PolicyLintOptions = {}): PolicyLintResult {
+    if (!policy.properties) {
+      return { isValid: false, errors: ['Missing properties object'], warnings: [], resourceTypeCompatibility: [], findings: [] };
+    }
+
+    const disabled = new Set((options.disabledRules || []).map(id => id.toLowerCase()));
+    const findings: PolicyLintFinding[] = [];
+
+    for (const rule of this.rules) {
+      if (disabled.has(rule.id.toLowerCase())) continue;
+
+      const severity = options.severities?.[rule.id] ?? rule.severity;
+      for (const message of rule.check(policy)) {
+        findings.push({ rule: rule.id, severity, message });
+      }
+    }
+
+    const format = (finding: PolicyLintFinding) => `[${finding.rule}] ${finding.message}`;
+    const errors = findings.filter(finding => finding.severity === 'error').map(format);
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: findings.filter(finding => finding.severity === 'warning').map(format),
+      resourceTypeCompatibility: this.policyParser.validatePolicy(policy).resourceTypeCompatibility,
+      findings
+    };
+  }
+}
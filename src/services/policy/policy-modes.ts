@@ -0,0 +1,56 @@
+/**
+ * Policy modes - which resources a policy mode evaluates
+ */
+
+export const POLICY_MODES = [
+  'All', 'Indexed', 'Microsoft.DataFactory.Data', 'Microsoft.KeyVault.Data', 'Microsoft.Kubernetes.Data',
+  'Microsoft.LoadTestService.Data', 'Microsoft.MachineLearningServices.v2.Data', 'Microsoft.ManagedHSM.Data',
+  'Microsoft.Network.Data'
+];
+
+// Resource provider modes and the data-plane components they evaluate instead of ARM resources
+const DATA_PLANE_MODES: Record<string, string> = {
+  'microsoft.datafactory.data': 'outbound traffic domain names of Azure Data Factory pipelines',
+  'microsoft.keyvault.data': 'certificates, keys and secrets inside Key Vault vaults',
+  'microsoft.kubernetes.data': 'Kubernetes objects such as pods and services inside AKS and Arc-enabled clusters, through the Azure Policy add-on',
+  'microsoft.loadtestservice.data': 'Azure Load Testing test runs',
+  'microsoft.machinelearningservices.v2.data': 'Azure Machine Learning model deployments',
+  'microsoft.managedhsm.data': 'keys inside Managed HSM pools',
+  'microsoft.network.data': 'Azure Virtual Network Manager network group membership'
+};
+
+// Resource types without tags and location, which Indexed mode never evaluates
+export const UNINDEXED_RESOURCE_TYPES = new Set([
+  'microsoft.authorization/locks',
+  'microsoft.authorization/policyassignments',
+  'microsoft.authorization/roleassignments',
+  'microsoft.authorization/roledefinitions',
+  'microsoft.insights/diagnosticsettings',
+  'microsoft.keyvault/vaults/accesspolicies',
+  'microsoft.keyvault/vaults/secrets',
+  'microsoft.network/networksecuritygroups/securityrules',
+  'microsoft.network/virtualnetworks/subnets',
+  'microsoft.network/virtualnetworks/virtualnetworkpeerings',
+  'microsoft.resources/subscriptions',
+  'microsoft.resources/subscriptions/resourcegroups',
+  'microsoft.security/pricings',
+  'microsoft.sql/servers/auditingsettings',
+  'microsoft.sql/servers/databases/transparentdataencryption',
+  'microsoft.sql/servers/firewallrules',
+  'microsoft.storage/storageaccounts/blobservices',
+  'microsoft.storage/storageaccounts/blobservices/containers',
+  'microsoft.storage/storageaccounts/fileservices',
+  'microsoft.storage/storageaccounts/fileservices/shares',
+  'microsoft.web/sites/config'
+]);
+
+/**
+ * Why a resource provider (data-plane) mode cannot be evaluated against template resources,
+ * or undefined for All, Indexed and unknown modes
+ */
+export function getDataPlaneModeReason(mode: string | undefined): string | undefined {
+  const components = mode ? DATA_PLANE_MODES[mode.toLowerCase()] : undefined;
+  return components
+    ? `${mode} policies evaluate ${components}, which are not declared as ARM resources, so the policy is not evaluable from a template`
+    : undefined;
+}
@@ -0,0 +1,237 @@
+/**
+ * Policy outcome resolver - combines every policy applying to a resource into the
+ * effective outcome, following Azure's effect evaluation order
+ */
+
+import { PolicyEvaluator } from './policy-evaluator.js';
+import { PolicyEffectSimulator } from './policy-effect-simulator.js';
+import { PolicyExistenceChecker } from './policy-existence-checker.js';
+import type {
+  PolicyApplication,
+  PolicyEffectOutcome,
+  PolicyEffectSimulation,
+  PolicyEvaluationResult,
+  PolicyEvaluationStage,
+  ResourceEffectiveOutcome
+} from '../../types/policy.js';
+import type { TemplateResource } from '../../types/templates.js';
+
+// Disabled is checked first, append and modify alter the request before deny and audit
+// evaluate it, and the existence effects run once Resource Manager completes the request
+const EFFECT_STAGES: Record<string, PolicyEvaluationStage> = {
+  disabled: 'disabled',
+  append: 'modify',
+  modify: 'modify',
+  deny: 'deny',
+  audit: 'audit',
+  manual: 'audit',
+  auditifnotexists: 'postDeployment',
+  deployifnotexists: 'postDeployment'
+};
+
+const STAGE_ORDER: PolicyEvaluationStage[] = ['disabled', 'modify', 'deny', 'audit', 'postDeployment', 'notEvaluated'];
+
+export class PolicyOutcomeResolver {
+  constructor(
+    private evaluator: PolicyEvaluator = new PolicyEvaluator(),
+    private simulator: PolicyEffectSimulator = new PolicyEffectSimulator(evaluator),
+    private existenceChecker: PolicyExistenceChecker = new PolicyExistenceChecker(evaluator)
+  ) {}
+
+  /**
+   * Resolve the effective outcome of the policies applying to a template resource. Enforced
+   * modify / append changes are applied before deny and audit policies evaluate the resource,
+   * and a denied request skips the later stages.
+   *
+   * @param resources - Every resource declared in the template, for existence checks
+   */
+  resolve(
+    declaration: TemplateResource,
+    applications: PolicyApplication[],
+    resources: TemplateResource[] = [declaration]
+  ): ResourceEffectiveOutcome {
+    const entries = applications
+      .map(application => ({ application, effect: this.resolveEffect(application, declaration) }))
+      .map(entry => ({ ...entry, stage: this.stageOf(entry.effect) }))
+      .sort((left, right) => STAGE_ORDER.indexOf(left.stage) - STAGE_ORDER.indexOf(right.stage));
+
+    let resource = structuredClone(declaration.resource);
+    const steps: PolicyEffectOutcome[] = [];
+
+    for (const { application, effect, stage } of entries) {
+      const enforced = application.enforced !== false;
+      const step = { policy: application.name, effect: effect ?? 'unknown', stage, enforced, blocking: false };
+
+      if (effect === undefined) {
+        steps.push({ ...step, result: 'skipped', reason: 'The policy could not be evaluated' });
+        continue;
+      }
+      if (stage === 'disabled') {
+        steps.push({ ...step, result: 'skipped', reason: 'Effect is disabled' });
+        continue;
+      }
+      const exclusion = this.evaluator.getModeExclusion(application.definition, resource);
+      if (exclusion) {
+        steps.push({ ...step, result: exclusion.kind, reason: exclusion.reason });
+        continue;
+      }
+      if (stage === 'notEvaluated') {
+        steps.push({
+          ...step,
+          result: 'skipped',
+          reason: effect.toLowerCase() === 'denyaction'
+            ? 'denyAction only applies to delete requests'
+            : `${effect} is not evaluated for resource deployments`
+        });
+        continue;
+      }
+      if (stage !== 'deny' && steps.some(previous => previous.result === 'denied')) {
+        steps.push({ ...step, result: 'skipped', reason: 'The request is denied before this stage' });
+        continue;
+      }
+
+      const context = { parameters: application.parameters ?? {} };
+      try {
+        if (stage === 'modify') {
+          const simulation = this.simulator.simulate(application.definition, resource, context);
+          if (simulation.unresolved) {
+            steps.push({ ...step, result: 'notEvaluable', reason: this.describeUnresolved(simulation.unresolved) });
+          } else if (simulation.skipped.some(skipped => skipped.conflict)) {
+            steps.push(this.resolveConflict(simulation, step));
+          } else if (!simulation.applied) {
+            steps.push({ ...step, result: 'notApplicable' });
+          } else if (enforced) {
+            resource = simulation.resource;
+            steps.push({ ...step, result: 'modified', changes: simulation.changes });
+          } else {
+            steps.push({
+              ...step,
+              result: 'nonCompliant',
+              changes: simulation.changes,
+              reason: 'Not enforced (DoNotEnforce) - the changes are not applied'
+            });
+          }
+          continue;
+        }
+
+        const result = this.evaluator.evaluatePolicy(application.definition, resource, context);
+        if (result.unresolved) {
+          steps.push({ ...step, result: 'notEvaluable', reason: this.describeUnresolved(result.unresolved) });
+          continue;
+        }
+        if (!result.matched) {
+          steps.push({ ...step, result: 'notApplicable' });
+          continue;
+        }
+        const reason = this.describe(result);
+
+        if (stage === 'deny') {
+          steps.push(enforced
+            ? { ...step, result: 'denied', blocking: true, ...(reason && { reason }) }
+            : { ...step, result: 'nonCompliant', reason: `Not enforced (DoNotEnforce)${reason ? ` - ${reason}` : ''}` });
+        } else if (stage === 'audit') {
+          steps.push({ ...step, result: 'nonCompliant', ...(reason && { reason }) });
+        } else {
+          steps.push(this.checkExistence(application, { ...declaration, resource }, resources, step, context));
+        }
+      } catch (error) {
+        steps.push({ ...step, result: 'skipped', reason: `Evaluation failed: ${String(error)}` });
+      }
+    }
+
+    const policiesWith = (...results: PolicyEffectOutcome['result'][]) =>
+      steps.filter(step => results.includes(step.result)).map(step => step.policy);
+    const blockedBy = policiesWith('denied');
+    const reportedBy = policiesWith('nonCompliant');
+
+    return {
+      symbolicName: declaration.symbolicName,
+      type: declaration.type,
+      outcome: blockedBy.length > 0 ? 'blocked' : reportedBy.length > 0 ? 'nonCompliant' : 'compliant',
+      resource,
+      blockedBy,
+      reportedBy,
+      remediatedBy: policiesWith('modified', 'deployed'),
+      steps
+    };
+  }
+
+  /**
+   * auditIfNotExists reports and deployIfNotExists deploys the related resource when none in
+   * the template satisfies the existence condition
+   */
+  private checkExistence(
+    application: PolicyApplication,
+    declaration: TemplateResource,
+    resources: TemplateResource[],
+    step: Omit<PolicyEffectOutcome, 'result'>,
+    context: { parameters: Record<string, any> }
+  ): PolicyEffectOutcome {
+    const templateResources = resources.map(resource =>
+      resource.symbolicName === declaration.symbolicName ? declaration : resource);
+    const existence = this.existenceChecker.check(application.definition, declaration, templateResources, context);
+
+    if (existence?.compliant) {
+      return { ...step, result: 'compliant', reason: `Satisfied by ${existence.satisfiedBy}` };
+    }
+    if (existence?.unresolved) {
+      return { ...step, result: 'notEvaluable', reason: this.describeUnresolved(existence.unresolved) };
+    }
+
+    const missing = existence ? `No ${existence.relatedType} satisfies the existence condition` : undefined;
+    if (step.effect.toLowerCase() === 'deployifnotexists' && step.enforced) {
+      return { ...step, result: 'deployed', reason: `${missing ?? 'The related resource is missing'}; deployed after the request completes` };
+    }
+    return { ...step, result: 'nonCompliant', ...(missing && { reason: missing }) };
+  }
+
+  /**
+   * An append onto a different existing value denies the request, and a conflicting modify
+   * operation makes the policy apply its conflictEffect instead of any change
+   */
+  private resolveConflict(simulation: PolicyEffectSimulation, step: Omit<PolicyEffectOutcome, 'result'>): PolicyEffectOutcome {
+    const reason = 'Conflicting operations: ' + simulation.skipped
+      .filter(skipped => skipped.conflict)
+      .map(skipped => `${skipped.field} - ${skipped.reason}`)
+      .join('; ');
+    const conflictEffect = step.effect.toLowerCase() === 'append' ? 'deny' : (simulation.conflictEffect ?? 'audit').toLowerCase();
+
+    if (conflictEffect === 'disabled') {
+      return { ...step, result: 'skipped', reason: `${reason} (conflictEffect is disabled)` };
+    }
+    if (conflictEffect === 'deny') {
+      return step.enforced
+        ? { ...step, result: 'denied', blocking: true, reason }
+        : { ...step, result: 'nonCompliant', reason: `Not enforced (DoNotEnforce) - ${reason}` };
+    }
+    return { ...step, result: 'nonCompliant', reason };
+  }
+
+  private resolveEffect(application: PolicyApplication, declaration: TemplateResource): string | undefined {
+    if (application.effect) return application.effect;
+
+    try {
+      return this.evaluator.evaluatePolicy(application.definition, declaration.resource, {
+        parameters: application.parameters ?? {}
+      }).effect;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private stageOf(effect: string | undefined): PolicyEvaluationStage {
+    return effect === undefined ? 'notEvaluated' : EFFECT_STAGES[effect.toLowerCase()] ?? 'notEvaluated';
+  }
+
+  private describeUnresolved(fields: string[]): string {
+    return `Undetermined: ${fields.join(', ')} depend(s) on template expressions that cannot be resolved before deployment`;
+  }
+
+  private describe(result: PolicyEvaluationResult): string | undefined {
+    const reasons = result.evaluations
+      .filter(evaluation => evaluation.result && evaluation.field && evaluation.field.toLowerCase() !== 'type')
+      .map(evaluation => `${evaluation.field} ${evaluation.operator} ${JSON.stringify(evaluation.expected)} ` +
+        `(actual: ${JSON.stringify(evaluation.actual)})`);
+    return reasons.length > 0 ? reasons.join('; ') : undefined;
+  }
+}
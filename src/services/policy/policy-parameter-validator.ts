@@ -0,0 +1,227 @@
+/**
+ * Policy parameter validator - checks assignment parameter values against the
+ * parameters a policy or initiative declares
+ */
+
+import { PolicyParser } from './policy-parser.js';
+import { PolicyExpressionEvaluator } from './policy-expression.js';
+import type {
+  AzurePolicyDefinition,
+  PolicyParameterInfo,
+  PolicyParameterIssue,
+  PolicyParameterValidationResult,
+  PolicySetDefinition
+} from '../../types/policy.js';
+
+const RESOURCE_TYPE_PATTERN = /^[A-Za-z0-9]+(\.[A-Za-z0-9]+)+(\/[A-Za-z0-9]+)+$/;
+const RESOURCE_ID_PATTERN = /^\/subscriptions\/[^/]+(\/resourceGroups\/[^/]+)?\/providers\/(.+)$/i;
+const RESOURCE_GROUP_NAME_PATTERN = /^[-\w.()]{1,90}$/;
+const LOCATION_PATTERN = /^[a-z0-9]+$/;
+
+export class PolicyParameterValidator {
+  constructor(
+    private policyParser: PolicyParser = new PolicyParser(),
+    private expressions: PolicyExpressionEvaluator = new PolicyExpressionEvaluator()
+  ) {}
+
+  /**
+   * Validate parameter values against the parameters of a policy or initiative definition
+   */
+  validateDefinition(
+    definition: AzurePolicyDefinition | PolicySetDefinition,
+    values: Record<string, any> = {}
+  ): PolicyParameterValidationResult {
+    return this.validate(this.policyParser.extractParameters(definition.properties.parameters || {}), values);
+  }
+
+  /**
+   * Validate parameter values (plain or assignment-style { value } wrappers) against
+   * declared parameters: unknown names, missing required values, types, allowedValues
+   * and strongType hints
+   */
+  validate(parameters: PolicyParameterInfo[], values: Record<string, any> = {}): PolicyParameterValidationResult {
+    const errors: PolicyParameterIssue[] = [];
+    const warnings: PolicyParameterIssue[] = [];
+    const declared = new Map(parameters.map(parameter => [parameter.name.toLowerCase(), parameter]));
+
+    for (const name of Object.keys(values)) {
+      if (!declared.has(name.toLowerCase())) {
+        errors.push({
+          parameter: name,
+          code: 'unknown',
+          message: `Parameter '${name}' is not defined by the policy` +
+            (parameters.length > 0 ? ` (defined: ${parameters.map(parameter => parameter.name).join(', ')})` : '')
+        });
+      }
+    }
+
+    for (const parameter of parameters) {
+      const key = Object.keys(values).find(name => name.toLowerCase() === parameter.name.toLowerCase());
+      const supplied = key === undefined ? undefined : this.unwrap(values[key]);
+
+      if (supplied === undefined) {
+        if (parameter.required) {
+          errors.push({
+            parameter: parameter.name,
+            code: 'missing',
+            message: `Parameter '${parameter.name}' (${parameter.type}) has no default value and must be assigned`
+          });
+        }
+        continue;
+      }
+
+      // Expressions (e.g. initiative parameters passed through) are only known at assignment time
+      if (this.expressions.isExpression(supplied)) continue;
+
+      const typeError = this.checkType(parameter, supplied);
+      if (typeError) {
+        errors.push({ parameter: parameter.name, code: 'type', message: typeError });
+        continue;
+      }
+
+      this.checkAllowedValues(parameter, supplied, errors, warnings);
+      this.checkStrongType(parameter, supplied, warnings);
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  private checkType(parameter: PolicyParameterInfo, value: any): string | undefined {
+    const type = String(parameter.type ?? '').toLowerCase();
+    let valid: boolean;
+
+    switch (type) {
+      case 'string':
+        valid = typeof value === 'string';
+        break;
+      case 'integer':
+        valid = Number.isInteger(value);
+        break;
+      case 'float':
+        valid = typeof value === 'number' && Number.isFinite(value);
+        break;
+      case 'boolean':
+        valid = typeof value === 'boolean';
+        break;
+      case 'array':
+        valid = Array.isArray(value);
+        break;
+      case 'object':
+        valid = value !== null && typeof value === 'object' && !Array.isArray(value);
+        break;
+      case 'datetime':
+        valid = typeof value === 'string' && !isNaN(Date.parse(value));
+        break;
+      default:
+        return undefined;
+    }
+
+    return valid
+      ? undefined
+      : `Parameter '${parameter.name}' must be ${type === 'array' || type === 'object' || type === 'integer' ? 'an' : 'a'} ` +
+        `${parameter.type} but got ${this.describe(value)}`;
+  }
+
+  /**
+   * Values must be one of allowedValues; for arrays every member must be allowed.
+   * Values that only differ in case are accepted with a warning.
+   */
+  private checkAllowedValues(
+    parameter: PolicyParameterInfo,
+    value: any,
+    errors: PolicyParameterIssue[],
+    warnings: PolicyParameterIssue[]
+  ): void {
+    const allowed = parameter.allowedValues;
+    if (!Array.isArray(allowed) || allowed.length === 0) return;
+
+    const candidates = Array.isArray(value) && !allowed.some(item => Array.isArray(item)) ? value : [value];
+    for (const candidate of candidates) {
+      if (allowed.some(item => this.isSame(item, candidate))) continue;
+
+      const caseMatch = typeof candidate === 'string'
+        ? allowed.find(item => typeof item === 'string' && item.toLowerCase() === candidate.toLowerCase())
+        : undefined;
+      if (caseMatch !== undefined) {
+        warnings.push({
+          parameter: parameter.name,
+          code: 'allowedValues',
+          message: `Parameter '${parameter.name}' value ${JSON.stringify(candidate)} differs in case from allowed value ${JSON.stringify(caseMatch)}`
+        });
+        continue;
+      }
+
+      errors.push({
+        parameter: parameter.name,
+        code: 'allowedValues',
+        message: `Parameter '${parameter.name}' value ${JSON.stringify(candidate)} is not one of the allowed values: ` +
+          allowed.map(item => JSON.stringify(item)).join(', ')
+      });
+    }
+  }
+
+  /**
+   * strongType is a portal hint rather than an enforced constraint, so mismatches are warnings
+   */
+  private checkStrongType(parameter: PolicyParameterInfo, value: any, warnings: PolicyParameterIssue[]): void {
+    const strongType = parameter.strongType;
+    if (!strongType) return;
+
+    const members = Array.isArray(value) ? value : [value];
+    const lower = strongType.toLowerCase();
+    let isValid: (member: any) => boolean;
+    let expected: string;
+
+    if (lower === 'location') {
+      isValid = member => typeof member === 'string' && LOCATION_PATTERN.test(member);
+      expected = 'a location name such as eastus';
+    } else if (lower === 'resourcetypes') {
+      isValid = member => typeof member === 'string' && RESOURCE_TYPE_PATTERN.test(member);
+      expected = 'a resource type such as Microsoft.Storage/storageAccounts';
+    } else if (lower === 'resourcegroups' || lower === 'existingresourcegroups') {
+      isValid = member => typeof member === 'string' && RESOURCE_GROUP_NAME_PATTERN.test(member);
+      expected = 'a resource group name';
+    } else if (RESOURCE_TYPE_PATTERN.test(strongType)) {
+      isValid = member => typeof member === 'string' && this.isResourceIdOfType(member, strongType);
+      expected = `a ${strongType} resource id`;
+    } else {
+      return;
+    }
+
+    for (const member of members) {
+      if (!isValid(member)) {
+        warnings.push({
+          parameter: parameter.name,
+          code: 'strongType',
+          message: `Parameter '${parameter.name}' value ${JSON.stringify(member)} does not look like ${expected} (strongType ${strongType})`
+        });
+      }
+    }
+  }
+
+  private isResourceIdOfType(value: string, resourceType: string): boolean {
+    const match = value.match(RESOURCE_ID_PATTERN);
+    if (!match) return false;
+
+    // providers/<namespace>/<type>/<name>[/<child type>/<name>]
+    const [namespace, ...rest] = match[2].split('/');
+    const types = rest.filter((_segment, index) => index % 2 === 0);
+    return `${namespace}/${types.join('/')}`.toLowerCase() === resourceType.toLowerCase() && rest.length % 2 === 0;
+  }
+
+  private unwrap(value: any): any {
+    return value && typeof value === 'object' && !Array.isArray(value) && 'value' in value && Object.keys(value).length === 1
+      ? value.value
+      : value;
+  }
+
+  private isSame(left: any, right: any): boolean {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+
+  private describe(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    return `${typeof value} ${JSON.stringify(value)}`;
+  }
+}
@@ -12,20 +12,34 @@ import type {
   PolicyEffectInfo,
   FieldCheck,
   PolicyValidationResult,
+  ResourceTypeApplicability,
   ResourceTypeCompatibility
 } from '../../types/policy.js';
+import { PolicyExpressionEvaluator } from './policy-expression.js';
+import { PolicyAliasResolver } from './alias-resolver.js';
+import { CONDITION_OPERATORS, COUNT_OPERATORS } from './policy-evaluator.js';
+import { POLICY_MODES, UNINDEXED_RESOURCE_TYPES } from './policy-modes.js';
+
+const POLICY_EFFECTS = [
+  'addToNetworkGroup', 'append', 'audit', 'auditIfNotExists', 'deny', 'denyAction',
+  'deployIfNotExists', 'disabled', 'manual', 'modify', 'mutate'
+];
+
+const PARAMETER_TYPES = ['String', 'Array', 'Object', 'Boolean', 'Integer', 'Float', 'DateTime'];
+
+// Type and kind values collected while walking a rule, before they become a ResourceTypeApplicability
+interface TypeConstraints {
+  includes: Set<string>;
+  excludes: Set<string>;
+  kinds: Set<string>;
+  excludedKinds: Set<string>;
+  aliases: Set<string>;
+}
 
 export class PolicyParser {
-  private readonly commonResourceTypes = new Set([
-    'Microsoft.Compute/virtualMachines',
-    'Microsoft.Storage/storageAccounts',
-    'Microsoft.Network/virtualNetworks',
-    'Microsoft.Network/networkSecurityGroups',
-    'Microsoft.Web/sites',
-    'Microsoft.KeyVault/vaults',
-    'Microsoft.ContainerInstance/containerGroups',
-    'Microsoft.ContainerRegistry/registries'
-  ]);
+  private readonly expressions = new PolicyExpressionEvaluator();
+
+  constructor(private aliases: PolicyAliasResolver = new PolicyAliasResolver()) {}
 
   /**
    * Parse an Azure Policy definition JSON into structured analysis
@@ -47,6 +61,7 @@ export class PolicyParser {
    */
   analyzePolicyDefinition(policy: AzurePolicyDefinition, id?: string): ParsedPolicy {
     const props = policy.properties;
+    const applicability = this.analyzeResourceTypeApplicability(props.policyRule);
     
     return {
       id: id || policy.id || 'unknown',
@@ -61,15 +76,16 @@ export class PolicyParser {
       preview: props.metadata?.preview || false,
       parameters: this.extractParameters(props.parameters || {}),
       rules: this.analyzeRules(props.policyRule),
-      resourceTypes: this.extractResourceTypes(props.policyRule),
-      effects: this.extractEffects(props.policyRule)
+      resourceTypes: applicability.includes,
+      applicability,
+      effects: this.extractEffects(props.policyRule, props.parameters || {})
     };
   }
 
   /**
    * Extract and analyze policy parameters
    */
-  private extractParameters(parameters: Record<string, any>): PolicyParameterInfo[] {
+  extractParameters(parameters: Record<string, any>): PolicyParameterInfo[] {
     return Object.entries(parameters).map(([name, param]) => ({
       name,
       type: param.type,
@@ -77,7 +93,8 @@ export class PolicyParser {
       description: param.metadata?.description,
       required: param.defaultValue === undefined,
       allowedValues: param.allowedValues,
-      defaultValue: param.defaultValue
+      defaultValue: param.defaultValue,
+      ...(param.metadata?.strongType && { strongType: param.metadata.strongType })
     }));
   }
 
@@ -153,7 +170,7 @@ export class PolicyParser {
       conditions.push({
         type: 'function',
         operator: 'count',
-        field: condition.count.field,
+        ...(condition.count.field !== undefined && { field: condition.count.field }),
         value: condition.count,
         nested: condition.count.where ? this.extractConditions(condition.count.where) : []
       });
@@ -175,8 +192,7 @@ export class PolicyParser {
         const operators = [];
         const values = [];
         
-        const checkOps = ['equals', 'notEquals', 'like', 'notLike', 'in', 'notIn', 'exists'];
-        for (const op of checkOps) {
+        for (const op of CONDITION_OPERATORS) {
           if (cond[op as keyof PolicyCondition] !== undefined) {
             operators.push(op);
             values.push(cond[op as keyof PolicyCondition]);
@@ -199,10 +215,11 @@ export class PolicyParser {
         }
       }
 
-      // Recursively process nested conditions
+      // Recursively process nested conditions, including count where clauses
       if (cond.allOf) cond.allOf.forEach(processCondition);
       if (cond.anyOf) cond.anyOf.forEach(processCondition);
       if (cond.not) processCondition(cond.not);
+      if (cond.count?.where) processCondition(cond.count.where);
     };
 
     processCondition(condition);
@@ -260,116 +277,152 @@ export class PolicyParser {
   }
 
   /**
-   * Extract resource types affected by the policy
+   * Describe which resource types a policy rule applies to. field 'type' and 'kind' conditions
+   * combined with allOf (or negated anyOf) constrain the rule; an anyOf only constrains it when
+   * every branch does. Without type conditions the types are inferred from the aliases used.
    */
-  private extractResourceTypes(policyRule: any): string[] {
-    const resourceTypes = new Set<string>();
+  analyzeResourceTypeApplicability(policyRule: any): ResourceTypeApplicability {
+    const constraints = this.collectTypeConstraints(policyRule?.if, false);
+    const includes = [...constraints.includes];
 
-    const extractFromCondition = (condition: PolicyCondition) => {
-      if (!condition) return;
+    if (includes.length > 0) {
+      return { ...this.toApplicability(constraints), source: 'typeCondition' };
+    }
 
-      // Check for type field
-      if (condition.field === 'type') {
-        if (condition.equals && typeof condition.equals === 'string') {
-          resourceTypes.add(condition.equals);
+    const aliasTypes = new Set<string>();
+    for (const alias of constraints.aliases) {
+      const resourceType = this.aliases.resolve(alias)?.resourceType ?? alias.slice(0, alias.lastIndexOf('/'));
+      if (resourceType.includes('/')) aliasTypes.add(resourceType);
+    }
+
+    return aliasTypes.size > 0
+      ? { ...this.toApplicability(constraints), includes: Array.from(aliasTypes), source: 'aliases' }
+      : { ...this.toApplicability(constraints), source: 'unconstrained' };
+  }
+
+  private collectTypeConstraints(condition: PolicyCondition | undefined, negated: boolean): TypeConstraints {
+    const constraints: TypeConstraints = {
+      includes: new Set(), excludes: new Set(), kinds: new Set(), excludedKinds: new Set(), aliases: new Set()
+    };
+    if (!condition || typeof condition !== 'object') return constraints;
+
+    const children = condition.allOf ?? condition.anyOf;
+    if (children) {
+      const branches = children.map(child => this.collectTypeConstraints(child, negated));
+      branches.forEach(branch => branch.aliases.forEach(alias => constraints.aliases.add(alias)));
+
+      // not anyOf is an allOf of the negated branches, and not allOf an anyOf
+      const conjunction = Boolean(condition.allOf) !== negated;
+      if (conjunction) {
+        for (const branch of branches) {
+          for (const key of ['includes', 'excludes', 'kinds', 'excludedKinds'] as const) {
+            branch[key].forEach(value => constraints[key].add(value));
+          }
         }
-        if (condition.in && Array.isArray(condition.in)) {
-          condition.in.forEach(type => {
-            if (typeof type === 'string') resourceTypes.add(type);
-          });
+      } else {
+        for (const key of ['includes', 'kinds'] as const) {
+          if (branches.length > 0 && branches.every(branch => branch[key].size > 0)) {
+            branches.forEach(branch => branch[key].forEach(value => constraints[key].add(value)));
+          }
         }
       }
+      return constraints;
+    }
 
-      // Check for resource type patterns in field names
-      if (condition.field && typeof condition.field === 'string') {
-        // Extract resource type from field paths like "Microsoft.Compute/virtualMachines/property"
-        const match = condition.field.match(/^(Microsoft\.\w+\/\w+)/);
-        if (match) {
-          resourceTypes.add(match[1]);
-        }
+    if (condition.not) {
+      return this.collectTypeConstraints(condition.not, !negated);
+    }
+
+    if (condition.count) {
+      const counted = this.collectTypeConstraints(condition.count.where, false);
+      counted.aliases.forEach(alias => constraints.aliases.add(alias));
+      if (typeof condition.count.field === 'string' && condition.count.field.includes('/')) {
+        constraints.aliases.add(condition.count.field);
       }
+      return constraints;
+    }
 
-      // Recursively check nested conditions
-      if (condition.allOf) condition.allOf.forEach(extractFromCondition);
-      if (condition.anyOf) condition.anyOf.forEach(extractFromCondition);
-      if (condition.not) extractFromCondition(condition.not);
-    };
+    const field = typeof condition.field === 'string' ? condition.field : undefined;
+    if (!field || this.expressions.isExpression(field)) return constraints;
 
-    extractFromCondition(policyRule.if);
-    
-    // If no specific types found, return common types based on field patterns
-    if (resourceTypes.size === 0) {
-      return this.inferResourceTypesFromFields(policyRule.if);
+    const subject = field.toLowerCase();
+    if (subject !== 'type' && subject !== 'kind') {
+      if (field.includes('/')) constraints.aliases.add(field);
+      return constraints;
     }
 
-    return Array.from(resourceTypes);
-  }
+    const [included, excluded] = subject === 'type'
+      ? [constraints.includes, constraints.excludes]
+      : [constraints.kinds, constraints.excludedKinds];
 
-  /**
-   * Infer resource types from field patterns
-   */
-  private inferResourceTypesFromFields(condition: PolicyCondition): string[] {
-    const fieldPatterns = new Map([
-      ['location', ['*']], // Most resources have location
-      ['tags', ['*']], // Most resources support tags
-      ['sku', ['Microsoft.Compute/virtualMachines', 'Microsoft.Storage/storageAccounts']],
-      ['properties.encryption', ['Microsoft.Storage/storageAccounts', 'Microsoft.KeyVault/vaults']],
-      ['properties.networkAcls', ['Microsoft.Storage/storageAccounts']],
-      ['properties.supportsHttpsTrafficOnly', ['Microsoft.Storage/storageAccounts']],
-      ['properties.minimumTlsVersion', ['Microsoft.Storage/storageAccounts']]
-    ]);
-
-    const foundFields = new Set<string>();
-    
-    const collectFields = (cond: PolicyCondition) => {
-      if (!cond) return;
-      
-      if (cond.field) {
-        foundFields.add(cond.field);
-      }
-      
-      if (cond.allOf) cond.allOf.forEach(collectFields);
-      if (cond.anyOf) cond.anyOf.forEach(collectFields);
-      if (cond.not) collectFields(cond.not);
-    };
+    for (const [operator, positive] of [
+      ['equals', true], ['in', true], ['like', true], ['notEquals', false], ['notIn', false], ['notLike', false]
+    ] as const) {
+      const operand = condition[operator];
+      if (operand === undefined) continue;
 
-    collectFields(condition);
-
-    const inferredTypes = new Set<string>();
-    for (const field of foundFields) {
-      for (const [pattern, types] of fieldPatterns) {
-        if (field.includes(pattern)) {
-          types.forEach(type => {
-            if (type === '*') {
-              // Add common types for universal fields
-              this.commonResourceTypes.forEach(rt => inferredTypes.add(rt));
-            } else {
-              inferredTypes.add(type);
-            }
-          });
-        }
-      }
+      // Parameterized values are only known at assignment
+      const values = (Array.isArray(operand) ? operand : [operand])
+        .filter(value => typeof value === 'string' && !this.expressions.isExpression(value));
+      values.forEach(value => (positive !== negated ? included : excluded).add(value));
     }
 
-    return Array.from(inferredTypes);
+    return constraints;
+  }
+
+  private toApplicability(constraints: TypeConstraints): Omit<ResourceTypeApplicability, 'source'> {
+    return {
+      includes: Array.from(constraints.includes),
+      excludes: Array.from(constraints.excludes),
+      kinds: Array.from(constraints.kinds),
+      excludedKinds: Array.from(constraints.excludedKinds)
+    };
   }
 
   /**
    * Extract policy effects information
    */
-  private extractEffects(policyRule: any): PolicyEffectInfo[] {
+  private extractEffects(policyRule: any, parameters: Record<string, any>): PolicyEffectInfo[] {
     const effects: PolicyEffectInfo[] = [];
     
     if (policyRule.then && policyRule.then.effect) {
-      const effect = policyRule.then.effect;
+      const expression = policyRule.then.effect;
       const details = policyRule.then.details;
+      let effect = expression;
+      let allowedValues: string[] | undefined;
+
+      // Resolve parameterized effects such as [parameters('effect')] to their default value
+      if (this.expressions.isExpression(expression)) {
+        const defaults = Object.fromEntries(
+          Object.entries(parameters)
+            .filter(([, param]) => param.defaultValue !== undefined)
+            .map(([name, param]) => [name, param.defaultValue])
+        );
+
+        try {
+          effect = String(this.expressions.evaluate(expression, { parameters: defaults }));
+        } catch {
+          // No default available - keep the expression as the effect
+        }
+
+        const parameterMatch = expression.match(/^\[parameters\('([^']+)'\)\]$/i);
+        const parameter = parameterMatch ? parameters[parameterMatch[1]] : undefined;
+        if (Array.isArray(parameter?.allowedValues)) {
+          allowedValues = parameter.allowedValues;
+        }
+      }
+
+      const normalizedEffect = String(effect).toLowerCase();
 
       effects.push({
         effect,
+        ...(effect !== expression && { expression }),
+        ...(allowedValues && { allowedValues }),
         hasDetails: !!details,
         requiresRoleDefinitions: !!(details?.roleDefinitionIds?.length),
-        deploysResources: effect === 'deployIfNotExists' && !!details?.deployment,
-        modifiesResources: effect === 'modify' && !!(details?.operations?.length)
+        deploysResources: normalizedEffect === 'deployifnotexists' && !!details?.deployment,
+        modifiesResources: (normalizedEffect === 'modify' && !!(details?.operations?.length)) ||
+          (normalizedEffect === 'append' && Array.isArray(details) && details.length > 0)
       });
     }
 
@@ -377,7 +430,8 @@ export class PolicyParser {
   }
 
   /**
-   * Validate policy definition
+   * Validate policy definition: required properties, condition structure and operators,
+   * effects and their details, mode and parameter usage
    */
   validatePolicy(policy: AzurePolicyDefinition): PolicyValidationResult {
     const errors: string[] = [];
@@ -396,6 +450,10 @@ export class PolicyParser {
     if (!props.policyRule) errors.push('Missing policyRule');
     if (!props.mode) errors.push('Missing mode');
 
+    if (props.mode && !POLICY_MODES.some(mode => mode.toLowerCase() === String(props.mode).toLowerCase())) {
+      errors.push(`Unsupported mode '${props.mode}' (supported: ${POLICY_MODES.join(', ')})`);
+    }
+
     // Policy rule validation
     if (props.policyRule) {
       if (!props.policyRule.if) errors.push('Missing if condition in policyRule');
@@ -404,6 +462,15 @@ export class PolicyParser {
       if (props.policyRule.then && !props.policyRule.then.effect) {
         errors.push('Missing effect in then clause');
       }
+
+      if (props.policyRule.if) {
+        this.validateCondition(props.policyRule.if, 'if', errors, warnings);
+      }
+
+      if (props.policyRule.then?.effect) {
+        const effects = this.validateEffect(props.policyRule.then.effect, props.parameters || {}, errors);
+        this.validateEffectDetails(effects, props.policyRule.then.details, errors);
+      }
     }
 
     // Metadata validation
@@ -416,12 +483,24 @@ export class PolicyParser {
       for (const [name, param] of Object.entries(props.parameters)) {
         if (!param.type) {
           errors.push(`Parameter ${name} missing type`);
+        } else if (!PARAMETER_TYPES.some(type => type.toLowerCase() === String(param.type).toLowerCase())) {
+          errors.push(`Parameter ${name} has unsupported type '${param.type}' (supported: ${PARAMETER_TYPES.join(', ')})`);
         }
       }
     }
 
+    if (props.policyRule) {
+      this.validateParameterReferences(props.policyRule, props.parameters || {}, errors, warnings);
+    }
+
     const resourceTypeCompatibility = this.analyzeResourceTypeCompatibility(props);
 
+    for (const compatibility of resourceTypeCompatibility) {
+      if (!compatibility.compatible && compatibility.reason) {
+        warnings.push(compatibility.reason);
+      }
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -430,6 +509,228 @@ export class PolicyParser {
     };
   }
 
+  /**
+   * Check a condition tree: logical operators, a single field/value/count subject and
+   * exactly one known operator per leaf condition
+   */
+  private validateCondition(condition: any, path: string, errors: string[], warnings: string[]): void {
+    if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+      errors.push(`Condition at ${path} must be an object`);
+      return;
+    }
+
+    const logical = ['allOf', 'anyOf', 'not'].filter(key => condition[key] !== undefined);
+    if (logical.length > 0) {
+      const others = Object.keys(condition).filter(key => !logical.includes(key));
+      if (logical.length > 1 || others.length > 0) {
+        errors.push(`Condition at ${path} must contain only one of allOf, anyOf or not (found ${Object.keys(condition).join(', ')})`);
+      }
+
+      for (const key of ['allOf', 'anyOf'].filter(key => condition[key] !== undefined)) {
+        const children = condition[key];
+        if (!Array.isArray(children) || children.length === 0) {
+          errors.push(`${key} at ${path} must be a non-empty array of conditions`);
+          continue;
+        }
+        children.forEach((child: any, index: number) =>
+          this.validateCondition(child, `${path}.${key}[${index}]`, errors, warnings));
+      }
+
+      if (condition.not !== undefined) {
+        this.validateCondition(condition.not, `${path}.not`, errors, warnings);
+      }
+      return;
+    }
+
+    const subjects = ['field', 'value', 'count'].filter(key => condition[key] !== undefined);
+    const subject = condition.field !== undefined ? `field '${condition.field}'` : subjects[0] ?? 'condition';
+
+    if (subjects.length === 0) {
+      errors.push(`Condition at ${path} has no field, value or count`);
+    } else if (subjects.length > 1) {
+      errors.push(`Condition at ${path} must use only one of field, value or count (found ${subjects.join(', ')})`);
+    }
+
+    if (condition.count !== undefined) {
+      this.validateCount(condition.count, `${path}.count`, errors, warnings);
+    }
+
+    const operatorNames: readonly string[] = condition.count !== undefined ? COUNT_OPERATORS : CONDITION_OPERATORS;
+    const operators: string[] = [];
+
+    for (const key of Object.keys(condition).filter(key => !subjects.includes(key))) {
+      if (operatorNames.includes(key)) {
+        operators.push(key);
+        continue;
+      }
+
+      const caseMatch = operatorNames.find(name => name.toLowerCase() === key.toLowerCase());
+      if (caseMatch) {
+        warnings.push(`Operator '${key}' on ${subject} at ${path} should be written '${caseMatch}'`);
+        operators.push(caseMatch);
+        continue;
+      }
+
+      const suggestion = this.suggest(key, operatorNames);
+      errors.push(`Unknown operator '${key}' on ${subject} at ${path}` + (suggestion ? ` (did you mean '${suggestion}'?)` : ''));
+      operators.push(key);
+    }
+
+    if (operators.length === 0) {
+      errors.push(`Condition on ${subject} at ${path} has no operator`);
+    } else if (operators.length > 1) {
+      errors.push(`Condition on ${subject} at ${path} has more than one operator (${operators.join(', ')})`);
+    }
+  }
+
+  private validateCount(count: any, path: string, errors: string[], warnings: string[]): void {
+    if (!count || typeof count !== 'object' || Array.isArray(count)) {
+      errors.push(`count at ${path} must be an object`);
+      return;
+    }
+
+    if ((count.field === undefined) === (count.value === undefined)) {
+      errors.push(`count at ${path} must specify exactly one of field or value`);
+    }
+    if (count.field !== undefined && (typeof count.field !== 'string' || !count.field.endsWith('[*]'))) {
+      errors.push(`count at ${path} must reference an array alias ending in [*]`);
+    }
+    if (count.where !== undefined) {
+      this.validateCondition(count.where, `${path}.where`, errors, warnings);
+    }
+  }
+
+  /**
+   * Check literal effects, or every value a parameterized effect can take, against the
+   * supported effects; returns the valid effects in lower case
+   */
+  private validateEffect(effect: any, parameters: Record<string, any>, errors: string[]): Set<string> {
+    let candidates: any[] = [effect];
+    let source = '';
+
+    if (this.expressions.isExpression(effect)) {
+      const parameterMatch = String(effect).match(/^\[parameters\('([^']+)'\)\]$/i);
+      const name = parameterMatch
+        ? Object.keys(parameters).find(key => key.toLowerCase() === parameterMatch[1].toLowerCase())
+        : undefined;
+      // Undefined parameters are reported by validateParameterReferences
+      if (!name) return new Set();
+
+      const parameter = parameters[name];
+      candidates = Array.isArray(parameter.allowedValues) ? [...parameter.allowedValues] : [];
+      if (parameter.defaultValue !== undefined) candidates.push(parameter.defaultValue);
+      source = ` in parameter '${name}'`;
+    }
+
+    const effects = new Set<string>();
+    for (const candidate of candidates) {
+      const known = typeof candidate === 'string'
+        ? POLICY_EFFECTS.find(name => name.toLowerCase() === candidate.toLowerCase())
+        : undefined;
+      if (known) {
+        effects.add(known.toLowerCase());
+      } else {
+        errors.push(`Unsupported effect ${JSON.stringify(candidate)}${source} (supported: ${POLICY_EFFECTS.join(', ')})`);
+      }
+    }
+
+    return effects;
+  }
+
+  private validateEffectDetails(effects: Set<string>, details: any, errors: string[]): void {
+    const hasItems = (value: any) => Array.isArray(value) && value.length > 0;
+
+    if (effects.has('modify')) {
+      if (!hasItems(details?.roleDefinitionIds)) errors.push('modify effect requires details.roleDefinitionIds');
+      if (!hasItems(details?.operations)) errors.push('modify effect requires details.operations');
+    }
+
+    if (effects.has('deployifnotexists')) {
+      if (!details?.type) errors.push('deployIfNotExists effect requires details.type');
+      if (!hasItems(details?.roleDefinitionIds)) errors.push('deployIfNotExists effect requires details.roleDefinitionIds');
+      if (!details?.deployment) {
+        errors.push('deployIfNotExists effect requires details.deployment');
+      } else if (!details.deployment.properties?.template) {
+        errors.push('deployIfNotExists effect requires details.deployment.properties.template');
+      }
+    }
+
+    if (effects.has('auditifnotexists') && !details?.type) {
+      errors.push('auditIfNotExists effect requires details.type');
+    }
+
+    if (effects.has('append') && !hasItems(details)) {
+      errors.push('append effect requires details as an array of field/value pairs');
+    }
+
+    if (effects.has('denyaction') && !hasItems(details?.actionNames)) {
+      errors.push('denyAction effect requires details.actionNames');
+    }
+  }
+
+  /**
+   * Report parameters the rule references but does not define, and defined parameters the
+   * rule never uses. The embedded DINE deployment template has its own parameters and is skipped.
+   */
+  private validateParameterReferences(
+    policyRule: any,
+    parameters: Record<string, any>,
+    errors: string[],
+    warnings: string[]
+  ): void {
+    const referenced = new Map<string, string>();
+
+    const collect = (value: any, path: string) => {
+      if (path === 'then.details.deployment.properties.template') return;
+
+      if (typeof value === 'string') {
+        for (const match of value.matchAll(/parameters\(\s*'([^']+)'\s*\)/gi)) {
+          if (!referenced.has(match[1].toLowerCase())) referenced.set(match[1].toLowerCase(), match[1]);
+        }
+      } else if (Array.isArray(value)) {
+        value.forEach(item => collect(item, path));
+      } else if (value && typeof value === 'object') {
+        for (const [key, child] of Object.entries(value)) {
+          collect(child, path ? `${path}.${key}` : key);
+        }
+      }
+    };
+    collect(policyRule, '');
+
+    const defined = new Set(Object.keys(parameters).map(name => name.toLowerCase()));
+
+    for (const [key, name] of referenced) {
+      if (!defined.has(key)) errors.push(`Parameter '${name}' is referenced but not defined`);
+    }
+    for (const name of Object.keys(parameters)) {
+      if (!referenced.has(name.toLowerCase())) warnings.push(`Parameter '${name}' is defined but never used`);
+    }
+  }
+
+  /**
+   * Closest candidate within a small edit distance, compared case-insensitively
+   */
+  private suggest(value: string, candidates: readonly string[]): string | undefined {
+    const distance = (a: string, b: string): number => {
+      let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+      for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+          current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+      }
+      return previous[b.length];
+    };
+
+    let best: { candidate: string; distance: number } | undefined;
+    for (const candidate of candidates) {
+      const score = distance(value.toLowerCase(), candidate.toLowerCase());
+      if (score <= 2 && (!best || score < best.distance)) best = { candidate, distance: score };
+    }
+    return best?.candidate;
+  }
+
   /**
    * Analyze resource type compatibility
    */
@@ -438,24 +739,38 @@ export class PolicyParser {
       return [];
     }
     
-    const extractedTypes = this.extractResourceTypes(props.policyRule);
+    const extractedTypes = this.analyzeResourceTypeApplicability(props.policyRule).includes;
     const fieldChecks = this.extractFieldChecks(props.policyRule.if);
+    const indexed = String(props.mode ?? '').toLowerCase() === 'indexed';
 
     return extractedTypes.map(resourceType => {
-      const requiredFields = fieldChecks
+      // Only fields that apply to this resource type, as property paths rather than aliases
+      const applicableChecks = fieldChecks.filter(fc => {
+        if (this.aliases.isBuiltInField(fc.field)) return true;
+        const resolution = this.aliases.resolve(fc.field);
+        return !resolution || resolution.resourceType.toLowerCase() === resourceType.toLowerCase();
+      });
+
+      const requiredFields = applicableChecks
         .filter(fc => fc.required)
-        .map(fc => fc.field);
+        .map(fc => this.aliases.resolvePath(fc.field));
         
-      const optionalFields = fieldChecks
+      const optionalFields = applicableChecks
         .filter(fc => !fc.required)
-        .map(fc => fc.field);
+        .map(fc => this.aliases.resolvePath(fc.field));
+
+      const unindexed = indexed && UNINDEXED_RESOURCE_TYPES.has(resourceType.toLowerCase());
 
       return {
         resourceType,
-        compatible: true, // Basic assumption - could be enhanced with schema validation
+        compatible: !unindexed,
+        ...(unindexed && {
+          reason: `Indexed mode only evaluates resource types that support tags and location, ` +
+            `so ${resourceType} is never evaluated; use mode All`
+        }),
         requiredFields,
         optionalFields
       };
     });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,147 @@
+/**
+ * Azure Policy set (initiative) parser - resolves member definitions and passes
+ * initiative parameters through to each member
+ */
+
+import { PolicyParsingError } from '../../infrastructure/errors/error-handler.js';
+import { DataSourceManager } from '../github/data-source-manager.js';
+import { PolicyParser } from './policy-parser.js';
+import { PolicyExpressionEvaluator } from './policy-expression.js';
+import { PolicyEvaluator } from './policy-evaluator.js';
+import type {
+  AzurePolicyDefinition,
+  ParsedPolicySet,
+  PolicyDefinitionReference,
+  PolicySetDefinition,
+  PolicySetMember
+} from '../../types/policy.js';
+
+export class PolicySetParser {
+  private readonly expressions = new PolicyExpressionEvaluator();
+  private readonly evaluator = new PolicyEvaluator(this.expressions);
+
+  constructor(
+    private dataSourceManager: DataSourceManager,
+    private policyParser: PolicyParser = new PolicyParser()
+  ) {}
+
+  /**
+   * Parse a policy set definition JSON document
+   */
+  parsePolicySet(policySetJson: string): PolicySetDefinition {
+    let policySet: PolicySetDefinition;
+
+    try {
+      policySet = JSON.parse(policySetJson);
+    } catch (error) {
+      throw new PolicyParsingError(`Invalid policy set JSON: ${String(error)}`);
+    }
+
+    if (!policySet?.properties || !Array.isArray(policySet.properties.policyDefinitions)) {
+      throw new PolicyParsingError('Policy set definition must contain properties.policyDefinitions');
+    }
+
+    return policySet;
+  }
+
+  /**
+   * Analyze a policy set, resolving each member definition and the parameter
+   * values the initiative passes to it
+   *
+   * @param parameterValues - Assigned initiative parameter values (defaults apply otherwise)
+   * @param definitions - Member definitions supplied by the caller, keyed by definition id or name;
+   *   anything missing is resolved through the built-in policy data source
+   */
+  async analyzePolicySet(
+    policySet: PolicySetDefinition,
+    parameterValues: Record<string, any> = {},
+    definitions: Record<string, AzurePolicyDefinition> = {}
+  ): Promise<ParsedPolicySet> {
+    const props = policySet.properties;
+    const initiativeParameters = this.evaluator.resolveParameters(policySet, parameterValues);
+
+    const supplied = new Map<string, AzurePolicyDefinition>();
+    for (const [key, definition] of Object.entries(definitions)) {
+      supplied.set(this.definitionName(key), definition);
+    }
+
+    const missingIds = props.policyDefinitions
+      .map(reference => reference.policyDefinitionId)
+      .filter(id => !supplied.has(this.definitionName(id)));
+    const resolved = missingIds.length > 0
+      ? await this.dataSourceManager.getPolicyDefinitions(missingIds)
+      : new Map<string, AzurePolicyDefinition>();
+
+    const members = props.policyDefinitions.map(reference => {
+      const definition = supplied.get(this.definitionName(reference.policyDefinitionId))
+        ?? resolved.get(reference.policyDefinitionId);
+      return this.buildMember(reference, initiativeParameters, definition);
+    });
+
+    return {
+      id: policySet.id || 'unknown',
+      name: policySet.name || 'unknown',
+      displayName: props.displayName,
+      description: props.description,
+      category: props.metadata?.category || 'General',
+      policyType: props.policyType,
+      version: props.metadata?.version,
+      deprecated: props.metadata?.deprecated || false,
+      preview: props.metadata?.preview || false,
+      parameters: this.policyParser.extractParameters(props.parameters || {}),
+      groups: props.policyDefinitionGroups || [],
+      members,
+      unresolvedDefinitionIds: members.filter(member => !member.definition).map(member => member.policyDefinitionId)
+    };
+  }
+
+  private buildMember(
+    reference: PolicyDefinitionReference,
+    initiativeParameters: Record<string, any>,
+    definition: AzurePolicyDefinition | undefined
+  ): PolicySetMember {
+    const parameters: Record<string, any> = {};
+
+    for (const [name, parameter] of Object.entries(reference.parameters || {})) {
+      try {
+        parameters[name] = this.expressions.resolve(parameter?.value, { parameters: initiativeParameters });
+      } catch {
+        // Initiative parameter without a value - the member definition's default applies
+      }
+    }
+
+    const member: PolicySetMember = {
+      referenceId: reference.policyDefinitionReferenceId || this.definitionName(reference.policyDefinitionId),
+      policyDefinitionId: reference.policyDefinitionId,
+      groupNames: reference.groupNames || [],
+      parameters
+    };
+
+    if (!definition) {
+      return member;
+    }
+
+    member.definition = definition;
+    member.policy = this.policyParser.analyzePolicyDefinition(definition, reference.policyDefinitionId);
+
+    const effect = definition.properties.policyRule?.then?.effect;
+    if (effect !== undefined) {
+      const memberParameters: Record<string, any> = {};
+      for (const [name, parameter] of Object.entries(definition.properties.parameters || {})) {
+        if (parameter.defaultValue !== undefined) memberParameters[name] = parameter.defaultValue;
+      }
+
+      try {
+        member.effect = String(this.expressions.resolve(effect, { parameters: { ...memberParameters, ...parameters } }));
+      } catch {
+        member.effect = String(effect);
+      }
+    }
+
+    return member;
+  }
+
+  private definitionName(policyDefinitionId: string): string {
+    return policyDefinitionId.split('/').pop()!.toLowerCase();
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Policy test runner - evaluates a policy definition against fixture resources with
+ * expected outcomes and reports which cases pass
+ */
+
+import { readdir, readFile, stat } from 'fs/promises';
+import { basename, join } from 'path';
+import { PolicyParsingError } from '../../infrastructure/errors/error-handler.js';
+import { PolicyParser } from './policy-parser.js';
+import { PolicyEvaluator } from './policy-evaluator.js';
+import { PolicyExistenceChecker } from './policy-existence-checker.js';
+import type {
+  AzurePolicyDefinition,
+  ParsedPolicy,
+  PolicyResource,
+  PolicyTestCase,
+  PolicyTestCaseResult,
+  PolicyTestReport
+} from '../../types/policy.js';
+import type { TemplateResource } from '../../types/templates.js';
+
+const EXISTENCE_EFFECTS = new Set(['auditifnotexists', 'deployifnotexists']);
+
+export class PolicyTestRunner {
+  constructor(
+    private policyParser: PolicyParser = new PolicyParser(),
+    private evaluator: PolicyEvaluator = new PolicyEvaluator(),
+    private existenceChecker: PolicyExistenceChecker = new PolicyExistenceChecker(evaluator)
+  ) {}
+
+  /**
+   * Run the test cases in a fixture file or directory against a policy definition file
+   */
+  async runFiles(policyPath: string, fixturesPath: string): Promise<PolicyTestReport> {
+    return this.run(await this.loadPolicy(policyPath), await this.loadCases(fixturesPath));
+  }
+
+  async loadPolicy(path: string): Promise<string> {
+    try {
+      return await readFile(path, 'utf-8');
+    } catch (error) {
+      throw new PolicyParsingError(`Failed to read policy ${path}: ${String(error)}`);
+    }
+  }
+
+  /**
+   * Load test cases from a JSON file or every .json file in a directory. A file holds one
+   * case or an array of cases; cases without a name are named after their file.
+   */
+  async loadCases(path: string): Promise<PolicyTestCase[]> {
+    let files: string[];
+    try {
+      files = (await stat(path)).isDirectory()
+        ? (await readdir(path)).filter(name => name.endsWith('.json')).sort().map(name => join(path, name))
+        : [path];
+    } catch (error) {
+      throw new PolicyParsingError(`Failed to read policy test cases ${path}: ${String(error)}`);
+    }
+
+    const cases: PolicyTestCase[] = [];
+    for (const file of files) {
+      let content: any;
+      try {
+        content = JSON.parse(await readFile(file, 'utf-8'));
+      } catch (error) {
+        throw new PolicyParsingError(`Failed to read policy test cases ${file}: ${String(error)}`);
+      }
+
+      const entries = Array.isArray(content) ? content : [content];
+      entries.forEach((entry: any, index: number) => {
+        const name = entry?.name ?? (entries.length > 1 ? `${basename(file, '.json')}[${index}]` : basename(file, '.json'));
+        if (!entry?.resource || typeof entry.resource !== 'object' || typeof entry.expected !== 'string') {
+          throw new PolicyParsingError(`Policy test case ${name} in ${file} must have a resource and an expected outcome`);
+        }
+        cases.push({ ...entry, name, source: file });
+      });
+    }
+
+    return cases;
+  }
+
+  /**
+   * Evaluate every test case against the policy. A case passes when the policy leaves the
+   * resource compliant, or applies the expected effect ('nonCompliant' accepts any effect).
+   */
+  run(policyJson: string, cases: PolicyTestCase[]): PolicyTestReport {
+    const parsed = this.policyParser.parsePolicy(policyJson);
+    const policy: AzurePolicyDefinition = JSON.parse(policyJson);
+    const results = cases.map(testCase => this.runCase(policy, parsed, testCase));
+    const passed = results.filter(result => result.passed).length;
+
+    return {
+      policy: parsed.displayName || parsed.name,
+      total: results.length,
+      passed,
+      failed: results.length - passed,
+      results
+    };
+  }
+
+  /**
+   * Render a report as a pass/fail summary followed by one line per case
+   */
+  formatReport(report: PolicyTestReport): string {
+    const lines = report.results.map(result =>
+      `${result.passed ? '✅' : '❌'} ${result.name}` + (result.passed ? '' : ` - ${result.message}`));
+
+    return `${report.policy}: ${report.passed}/${report.total} passed` +
+      (report.failed > 0 ? `, ${report.failed} failed` : '') + '\n' + lines.join('\n');
+  }
+
+  private runCase(policy: AzurePolicyDefinition, parsed: ParsedPolicy, testCase: PolicyTestCase): PolicyTestCaseResult {
+    const base = {
+      name: testCase.name,
+      ...(testCase.source && { source: testCase.source }),
+      expected: testCase.expected
+    };
+
+    const missing = parsed.parameters
+      .filter(parameter => parameter.required)
+      .filter(parameter => !Object.keys(testCase.parameters || {}).some(name => name.toLowerCase() === parameter.name.toLowerCase()));
+    if (missing.length > 0) {
+      return {
+        ...base,
+        outcome: 'error',
+        passed: false,
+        message: `Missing value for parameter(s) without a default: ${missing.map(parameter => parameter.name).join(', ')}`,
+        evaluations: []
+      };
+    }
+
+    try {
+      const context = { parameters: testCase.parameters || {} };
+      const result = this.evaluator.evaluatePolicy(policy, testCase.resource, context);
+      if (result.exclusion?.kind === 'notEvaluable') {
+        return { ...base, outcome: 'error', passed: false, message: result.exclusion.reason, evaluations: [] };
+      }
+      if (result.unresolved) {
+        return {
+          ...base,
+          outcome: 'error',
+          passed: false,
+          message: `Undetermined: ${result.unresolved.join(', ')} hold(s) unresolved template expressions`,
+          evaluations: result.evaluations
+        };
+      }
+
+      let outcome: 'compliant' | 'nonCompliant' = result.matched && result.effect.toLowerCase() !== 'disabled'
+        ? 'nonCompliant'
+        : 'compliant';
+      let detail = result.exclusion ? ` (${result.exclusion.reason})` : '';
+
+      if (outcome === 'nonCompliant' && EXISTENCE_EFFECTS.has(result.effect.toLowerCase())) {
+        const [declaration, ...related] = this.toDeclarations(testCase.resource, testCase.relatedResources || []);
+        const check = this.existenceChecker.check(policy, declaration, [declaration, ...related], context);
+        if (check?.compliant) {
+          outcome = 'compliant';
+        } else if (check) {
+          detail = ` (no ${check.relatedType} satisfies the existence condition)`;
+        }
+      }
+
+      const expected = testCase.expected.toLowerCase().replace(/-/g, '');
+      const passed = expected === 'compliant'
+        ? outcome === 'compliant'
+        : outcome === 'nonCompliant' && (expected === 'noncompliant' || expected === result.effect.toLowerCase());
+      const actual = outcome === 'compliant' ? `compliant${detail}` : `non-compliant with effect ${result.effect}${detail}`;
+
+      return {
+        ...base,
+        outcome,
+        effect: result.effect,
+        passed,
+        ...(!passed && { message: `Expected ${testCase.expected} but was ${actual}` }),
+        evaluations: result.evaluations
+      };
+    } catch (error) {
+      return { ...base, outcome: 'error', passed: false, message: String(error), evaluations: [] };
+    }
+  }
+
+  /**
+   * Related resources of a child type are children of the tested resource; others, such
+   * as diagnostic settings, are extension resources scoped to it
+   */
+  private toDeclarations(resource: PolicyResource, related: PolicyResource[]): TemplateResource[] {
+    const symbolicName = 'resource';
+    const parentType = `${resource.type}/`.toLowerCase();
+
+    return [
+      { symbolicName, type: resource.type, existing: false, resource },
+      ...related.map((candidate, index) => ({
+        symbolicName: `related${index}`,
+        type: candidate.type,
+        existing: false,
+        ...(String(candidate.type).toLowerCase().startsWith(parentType) ? { parent: symbolicName } : { scope: symbolicName }),
+        resource: candidate
+      }))
+    ];
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Resource type applicability - matches resource types and kinds against the
+ * ResourceTypeApplicability extracted by PolicyParser
+ */
+
+import type { ResourceTypeApplicability } from '../../types/policy.js';
+
+/**
+ * Case-insensitive comparison where * in the pattern matches any characters, as in like conditions
+ */
+export function matchesTypePattern(pattern: string, value: string): boolean {
+  if (!pattern.includes('*')) {
+    return pattern.toLowerCase() === value.toLowerCase();
+  }
+
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\/]/g, '\\$&')).join('.*');
+  return new RegExp(`^${escaped}$`, 'i').test(value);
+}
+
+/**
+ * Whether a policy can apply to a resource of the given type (and kind, when known). Policies
+ * without type constraints apply to every type that is not excluded.
+ */
+export function appliesToResourceType(
+  applicability: ResourceTypeApplicability,
+  type: string,
+  kind?: string
+): boolean {
+  if (applicability.excludes.some(pattern => matchesTypePattern(pattern, type))) {
+    return false;
+  }
+  if (applicability.source !== 'unconstrained' &&
+      !applicability.includes.some(pattern => matchesTypePattern(pattern, type))) {
+    return false;
+  }
+
+  // An unknown kind is not ruled out
+  if (kind === undefined) {
+    return true;
+  }
+  if (applicability.excludedKinds.some(pattern => matchesTypePattern(pattern, kind))) {
+    return false;
+  }
+  return applicability.kinds.length === 0 || applicability.kinds.some(pattern => matchesTypePattern(pattern, kind));
+}
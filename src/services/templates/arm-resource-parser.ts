@@ -0,0 +1,232 @@
+/**
+ * ARM template resource parser - turns template resources (including nested child
+ * and extension resources) into resource objects for policy evaluation
+ */
+
+import { TemplateValidationError } from '../../infrastructure/errors/error-handler.js';
+import { PolicyExpressionEvaluator } from '../policy/policy-expression.js';
+import type { ExpressionContext } from '../policy/policy-expression.js';
+import type { PolicyResource } from '../../types/policy.js';
+import type { TemplateResource } from '../../types/templates.js';
+
+interface ResourceOwner {
+  symbolicName: string;
+  type: string;
+  name: string;
+}
+
+interface PendingScope {
+  declaration: TemplateResource;
+  scope?: any;
+  target?: { type: string; name: string };
+}
+
+// Template-only resource keys that are not part of the deployed resource
+const DECLARATION_KEYS = new Set([
+  'apiVersion', 'dependsOn', 'copy', 'condition', 'scope', 'resources', 'comments', 'existing', 'import'
+]);
+
+export class ArmResourceParser {
+  private resources: TemplateResource[] = [];
+  private pendingScopes: PendingScope[] = [];
+  private rawNames = new Map<string, string>();
+
+  constructor(private expressions: PolicyExpressionEvaluator = new PolicyExpressionEvaluator()) {}
+
+  /**
+   * Parse the resources of an ARM template (resources array or languageVersion 2.0
+   * symbolic resources). Expressions over parameter defaults and variables are
+   * resolved; anything else is kept as expression text.
+   */
+  parseResources(content: string): TemplateResource[] {
+    let template: any;
+    try {
+      template = JSON.parse(content);
+    } catch (error) {
+      throw new TemplateValidationError(`Invalid ARM template JSON: ${String(error)}`);
+    }
+
+    if (!template || typeof template !== 'object' || !template.resources || typeof template.resources !== 'object') {
+      throw new TemplateValidationError('ARM template must contain a resources array or object');
+    }
+
+    this.resources = [];
+    this.pendingScopes = [];
+    this.rawNames = new Map();
+
+    const context: ExpressionContext = { parameters: {}, variables: {} };
+    for (const [name, parameter] of Object.entries<any>(template.parameters || {})) {
+      if (parameter?.defaultValue !== undefined) {
+        context.parameters![name] = this.resolveValue(parameter.defaultValue, context);
+      }
+    }
+    for (const [name, value] of Object.entries(template.variables || {})) {
+      context.variables![name] = this.resolveValue(value, context);
+    }
+
+    const entries: Array<[string | undefined, any]> = Array.isArray(template.resources)
+      ? template.resources.map((resource: any) => [undefined, resource])
+      : Object.entries(template.resources);
+    for (const [symbolicName, resource] of entries) {
+      this.parseResource(resource, context, symbolicName);
+    }
+
+    // Extension resources can reference resources declared after them
+    for (const pending of this.pendingScopes) {
+      const scope = this.resolveScope(pending);
+      if (scope) {
+        pending.declaration.scope = scope;
+      }
+    }
+
+    return this.resources;
+  }
+
+  private parseResource(raw: any, context: ExpressionContext, symbolicName?: string, parent?: ResourceOwner): void {
+    if (!raw || typeof raw !== 'object' || typeof raw.type !== 'string') {
+      throw new TemplateValidationError(`Resource ${symbolicName ?? raw?.name ?? '(unnamed)'} is missing a type`);
+    }
+
+    let type = parent && !this.isFullyQualifiedType(raw.type) ? `${parent.type}/${raw.type}` : raw.type;
+    const ownName = this.toName(this.resolveValue(raw.name, context));
+    let name = ownName;
+    if (parent && !name.toLowerCase().startsWith(`${parent.name.toLowerCase()}/`)) {
+      name = `${parent.name}/${name}`;
+    }
+
+    // Legacy extension form: <scope type>/providers/<type> named <scope name>/<namespace>/<name>
+    let target: PendingScope['target'];
+    const providerIndex = type.toLowerCase().indexOf('/providers/');
+    if (providerIndex !== -1) {
+      const segments = name.split('/');
+      const namespaceIndex = segments.findIndex((segment, index) => index > 0 && segment.includes('.'));
+      if (namespaceIndex !== -1) {
+        target = { type: type.substring(0, providerIndex), name: segments.slice(0, namespaceIndex).join('/') };
+        type = `${segments[namespaceIndex]}/${type.substring(providerIndex + '/providers/'.length)}`;
+        name = segments.slice(namespaceIndex + 1).join('/');
+      }
+    }
+
+    // The name field reads the last segment of a child name, the fullName field all of it
+    const shortName = this.expressions.isExpression(ownName) ? ownName : name.split('/').pop()!;
+    const resource: PolicyResource = { name: shortName, ...(shortName !== name && { fullName: name }), type };
+    for (const [key, value] of Object.entries(raw)) {
+      if (!DECLARATION_KEYS.has(key) && key !== 'name' && key !== 'type') {
+        resource[key] = this.resolveValue(value, context);
+      }
+    }
+
+    const declaration: TemplateResource = {
+      symbolicName: symbolicName ?? name,
+      type,
+      ...(typeof raw.apiVersion === 'string' && { apiVersion: raw.apiVersion }),
+      existing: raw.existing === true,
+      ...(parent && { parent: parent.symbolicName }),
+      resource
+    };
+
+    this.resources.push(declaration);
+    this.rawNames.set(declaration.symbolicName, typeof raw.name === 'string' ? raw.name : name);
+
+    if (target || raw.scope !== undefined) {
+      this.pendingScopes.push({
+        declaration,
+        ...(raw.scope !== undefined && { scope: this.resolveValue(raw.scope, context) }),
+        ...(target && { target })
+      });
+    }
+
+    for (const child of Array.isArray(raw.resources) ? raw.resources : []) {
+      this.parseResource(child, context, undefined, { symbolicName: declaration.symbolicName, type, name });
+    }
+  }
+
+  /**
+   * Symbolic name of the template resource an extension resource is deployed onto
+   * (the scope text itself when it points outside the template)
+   */
+  private resolveScope(pending: PendingScope): string | undefined {
+    if (pending.target) {
+      const { type, name } = pending.target;
+      const match = this.resources.find(resource =>
+        resource.type.toLowerCase() === type.toLowerCase() &&
+        this.fullName(resource).toLowerCase() === name.toLowerCase());
+      return match?.symbolicName ?? `${type}/${name}`;
+    }
+
+    if (typeof pending.scope !== 'string') {
+      return undefined;
+    }
+
+    const scope = pending.scope;
+    const lowerScope = scope.toLowerCase();
+
+    // languageVersion 2.0 references the symbolic name directly
+    const symbolic = this.resources.find(resource => resource.symbolicName === scope && resource !== pending.declaration);
+    if (symbolic) return symbolic.symbolicName;
+
+    if (!this.expressions.isExpression(scope)) {
+      const match = this.resources.find(resource =>
+        lowerScope.endsWith(this.idSuffix(resource.type, this.fullName(resource)).toLowerCase()));
+      return match?.symbolicName ?? scope;
+    }
+
+    // Unresolved resourceId(...) / format(...) - match on the resource type and the
+    // name expression, preferring the most specific type
+    const match = [...this.resources]
+      .sort((left, right) => right.type.length - left.type.length)
+      .find(resource => {
+        const rawName = this.rawNames.get(resource.symbolicName) ?? '';
+        const nameText = this.expressions.isExpression(rawName) ? rawName.slice(1, -1) : `'${rawName}'`;
+        return resource !== pending.declaration &&
+          lowerScope.includes(resource.type.toLowerCase()) &&
+          lowerScope.includes(nameText.toLowerCase());
+      });
+    return match?.symbolicName ?? scope;
+  }
+
+  /**
+   * Resolve template expressions in a value, keeping expressions that use functions
+   * or values not available offline (reference(), resourceGroup(), ...) as text
+   */
+  private resolveValue(value: any, context: ExpressionContext): any {
+    if (typeof value === 'string') {
+      try {
+        // resourceGroup() and friends resolve to empty objects without deployment context
+        const resolved = this.expressions.resolve(value, context);
+        return resolved === undefined ? value : resolved;
+      } catch {
+        return value;
+      }
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.resolveValue(item, context));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.resolveValue(item, context)]));
+    }
+    return value;
+  }
+
+  private fullName(declaration: TemplateResource): string {
+    return String(declaration.resource.fullName ?? declaration.resource.name);
+  }
+
+  private toName(value: any): string {
+    return typeof value === 'string' ? value : JSON.stringify(value ?? '');
+  }
+
+  /**
+   * Resource id suffix of a resource, e.g. Microsoft.Web/sites/config + app/web =>
+   * Microsoft.Web/sites/app/config/web
+   */
+  private idSuffix(resourceType: string, resourceName: string): string {
+    const [namespace, ...types] = resourceType.split('/');
+    const names = resourceName.split('/');
+    return `${namespace}/${types.flatMap((type, index) => [type, names[index] ?? '']).join('/')}`;
+  }
+
+  private isFullyQualifiedType(type: string): boolean {
+    return type.split('/')[0].includes('.');
+  }
+}
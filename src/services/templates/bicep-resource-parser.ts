@@ -0,0 +1,548 @@
+/**
+ * Bicep resource parser - turns resource declarations into ARM-shaped resource objects
+ */
+
+import { TemplateValidationError } from '../../infrastructure/errors/error-handler.js';
+import type { PolicyResource } from '../../types/policy.js';
+import type { TemplateResource } from '../../types/templates.js';
+
+type TokenKind = 'punct' | 'string' | 'number' | 'ident' | 'newline';
+
+interface ResourceOwner {
+  symbolicName: string;
+  type: string;
+}
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  start: number;
+  end: number;
+  interpolated?: boolean;
+}
+
+/**
+ * Unresolved Bicep expression (function call, reference, interpolation, ...)
+ */
+class BicepExpression {
+  constructor(public readonly text: string) {}
+}
+
+// Bicep-only resource body keys that are not part of the deployed resource
+const DECLARATION_KEYS = new Set(['parent', 'scope', 'dependsOn']);
+
+export class BicepResourceParser {
+  private tokens: Token[] = [];
+  private position = 0;
+  private content = '';
+  private symbols = new Map<string, any>();
+  private resources: TemplateResource[] = [];
+  private rawNames = new Map<string, any>();
+
+  /**
+   * Parse all resource declarations (including nested child resources) from Bicep content
+   */
+  parseResources(content: string): TemplateResource[] {
+    this.content = content;
+    this.tokens = this.tokenize(content);
+    this.position = 0;
+    this.symbols = new Map();
+    this.resources = [];
+    this.rawNames = new Map();
+
+    while (!this.atEnd()) {
+      const token = this.peek();
+
+      if (token.kind === 'newline') {
+        this.position++;
+        continue;
+      }
+
+      if (token.kind === 'ident' && token.value === 'param') {
+        this.parseParamOrVar(true);
+      } else if (token.kind === 'ident' && token.value === 'var') {
+        this.parseParamOrVar(false);
+      } else if (token.kind === 'ident' && token.value === 'resource' && this.peek(1)?.kind === 'ident') {
+        this.parseResourceDeclaration();
+      } else {
+        this.skipStatement();
+      }
+    }
+
+    this.qualifyChildNames();
+    return this.resources;
+  }
+
+  private parseParamOrVar(isParam: boolean): void {
+    this.position++; // param | var
+    const name = this.expectToken('a parameter or variable name').value;
+    this.position++;
+
+    // Skip the type (params only) up to '=' or end of line
+    while (!this.atEnd() && this.peek().kind !== 'newline' && !this.isPunct('=')) {
+      if (this.isPunct('{') || this.isPunct('[') || this.isPunct('(')) {
+        this.skipBalanced();
+      } else {
+        this.position++;
+      }
+    }
+
+    if (this.isPunct('=')) {
+      this.position++;
+      const value = this.parseValue();
+      if (!(value instanceof BicepExpression)) {
+        this.symbols.set(name, value);
+      }
+    } else if (!isParam) {
+      this.skipStatement();
+    }
+  }
+
+  private parseResourceDeclaration(parent?: ResourceOwner): void {
+    this.position++; // resource
+    const symbolicName = this.next().value;
+    const typeToken = this.expectToken(`a type string for resource ${symbolicName}`);
+    this.position++;
+
+    if (typeToken.kind !== 'string') {
+      throw new TemplateValidationError(
+        `Resource ${symbolicName} is missing a type string at ${this.describePosition(typeToken.start)}`);
+    }
+
+    const [declaredType, apiVersion] = typeToken.value.split('@');
+    let existing = false;
+
+    if (this.expectToken(`'=' after resource ${symbolicName}`).kind === 'ident' && this.peek().value === 'existing') {
+      existing = true;
+      this.position++;
+    }
+
+    const equals = this.expectToken(`'=' after resource ${symbolicName}`);
+    if (equals.kind !== 'punct' || equals.value !== '=') {
+      throw new TemplateValidationError(
+        `Expected '=' after resource ${symbolicName} at ${this.describePosition(equals.start)}`);
+    }
+    this.position++;
+
+    const type = parent && !this.isFullyQualifiedType(declaredType)
+      ? `${parent.type}/${declaredType}`
+      : declaredType;
+
+    let body = this.parseResourceBody({ symbolicName, type });
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      body = {};
+    }
+
+    const resource: PolicyResource = { name: symbolicName, type };
+    for (const [key, value] of Object.entries(body)) {
+      if (!DECLARATION_KEYS.has(key)) {
+        resource[key] = this.toPlain(value);
+      }
+    }
+    resource.type = type;
+
+    const parentSymbol = parent?.symbolicName ?? this.referenceName(body.parent);
+    const scope = this.referenceName(body.scope);
+
+    const declaration: TemplateResource = {
+      symbolicName,
+      type,
+      ...(apiVersion && { apiVersion }),
+      existing,
+      ...(parentSymbol && { parent: parentSymbol }),
+      ...(scope && { scope }),
+      resource
+    };
+
+    this.resources.push(declaration);
+    this.rawNames.set(symbolicName, body.name ?? symbolicName);
+  }
+
+  /**
+   * Record the full names of child resources, prefixed with their parent's name (blob service
+   * 'default' of account 'acct' => 'acct/default'). The name itself stays the last segment,
+   * as the policy name field reads it; names already given in full ('acct/default') are split.
+   */
+  private qualifyChildNames(): void {
+    const declarations = new Map(this.resources.map(declaration => [declaration.symbolicName, declaration]));
+    const fullNames = new Map<string, any>();
+
+    const fullName = (declaration: TemplateResource, depth: number): any => {
+      if (fullNames.has(declaration.symbolicName)) return fullNames.get(declaration.symbolicName);
+
+      let name = this.rawNames.get(declaration.symbolicName);
+      const parent = declaration.parent ? declarations.get(declaration.parent) : undefined;
+      if (parent && depth < this.resources.length) {
+        name = this.joinNames(fullName(parent, depth + 1), name);
+      }
+      fullNames.set(declaration.symbolicName, name);
+      return name;
+    };
+
+    for (const declaration of this.resources) {
+      const name = fullName(declaration, 0);
+      if (declaration.parent || (typeof name === 'string' && name.includes('/'))) {
+        declaration.resource.fullName = this.toPlain(name);
+        if (typeof name === 'string') {
+          declaration.resource.name = name.split('/').pop()!;
+        }
+      }
+    }
+  }
+
+  /**
+   * Join a parent and child name, as an interpolated string when either is unresolved
+   */
+  private joinNames(parentName: any, name: any): any {
+    if (!(parentName instanceof BicepExpression) && !(name instanceof BicepExpression)) {
+      return `${parentName}/${name}`;
+    }
+
+    const segment = (value: any) => value instanceof BicepExpression
+      ? `\${${value.text}}`
+      : String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\$\{/g, '\\${');
+    return new BicepExpression(`'${segment(parentName)}/${segment(name)}'`);
+  }
+
+  /**
+   * Parse the right-hand side of a resource declaration, unwrapping if/for forms
+   */
+  private parseResourceBody(owner: ResourceOwner): any {
+    this.skipNewlines();
+
+    if (this.expectToken(`a body for resource ${owner.symbolicName}`).kind === 'ident' && this.peek().value === 'if') {
+      this.position++;
+      this.skipBalanced();
+      this.skipNewlines();
+    }
+
+    if (this.isPunct('[')) {
+      // Loop: [for item in collection: { ... }]
+      this.position++;
+      this.skipNewlines();
+      while (!this.atEnd() && !this.isPunct(':')) {
+        if (this.isPunct('(') || this.isPunct('[') || this.isPunct('{')) {
+          this.skipBalanced();
+        } else {
+          this.position++;
+        }
+      }
+      this.position++; // :
+      const body = this.parseResourceBody(owner);
+      this.skipNewlines();
+      if (this.isPunct(']')) this.position++;
+      return body;
+    }
+
+    if (this.isPunct('{')) {
+      return this.parseObject(owner);
+    }
+
+    return this.parseValue();
+  }
+
+  private parseValue(): any {
+    this.skipNewlines();
+    const token = this.expectToken('a value');
+
+    if (this.isPunct('{')) {
+      return this.parseObject();
+    }
+
+    if (this.isPunct('[') && !(this.peek(1)?.kind === 'ident' && this.peek(1)?.value === 'for')) {
+      return this.parseArray();
+    }
+
+    const single = this.isValueEnd(1);
+    if (single) {
+      if (token.kind === 'string') {
+        this.position++;
+        return token.interpolated ? new BicepExpression(this.content.slice(token.start, token.end)) : token.value;
+      }
+      if (token.kind === 'number') {
+        this.position++;
+        return Number(token.value);
+      }
+      if (token.kind === 'ident') {
+        this.position++;
+        if (token.value === 'true') return true;
+        if (token.value === 'false') return false;
+        if (token.value === 'null') return null;
+        if (this.symbols.has(token.value)) return this.symbols.get(token.value);
+        return new BicepExpression(token.value);
+      }
+    }
+
+    if (this.isPunct('-') && this.peek(1)?.kind === 'number' && this.isValueEnd(2)) {
+      this.position++;
+      return -Number(this.next().value);
+    }
+
+    return this.parseExpression();
+  }
+
+  /**
+   * Capture an expression's source text up to the end of the value
+   */
+  private parseExpression(): BicepExpression {
+    const start = this.peek().start;
+    let end = start;
+    let depth = 0;
+
+    while (!this.atEnd()) {
+      const token = this.peek();
+      if (depth === 0 && (token.kind === 'newline' || this.isPunct(',') || this.isPunct('}') || this.isPunct(']'))) {
+        break;
+      }
+      if (token.kind === 'punct' && ['(', '[', '{'].includes(token.value)) depth++;
+      if (token.kind === 'punct' && [')', ']', '}'].includes(token.value)) depth--;
+      if (depth > 0 && token.kind === 'newline') {
+        this.position++;
+        continue;
+      }
+      end = token.end;
+      this.position++;
+    }
+
+    return new BicepExpression(this.content.slice(start, end).trim());
+  }
+
+  private parseObject(owner?: ResourceOwner): Record<string, any> {
+    this.position++; // {
+    const result: Record<string, any> = {};
+
+    while (!this.atEnd()) {
+      this.skipSeparators();
+      if (this.atEnd()) break;
+      if (this.isPunct('}')) {
+        this.position++;
+        return result;
+      }
+
+      const keyToken = this.peek();
+
+      if (keyToken.kind === 'ident' && keyToken.value === 'resource' && this.peek(1)?.kind === 'ident') {
+        // Child resource declared inside its parent's body
+        this.parseResourceDeclaration(owner);
+        continue;
+      }
+
+      if (keyToken.kind === 'punct' && keyToken.value === '@') {
+        // Decorators on nested declarations or properties
+        this.skipStatement();
+        continue;
+      }
+
+      if ((keyToken.kind !== 'ident' && keyToken.kind !== 'string') || !(this.peek(1)?.kind === 'punct' && this.peek(1)?.value === ':')) {
+        this.skipStatement();
+        continue;
+      }
+
+      this.position += 2; // key :
+      result[keyToken.value] = this.parseValue();
+    }
+
+    throw this.endOfInput("'}'");
+  }
+
+  private parseArray(): any[] {
+    this.position++; // [
+    const result: any[] = [];
+
+    while (!this.atEnd()) {
+      this.skipSeparators();
+      if (this.atEnd()) break;
+      if (this.isPunct(']')) {
+        this.position++;
+        return result;
+      }
+      result.push(this.parseValue());
+    }
+
+    throw this.endOfInput("']'");
+  }
+
+  private isFullyQualifiedType(type: string): boolean {
+    return type.includes('/') && type.split('/')[0].includes('.');
+  }
+
+  private referenceName(value: any): string | undefined {
+    if (value instanceof BicepExpression && /^\w+$/.test(value.text)) {
+      return value.text;
+    }
+    return undefined;
+  }
+
+  /**
+   * Convert parsed values to plain resource values. Unresolved expressions are kept in ARM
+   * expression form ('[...]') so policy evaluation treats them as undetermined rather than
+   * as literal strings.
+   */
+  private toPlain(value: any): any {
+    // A leading space keeps expressions starting with '[' from reading as an escaped '[[' literal
+    if (value instanceof BicepExpression) return `[${value.text.startsWith('[') ? ' ' : ''}${value.text}]`;
+    if (Array.isArray(value)) return value.map(item => this.toPlain(item));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.toPlain(v)]));
+    }
+    return value;
+  }
+
+  // Token navigation helpers
+
+  private isValueEnd(offset: number): boolean {
+    const token = this.peek(offset);
+    return !token || token.kind === 'newline' ||
+      (token.kind === 'punct' && [',', '}', ']'].includes(token.value));
+  }
+
+  private skipStatement(): void {
+    while (!this.atEnd() && this.peek().kind !== 'newline') {
+      if (this.isPunct('{') || this.isPunct('[') || this.isPunct('(')) {
+        this.skipBalanced();
+      } else {
+        this.position++;
+      }
+    }
+  }
+
+  private skipBalanced(): void {
+    let depth = 0;
+    while (!this.atEnd()) {
+      const token = this.next();
+      if (token.kind === 'punct' && ['(', '[', '{'].includes(token.value)) depth++;
+      if (token.kind === 'punct' && [')', ']', '}'].includes(token.value)) depth--;
+      if (depth === 0) return;
+    }
+  }
+
+  private skipNewlines(): void {
+    while (!this.atEnd() && this.peek().kind === 'newline') this.position++;
+  }
+
+  private skipSeparators(): void {
+    while (!this.atEnd() && (this.peek().kind === 'newline' || this.isPunct(','))) this.position++;
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return !!token && token.kind === 'punct' && token.value === value;
+  }
+
+  private peek(offset: number = 0): Token {
+    return this.tokens[this.position + offset];
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++];
+  }
+
+  private atEnd(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  /**
+   * The current token; a truncated template throws instead of reading past the last token
+   */
+  private expectToken(expected: string): Token {
+    if (this.atEnd()) {
+      throw this.endOfInput(expected);
+    }
+    return this.peek();
+  }
+
+  private endOfInput(expected: string): TemplateValidationError {
+    return new TemplateValidationError(
+      `Unexpected end of Bicep template at ${this.describePosition(this.content.length)}: expected ${expected}`);
+  }
+
+  private describePosition(offset: number): string {
+    const lines = this.content.slice(0, offset).split('\n');
+    return `line ${lines.length}, column ${lines[lines.length - 1].length + 1}`;
+  }
+
+  /**
+   * Split Bicep source into tokens, dropping comments
+   */
+  private tokenize(content: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < content.length) {
+      const char = content[i];
+
+      if (char === '\n') {
+        tokens.push({ kind: 'newline', value: '\n', start: i, end: i + 1 });
+        i++;
+      } else if (/\s/.test(char)) {
+        i++;
+      } else if (content.startsWith('//', i)) {
+        while (i < content.length && content[i] !== '\n') i++;
+      } else if (content.startsWith('/*', i)) {
+        const close = content.indexOf('*/', i + 2);
+        i = close === -1 ? content.length : close + 2;
+      } else if (content.startsWith("'''", i)) {
+        const close = content.indexOf("'''", i + 3);
+        const end = close === -1 ? content.length : close + 3;
+        tokens.push({ kind: 'string', value: content.slice(i + 3, close === -1 ? end : close), start: i, end });
+        i = end;
+      } else if (char === "'") {
+        const token = this.readString(content, i);
+        tokens.push(token);
+        i = token.end;
+      } else if (/[0-9]/.test(char)) {
+        const match = content.slice(i).match(/^[0-9]+(\.[0-9]+)?/)!;
+        tokens.push({ kind: 'number', value: match[0], start: i, end: i + match[0].length });
+        i += match[0].length;
+      } else if (/[A-Za-z_]/.test(char)) {
+        const match = content.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+        tokens.push({ kind: 'ident', value: match[0], start: i, end: i + match[0].length });
+        i += match[0].length;
+      } else {
+        tokens.push({ kind: 'punct', value: char, start: i, end: i + 1 });
+        i++;
+      }
+    }
+
+    return tokens;
+  }
+
+  private readString(content: string, start: number): Token {
+    let value = '';
+    let interpolated = false;
+    let i = start + 1;
+
+    while (i < content.length && content[i] !== "'") {
+      const char = content[i];
+
+      if (char === '\\' && i + 1 < content.length) {
+        const escaped = content[i + 1];
+        value += ({ n: '\n', r: '\r', t: '\t' } as Record<string, string>)[escaped] ?? escaped;
+        i += 2;
+      } else if (char === '$' && content[i + 1] === '{') {
+        interpolated = true;
+        let depth = 0;
+        while (i < content.length) {
+          if (content[i] === '{') depth++;
+          if (content[i] === '}') {
+            depth--;
+            if (depth === 0) break;
+          }
+          if (content[i] === "'") {
+            i = this.readString(content, i).end;
+            continue;
+          }
+          value += content[i];
+          i++;
+        }
+        value += '}';
+        i++;
+      } else {
+        value += char;
+        i++;
+      }
+    }
+
+    return { kind: 'string', value, start, end: Math.min(i + 1, content.length), interpolated };
+  }
+}
@@ -43,6 +43,15 @@ export interface DataSourceConfig {
   description: string;
 }
 
+export type LocalDataSourceKind = 'policyDefinitions' | 'policySetDefinitions' | 'templates';
+
+export interface LocalDataSourceConfig {
+  kind: LocalDataSourceKind;
+  path: string;
+  glob: string;
+  description: string;
+}
+
 export interface RepositoryIndex {
   lastUpdated: number;
   files: GitHubRepositoryContent[];
@@ -22,11 +22,107 @@ export interface AzurePolicyDefinition {
   type?: string;
 }
 
+export interface PolicySetDefinition {
+  properties: {
+    displayName: string;
+    policyType: 'BuiltIn' | 'Custom' | 'Static';
+    description: string;
+    metadata?: {
+      version?: string;
+      category?: string;
+      preview?: boolean;
+      deprecated?: boolean;
+    };
+    parameters?: Record<string, PolicyParameter>;
+    policyDefinitions: PolicyDefinitionReference[];
+    policyDefinitionGroups?: PolicyDefinitionGroup[];
+  };
+  id?: string;
+  name?: string;
+  type?: string;
+}
+
+export interface PolicyDefinitionReference {
+  policyDefinitionId: string;
+  policyDefinitionReferenceId?: string;
+  parameters?: Record<string, { value: any }>;
+  groupNames?: string[];
+  definitionVersion?: string;
+}
+
+export interface PolicyDefinitionGroup {
+  name: string;
+  displayName?: string;
+  category?: string;
+  description?: string;
+  additionalMetadataId?: string;
+}
+
+export interface PolicyAssignment {
+  properties: {
+    displayName?: string;
+    description?: string;
+    policyDefinitionId: string;
+    parameters?: Record<string, { value: any }>;
+    scope: string;
+    notScopes?: string[];
+    enforcementMode?: 'Default' | 'DoNotEnforce';
+    nonComplianceMessages?: PolicyNonComplianceMessage[];
+    overrides?: PolicyAssignmentOverride[];
+    resourceSelectors?: PolicyResourceSelector[];
+    metadata?: Record<string, any>;
+  };
+  id?: string;
+  name?: string;
+  type?: string;
+}
+
+export interface PolicyExemption {
+  properties: {
+    displayName?: string;
+    description?: string;
+    policyAssignmentId: string;
+    policyDefinitionReferenceIds?: string[];
+    exemptionCategory: 'Waiver' | 'Mitigated';
+    expiresOn?: string;
+    scope?: string;
+    resourceSelectors?: PolicyResourceSelector[];
+    metadata?: Record<string, any>;
+  };
+  id?: string;
+  name?: string;
+  type?: string;
+}
+
+export interface PolicyNonComplianceMessage {
+  message: string;
+  policyDefinitionReferenceId?: string;
+}
+
+export interface PolicyAssignmentOverride {
+  kind: 'policyEffect' | string;
+  value: string;
+  selectors?: PolicySelector[];
+}
+
+export interface PolicyResourceSelector {
+  name: string;
+  selectors: PolicySelector[];
+}
+
+export interface PolicySelector {
+  kind: 'resourceLocation' | 'resourceType' | 'resourceWithoutLocation' | 'policyDefinitionReferenceId' | string;
+  in?: string[];
+  notIn?: string[];
+}
+
 export interface PolicyParameter {
-  type: 'String' | 'Array' | 'Object' | 'Boolean' | 'Integer';
+  type: 'String' | 'Array' | 'Object' | 'Boolean' | 'Integer' | 'Float' | 'DateTime';
   metadata?: {
     displayName?: string;
     description?: string;
+    strongType?: string;
+    assignPermissions?: boolean;
   };
   allowedValues?: any[];
   defaultValue?: any;
@@ -48,19 +144,23 @@ export interface PolicyCondition {
   notLike?: string;
   match?: string;
   notMatch?: string;
+  matchInsensitively?: string;
+  notMatchInsensitively?: string;
   contains?: any;
   notContains?: any;
   in?: any[];
   notIn?: any[];
   containsKey?: string;
   notContainsKey?: string;
-  less?: number;
-  lessOrEquals?: number;
-  greater?: number;
-  greaterOrEquals?: number;
+  less?: number | string;
+  lessOrEquals?: number | string;
+  greater?: number | string;
+  greaterOrEquals?: number | string;
   exists?: boolean;
   count?: {
-    field: string;
+    field?: string;
+    value?: any;
+    name?: string;
     where?: PolicyCondition;
     equals?: number;
     notEquals?: number;
@@ -75,7 +175,7 @@ export interface PolicyCondition {
 
 export interface PolicyEffect {
   effect: 'deny' | 'audit' | 'append' | 'auditIfNotExists' | 'deployIfNotExists' | 'disabled' | 'modify' | string;
-  details?: PolicyEffectDetails;
+  details?: PolicyEffectDetails | PolicyAppendDetail[];
 }
 
 export interface PolicyEffectDetails {
@@ -90,11 +190,20 @@ export interface PolicyEffectDetails {
       parameters: Record<string, any>;
     };
   };
-  operations?: Array<{
-    operation: 'add' | 'addOrReplace' | 'remove';
-    field: string;
-    value?: any;
-  }>;
+  conflictEffect?: 'audit' | 'deny' | 'disabled' | string;
+  operations?: PolicyModifyOperation[];
+}
+
+export interface PolicyModifyOperation {
+  operation: 'add' | 'addOrReplace' | 'remove';
+  field: string;
+  value?: any;
+  condition?: string;
+}
+
+export interface PolicyAppendDetail {
+  field: string;
+  value: any;
 }
 
 export interface ParsedPolicy {
@@ -110,10 +219,25 @@ export interface ParsedPolicy {
   preview: boolean;
   parameters: PolicyParameterInfo[];
   rules: PolicyRuleAnalysis;
+  // Targeted resource types or like patterns (applicability.includes)
   resourceTypes: string[];
+  applicability: ResourceTypeApplicability;
   effects: PolicyEffectInfo[];
 }
 
+export interface ResourceTypeApplicability {
+  // Targeted resource types, including like patterns such as Microsoft.Web/sites/*
+  includes: string[];
+  // Resource types excluded through notEquals / notIn / notLike or negated conditions
+  excludes: string[];
+  // kind values (or like patterns) the policy is limited to, and those it excludes
+  kinds: string[];
+  excludedKinds: string[];
+  // typeCondition: from field 'type' conditions; aliases: inferred from the aliases the rule
+  // uses; unconstrained: the rule applies to every resource type
+  source: 'typeCondition' | 'aliases' | 'unconstrained';
+}
+
 export interface PolicyParameterInfo {
   name: string;
   type: string;
@@ -122,6 +246,48 @@ export interface PolicyParameterInfo {
   required: boolean;
   allowedValues?: any[];
   defaultValue?: any;
+  strongType?: string;
+}
+
+export interface PolicyParameterIssue {
+  parameter: string;
+  code: 'missing' | 'unknown' | 'type' | 'allowedValues' | 'strongType';
+  message: string;
+}
+
+export interface PolicyParameterValidationResult {
+  isValid: boolean;
+  errors: PolicyParameterIssue[];
+  warnings: PolicyParameterIssue[];
+}
+
+export interface CustomPolicyRequest {
+  resourceType: string;
+  // Alias, alias property name (e.g. minimumTlsVersion) or built-in field
+  property: string;
+  // Exactly one requirement: a required value, a list of allowed values, a pattern or existence
+  requiredValue?: any;
+  allowedValues?: any[];
+  pattern?: string;
+  patternType?: 'like' | 'match' | 'matchInsensitively';
+  mustExist?: boolean;
+  effect?: 'Audit' | 'Deny' | 'Disabled';
+  parameterizeEffect?: boolean;
+  parameterizeValue?: boolean;
+  name?: string;
+  displayName?: string;
+  description?: string;
+  category?: string;
+  mode?: string;
+}
+
+export interface AuthoredPolicy {
+  definition: AzurePolicyDefinition;
+  field: string;
+  validation: PolicyValidationResult;
+  compliantSample: PolicyResource;
+  nonCompliantSample: PolicyResource;
+  warnings: string[];
 }
 
 export interface PolicyRuleAnalysis {
@@ -148,6 +314,8 @@ export interface FieldCheck {
 
 export interface PolicyEffectInfo {
   effect: string;
+  expression?: string;
+  allowedValues?: string[];
   hasDetails: boolean;
   requiresRoleDefinitions: boolean;
   deploysResources: boolean;
@@ -169,6 +337,74 @@ export interface ResourceTypeCompatibility {
   optionalFields: string[];
 }
 
+export interface ParsedPolicySet {
+  id: string;
+  name: string;
+  displayName: string;
+  description: string;
+  category: string;
+  policyType: string;
+  version: string | undefined;
+  deprecated: boolean;
+  preview: boolean;
+  parameters: PolicyParameterInfo[];
+  groups: PolicyDefinitionGroup[];
+  members: PolicySetMember[];
+  unresolvedDefinitionIds: string[];
+}
+
+export interface PolicySetMember {
+  referenceId: string;
+  policyDefinitionId: string;
+  groupNames: string[];
+  parameters: Record<string, any>;
+  effect?: string;
+  definition?: AzurePolicyDefinition;
+  policy?: ParsedPolicy;
+}
+
+export interface ComplianceFramework {
+  id: string;
+  displayName: string;
+  policySetDefinitionId: string;
+}
+
+export type ComplianceState = 'passed' | 'failed' | 'notApplicable' | 'notEvaluable';
+
+export interface ComplianceResourceResult {
+  symbolicName: string;
+  type: string;
+  state: 'passed' | 'failed';
+  reason?: string;
+}
+
+export interface CompliancePolicyResult {
+  referenceId: string;
+  policyDefinitionId: string;
+  displayName: string;
+  effect?: string;
+  state: ComplianceState;
+  reason?: string;
+  resources: ComplianceResourceResult[];
+}
+
+export interface ComplianceControlResult {
+  name: string;
+  displayName: string;
+  category?: string;
+  state: ComplianceState;
+  policies: CompliancePolicyResult[];
+}
+
+export interface ComplianceReport {
+  framework: string;
+  policySetDefinitionId: string;
+  controls: ComplianceControlResult[];
+  // Member policies not assigned to any group
+  ungroupedPolicies: CompliancePolicyResult[];
+  summary: Record<ComplianceState, number>;
+}
+
 export interface PolicySearchCriteria {
   categories?: string[];
   effects?: string[];
@@ -177,4 +413,336 @@ export interface PolicySearchCriteria {
   policyTypes?: string[];
   includePreview?: boolean;
   includeDeprecated?: boolean;
-}
\ No newline at end of file
+  limit?: number;
+}
+
+export interface PolicyCatalogEntry {
+  id: string;
+  name: string;
+  path: string;
+  displayName: string;
+  description: string;
+  category: string;
+  policyType: string;
+  mode: string;
+  version?: string;
+  deprecated: boolean;
+  preview: boolean;
+  resourceTypes: string[];
+  applicability: ResourceTypeApplicability;
+  aliases: string[];
+  // Fixed effect, or the default and allowed values of a parameterized effect
+  effects: string[];
+}
+
+export interface PolicyCatalogIndex {
+  builtAt: number;
+  source: string;
+  entries: PolicyCatalogEntry[];
+}
+
+export interface PolicyAliasCatalog {
+  version: string;
+  source?: string;
+  resourceTypes: Record<string, Record<string, string>>;
+}
+
+export interface PolicyAliasResolution {
+  alias: string;
+  resourceType: string;
+  path: string;
+  source: 'catalog' | 'inferred';
+}
+
+export interface PolicyResource {
+  id?: string;
+  // Last name segment, as the name field reads it
+  name: string;
+  // Name including the parent names of child resources ('sqlsrv/master'), read by the fullName field
+  fullName?: string;
+  type: string;
+  location?: string;
+  kind?: string;
+  tags?: Record<string, string>;
+  sku?: Record<string, any>;
+  identity?: Record<string, any>;
+  properties?: Record<string, any>;
+  [key: string]: any;
+}
+
+export interface PolicyEvaluationContext {
+  parameters?: Record<string, any>;
+  requestContext?: {
+    apiVersion?: string;
+  };
+}
+
+export interface PolicyEvaluationResult {
+  matched: boolean;
+  effect: string;
+  evaluations: ConditionEvaluation[];
+  // Set when the policy mode does not evaluate the resource
+  exclusion?: PolicyModeExclusion;
+  // Fields whose unresolved template expressions leave the outcome undetermined (matched is false)
+  unresolved?: string[];
+}
+
+export interface PolicyModeExclusion {
+  // notApplicable: the mode skips this resource; notEvaluable: the mode targets data-plane components
+  kind: 'notApplicable' | 'notEvaluable';
+  reason: string;
+}
+
+export interface PolicyEffectSimulation {
+  effect: string;
+  // Whether the policy changes the resource (matched and at least one operation took effect)
+  applied: boolean;
+  resource: PolicyResource;
+  changes: PolicyResourceChange[];
+  // conflict marks operations Azure rejects: an append deny, or a modify that falls back to conflictEffect
+  skipped: Array<{ operation: string; field: string; reason: string; conflict?: boolean }>;
+  // Effect a modify policy has when one of its operations conflicts (details.conflictEffect, default audit)
+  conflictEffect?: string;
+  // Set when unresolved template expressions leave it undetermined whether the policy applies
+  unresolved?: string[];
+}
+
+export interface PolicyResourceChange {
+  operation: 'add' | 'addOrReplace' | 'remove' | 'append';
+  field: string;
+  path: string;
+  before: any;
+  after: any;
+}
+
+export interface ConditionEvaluation {
+  operator: string;
+  field?: string;
+  expected: any;
+  actual: any;
+  result: boolean;
+  // The field or expected value is a template expression that could not be resolved
+  unresolved?: boolean;
+}
+
+export type PolicyDefinitionChangeKind =
+  | 'mode'
+  | 'metadata'
+  | 'condition-added'
+  | 'condition-removed'
+  | 'condition-changed'
+  | 'effect'
+  | 'effect-details'
+  | 'parameter-added'
+  | 'parameter-removed'
+  | 'parameter-type'
+  | 'parameter-allowedValues'
+  | 'parameter-defaultValue';
+
+export interface PolicyDefinitionChange {
+  kind: PolicyDefinitionChangeKind;
+  path: string;
+  description: string;
+  breaking: boolean;
+  before?: any;
+  after?: any;
+}
+
+export interface PolicyDefinitionDiff {
+  fromVersion?: string;
+  toVersion?: string;
+  identical: boolean;
+  hasBreakingChanges: boolean;
+  changes: PolicyDefinitionChange[];
+}
+
+export interface PolicyTestCase {
+  name: string;
+  resource: PolicyResource;
+  // 'compliant', 'nonCompliant' or the effect that must apply (e.g. 'deny')
+  expected: string;
+  parameters?: Record<string, any>;
+  // Resources an auditIfNotExists / deployIfNotExists existence check looks for
+  relatedResources?: PolicyResource[];
+  source?: string;
+}
+
+export interface PolicyTestCaseResult {
+  name: string;
+  source?: string;
+  expected: string;
+  outcome: 'compliant' | 'nonCompliant' | 'error';
+  effect?: string;
+  passed: boolean;
+  message?: string;
+  evaluations: ConditionEvaluation[];
+}
+
+export interface PolicyTestReport {
+  policy: string;
+  total: number;
+  passed: number;
+  failed: number;
+  results: PolicyTestCaseResult[];
+}
+
+export type PolicyLintSeverity = 'error' | 'warning';
+
+export interface PolicyLintRule {
+  id: string;
+  description: string;
+  severity: PolicyLintSeverity;
+  // Returns one message per violation
+  check(policy: AzurePolicyDefinition): string[];
+}
+
+export interface PolicyLintFinding {
+  rule: string;
+  severity: PolicyLintSeverity;
+  message: string;
+}
+
+export interface PolicyLintOptions {
+  disabledRules?: string[];
+  severities?: Record<string, PolicyLintSeverity>;
+}
+
+export interface PolicyLintResult extends PolicyValidationResult {
+  findings: PolicyLintFinding[];
+}
+
+export interface PolicyApplication {
+  // Label used in outcomes, e.g. the policy display name or assignment / reference id
+  name: string;
+  definition: AzurePolicyDefinition;
+  parameters?: Record<string, any>;
+  // Effect override, e.g. from an assignment override
+  effect?: string;
+  // false for assignments with enforcementMode DoNotEnforce
+  enforced?: boolean;
+}
+
+export type PolicyEvaluationStage = 'disabled' | 'modify' | 'deny' | 'audit' | 'postDeployment' | 'notEvaluated';
+
+export interface PolicyEffectOutcome {
+  policy: string;
+  effect: string;
+  stage: PolicyEvaluationStage;
+  result: 'notApplicable' | 'notEvaluable' | 'compliant' | 'nonCompliant' | 'denied' | 'modified' | 'deployed' | 'skipped';
+  enforced: boolean;
+  blocking: boolean;
+  reason?: string;
+  changes?: PolicyResourceChange[];
+}
+
+export interface ResourceEffectiveOutcome {
+  symbolicName: string;
+  type: string;
+  outcome: 'blocked' | 'nonCompliant' | 'compliant';
+  // The resource after enforced modify / append effects
+  resource: PolicyResource;
+  blockedBy: string[];
+  reportedBy: string[];
+  remediatedBy: string[];
+  // Every applicable policy in Azure's evaluation order
+  steps: PolicyEffectOutcome[];
+}
+
+export type PolicyImpactCategory = 'denied' | 'audited' | 'modified';
+
+// A resource in Azure Resource Graph export format
+export interface InventoryResource extends PolicyResource {
+  id: string;
+  resourceGroup?: string;
+  subscriptionId?: string;
+}
+
+export interface PolicyImpactSample {
+  id: string;
+  name: string;
+  type: string;
+  resourceGroup: string;
+  // Policies causing the impact, with their reasons
+  policies: Array<{ policy: string; reason?: string }>;
+}
+
+export interface PolicyImpactGroup {
+  // Resource group or resource type
+  key: string;
+  total: number;
+  counts: Record<PolicyImpactCategory, number>;
+}
+
+export interface PolicyImpactReport {
+  policy: string;
+  totalResources: number;
+  // Resources with at least one denied, audited or modified outcome
+  impactedResources: number;
+  summary: Record<PolicyImpactCategory, number>;
+  byResourceGroup: PolicyImpactGroup[];
+  byResourceType: PolicyImpactGroup[];
+  samples: Record<PolicyImpactCategory, PolicyImpactSample[]>;
+  // Policies that cannot be evaluated against the inventory, e.g. data-plane modes
+  notEvaluable: Array<{ policy: string; reason: string }>;
+}
+
+export interface PropertyCoveragePolicy {
+  policy: string;
+  effect: string;
+  // Alias or built-in field the policy checks
+  field: string;
+  operators: string[];
+}
+
+export interface PropertyCoverage {
+  // Resource property path, e.g. properties.minimumTlsVersion
+  path: string;
+  // Whether the template sets the property
+  declared: boolean;
+  securityRelevant: boolean;
+  policies: PropertyCoveragePolicy[];
+}
+
+export interface ResourceCoverage {
+  symbolicName: string;
+  type: string;
+  // Policies that apply to the resource type
+  policies: string[];
+  properties: PropertyCoverage[];
+  // Security-relevant properties no evaluated policy checks
+  uncoveredSecurityProperties: Array<{ path: string; declared: boolean }>;
+}
+
+export interface PolicyCoverageMap {
+  policies: number;
+  resources: ResourceCoverage[];
+}
+
+export interface PolicyRequirement {
+  policyId: string;
+  policy: string;
+  effect: string;
+  // condition: the value a compliant resource must have; modify / append: the value the policy sets
+  source: 'condition' | 'modify' | 'append';
+  // Alias or built-in field, and the property path it resolves to
+  field: string;
+  path: string;
+  // Condition on this field only, with parameter values resolved
+  condition: PolicyCondition;
+  description: string;
+}
+
+export interface PolicyConflict {
+  path: string;
+  // Resource types both policies apply to; empty when both apply to every type
+  resourceTypes: string[];
+  first: PolicyRequirement;
+  second: PolicyRequirement;
+  reason: string;
+}
+
+export interface PolicyConflictReport {
+  policies: number;
+  requirements: number;
+  conflicts: PolicyConflict[];
+}
@@ -2,6 +2,8 @@
  * Template indexing and search type definitions
  */
 
+import type { ConditionEvaluation, PolicyResource } from './policy.js';
+
 export interface BicepTemplate {
   id: string;
   name: string;
@@ -164,4 +166,31 @@ export interface GeneratedTemplate {
       cost: number;
     }>;
   };
-}
\ No newline at end of file
+}
+
+export interface TemplateResource {
+  symbolicName: string;
+  type: string;
+  apiVersion?: string;
+  existing: boolean;
+  parent?: string;
+  scope?: string;
+  resource: PolicyResource;
+}
+
+export interface TemplateExistenceCheck {
+  effect: string;
+  relatedType: string;
+  relatedName?: string;
+  // Template resources of the related type in the evaluated resource's scope
+  candidates: Array<{
+    symbolicName: string;
+    matched: boolean;
+    evaluations: ConditionEvaluation[];
+    unresolved?: string[];
+  }>;
+  satisfiedBy?: string;
+  compliant: boolean;
+  // Fields with unresolved template expressions when no candidate is known to satisfy the condition
+  unresolved?: string[];
+}
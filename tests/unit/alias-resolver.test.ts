@@ -0,0 +1,113 @@
+/**
+ * Unit tests for PolicyAliasResolver
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PolicyAliasResolver } from '../../src/services/policy/alias-resolver.js';
+
+describe('PolicyAliasResolver', () => {
+  let resolver: PolicyAliasResolver;
+  let tempDir: string;
+
+  beforeEach(() => {
+    resolver = new PolicyAliasResolver();
+    tempDir = mkdtempSync(join(tmpdir(), 'alias-catalog-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('bundled catalog', () => {
+    test('should resolve catalogued aliases to property paths', () => {
+      const resolution = resolver.resolve('Microsoft.Network/networkSecurityGroups/securityRules[*].sourceAddressPrefix');
+
+      expect(resolution).toEqual({
+        alias: 'Microsoft.Network/networkSecurityGroups/securityRules[*].sourceAddressPrefix',
+        resourceType: 'Microsoft.Network/networkSecurityGroups',
+        path: 'properties.securityRules[*].properties.sourceAddressPrefix',
+        source: 'catalog'
+      });
+    });
+
+    test('should resolve aliases case-insensitively', () => {
+      expect(resolver.resolve('microsoft.compute/virtualmachines/imagepublisher')?.path)
+        .toBe('properties.storageProfile.imageReference.publisher');
+    });
+
+    test('should resolve renamed aliases and top-level paths', () => {
+      expect(resolver.resolvePath('Microsoft.Storage/storageAccounts/enableBlobEncryption'))
+        .toBe('properties.encryption.services.blob.enabled');
+      expect(resolver.resolvePath('Microsoft.Storage/storageAccounts/sku.name')).toBe('sku.name');
+    });
+
+    test('should resolve child resource type aliases', () => {
+      expect(resolver.resolve('Microsoft.Web/sites/config/minTlsVersion')?.resourceType).toBe('Microsoft.Web/sites/config');
+    });
+
+    test('should list aliases and catalog info', () => {
+      expect(resolver.getAliases('microsoft.keyvault/vaults')).toContain('Microsoft.KeyVault/vaults/enableSoftDelete');
+      expect(resolver.getCatalogInfo().aliasCount).toBeGreaterThan(100);
+    });
+  });
+
+  describe('inference', () => {
+    test('should infer properties paths for unknown aliases', () => {
+      expect(resolver.resolve('Microsoft.Contoso/widgets/color')).toEqual({
+        alias: 'Microsoft.Contoso/widgets/color',
+        resourceType: 'Microsoft.Contoso/widgets',
+        path: 'properties.color',
+        source: 'inferred'
+      });
+      expect(resolver.resolve('Microsoft.Contoso/widgets/sku.tier')?.path).toBe('sku.tier');
+    });
+
+    test('should leave built-in fields untouched', () => {
+      expect(resolver.resolve('location')).toBeUndefined();
+      expect(resolver.resolvePath("tags['env']")).toBe("tags['env']");
+      expect(resolver.isBuiltInField('identity.type')).toBe(true);
+    });
+  });
+
+  describe('refreshFromFile', () => {
+    test('should load a catalog in the bundled format', async () => {
+      const file = join(tempDir, 'catalog.json');
+      writeFileSync(file, JSON.stringify({
+        version: '2099-01-01',
+        resourceTypes: { 'Microsoft.Contoso/widgets': { 'Microsoft.Contoso/widgets/color': 'properties.appearance.color' } }
+      }));
+
+      const count = await resolver.refreshFromFile(file);
+
+      expect(count).toBe(1);
+      expect(resolver.resolvePath('Microsoft.Contoso/widgets/color')).toBe('properties.appearance.color');
+      expect(resolver.resolve('Microsoft.Storage/storageAccounts/enableBlobEncryption')?.source).toBe('inferred');
+    });
+
+    test('should convert Azure CLI provider alias output', async () => {
+      const file = join(tempDir, 'providers.json');
+      writeFileSync(file, JSON.stringify([{
+        namespace: 'Microsoft.Contoso',
+        resourceTypes: [{
+          resourceType: 'widgets',
+          aliases: [
+            { name: 'Microsoft.Contoso/widgets/size', paths: [{ path: 'properties.dimensions.size', apiVersions: ['2024-01-01'] }] },
+            { name: 'Microsoft.Contoso/widgets/shape', defaultPath: 'properties.shape', paths: [] }
+          ]
+        }]
+      }]));
+
+      await resolver.refreshFromFile(file);
+
+      expect(resolver.resolvePath('Microsoft.Contoso/widgets/size')).toBe('properties.dimensions.size');
+      expect(resolver.resolvePath('Microsoft.Contoso/widgets/shape')).toBe('properties.shape');
+    });
+
+    test('should reject unreadable catalogs', async () => {
+      await expect(resolver.refreshFromFile(join(tempDir, 'missing.json'))).rejects.toThrow('Failed to read alias catalog');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for ArmResourceParser
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { ArmResourceParser } from '../../src/services/templates/arm-resource-parser.js';
+
+describe('ArmResourceParser', () => {
+  let parser: ArmResourceParser;
+
+  beforeEach(() => {
+    parser = new ArmResourceParser();
+  });
+
+  const storageTemplate = JSON.stringify({
+    $schema: 'https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#',
+    contentVersion: '1.0.0.0',
+    parameters: {
+      storageName: { type: 'string', defaultValue: 'mystorage' },
+      location: { type: 'string', defaultValue: '[resourceGroup().location]' }
+    },
+    variables: {
+      httpsOnly: true,
+      diagName: "[format('{0}-diag', parameters('storageName'))]"
+    },
+    resources: [
+      {
+        type: 'Microsoft.Storage/storageAccounts',
+        apiVersion: '2023-01-01',
+        name: "[parameters('storageName')]",
+        location: "[parameters('location')]",
+        kind: 'StorageV2',
+        properties: { supportsHttpsTrafficOnly: "[variables('httpsOnly')]" },
+        dependsOn: [],
+        resources: [
+          { type: 'blobServices', apiVersion: '2023-01-01', name: 'default', properties: {} }
+        ]
+      },
+      {
+        type: 'Microsoft.Insights/diagnosticSettings',
+        apiVersion: '2021-05-01-preview',
+        scope: "[format('Microsoft.Storage/storageAccounts/{0}', parameters('storageName'))]",
+        name: "[variables('diagName')]",
+        properties: { workspaceId: "[resourceId('Microsoft.OperationalInsights/workspaces', 'ws')]" }
+      }
+    ]
+  });
+
+  test('should resolve parameter defaults and variables', () => {
+    const resources = parser.parseResources(storageTemplate);
+    const storage = resources[0];
+
+    expect(storage.symbolicName).toBe('mystorage');
+    expect(storage.type).toBe('Microsoft.Storage/storageAccounts');
+    expect(storage.apiVersion).toBe('2023-01-01');
+    expect(storage.resource.name).toBe('mystorage');
+    expect(storage.resource.properties?.supportsHttpsTrafficOnly).toBe(true);
+    expect(storage.resource.dependsOn).toBeUndefined();
+    expect(storage.resource.resources).toBeUndefined();
+  });
+
+  test('should keep expressions that cannot be resolved offline as text', () => {
+    const resources = parser.parseResources(storageTemplate);
+
+    expect(resources[0].resource.location).toBe('[resourceGroup().location]');
+    expect(resources[2].resource.properties?.workspaceId)
+      .toBe("[resourceId('Microsoft.OperationalInsights/workspaces', 'ws')]");
+  });
+
+  test('should qualify nested child resources and resolve extension scopes', () => {
+    const [storage, blobService, diagnostics] = parser.parseResources(storageTemplate);
+
+    expect(blobService.type).toBe('Microsoft.Storage/storageAccounts/blobServices');
+    expect(blobService.resource.name).toBe('default');
+    expect(blobService.resource.fullName).toBe('mystorage/default');
+    expect(blobService.parent).toBe(storage.symbolicName);
+    expect(diagnostics.resource.name).toBe('mystorage-diag');
+    expect(diagnostics.scope).toBe(storage.symbolicName);
+  });
+
+  test('should match resourceId() scopes on the resource name expression', () => {
+    const resources = parser.parseResources(JSON.stringify({
+      parameters: { vaultName: { type: 'string' } },
+      resources: [
+        {
+          type: 'Microsoft.Insights/diagnosticSettings',
+          name: 'diag',
+          scope: "[resourceId('Microsoft.KeyVault/vaults', parameters('vaultName'))]"
+        },
+        { type: 'Microsoft.KeyVault/vaults', name: "[parameters('vaultName')]" }
+      ]
+    }));
+
+    expect(resources[0].scope).toBe("[parameters('vaultName')]");
+    expect(resources[1].symbolicName).toBe("[parameters('vaultName')]");
+  });
+
+  test('should convert legacy provider extension resources', () => {
+    const resources = parser.parseResources(JSON.stringify({
+      resources: [
+        { type: 'Microsoft.Sql/servers', name: 'sql' },
+        {
+          type: 'Microsoft.Sql/servers/providers/diagnosticSettings',
+          name: 'sql/Microsoft.Insights/diag',
+          properties: { logs: [] }
+        }
+      ]
+    }));
+
+    expect(resources[1]).toMatchObject({
+      type: 'Microsoft.Insights/diagnosticSettings',
+      scope: 'sql',
+      resource: { name: 'diag', type: 'Microsoft.Insights/diagnosticSettings' }
+    });
+  });
+
+  test('should parse languageVersion 2.0 symbolic resources', () => {
+    const resources = parser.parseResources(JSON.stringify({
+      languageVersion: '2.0',
+      resources: {
+        vnet: { type: 'Microsoft.Network/virtualNetworks', existing: true, name: 'vnet' },
+        lock: { type: 'Microsoft.Authorization/locks', name: 'lock', scope: 'vnet', properties: { level: 'CanNotDelete' } }
+      }
+    }));
+
+    expect(resources.map(resource => resource.symbolicName)).toEqual(['vnet', 'lock']);
+    expect(resources[0].existing).toBe(true);
+    expect(resources[1].scope).toBe('vnet');
+  });
+
+  test('should reject invalid templates', () => {
+    expect(() => parser.parseResources('{')).toThrow('Invalid ARM template JSON');
+    expect(() => parser.parseResources('{"parameters": {}}')).toThrow('ARM template must contain a resources array or object');
+  });
+});
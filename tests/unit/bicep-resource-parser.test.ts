@@ -0,0 +1,174 @@
+/**
+ * Unit tests for BicepResourceParser
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { BicepResourceParser } from '../../src/services/templates/bicep-resource-parser.js';
+import { TemplateValidationError } from '../../src/infrastructure/errors/error-handler.js';
+
+describe('BicepResourceParser', () => {
+  let parser: BicepResourceParser;
+
+  beforeEach(() => {
+    parser = new BicepResourceParser();
+  });
+
+  const storageTemplate = `
+// Storage account with a blob container
+@description('Location for all resources')
+param location string = 'eastus'
+param storageName string
+var httpsOnly = true
+
+resource storageAccount 'Microsoft.Storage/storageAccounts@2023-01-01' = {
+  name: storageName
+  location: location
+  sku: {
+    name: 'Standard_LRS'
+  }
+  kind: 'StorageV2'
+  properties: {
+    supportsHttpsTrafficOnly: httpsOnly
+    minimumTlsVersion: 'TLS1_2'
+    allowedCopyScope: null
+    networkAcls: {
+      defaultAction: 'Deny'
+      ipRules: [
+        {
+          value: '10.0.0.1'
+        }
+      ]
+    }
+  }
+  tags: {
+    Environment: 'prod'
+    'cost-center': '\${storageName}-cc'
+  }
+
+  resource blobService 'blobServices' = {
+    name: 'default'
+  }
+}
+
+resource diagnostics 'Microsoft.Insights/diagnosticSettings@2021-05-01-preview' = {
+  name: 'diag'
+  scope: storageAccount
+  properties: {
+    workspaceId: resourceId('Microsoft.OperationalInsights/workspaces', 'ws')
+  }
+}
+`;
+
+  test('should parse resource declarations into ARM-shaped objects', () => {
+    const resources = parser.parseResources(storageTemplate);
+    const storage = resources.find(r => r.symbolicName === 'storageAccount')!;
+
+    expect(storage.type).toBe('Microsoft.Storage/storageAccounts');
+    expect(storage.apiVersion).toBe('2023-01-01');
+    expect(storage.existing).toBe(false);
+    expect(storage.resource.location).toBe('eastus');
+    expect(storage.resource.kind).toBe('StorageV2');
+    expect(storage.resource.sku).toEqual({ name: 'Standard_LRS' });
+    expect(storage.resource.properties?.supportsHttpsTrafficOnly).toBe(true);
+    expect(storage.resource.properties?.allowedCopyScope).toBeNull();
+    expect(storage.resource.properties?.networkAcls.ipRules).toEqual([{ value: '10.0.0.1' }]);
+  });
+
+  test('should keep unresolved expressions in ARM expression form', () => {
+    const resources = parser.parseResources(storageTemplate);
+    const storage = resources.find(r => r.symbolicName === 'storageAccount')!;
+    const diagnostics = resources.find(r => r.symbolicName === 'diagnostics')!;
+
+    expect(storage.resource.name).toBe('[storageName]');
+    expect(storage.resource.tags?.['cost-center']).toBe("['${storageName}-cc']");
+    expect(diagnostics.resource.properties?.workspaceId)
+      .toBe("[resourceId('Microsoft.OperationalInsights/workspaces', 'ws')]");
+    expect(parser.parseResources(`
+param env string
+resource sa 'Microsoft.Storage/storageAccounts@2023-01-01' = {
+  name: 'sa'
+  properties: {
+    allowBlobPublicAccess: env == 'prod' ? false : true
+    ipRules: [for ip in ips: { value: ip }]
+  }
+}`)[0].resource.properties).toEqual({
+      allowBlobPublicAccess: "[env == 'prod' ? false : true]",
+      ipRules: '[ [for ip in ips: { value: ip }]]'
+    });
+  });
+
+  test('should qualify nested child resource types and record parents and scopes', () => {
+    const resources = parser.parseResources(storageTemplate);
+    const blobService = resources.find(r => r.symbolicName === 'blobService')!;
+    const diagnostics = resources.find(r => r.symbolicName === 'diagnostics')!;
+
+    expect(blobService.type).toBe('Microsoft.Storage/storageAccounts/blobServices');
+    expect(blobService.parent).toBe('storageAccount');
+    expect(blobService.resource.name).toBe('default');
+    expect(blobService.resource.fullName).toBe("['${storageName}/default']");
+    expect(diagnostics.scope).toBe('storageAccount');
+    expect(diagnostics.resource.scope).toBeUndefined();
+  });
+
+  test('should record full child resource names with their parent names', () => {
+    const resources = parser.parseResources(`
+resource account 'Microsoft.Storage/storageAccounts@2023-01-01' = {
+  name: 'acct'
+  resource blobs 'blobServices' = {
+    name: 'default'
+    resource logs 'containers' = {
+      name: 'logs'
+    }
+  }
+}
+resource queues 'Microsoft.Storage/storageAccounts/queueServices@2023-01-01' = {
+  parent: account
+  name: 'default'
+}
+`);
+
+    expect(resources.map(r => r.resource.name)).toEqual(['logs', 'default', 'acct', 'default']);
+    expect(resources.map(r => r.resource.fullName)).toEqual(['acct/default/logs', 'acct/default', undefined, 'acct/default']);
+  });
+
+  test('should unwrap conditional and loop declarations', () => {
+    const resources = parser.parseResources(`
+param deploy bool = true
+resource existingVnet 'Microsoft.Network/virtualNetworks@2023-04-01' existing = {
+  name: 'vnet'
+}
+resource nsg 'Microsoft.Network/networkSecurityGroups@2023-04-01' = if (deploy) {
+  name: 'nsg'
+  properties: {}
+}
+resource pips 'Microsoft.Network/publicIPAddresses@2023-04-01' = [for i in range(0, 2): {
+  name: 'pip\${i}'
+  sku: { name: 'Standard' }
+}]
+`);
+
+    expect(resources.map(r => r.symbolicName)).toEqual(['existingVnet', 'nsg', 'pips']);
+    expect(resources[0].existing).toBe(true);
+    expect(resources[2].resource.sku).toEqual({ name: 'Standard' });
+  });
+
+  test('should return no resources for content without declarations', () => {
+    expect(parser.parseResources('param location string = resourceGroup().location')).toEqual([]);
+  });
+
+  test('should reject truncated templates with the position', () => {
+    const header = "resource sa 'Microsoft.Storage/storageAccounts@2023-01-01' = {\n  name: 'sa'\n";
+
+    expect(() => parser.parseResources(`${header}  properties: `))
+      .toThrow("Unexpected end of Bicep template at line 3, column 15: expected a value");
+    expect(() => parser.parseResources(`${header}  properties: {\n    allowBlobPublicAccess: false\n`))
+      .toThrow("Unexpected end of Bicep template at line 5, column 1: expected '}'");
+    expect(() => parser.parseResources(`${header}  tags: [\n    'a'`)).toThrow("expected ']'");
+    expect(() => parser.parseResources("resource sa 'Microsoft.Storage/storageAccounts@2023-01-01'"))
+      .toThrow("expected '=' after resource sa");
+    expect(() => parser.parseResources("resource sa 'Microsoft.Storage/storageAccounts@2023-01-01' = "))
+      .toThrow('expected a body for resource sa');
+    expect(() => parser.parseResources("resource sa 'Microsoft.Storage/storageAccounts@2023-01-01' = {\n  name"))
+      .toThrow(TemplateValidationError);
+  });
+});
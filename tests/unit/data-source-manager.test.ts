@@ -0,0 +1,174 @@
+/**
+ * Unit tests for DataSourceManager local data sources
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { DataSourceManager } from '../../src/services/github/data-source-manager.js';
+import { globToRegExp, indexLocalDirectory } from '../../src/services/github/local-file-index.js';
+import { CacheManager } from '../../src/infrastructure/cache/cache-manager.js';
+import type { GitHubClient } from '../../src/services/github/github-client.js';
+
+describe('DataSourceManager', () => {
+  let manager: DataSourceManager;
+  let indexRepository: jest.Mock<(...args: any[]) => Promise<any>>;
+  let tempDir: string;
+
+  const write = (path: string, content: unknown) => {
+    const fullPath = join(tempDir, path);
+    mkdirSync(dirname(fullPath), { recursive: true });
+    writeFileSync(fullPath, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  const definition = (name: string, displayName: string) => ({
+    name,
+    properties: {
+      displayName,
+      policyType: 'Custom',
+      mode: 'Indexed',
+      policyRule: { if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' }, then: { effect: 'Deny' } }
+    }
+  });
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'data-sources-'));
+    indexRepository = jest.fn(async () => ({ lastUpdated: 0, files: [], directories: [], totalSize: 0 }));
+    const githubClient = { indexRepository, getRawFileContent: jest.fn(async () => '{}') } as unknown as GitHubClient;
+    manager = new DataSourceManager(githubClient, new CacheManager());
+
+    write('policies/storage/storage-tls.json', definition('contoso-storage-tls', 'Contoso storage TLS'));
+    write('policies/storage/README.md', '# Storage policies');
+    write('policies/.git/config.json', definition('hidden', 'Hidden'));
+    write('policies/parameters/defaults.json', { effect: 'Deny' });
+    write('initiatives/baseline.json', {
+      name: 'contoso-baseline',
+      properties: { displayName: 'Contoso baseline', policyDefinitions: [] }
+    });
+    write('templates/storage/main.bicep', "resource sa 'Microsoft.Storage/storageAccounts@2023-01-01' = {}");
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should convert globs to path patterns', () => {
+    expect(globToRegExp('**/*.json').test('storage/tls.json')).toBe(true);
+    expect(globToRegExp('**/*.json').test('tls.json')).toBe(true);
+    expect(globToRegExp('*.json').test('storage/tls.json')).toBe(false);
+    expect(globToRegExp('policies/**').test('policies/a/b.json')).toBe(true);
+    expect(globToRegExp('**/*.{bicep,json}').test('modules/main.bicep')).toBe(true);
+    expect(globToRegExp('{main.bicep,*.json}').test('azuredeploy.json')).toBe(true);
+    expect(globToRegExp('policy?.json').test('policy1.json')).toBe(true);
+    expect(globToRegExp('policy?.json').test('policy.json')).toBe(false);
+  });
+
+  test('should index matching files in the repository index shape', async () => {
+    const index = await indexLocalDirectory(join(tempDir, 'policies'), '**/*.json');
+
+    expect(index.files.map(file => file.path)).toEqual(['parameters/defaults.json', 'storage/storage-tls.json']);
+    expect(index.directories).toEqual(['parameters', 'storage']);
+    expect(index.files[1]).toMatchObject({ name: 'storage-tls.json', type: 'file' });
+    expect(index.files[1].download_url).toMatch(/^file:\/\/.*\/policies\/storage\/storage-tls\.json$/);
+    expect(index.totalSize).toBe(index.files[0].size + index.files[1].size);
+  });
+
+  test('should load local data sources relative to the configuration file', async () => {
+    write('sources.json', [
+      { name: 'contoso-policies', kind: 'policyDefinitions', path: 'policies' },
+      { name: 'contoso-initiatives', kind: 'policySetDefinitions', path: 'initiatives', description: 'Contoso initiatives' },
+      { name: 'contoso-templates', kind: 'templates', path: 'templates', glob: '**/*.bicep' }
+    ]);
+
+    const names = await manager.loadLocalDataSources(join(tempDir, 'sources.json'));
+    const info = await manager.getDataSourceInfo('contoso-policies');
+
+    expect(names).toEqual(['contoso-policies', 'contoso-initiatives', 'contoso-templates']);
+    expect(await manager.listDataSources()).toEqual(expect.arrayContaining(['azure-policy', ...names]));
+    expect(info?.config).toEqual({
+      kind: 'policyDefinitions',
+      path: join(tempDir, 'policies'),
+      glob: '**/*.json',
+      description: 'Local policyDefinitions in policies'
+    });
+    expect(info?.index?.files).toHaveLength(2);
+    expect(manager.getDataSourceStats()['contoso-initiatives']).toEqual({ description: 'Contoso initiatives' });
+    expect(await manager.getFileFromDataSource('contoso-templates', 'storage/main.bicep')).toContain('Microsoft.Storage');
+    expect(indexRepository).not.toHaveBeenCalled();
+  });
+
+  test('should reject invalid local data source configurations', async () => {
+    write('bad-kind.json', [{ name: 'custom', kind: 'modules', path: 'policies' }]);
+    write('builtin-name.json', [{ name: 'azure-policy', kind: 'policyDefinitions', path: 'policies' }]);
+    write('no-path.json', [{ name: 'custom', kind: 'templates' }]);
+
+    await expect(manager.loadLocalDataSources(join(tempDir, 'bad-kind.json'))).rejects.toThrow('has unknown kind modules');
+    await expect(manager.loadLocalDataSources(join(tempDir, 'builtin-name.json'))).rejects.toThrow('has the name of a built-in data source');
+    await expect(manager.loadLocalDataSources(join(tempDir, 'no-path.json'))).rejects.toThrow('needs a name and a path');
+    await expect(manager.loadLocalDataSources(join(tempDir, 'missing.json'))).rejects.toThrow('Failed to read local data sources');
+  });
+
+  test('should resolve local definitions before the built-ins', async () => {
+    manager.addLocalDataSource('contoso-policies', {
+      kind: 'policyDefinitions',
+      path: join(tempDir, 'policies'),
+      glob: '**/*.json',
+      description: 'Contoso policies'
+    });
+    manager.addLocalDataSource('contoso-initiatives', {
+      kind: 'policySetDefinitions',
+      path: join(tempDir, 'initiatives'),
+      glob: '**/*.json',
+      description: 'Contoso initiatives'
+    });
+
+    const localDefinitions = await manager.getLocalPolicyDefinitions();
+    const definitions = await manager.getPolicyDefinitions([
+      '/providers/Microsoft.Management/managementGroups/contoso/providers/Microsoft.Authorization/policyDefinitions/contoso-storage-tls'
+    ]);
+    const policySets = await manager.getPolicySetDefinitions(['contoso-baseline']);
+
+    expect(localDefinitions.map(entry => entry.path)).toEqual([join(tempDir, 'policies/storage/storage-tls.json')]);
+    expect(Array.from(definitions.values()).map(entry => entry.name)).toEqual(['contoso-storage-tls']);
+    expect(policySets.get('contoso-baseline')?.properties.displayName).toBe('Contoso baseline');
+    expect((await manager.getPolicySetDefinition('baseline.json'))?.name).toBe('contoso-baseline');
+    expect(indexRepository).not.toHaveBeenCalled();
+  });
+
+  test('should fail to list every built-in definition when a file cannot be downloaded', async () => {
+    const getRawFileContent = jest.fn(async (_owner: string, _repo: string, path: string) => {
+      if (path.endsWith('broken.json')) throw new Error('rate limited');
+      return JSON.stringify(definition('tls', 'TLS'));
+    });
+    const githubClient = {
+      indexRepository: jest.fn(async () => ({
+        lastUpdated: 0,
+        files: [{ name: 'tls.json', path: 'Storage/tls.json' }, { name: 'broken.json', path: 'Storage/broken.json' }],
+        directories: ['Storage'],
+        totalSize: 0
+      })),
+      getRawFileContent
+    } as unknown as GitHubClient;
+
+    await expect(new DataSourceManager(githubClient, new CacheManager()).getAllPolicyDefinitions()).rejects.toThrow('rate limited');
+
+    indexRepository.mockRejectedValueOnce(new Error('GitHub API error: 403'));
+    await expect(manager.getAllPolicyDefinitions()).rejects.toThrow('GitHub API error: 403');
+  });
+
+  test('should only read local files inside a source matching its glob', async () => {
+    manager.addLocalDataSource('contoso-policies', {
+      kind: 'policyDefinitions',
+      path: join(tempDir, 'policies'),
+      glob: 'storage/*.json',
+      description: 'Contoso policies'
+    });
+
+    expect(await manager.readLocalFile(join(tempDir, 'policies/storage/storage-tls.json'), 'policyDefinitions')).toContain('contoso-storage-tls');
+    expect(await manager.readLocalFile('storage/storage-tls.json', 'policyDefinitions')).toContain('contoso-storage-tls');
+    expect(await manager.readLocalFile('parameters/defaults.json', 'policyDefinitions')).toBeUndefined();
+    expect(await manager.readLocalFile('../initiatives/baseline.json', 'policyDefinitions')).toBeUndefined();
+    expect(await manager.readLocalFile('storage/storage-tls.json', 'policySetDefinitions')).toBeUndefined();
+  });
+});
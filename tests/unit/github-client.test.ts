@@ -132,6 +132,40 @@ describe('GitHubClient', () => {
     });
   });
 
+  describe('indexRepository', () => {
+    const config = { owner: 'Azure', repo: 'azure-policy', basePath: 'built-in-policies', description: 'Azure policies' };
+
+    test('should fail without caching a partial index when a directory cannot be read', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [
+          { name: 'Storage', path: 'built-in-policies/Storage', type: 'dir' },
+          { name: 'Compute', path: 'built-in-policies/Compute', type: 'dir' }
+        ]
+      } as Response);
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [{ name: 'tls.json', path: 'built-in-policies/Storage/tls.json', size: 10, type: 'file' }]
+      } as Response);
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        statusText: 'Forbidden',
+        text: async () => '{"message": "API rate limit exceeded"}'
+      } as Response);
+
+      await expect(githubClient.indexRepository(config)).rejects.toThrow('GitHub API error: 403 - API rate limit exceeded');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [{ name: 'vm.json', path: 'built-in-policies/Compute/vm.json', size: 20, type: 'file' }]
+      } as Response);
+      const index = await githubClient.indexRepository(config);
+
+      expect(index.files.map(file => file.path)).toEqual(['built-in-policies/Storage/tls.json', 'built-in-policies/Compute/vm.json']);
+    });
+  });
+
   describe('hasToken', () => {
     test('should return false when no token is set', () => {
       expect(githubClient.hasToken()).toBe(false);
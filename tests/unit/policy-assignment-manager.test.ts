@@ -0,0 +1,203 @@
+/**
+ * Unit tests for PolicyAssignmentManager
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PolicyAssignmentManager } from '../../src/services/policy/policy-assignment-manager.js';
+import type { PolicyAssignment, PolicyResource } from '../../src/types/policy.js';
+
+describe('PolicyAssignmentManager', () => {
+  let manager: PolicyAssignmentManager;
+  let tempDir: string;
+
+  const subscription = '/subscriptions/00000000-0000-0000-0000-000000000001';
+  const resourceGroup = `${subscription}/resourceGroups/app-rg`;
+
+  const subscriptionAssignment: PolicyAssignment = {
+    name: 'require-https',
+    properties: {
+      displayName: 'Require HTTPS',
+      policyDefinitionId: '/providers/Microsoft.Authorization/policyDefinitions/404c3081-a854-4457-ae30-26a93ef643f9',
+      scope: subscription,
+      notScopes: [`${subscription}/resourceGroups/sandbox-rg`],
+      enforcementMode: 'DoNotEnforce',
+      nonComplianceMessages: [
+        { message: 'Storage must use HTTPS' },
+        { message: 'Secure transfer required', policyDefinitionReferenceId: 'secureTransfer' }
+      ],
+      overrides: [{
+        kind: 'policyEffect',
+        value: 'Audit',
+        selectors: [{ kind: 'policyDefinitionReferenceId', in: ['secureTransfer'] }]
+      }],
+      resourceSelectors: [{
+        name: 'europe',
+        selectors: [{ kind: 'resourceLocation', in: ['westeurope', 'northeurope'] }]
+      }]
+    }
+  };
+
+  beforeEach(() => {
+    manager = new PolicyAssignmentManager();
+    tempDir = mkdtempSync(join(tmpdir(), 'policy-assignments-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('loadFromPath', () => {
+    test('should load ARM, list and Azure CLI assignment formats from a directory', async () => {
+      writeFileSync(join(tempDir, 'a.json'), JSON.stringify(subscriptionAssignment));
+      writeFileSync(join(tempDir, 'b.json'), JSON.stringify({ value: [subscriptionAssignment] }));
+      writeFileSync(join(tempDir, 'c.json'), JSON.stringify([{
+        name: 'allowed-locations',
+        displayName: 'Allowed locations',
+        policyDefinitionId: '/providers/Microsoft.Authorization/policyDefinitions/e56962a6-4747-49cd-b67b-bf8b01975c4c',
+        scope: resourceGroup,
+        parameters: { listOfAllowedLocations: { value: ['westeurope'] } }
+      }]));
+      writeFileSync(join(tempDir, 'notes.txt'), 'ignored');
+
+      expect(await manager.loadFromPath(tempDir)).toEqual({ assignments: 3, exemptions: 0 });
+      expect(manager.getAssignments()[2].properties).toMatchObject({
+        displayName: 'Allowed locations',
+        scope: resourceGroup,
+        parameters: { listOfAllowedLocations: { value: ['westeurope'] } }
+      });
+    });
+
+    test('should reject assignments without a definition or scope', async () => {
+      const file = join(tempDir, 'invalid.json');
+      writeFileSync(file, JSON.stringify({ name: 'broken', properties: { scope: subscription } }));
+
+      await expect(manager.loadFromPath(file)).rejects.toThrow('must specify policyDefinitionId and scope');
+    });
+  });
+
+  describe('exemptions', () => {
+    const assignmentId = `${subscription}/providers/Microsoft.Authorization/policyAssignments/require-https`;
+    const storageId = `${resourceGroup}/providers/Microsoft.Storage/storageAccounts/sa`;
+
+    beforeEach(async () => {
+      writeFileSync(join(tempDir, 'assignments.json'), JSON.stringify([
+        { ...subscriptionAssignment, id: assignmentId }
+      ]));
+      writeFileSync(join(tempDir, 'exemptions.json'), JSON.stringify([
+        {
+          id: `${resourceGroup}/providers/Microsoft.Authorization/policyExemptions/legacy-storage`,
+          name: 'legacy-storage',
+          type: 'Microsoft.Authorization/policyExemptions',
+          properties: {
+            policyAssignmentId: assignmentId,
+            exemptionCategory: 'Waiver',
+            expiresOn: '2999-01-01T00:00:00Z'
+          }
+        },
+        {
+          // az policy exemption list output
+          id: `${subscription}/resourceGroups/old-rg/providers/Microsoft.Authorization/policyExemptions/old`,
+          name: 'old',
+          policyAssignmentId: assignmentId,
+          policyDefinitionReferenceIds: ['secureTransfer'],
+          exemptionCategory: 'Mitigated',
+          expiresOn: '2020-01-01T00:00:00Z'
+        }
+      ]));
+      await manager.loadFromPath(tempDir);
+    });
+
+    test('should load exemptions alongside assignments and derive their scope', () => {
+      expect(manager.getAssignments()).toHaveLength(1);
+      expect(manager.getExemptions().map(e => e.properties.scope)).toEqual([
+        resourceGroup,
+        `${subscription}/resourceGroups/old-rg`
+      ]);
+    });
+
+    test('should find exemptions covering a resource', () => {
+      const assignment = manager.getAssignments()[0];
+
+      expect(manager.findExemption(assignment, storageId)?.name).toBe('legacy-storage');
+      expect(manager.findExemption(assignment, `${subscription}/resourceGroups/other-rg/providers/x/y/z`)).toBeUndefined();
+    });
+
+    test('should restrict exemptions to the listed policy definition reference ids', () => {
+      const assignment = manager.getAssignments()[0];
+      const oldId = `${subscription}/resourceGroups/old-rg/providers/Microsoft.Storage/storageAccounts/sa`;
+
+      expect(manager.findExemption(assignment, oldId)).toBeUndefined();
+      expect(manager.findExemption(assignment, oldId, undefined, 'secureTransfer')?.name).toBe('old');
+    });
+
+    test('should report expired exemptions', () => {
+      const assignment = manager.getAssignments()[0];
+      const [current, expired] = manager.getExemptions();
+
+      expect(manager.isExpired(current)).toBe(false);
+      expect(manager.isExpired(expired)).toBe(true);
+      expect(manager.getExemptionsForScope(assignment, subscription)).toHaveLength(2);
+      expect(manager.getExemptionsForScope(assignment, resourceGroup)).toEqual([current]);
+    });
+
+    test('should reject exemptions without a category', async () => {
+      const file = join(tempDir, 'exemptions.json');
+      writeFileSync(file, JSON.stringify({ name: 'x', properties: { policyAssignmentId: assignmentId, scope: subscription } }));
+
+      await expect(manager.loadFromPath(file)).rejects.toThrow('must specify an id or scope and an exemptionCategory');
+    });
+  });
+
+  describe('scopes', () => {
+    test('should cover child scopes and honour notScopes', () => {
+      expect(manager.coversScope(subscriptionAssignment, resourceGroup)).toBe(true);
+      expect(manager.coversScope(subscriptionAssignment, `${subscription}/resourceGroups/SANDBOX-rg`)).toBe(false);
+      expect(manager.coversScope(subscriptionAssignment, '/subscriptions/other/resourceGroups/app-rg')).toBe(false);
+    });
+
+    test('should match management group assignments through the supplied hierarchy', () => {
+      const mgAssignment: PolicyAssignment = {
+        properties: {
+          policyDefinitionId: '/providers/Microsoft.Authorization/policySetDefinitions/1f3afdf9-d0c9-4c3d-847f-89da613e70a8',
+          scope: '/providers/Microsoft.Management/managementGroups/contoso'
+        }
+      };
+
+      expect(manager.coversScope(mgAssignment, resourceGroup)).toBe(false);
+      expect(manager.coversScope(mgAssignment, resourceGroup, ['/providers/Microsoft.Management/managementGroups/Contoso'])).toBe(true);
+    });
+
+    test('should exclude individual resources listed in notScopes', () => {
+      const assignment: PolicyAssignment = {
+        properties: { ...subscriptionAssignment.properties, notScopes: [`${resourceGroup}/providers/Microsoft.Web/sites/legacy`] }
+      };
+
+      expect(manager.coversScope(assignment, manager.resourceId(resourceGroup, 'Microsoft.Web/sites/config', 'legacy/web'))).toBe(false);
+      expect(manager.coversScope(assignment, manager.resourceId(resourceGroup, 'Microsoft.Web/sites', 'current'))).toBe(true);
+    });
+  });
+
+  describe('assignment settings', () => {
+    const storage: PolicyResource = { name: 'sa', type: 'Microsoft.Storage/storageAccounts', location: 'WestEurope' };
+
+    test('should apply resource selectors', () => {
+      expect(manager.isResourceSelected(subscriptionAssignment, storage)).toBe(true);
+      expect(manager.isResourceSelected(subscriptionAssignment, { ...storage, location: 'eastus' })).toBe(false);
+    });
+
+    test('should resolve effect overrides and non-compliance messages by reference id', () => {
+      expect(manager.getEffectOverride(subscriptionAssignment, 'secureTransfer')).toBe('Audit');
+      expect(manager.getEffectOverride(subscriptionAssignment, 'other')).toBeUndefined();
+      expect(manager.getNonComplianceMessage(subscriptionAssignment, 'secureTransfer')).toBe('Secure transfer required');
+      expect(manager.getNonComplianceMessage(subscriptionAssignment)).toBe('Storage must use HTTPS');
+    });
+
+    test('should report enforcement mode', () => {
+      expect(manager.isEnforced(subscriptionAssignment)).toBe(false);
+      expect(manager.isEnforced({ properties: { ...subscriptionAssignment.properties, enforcementMode: 'Default' } })).toBe(true);
+    });
+  });
+});
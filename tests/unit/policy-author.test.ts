@@ -0,0 +1,135 @@
+/**
+ * Unit tests for PolicyAuthor
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { PolicyAuthor } from '../../src/services/policy/policy-author.js';
+import { PolicyEvaluator } from '../../src/services/policy/policy-evaluator.js';
+import { PolicyParser } from '../../src/services/policy/policy-parser.js';
+
+describe('PolicyAuthor', () => {
+  let author: PolicyAuthor;
+  let evaluator: PolicyEvaluator;
+  let parser: PolicyParser;
+
+  beforeEach(() => {
+    author = new PolicyAuthor();
+    evaluator = new PolicyEvaluator();
+    parser = new PolicyParser();
+  });
+
+  test('should author a required value policy with a parameterized effect', () => {
+    const authored = author.author({
+      resourceType: 'Microsoft.Storage/storageAccounts',
+      property: 'minimumTlsVersion',
+      requiredValue: 'TLS1_2',
+      effect: 'Deny'
+    });
+    const props = authored.definition.properties;
+
+    expect(authored.field).toBe('Microsoft.Storage/storageAccounts/minimumTlsVersion');
+    expect(authored.definition.name).toBe('storageaccounts-should-have-minimumtlsversion-set-to-tls1-2');
+    expect(props.policyType).toBe('Custom');
+    expect(props.mode).toBe('Indexed');
+    expect(props.metadata).toEqual({ version: '1.0.0', category: 'Storage' });
+    expect(props.parameters?.effect).toMatchObject({ allowedValues: ['Audit', 'Deny', 'Disabled'], defaultValue: 'Deny' });
+    expect(props.policyRule).toEqual({
+      if: {
+        allOf: [
+          { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+          { field: 'Microsoft.Storage/storageAccounts/minimumTlsVersion', notEquals: 'TLS1_2' }
+        ]
+      },
+      then: { effect: "[parameters('effect')]" }
+    });
+    expect(authored.validation.isValid).toBe(true);
+    expect(parser.validatePolicy(authored.definition).errors).toEqual([]);
+    expect(authored.warnings).toEqual([]);
+  });
+
+  test('should ship samples the policy treats as compliant and non-compliant', () => {
+    const authored = author.author({
+      resourceType: 'Microsoft.Storage/storageAccounts',
+      property: 'minimumTlsVersion',
+      requiredValue: 'TLS1_2'
+    });
+
+    expect(authored.compliantSample.properties).toEqual({ minimumTlsVersion: 'TLS1_2' });
+    expect(evaluator.evaluatePolicy(authored.definition, authored.compliantSample).matched).toBe(false);
+    expect(evaluator.evaluatePolicy(authored.definition, authored.nonCompliantSample).matched).toBe(true);
+  });
+
+  test('should parameterize allowed values', () => {
+    const authored = author.author({
+      resourceType: 'Microsoft.Storage/storageAccounts',
+      property: 'sku.name',
+      allowedValues: ['Standard_LRS', 'Standard_ZRS'],
+      parameterizeValue: true,
+      parameterizeEffect: false
+    });
+    const props = authored.definition.properties;
+
+    expect(props.parameters).toEqual({
+      listOfAllowedSkuName: expect.objectContaining({ type: 'Array', defaultValue: ['Standard_LRS', 'Standard_ZRS'] })
+    });
+    expect(props.policyRule.then.effect).toBe('Audit');
+    expect(authored.compliantSample.sku).toEqual({ name: 'Standard_LRS' });
+    expect(evaluator.evaluatePolicy(authored.definition, authored.nonCompliantSample).matched).toBe(true);
+  });
+
+  test('should use count for array aliases', () => {
+    const authored = author.author({
+      resourceType: 'Microsoft.Network/networkSecurityGroups',
+      property: 'Microsoft.Network/networkSecurityGroups/securityRules[*].sourceAddressPrefix',
+      pattern: '10.*'
+    });
+
+    expect(authored.definition.properties.policyRule.if.allOf![1]).toEqual({
+      count: {
+        field: 'Microsoft.Network/networkSecurityGroups/securityRules[*]',
+        where: { field: 'Microsoft.Network/networkSecurityGroups/securityRules[*].sourceAddressPrefix', notLike: '10.*' }
+      },
+      greater: 0
+    });
+    expect(authored.compliantSample.properties).toEqual({ securityRules: [{ properties: { sourceAddressPrefix: '10.x' } }] });
+    expect(evaluator.evaluatePolicy(authored.definition, authored.nonCompliantSample).matched).toBe(true);
+  });
+
+  test('should require tags and built-in fields to exist', () => {
+    const authored = author.author({
+      resourceType: 'Microsoft.KeyVault/vaults',
+      property: "tags['costCenter']",
+      mustExist: true
+    });
+
+    expect(authored.definition.properties.policyRule.if.allOf![1]).toEqual({ field: "tags['costCenter']", exists: false });
+    expect(authored.compliantSample.tags).toEqual({ costCenter: 'example' });
+    expect(authored.nonCompliantSample.tags).toBeUndefined();
+  });
+
+  test('should warn about aliases missing from the catalog', () => {
+    const authored = author.author({
+      resourceType: 'Microsoft.Storage/storageAccounts',
+      property: 'someNewSetting',
+      requiredValue: true
+    });
+
+    expect(authored.field).toBe('Microsoft.Storage/storageAccounts/someNewSetting');
+    expect(authored.warnings).toEqual([expect.stringContaining('is not in the alias catalog')]);
+    expect(authored.nonCompliantSample.properties).toEqual({ someNewSetting: false });
+  });
+
+  test('should reject incomplete or inconsistent requests', () => {
+    const base = { resourceType: 'Microsoft.Storage/storageAccounts', property: 'minimumTlsVersion' };
+
+    expect(() => author.author(base)).toThrow('Specify exactly one of requiredValue, allowedValues, pattern or mustExist');
+    expect(() => author.author({ ...base, requiredValue: 'TLS1_2', pattern: 'TLS*' }))
+      .toThrow('Specify exactly one of');
+    expect(() => author.author({ ...base, requiredValue: 'TLS1_2', effect: 'Modify' as any }))
+      .toThrow("Unsupported effect 'Modify'");
+    expect(() => author.author({ ...base, resourceType: 'storage', requiredValue: 'TLS1_2' }))
+      .toThrow("Invalid resource type 'storage'");
+    expect(() => author.author({ ...base, property: 'Microsoft.KeyVault/vaults/enableSoftDelete', requiredValue: true }))
+      .toThrow('applies to Microsoft.KeyVault/vaults');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Unit tests for PolicyCatalog
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PolicyCatalog } from '../../src/services/policy/policy-catalog.js';
+import { PolicyParser } from '../../src/services/policy/policy-parser.js';
+import type { DataSourceManager } from '../../src/services/github/data-source-manager.js';
+import type { AzurePolicyDefinition } from '../../src/types/policy.js';
+
+describe('PolicyCatalog', () => {
+  let catalog: PolicyCatalog;
+  let getAllPolicyDefinitions: jest.Mock<() => Promise<Array<{ path: string; definition: AzurePolicyDefinition }>>>;
+  let getLocalPolicyDefinitions: jest.Mock<() => Promise<Array<{ path: string; definition: AzurePolicyDefinition }>>>;
+  let dataSourceManager: DataSourceManager;
+  let tempDir: string;
+
+  const definition = (
+    name: string,
+    displayName: string,
+    metadata: Record<string, any>,
+    policyRule: any,
+    parameters?: Record<string, any>
+  ): { path: string; definition: AzurePolicyDefinition } => ({
+    path: `built-in-policies/policyDefinitions/${metadata.category}/${name}.json`,
+    definition: {
+      id: `/providers/Microsoft.Authorization/policyDefinitions/${name}`,
+      name,
+      properties: {
+        displayName,
+        policyType: 'BuiltIn',
+        mode: 'Indexed',
+        description: `${displayName} description`,
+        metadata,
+        ...(parameters && { parameters }),
+        policyRule
+      }
+    }
+  });
+
+  const definitions = [
+    definition('storage-https', 'Secure transfer to storage accounts should be enabled', { category: 'Storage', version: '2.0.0' }, {
+      if: {
+        allOf: [
+          { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+          { field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly', notEquals: true }
+        ]
+      },
+      then: { effect: "[parameters('effect')]" }
+    }, { effect: { type: 'String', allowedValues: ['Audit', 'Deny', 'Disabled'], defaultValue: 'Audit' } }),
+    definition('keyvault-diagnostics', 'Key vaults should have diagnostic settings', { category: 'Key Vault', version: '1.0.0-preview', preview: true }, {
+      if: { field: 'type', equals: 'Microsoft.KeyVault/vaults' },
+      then: {
+        effect: 'AuditIfNotExists',
+        details: {
+          type: 'Microsoft.Insights/diagnosticSettings',
+          existenceCondition: { field: 'Microsoft.Insights/diagnosticSettings/logs.enabled', equals: 'true' }
+        }
+      }
+    }),
+    definition('nsg-rdp', '[Deprecated]: RDP access from the Internet should be blocked', { category: 'Network', deprecated: true }, {
+      if: {
+        count: {
+          field: 'Microsoft.Network/networkSecurityGroups/securityRules[*]',
+          where: { field: 'Microsoft.Network/networkSecurityGroups/securityRules[*].destinationPortRange', equals: '3389' }
+        },
+        greater: 0
+      },
+      then: { effect: 'Audit' }
+    })
+  ];
+
+  beforeEach(() => {
+    getAllPolicyDefinitions = jest.fn(async () => definitions);
+    getLocalPolicyDefinitions = jest.fn(async () => []);
+    dataSourceManager = { getAllPolicyDefinitions, getLocalPolicyDefinitions } as unknown as DataSourceManager;
+    tempDir = mkdtempSync(join(tmpdir(), 'policy-catalog-'));
+    catalog = new PolicyCatalog(dataSourceManager, new PolicyParser(), undefined);
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should index resource types, aliases, effects and flags', () => {
+    const index = catalog.indexDefinitions(definitions);
+
+    expect(index.entries.map(entry => entry.name)).toEqual(['nsg-rdp', 'keyvault-diagnostics', 'storage-https']);
+    expect(index.entries[2]).toMatchObject({
+      id: '/providers/Microsoft.Authorization/policyDefinitions/storage-https',
+      category: 'Storage',
+      version: '2.0.0',
+      preview: false,
+      resourceTypes: ['Microsoft.Storage/storageAccounts'],
+      aliases: ['Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly'],
+      effects: ['Audit', 'Deny', 'Disabled']
+    });
+    expect(index.entries[1].aliases).toEqual(['Microsoft.Insights/diagnosticSettings/logs.enabled']);
+    expect(index.entries[0].aliases).toEqual([
+      'Microsoft.Network/networkSecurityGroups/securityRules[*]',
+      'Microsoft.Network/networkSecurityGroups/securityRules[*].destinationPortRange'
+    ]);
+  });
+
+  test('should filter by search criteria', async () => {
+    const names = async (criteria: Parameters<PolicyCatalog['search']>[0]) =>
+      (await catalog.search(criteria)).map(entry => entry.name);
+
+    expect(await names({})).toEqual(['storage-https']);
+    expect(await names({ includePreview: true, includeDeprecated: true })).toHaveLength(3);
+    expect(await names({ effects: ['deny'] })).toEqual(['storage-https']);
+    expect(await names({ categories: ['key vault'], includePreview: true })).toEqual(['keyvault-diagnostics']);
+    expect(await names({ resourceTypes: ['Microsoft.Network/networkSecurityGroups'], includeDeprecated: true })).toEqual(['nsg-rdp']);
+    expect(await names({ keywords: ['diagnostic', 'secure transfer'], includePreview: true, limit: 1 })).toEqual(['keyvault-diagnostics']);
+    expect(await names({ policyTypes: ['Custom'] })).toEqual([]);
+    expect(getAllPolicyDefinitions).toHaveBeenCalledTimes(1);
+  });
+
+  test('should rank definitions naming a resource type before wildcard matches', () => {
+    const index = catalog.indexDefinitions([
+      definition('storage-any', 'All storage resources should be tagged', { category: 'Storage' }, {
+        if: { field: 'type', like: 'Microsoft.Storage/*' },
+        then: { effect: 'Audit' }
+      }),
+      definition('storage-or-sql', 'Accounts and servers should be private', { category: 'Storage' }, {
+        if: { field: 'type', in: ['Microsoft.Sql/servers', 'Microsoft.Storage/storageAccounts'] },
+        then: { effect: 'Audit' }
+      }),
+      ...definitions
+    ]);
+
+    const matches = catalog.filter(index.entries, { resourceTypes: ['Microsoft.Storage/storageAccounts'] });
+
+    expect(matches.map(entry => entry.name)).toEqual(['storage-https', 'storage-or-sql', 'storage-any']);
+  });
+
+  test('should write the built catalog and load it offline', async () => {
+    const catalogPath = join(tempDir, 'catalog.json');
+    const building = new PolicyCatalog(dataSourceManager, new PolicyParser(), catalogPath);
+    await building.getIndex();
+
+    const offline = new PolicyCatalog(dataSourceManager, new PolicyParser(), catalogPath);
+    const index = await offline.getIndex();
+
+    expect(JSON.parse(readFileSync(catalogPath, 'utf-8')).entries).toHaveLength(3);
+    expect(index.entries).toHaveLength(3);
+    expect(offline.isLoaded()).toBe(true);
+    expect(getAllPolicyDefinitions).toHaveBeenCalledTimes(1);
+  });
+
+  test('should neither keep nor write an index when the definition scan fails', async () => {
+    const catalogPath = join(tempDir, 'catalog.json');
+    const building = new PolicyCatalog(dataSourceManager, new PolicyParser(), catalogPath);
+    getAllPolicyDefinitions.mockRejectedValueOnce(new Error('GitHub API error: 403'));
+
+    await expect(building.getIndex()).rejects.toThrow('GitHub API error: 403');
+    expect(building.isLoaded()).toBe(false);
+    expect(building.isAvailable()).toBe(false);
+
+    expect((await building.getIndex()).entries).toHaveLength(3);
+    expect(building.isAvailable()).toBe(true);
+    expect(JSON.parse(readFileSync(catalogPath, 'utf-8')).entries).toHaveLength(3);
+  });
+
+  test('should build the index once in the background', async () => {
+    catalog.buildInBackground();
+    catalog.buildInBackground();
+    await catalog.rebuild();
+
+    expect(catalog.isLoaded()).toBe(true);
+    expect(getAllPolicyDefinitions).toHaveBeenCalledTimes(1);
+  });
+
+  test('should list local definitions first without writing them to the catalog file', async () => {
+    const custom = definition('contoso-storage-tls', 'Contoso storage TLS', { category: 'Storage' }, {
+      if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+      then: { effect: 'Deny' }
+    });
+    custom.definition.properties.policyType = 'Custom';
+    getLocalPolicyDefinitions.mockResolvedValue([{ ...custom, path: '/repos/contoso/policies/storage-tls.json' }]);
+
+    const catalogPath = join(tempDir, 'catalog.json');
+    const building = new PolicyCatalog(dataSourceManager, new PolicyParser(), catalogPath);
+    const matches = await building.search({ resourceTypes: ['Microsoft.Storage/storageAccounts'] });
+
+    expect(matches.map(entry => entry.path)).toEqual([
+      '/repos/contoso/policies/storage-tls.json',
+      'built-in-policies/policyDefinitions/Storage/storage-https.json'
+    ]);
+    expect((await building.searchLocal({ policyTypes: ['custom'] })).map(entry => entry.name)).toEqual(['contoso-storage-tls']);
+    expect(JSON.parse(readFileSync(catalogPath, 'utf-8')).entries).toHaveLength(3);
+  });
+
+  test('should reject unreadable catalog files and files without entries', async () => {
+    writeFileSync(join(tempDir, 'empty.json'), JSON.stringify({ builtAt: 0 }));
+
+    await expect(catalog.loadFromFile(join(tempDir, 'empty.json'))).rejects.toThrow(`Policy catalog ${join(tempDir, 'empty.json')} has no entries`);
+    await expect(catalog.loadFromFile(join(tempDir, 'missing.json'))).rejects.toThrow('Failed to read policy catalog');
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for PolicyComplianceMapper
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { PolicyComplianceMapper, findComplianceFramework } from '../../src/services/policy/policy-compliance-mapper.js';
+import { PolicySetParser } from '../../src/services/policy/policy-set-parser.js';
+import type { DataSourceManager } from '../../src/services/github/data-source-manager.js';
+import type { AzurePolicyDefinition, ParsedPolicySet, PolicySetDefinition } from '../../src/types/policy.js';
+import type { TemplateResource } from '../../src/types/templates.js';
+
+describe('PolicyComplianceMapper', () => {
+  let mapper: PolicyComplianceMapper;
+  let initiative: ParsedPolicySet;
+
+  const storageRule = (displayName: string, condition: any, effect: string, mode = 'Indexed'): AzurePolicyDefinition => ({
+    properties: {
+      displayName,
+      policyType: 'BuiltIn',
+      mode,
+      description: displayName,
+      policyRule: {
+        if: { allOf: [{ field: 'type', equals: 'Microsoft.Storage/storageAccounts' }, condition] },
+        then: { effect }
+      }
+    }
+  });
+
+  const definitions: Record<string, AzurePolicyDefinition> = {
+    https: storageRule('Secure transfer should be enabled',
+      { field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly', notEquals: true }, 'Audit'),
+    tls: storageRule('Minimum TLS version should be 1.2',
+      { field: 'Microsoft.Storage/storageAccounts/minimumTlsVersion', notEquals: 'TLS1_2' }, 'Deny'),
+    vault: {
+      properties: {
+        displayName: 'Key vaults should have purge protection',
+        policyType: 'BuiltIn',
+        mode: 'Indexed',
+        description: 'Key vaults should have purge protection',
+        policyRule: {
+          if: { allOf: [{ field: 'type', equals: 'Microsoft.KeyVault/vaults' }, { field: 'Microsoft.KeyVault/vaults/enablePurgeProtection', notEquals: true }] },
+          then: { effect: 'Audit' }
+        }
+      }
+    },
+    secrets: storageRule('Key vault secrets should expire', { field: 'name', exists: true }, 'Audit', 'Microsoft.KeyVault.Data')
+  };
+
+  const policySet: PolicySetDefinition = {
+    id: '/providers/Microsoft.Authorization/policySetDefinitions/framework',
+    properties: {
+      displayName: 'Test framework',
+      policyType: 'BuiltIn',
+      description: 'Test framework',
+      policyDefinitionGroups: [
+        { name: 'SC-8', displayName: 'Transmission Confidentiality and Integrity', category: 'System and Communications Protection' },
+        { name: 'SC-28', displayName: 'Protection of Information at Rest' },
+        { name: 'SC-12', displayName: 'Cryptographic Key Establishment' }
+      ],
+      policyDefinitions: [
+        { policyDefinitionId: '/providers/Microsoft.Authorization/policyDefinitions/https', groupNames: ['SC-8'] },
+        { policyDefinitionId: '/providers/Microsoft.Authorization/policyDefinitions/tls', groupNames: ['SC-8', 'SC-28'] },
+        { policyDefinitionId: '/providers/Microsoft.Authorization/policyDefinitions/vault', groupNames: ['SC-12'] },
+        { policyDefinitionId: '/providers/Microsoft.Authorization/policyDefinitions/secrets', groupNames: ['SC-12'] },
+        { policyDefinitionId: '/providers/Microsoft.Authorization/policyDefinitions/missing' }
+      ]
+    }
+  };
+
+  const storage: TemplateResource = {
+    symbolicName: 'storage',
+    type: 'Microsoft.Storage/storageAccounts',
+    existing: false,
+    resource: {
+      name: 'sa',
+      type: 'Microsoft.Storage/storageAccounts',
+      location: 'westeurope',
+      properties: { supportsHttpsTrafficOnly: false, minimumTlsVersion: 'TLS1_2' }
+    }
+  };
+
+  beforeEach(async () => {
+    mapper = new PolicyComplianceMapper();
+    const parser = new PolicySetParser({ getPolicyDefinitions: async () => new Map() } as unknown as DataSourceManager);
+    initiative = await parser.analyzePolicySet(policySet, {}, definitions);
+  });
+
+  test('should group policy results by control', () => {
+    const report = mapper.buildReport(initiative, [storage]);
+
+    expect(report.controls.map(control => [control.name, control.state])).toEqual([
+      ['SC-8', 'failed'],
+      ['SC-28', 'passed'],
+      ['SC-12', 'notEvaluable']
+    ]);
+    expect(report.summary).toEqual({ passed: 1, failed: 1, notApplicable: 0, notEvaluable: 1 });
+    expect(report.controls[0]).toMatchObject({ category: 'System and Communications Protection' });
+    expect(report.controls[0].policies.map(policy => [policy.referenceId, policy.state])).toEqual([['https', 'failed'], ['tls', 'passed']]);
+    expect(report.controls[0].policies[0].resources).toEqual([{
+      symbolicName: 'storage',
+      type: 'Microsoft.Storage/storageAccounts',
+      state: 'failed',
+      reason: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly notEquals true (actual: false)'
+    }]);
+    expect(report.controls[2].policies.map(policy => policy.state)).toEqual(['notApplicable', 'notEvaluable']);
+    expect(report.ungroupedPolicies).toEqual([expect.objectContaining({ referenceId: 'missing', state: 'notEvaluable', reason: 'Definition not found' })]);
+  });
+
+  test('should format the report by control', () => {
+    const text = mapper.formatReport(mapper.buildReport(initiative, [storage]));
+
+    expect(text.split('\n')).toEqual([
+      '**Test framework** - 1 control(s) failed, 1 passed, 1 not evaluable, 0 not applicable',
+      '',
+      '❌ **SC-8** Transmission Confidentiality and Integrity',
+      '  - ❌ Secure transfer should be enabled (Audit)',
+      '    - ❌ storage (Microsoft.Storage/storageAccounts): Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly notEquals true (actual: false)',
+      '  - ✅ Minimum TLS version should be 1.2 (Deny)',
+      '    - ✅ storage (Microsoft.Storage/storageAccounts)',
+      '',
+      '✅ **SC-28** Protection of Information at Rest',
+      '  - ✅ Minimum TLS version should be 1.2 (Deny)',
+      '    - ✅ storage (Microsoft.Storage/storageAccounts)',
+      '',
+      '❔ **SC-12** Cryptographic Key Establishment',
+      expect.stringMatching(/^ {2}- ❔ Key vault secrets should expire \(Audit\) - Microsoft\.KeyVault\.Data policies evaluate /)
+    ]);
+  });
+
+  test('should find frameworks by id or display name', () => {
+    expect(findComplianceFramework('NIST-SP-800-53')?.displayName).toBe('NIST SP 800-53 Rev. 5');
+    expect(findComplianceFramework('pci dss v4')?.id).toBe('pci-dss');
+    expect(findComplianceFramework('unknown')).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for PolicyConflictDetector
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { PolicyConflictDetector } from '../../src/services/policy/policy-conflict-detector.js';
+import type { AzurePolicyDefinition, PolicyApplication } from '../../src/types/policy.js';
+
+describe('PolicyConflictDetector', () => {
+  let detector: PolicyConflictDetector;
+
+  const application = (
+    name: string,
+    policyRule: any,
+    parameters?: Record<string, any>,
+    parameterDefinitions?: Record<string, any>
+  ): PolicyApplication => {
+    const definition: AzurePolicyDefinition = {
+      id: `/providers/Microsoft.Authorization/policyDefinitions/${name.toLowerCase().replace(/\s+/g, '-')}`,
+      properties: {
+        displayName: name,
+        policyType: 'Custom',
+        mode: 'Indexed',
+        description: name,
+        ...(parameterDefinitions && { parameters: parameterDefinitions }),
+        policyRule
+      }
+    };
+    return { name, definition, ...(parameters && { parameters }) };
+  };
+
+  const storage = (condition: any, effect = 'Deny') => ({
+    if: { allOf: [{ field: 'type', equals: 'Microsoft.Storage/storageAccounts' }, condition] },
+    then: { effect }
+  });
+
+  const allowedLocations = (name: string, locations: string[]) => application(name, {
+    if: {
+      allOf: [
+        { field: 'location', notIn: "[parameters('listOfAllowedLocations')]" },
+        { field: 'location', notEquals: 'global' },
+        { field: 'type', notEquals: 'Microsoft.AzureActiveDirectory/b2cDirectories' }
+      ]
+    },
+    then: { effect: 'deny' }
+  }, { listOfAllowedLocations: locations }, { listOfAllowedLocations: { type: 'Array' } });
+
+  beforeEach(() => {
+    detector = new PolicyConflictDetector();
+  });
+
+  test('should report a modify operation setting a value a deny policy rejects', () => {
+    const report = detector.detect([
+      application('Disable public network access', storage(
+        { field: 'Microsoft.Storage/storageAccounts/publicNetworkAccess', notEquals: 'Disabled' })),
+      application('Enable public network access', storage({ field: 'name', exists: true }, 'modify'))
+    ]);
+    expect(report.conflicts).toEqual([]);
+
+    const modify = application('Enable public network access', {
+      if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+      then: {
+        effect: 'modify',
+        details: {
+          roleDefinitionIds: ['/providers/Microsoft.Authorization/roleDefinitions/17d1049b-9a84-46fb-8f53-869881c3d3ab'],
+          operations: [{ operation: 'addOrReplace', field: 'Microsoft.Storage/storageAccounts/publicNetworkAccess', value: 'Enabled' }]
+        }
+      }
+    });
+    const conflicting = detector.detect([
+      application('Disable public network access', storage(
+        { field: 'Microsoft.Storage/storageAccounts/publicNetworkAccess', notEquals: 'Disabled' })),
+      modify
+    ]);
+
+    expect(conflicting.conflicts).toHaveLength(1);
+    expect(conflicting.conflicts[0]).toMatchObject({
+      path: 'properties.publicNetworkAccess',
+      resourceTypes: ['Microsoft.Storage/storageAccounts'],
+      first: {
+        policyId: '/providers/Microsoft.Authorization/policyDefinitions/disable-public-network-access',
+        source: 'condition',
+        condition: { field: 'Microsoft.Storage/storageAccounts/publicNetworkAccess', equals: 'Disabled' }
+      },
+      second: {
+        policyId: '/providers/Microsoft.Authorization/policyDefinitions/enable-public-network-access',
+        source: 'modify'
+      }
+    });
+    expect(conflicting.conflicts[0].reason).toMatch(/^Disable public network access requires .* but Enable public network access sets .* to "Enabled"$/);
+  });
+
+  test('should report allowed location lists that do not intersect', () => {
+    const disjoint = detector.detect([
+      allowedLocations('EU locations', ['westeurope', 'northeurope']),
+      allowedLocations('US locations', ['eastus'])
+    ]);
+    const overlapping = detector.detect([
+      allowedLocations('EU locations', ['westeurope', 'northeurope']),
+      allowedLocations('Primary locations', ['WestEurope', 'eastus'])
+    ]);
+
+    expect(disjoint.conflicts).toHaveLength(1);
+    expect(disjoint.conflicts[0]).toMatchObject({ path: 'location', resourceTypes: [] });
+    expect(disjoint.conflicts[0].reason).toMatch(/\(only "global" satisfies both\)$/);
+    expect(disjoint.conflicts[0].first.condition).toEqual({
+      anyOf: [{ field: 'location', in: ['westeurope', 'northeurope'] }, { field: 'location', equals: 'global' }]
+    });
+    expect(overlapping.conflicts).toEqual([]);
+  });
+
+  test('should compare policies only on resource types both apply to', () => {
+    const report = detector.detect([
+      application('Storage TLS 1.2', storage({ field: 'Microsoft.Storage/storageAccounts/minimumTlsVersion', notEquals: 'TLS1_2' })),
+      application('Storage TLS 1.0', storage({ field: 'Microsoft.Storage/storageAccounts/minimumTlsVersion', notIn: ['TLS1_0'] }, 'Audit')),
+      application('Vault tags', {
+        if: { allOf: [{ field: 'type', equals: 'Microsoft.KeyVault/vaults' }, { field: 'tags[env]', exists: false }] },
+        then: { effect: 'deny' }
+      }),
+      application('No env tag on storage', storage({ field: 'tags[env]', exists: true }))
+    ]);
+
+    expect(report.requirements).toBe(4);
+    expect(report.conflicts.map(conflict => [conflict.first.policy, conflict.second.policy])).toEqual([
+      ['Storage TLS 1.2', 'Storage TLS 1.0']
+    ]);
+  });
+
+  test('should ignore rules whose conditions cannot be compared', () => {
+    const report = detector.detect([
+      application('Either TLS or HTTPS', storage({
+        anyOf: [
+          { field: 'Microsoft.Storage/storageAccounts/minimumTlsVersion', notEquals: 'TLS1_2' },
+          { field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly', notEquals: true }
+        ]
+      }, 'Audit')),
+      application('Disabled TLS check', storage({ field: 'Microsoft.Storage/storageAccounts/minimumTlsVersion', notEquals: 'TLS1_0' }, 'Disabled')),
+      application('Not TLS 1.2', storage({
+        allOf: [
+          { field: 'Microsoft.Storage/storageAccounts/minimumTlsVersion', equals: 'TLS1_2' },
+          { field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly', equals: true }
+        ]
+      }))
+    ]);
+
+    expect(report.requirements).toBe(2);
+    expect(report.conflicts).toEqual([]);
+  });
+
+  test('should format conflicts with both policy ids', () => {
+    const text = detector.formatReport(detector.detect([
+      allowedLocations('EU locations', ['westeurope']),
+      allowedLocations('US locations', ['eastus'])
+    ]));
+
+    expect(text.split('\n')).toEqual([
+      '**Policy Conflicts** (2 policies, 2 requirements compared): 1 conflict(s)',
+      '',
+      expect.stringMatching(/^- ❌ \*\*location\*\* \(all resource types\): EU locations requires .*, but US locations requires /),
+      '  - /providers/Microsoft.Authorization/policyDefinitions/eu-locations',
+      '  - /providers/Microsoft.Authorization/policyDefinitions/us-locations'
+    ]);
+  });
+});
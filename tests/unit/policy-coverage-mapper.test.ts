@@ -0,0 +1,123 @@
+/**
+ * Unit tests for PolicyCoverageMapper
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { PolicyCoverageMapper } from '../../src/services/policy/policy-coverage-mapper.js';
+import { PolicyParser } from '../../src/services/policy/policy-parser.js';
+import type { ParsedPolicy } from '../../src/types/policy.js';
+import type { TemplateResource } from '../../src/types/templates.js';
+
+describe('PolicyCoverageMapper', () => {
+  let mapper: PolicyCoverageMapper;
+  let policies: Array<{ name: string; policy: ParsedPolicy }>;
+
+  const parse = (displayName: string, rule: any) => {
+    const policy = new PolicyParser().analyzePolicyDefinition({
+      properties: { displayName, policyType: 'Custom', mode: 'Indexed', description: displayName, policyRule: rule }
+    });
+    return { name: displayName, policy };
+  };
+
+  const storage: TemplateResource = {
+    symbolicName: 'storage',
+    type: 'Microsoft.Storage/storageAccounts',
+    existing: false,
+    resource: {
+      name: 'sa',
+      type: 'Microsoft.Storage/storageAccounts',
+      location: 'westeurope',
+      properties: { supportsHttpsTrafficOnly: true, allowBlobPublicAccess: false }
+    }
+  };
+
+  const vault: TemplateResource = {
+    symbolicName: 'vault',
+    type: 'Microsoft.KeyVault/vaults',
+    existing: false,
+    resource: { name: 'kv', type: 'Microsoft.KeyVault/vaults', location: 'westeurope', properties: { tenantId: 'tenant' } }
+  };
+
+  beforeEach(() => {
+    mapper = new PolicyCoverageMapper();
+    policies = [
+      parse('Secure transfer', {
+        if: {
+          allOf: [
+            { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+            { field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly', notEquals: true }
+          ]
+        },
+        then: { effect: 'Deny' }
+      }),
+      parse('Storage firewall', {
+        if: {
+          allOf: [
+            { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+            { field: 'Microsoft.Storage/storageAccounts/networkAcls.defaultAction', notEquals: 'Deny' },
+            { field: 'Microsoft.Storage/storageAccounts/minimumTlsVersion', less: 'TLS1_2' }
+          ]
+        },
+        then: { effect: 'Audit' }
+      }),
+      parse('Allowed locations', {
+        if: { field: 'location', notIn: ['westeurope'] },
+        then: { effect: 'Deny' }
+      })
+    ];
+  });
+
+  test('should map properties to the policies checking them', () => {
+    const map = mapper.buildMap([storage, vault], policies);
+    const [storageCoverage, vaultCoverage] = map.resources;
+
+    expect(map.policies).toBe(3);
+    expect(storageCoverage.policies).toEqual(['Secure transfer', 'Storage firewall', 'Allowed locations']);
+    expect(storageCoverage.properties.map(property => [property.path, property.declared, property.securityRelevant])).toEqual([
+      ['location', true, false],
+      ['properties.minimumTlsVersion', false, true],
+      ['properties.networkAcls.defaultAction', false, true],
+      ['properties.supportsHttpsTrafficOnly', true, true]
+    ]);
+    expect(storageCoverage.properties[1].policies).toEqual([
+      { policy: 'Storage firewall', effect: 'Audit', field: 'Microsoft.Storage/storageAccounts/minimumTlsVersion', operators: ['less'] }
+    ]);
+    expect(vaultCoverage.policies).toEqual(['Allowed locations']);
+    expect(vaultCoverage.properties.map(property => property.path)).toEqual(['location']);
+  });
+
+  test('should list security-relevant properties no policy covers', () => {
+    const [storageCoverage, vaultCoverage] = mapper.buildMap([storage, vault], policies).resources;
+
+    expect(storageCoverage.uncoveredSecurityProperties).toEqual(expect.arrayContaining([
+      { path: 'properties.allowBlobPublicAccess', declared: true },
+      { path: 'properties.publicNetworkAccess', declared: false }
+    ]));
+    expect(storageCoverage.uncoveredSecurityProperties.map(property => property.path))
+      .not.toContain('properties.minimumTlsVersion');
+    expect(vaultCoverage.uncoveredSecurityProperties.map(property => property.path))
+      .toEqual(expect.arrayContaining(['properties.enablePurgeProtection']));
+  });
+
+  test('should use the configured security properties', () => {
+    const custom = new PolicyCoverageMapper(undefined, undefined, ['tenantId']);
+
+    expect(custom.buildMap([vault], []).resources[0].uncoveredSecurityProperties).toEqual([
+      { path: 'properties.tenantId', declared: true }
+    ]);
+  });
+
+  test('should format the map as a table with coverage gaps', () => {
+    const text = mapper.formatMap(mapper.buildMap([storage], policies.slice(0, 1)));
+
+    expect(text.split('\n').slice(0, 5)).toEqual([
+      '**Policy Coverage** (1 resources, 1 policies)',
+      '',
+      '| Resource | Property | Declared | Policies |',
+      '| --- | --- | --- | --- |',
+      '| storage | properties.supportsHttpsTrafficOnly 🔒 | yes | Secure transfer (Deny: notEquals) |'
+    ]);
+    expect(text).toContain('**Uncovered Security-Relevant Properties:**');
+    expect(text).toMatch(/- storage \(Microsoft\.Storage\/storageAccounts\): .*properties\.minimumTlsVersion \(not set\)/);
+  });
+});
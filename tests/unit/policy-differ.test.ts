@@ -0,0 +1,169 @@
+/**
+ * Unit tests for PolicyDiffer
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { PolicyDiffer } from '../../src/services/policy/policy-differ.js';
+import type { AzurePolicyDefinition } from '../../src/types/policy.js';
+
+describe('PolicyDiffer', () => {
+  let differ: PolicyDiffer;
+
+  beforeEach(() => {
+    differ = new PolicyDiffer();
+  });
+
+  const basePolicy: AzurePolicyDefinition = {
+    properties: {
+      displayName: 'Storage accounts should restrict network access',
+      policyType: 'BuiltIn',
+      mode: 'Indexed',
+      description: 'Network access to storage accounts should be restricted',
+      metadata: { version: '1.1.0', category: 'Storage' },
+      parameters: {
+        effect: { type: 'String', allowedValues: ['Audit', 'Deny', 'Disabled'], defaultValue: 'Audit' }
+      },
+      policyRule: {
+        if: {
+          allOf: [
+            { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+            { field: 'Microsoft.Storage/storageAccounts/networkAcls.defaultAction', notEquals: 'Deny' }
+          ]
+        },
+        then: { effect: "[parameters('effect')]" }
+      }
+    }
+  };
+
+  const revise = (update: (properties: any) => void): AzurePolicyDefinition => {
+    const copy = JSON.parse(JSON.stringify(basePolicy));
+    update(copy.properties);
+    return copy;
+  };
+
+  test('should report identical definitions', () => {
+    const diff = differ.diff(basePolicy, revise(() => {}));
+
+    expect(diff).toEqual({ fromVersion: '1.1.0', toVersion: '1.1.0', identical: true, hasBreakingChanges: false, changes: [] });
+  });
+
+  test('should ignore reordered conditions and classify metadata changes as non-breaking', () => {
+    const diff = differ.diff(basePolicy, revise(properties => {
+      properties.policyRule.if.allOf.reverse();
+      properties.metadata.version = '1.1.1';
+      properties.parameters.effect.allowedValues = ['Deny', 'Audit', 'Disabled'];
+    }));
+
+    expect(diff.hasBreakingChanges).toBe(false);
+    expect(diff.changes).toEqual([
+      expect.objectContaining({ kind: 'metadata', path: 'metadata.version', before: '1.1.0', after: '1.1.1', breaking: false })
+    ]);
+  });
+
+  test('should report added, removed and changed conditions', () => {
+    const diff = differ.diff(basePolicy, revise(properties => {
+      properties.policyRule.if.allOf = [
+        { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+        { field: 'Microsoft.Storage/storageAccounts/networkAcls.defaultAction', equals: 'Allow' },
+        { field: 'kind', notIn: ['BlobStorage'] }
+      ];
+    }));
+
+    expect(diff.hasBreakingChanges).toBe(true);
+    expect(diff.changes.map(change => [change.kind, change.description])).toEqual([
+      [
+        'condition-changed',
+        "Condition on field 'Microsoft.Storage/storageAccounts/networkAcls.defaultAction' at if.allOf[1] changed from notEquals \"Deny\" to equals \"Allow\""
+      ],
+      ['condition-added', "Added condition at if.allOf[2]: field 'kind' notIn [\"BlobStorage\"]"]
+    ]);
+  });
+
+  test('should report changed operator values within count conditions', () => {
+    const withCount = (prefix: string) => revise(properties => {
+      properties.policyRule.if.allOf[1] = {
+        count: {
+          field: 'Microsoft.Storage/storageAccounts/networkAcls.ipRules[*]',
+          where: { field: 'Microsoft.Storage/storageAccounts/networkAcls.ipRules[*].value', like: prefix }
+        },
+        greater: 0
+      };
+    });
+
+    const diff = differ.diff(withCount('10.*'), withCount('172.16.*'));
+
+    expect(diff.changes).toEqual([
+      expect.objectContaining({
+        kind: 'condition-changed',
+        path: 'if.allOf[1].count.where',
+        before: '10.*',
+        after: '172.16.*',
+        breaking: true
+      })
+    ]);
+  });
+
+  test('should classify effect and mode changes', () => {
+    const parameterized = differ.diff(
+      revise(properties => {
+        properties.policyRule.then.effect = 'Audit';
+        delete properties.parameters;
+      }),
+      basePolicy
+    );
+    const enforced = differ.diff(basePolicy, revise(properties => {
+      properties.policyRule.then.effect = 'Deny';
+      properties.mode = 'All';
+    }));
+
+    expect(parameterized.changes.find(change => change.kind === 'effect')).toMatchObject({
+      description: "Effect changed from Audit to [parameters('effect')] (default Audit)",
+      breaking: false
+    });
+    expect(parameterized.changes.find(change => change.kind === 'parameter-added')?.breaking).toBe(false);
+    expect(enforced.changes.map(change => [change.kind, change.breaking])).toEqual([
+      ['mode', true],
+      ['effect', true]
+    ]);
+  });
+
+  test('should classify parameter changes', () => {
+    const diff = differ.diff(
+      revise(properties => {
+        properties.parameters.allowedKinds = { type: 'Array', defaultValue: ['StorageV2'] };
+      }),
+      revise(properties => {
+        properties.parameters.effect = { type: 'String', allowedValues: ['Audit', 'Disabled', 'Modify'], defaultValue: 'Disabled' };
+        properties.parameters.exemptedNetworks = { type: 'Array', defaultValue: [] };
+        properties.parameters.workspaceId = { type: 'String' };
+      })
+    );
+
+    expect(diff.changes.map(change => [change.kind, change.breaking, change.description])).toEqual([
+      ['parameter-removed', true, "Parameter 'allowedKinds' was removed; assignments that set it will fail"],
+      ['parameter-allowedValues', true, "Parameter 'effect' allowed values changed: added \"Modify\"; removed \"Deny\""],
+      ['parameter-defaultValue', true, "Parameter 'effect' default changed from \"Audit\" to \"Disabled\""],
+      ['parameter-added', false, "Parameter 'exemptedNetworks' (Array) was added with default []"],
+      ['parameter-added', true, "Parameter 'workspaceId' (String) was added without a default; existing assignments must set it"]
+    ]);
+  });
+
+  test('should report effect detail changes', () => {
+    const diff = differ.diff(
+      revise(properties => {
+        properties.policyRule.then = { effect: 'modify', details: { roleDefinitionIds: ['/a'], operations: [] } };
+      }),
+      revise(properties => {
+        properties.policyRule.then = { effect: 'modify', details: { roleDefinitionIds: ['/a', '/b'], operations: [] } };
+      })
+    );
+
+    expect(diff.changes).toEqual([
+      expect.objectContaining({
+        kind: 'effect-details',
+        description: 'Effect details changed: roleDefinitionIds (assignment identities may need new role assignments)',
+        breaking: true
+      })
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Unit tests for PolicyEffectSimulator
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { PolicyEffectSimulator } from '../../src/services/policy/policy-effect-simulator.js';
+import type { AzurePolicyDefinition, PolicyResource, PolicyRule } from '../../src/types/policy.js';
+
+describe('PolicyEffectSimulator', () => {
+  let simulator: PolicyEffectSimulator;
+
+  beforeEach(() => {
+    simulator = new PolicyEffectSimulator();
+  });
+
+  const storageAccount: PolicyResource = {
+    name: 'mystorage',
+    type: 'Microsoft.Storage/storageAccounts',
+    location: 'eastus',
+    tags: { Environment: 'prod' },
+    properties: {
+      supportsHttpsTrafficOnly: false,
+      minimumTlsVersion: 'TLS1_2',
+      networkAcls: { defaultAction: 'Allow', ipRules: [{ value: '10.0.0.1', action: 'Allow' }] }
+    }
+  };
+
+  const definition = (policyRule: PolicyRule, parameters: Record<string, any> = {}): AzurePolicyDefinition => ({
+    properties: {
+      displayName: 'Test',
+      policyType: 'Custom',
+      mode: 'Indexed',
+      description: 'Test',
+      parameters,
+      policyRule
+    }
+  });
+
+  describe('modify', () => {
+    const modifyPolicy = definition({
+      if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+      then: {
+        effect: 'modify',
+        details: {
+          roleDefinitionIds: ['/providers/microsoft.authorization/roleDefinitions/17d1049b-9a84-46fb-8f53-869881c3d3ab'],
+          operations: [
+            { operation: 'addOrReplace', field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly', value: true },
+            { operation: 'add', field: 'Microsoft.Storage/storageAccounts/minimumTlsVersion', value: 'TLS1_0' },
+            { operation: 'add', field: "tags['CostCenter']", value: "[parameters('costCenter')]" },
+            { operation: 'remove', field: 'tags.environment' },
+            {
+              operation: 'addOrReplace',
+              field: 'Microsoft.Storage/storageAccounts/allowBlobPublicAccess',
+              value: false,
+              condition: "[greaterOrEquals(requestContext().apiVersion, '2019-04-01')]"
+            }
+          ]
+        }
+      }
+    }, { costCenter: { type: 'String', defaultValue: 'cc-42' } });
+
+    test('should apply operations and return the diff', () => {
+      const result = simulator.simulate(modifyPolicy, storageAccount, { requestContext: { apiVersion: '2023-01-01' } });
+
+      expect(result.applied).toBe(true);
+      expect(result.resource.properties?.supportsHttpsTrafficOnly).toBe(true);
+      expect(result.resource.properties?.allowBlobPublicAccess).toBe(false);
+      expect(result.resource.tags).toEqual({ CostCenter: 'cc-42' });
+      expect(result.changes).toEqual([
+        {
+          operation: 'addOrReplace',
+          field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly',
+          path: 'properties.supportsHttpsTrafficOnly',
+          before: false,
+          after: true
+        },
+        { operation: 'add', field: "tags['CostCenter']", path: 'tags.CostCenter', before: undefined, after: 'cc-42' },
+        { operation: 'remove', field: 'tags.environment', path: 'tags.Environment', before: 'prod', after: undefined },
+        {
+          operation: 'addOrReplace',
+          field: 'Microsoft.Storage/storageAccounts/allowBlobPublicAccess',
+          path: 'properties.allowBlobPublicAccess',
+          before: undefined,
+          after: false
+        }
+      ]);
+    });
+
+    test('should not overwrite existing values with add', () => {
+      const result = simulator.simulate(modifyPolicy, storageAccount, { requestContext: { apiVersion: '2023-01-01' } });
+
+      expect(result.resource.properties?.minimumTlsVersion).toBe('TLS1_2');
+      expect(result.skipped).toContainEqual(expect.objectContaining({
+        operation: 'add',
+        field: 'Microsoft.Storage/storageAccounts/minimumTlsVersion',
+        conflict: true
+      }));
+      expect(result.conflictEffect).toBe('audit');
+    });
+
+    test('should not report a policy as applied when no operation takes effect', () => {
+      const conditional = definition({
+        if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+        then: {
+          effect: 'modify',
+          details: {
+            roleDefinitionIds: [],
+            operations: [{ operation: 'addOrReplace', field: 'tags.owner', value: 'team', condition: '[equals(1, 2)]' }]
+          }
+        }
+      });
+
+      const result = simulator.simulate(conditional, storageAccount);
+
+      expect(result.applied).toBe(false);
+      expect(result.skipped).toEqual([{ operation: 'addOrReplace', field: 'tags.owner', reason: 'condition is false' }]);
+    });
+
+    test('should skip operations whose condition is false', () => {
+      const result = simulator.simulate(modifyPolicy, storageAccount, { requestContext: { apiVersion: '2018-01-01' } });
+
+      expect(result.resource.properties?.allowBlobPublicAccess).toBeUndefined();
+      expect(result.skipped).toContainEqual({
+        operation: 'addOrReplace',
+        field: 'Microsoft.Storage/storageAccounts/allowBlobPublicAccess',
+        reason: 'condition is false'
+      });
+    });
+
+    test('should leave the input resource untouched', () => {
+      simulator.simulate(modifyPolicy, storageAccount);
+
+      expect(storageAccount.properties?.supportsHttpsTrafficOnly).toBe(false);
+      expect(storageAccount.tags).toEqual({ Environment: 'prod' });
+    });
+
+    test('should not apply when the rule does not match', () => {
+      const vault: PolicyResource = { name: 'kv', type: 'Microsoft.KeyVault/vaults' };
+      const result = simulator.simulate(modifyPolicy, vault);
+
+      expect(result.applied).toBe(false);
+      expect(result.changes).toHaveLength(0);
+      expect(result.resource).toEqual(vault);
+    });
+  });
+
+  describe('append', () => {
+    test('should append array members and set missing fields', () => {
+      const appendPolicy = definition({
+        if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+        then: {
+          effect: 'append',
+          details: [
+            { field: 'Microsoft.Storage/storageAccounts/networkAcls.ipRules[*]', value: { value: '10.0.0.2', action: 'Allow' } },
+            { field: 'Microsoft.Storage/storageAccounts/networkAcls.bypass', value: 'AzureServices' },
+            { field: 'Microsoft.Storage/storageAccounts/networkAcls.defaultAction', value: 'Deny' }
+          ]
+        }
+      });
+
+      const result = simulator.simulate(appendPolicy, storageAccount);
+
+      expect(result.resource.properties?.networkAcls.ipRules).toHaveLength(2);
+      expect(result.changes.map(change => change.path)).toEqual([
+        'properties.networkAcls.ipRules',
+        'properties.networkAcls.bypass'
+      ]);
+      expect(result.skipped[0].reason).toContain('request would be denied');
+    });
+
+    test('should apply to every member of [*] paths', () => {
+      const appendPolicy = definition({
+        if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+        then: {
+          effect: 'append',
+          details: [{ field: 'Microsoft.Storage/storageAccounts/networkAcls.ipRules[*].note', value: 'reviewed' }]
+        }
+      });
+
+      const result = simulator.simulate(appendPolicy, storageAccount);
+
+      expect(result.changes).toEqual([expect.objectContaining({ path: 'properties.networkAcls.ipRules[0].note', after: 'reviewed' })]);
+    });
+
+    test('should reject append effects without details', () => {
+      const appendPolicy = definition({
+        if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+        then: { effect: 'append' }
+      });
+
+      expect(() => simulator.simulate(appendPolicy, storageAccount)).toThrow('Append effect requires');
+    });
+  });
+});
@@ -0,0 +1,440 @@
+/**
+ * Unit tests for PolicyEvaluator
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { PolicyEvaluator } from '../../src/services/policy/policy-evaluator.js';
+import type { AzurePolicyDefinition, PolicyCondition, PolicyResource, PolicyRule } from '../../src/types/policy.js';
+
+describe('PolicyEvaluator', () => {
+  let evaluator: PolicyEvaluator;
+
+  beforeEach(() => {
+    evaluator = new PolicyEvaluator();
+  });
+
+  const storageAccount: PolicyResource = {
+    name: 'mystorage',
+    type: 'Microsoft.Storage/storageAccounts',
+    location: 'eastus',
+    kind: 'StorageV2',
+    tags: { Environment: 'prod' },
+    sku: { name: 'Standard_LRS' },
+    properties: {
+      supportsHttpsTrafficOnly: false,
+      minimumTlsVersion: 'TLS1_0',
+      networkAcls: {
+        defaultAction: 'Allow',
+        ipRules: [{ value: '10.0.0.1' }, { value: '10.0.0.2' }]
+      }
+    }
+  };
+
+  const httpsRule: PolicyRule = {
+    if: {
+      allOf: [
+        { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+        { field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly', notEquals: true }
+      ]
+    },
+    then: { effect: 'deny' }
+  };
+
+  const check = (condition: PolicyCondition, resource: PolicyResource = storageAccount): boolean =>
+    evaluator.evaluateCondition(condition, resource);
+
+  describe('evaluateRule', () => {
+    test('should match a non-compliant resource and return the effect', () => {
+      const result = evaluator.evaluateRule(httpsRule, storageAccount);
+
+      expect(result.matched).toBe(true);
+      expect(result.effect).toBe('deny');
+      expect(result.evaluations).toHaveLength(2);
+      expect(result.evaluations[1]).toMatchObject({
+        operator: 'notEquals',
+        field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly',
+        actual: false,
+        result: true
+      });
+    });
+
+    test('should not match a compliant resource', () => {
+      const compliant = { ...storageAccount, properties: { supportsHttpsTrafficOnly: true } };
+
+      expect(evaluator.evaluateRule(httpsRule, compliant).matched).toBe(false);
+    });
+
+    test('should not apply aliases of another resource type', () => {
+      const vault: PolicyResource = { name: 'kv', type: 'Microsoft.KeyVault/vaults', properties: {} };
+
+      expect(check({ field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly', exists: true }, vault)).toBe(false);
+    });
+
+    test('should reject rules without a then clause', () => {
+      expect(() => evaluator.evaluateRule({ if: { field: 'type', equals: 'x' } } as PolicyRule, storageAccount))
+        .toThrow('Policy rule must contain if and then clauses');
+    });
+  });
+
+  describe('evaluatePolicy', () => {
+    const parameterizedPolicy: AzurePolicyDefinition = {
+      properties: {
+        displayName: 'Allowed locations',
+        policyType: 'Custom',
+        mode: 'Indexed',
+        description: 'Restrict resource locations',
+        parameters: {
+          allowedLocations: { type: 'Array' },
+          effect: { type: 'String', defaultValue: 'Audit' }
+        },
+        policyRule: {
+          if: { field: 'location', notIn: "[parameters('allowedLocations')]" as any },
+          then: { effect: "[parameters('effect')]" }
+        }
+      }
+    };
+
+    test('should resolve parameter values and defaults in conditions and effects', () => {
+      const result = evaluator.evaluatePolicy(parameterizedPolicy, storageAccount, {
+        parameters: { allowedLocations: { value: ['westeurope'] } }
+      });
+
+      expect(result.matched).toBe(true);
+      expect(result.effect).toBe('Audit');
+      expect(result.evaluations[0].expected).toEqual(['westeurope']);
+    });
+
+    test('should prefer assigned values over defaults', () => {
+      const result = evaluator.evaluatePolicy(parameterizedPolicy, storageAccount, {
+        parameters: { allowedLocations: ['eastus'], effect: 'Deny' }
+      });
+
+      expect(result.matched).toBe(false);
+      expect(result.effect).toBe('Deny');
+    });
+
+    test('should evaluate value conditions with field expressions', () => {
+      expect(check({ value: "[toLower(field('kind'))]", equals: 'storagev2' })).toBe(true);
+      expect(check({ field: "[concat('tags[', 'Environment', ']')]", equals: 'prod' })).toBe(true);
+    });
+
+    test('should skip resource types without tags and location in Indexed mode', () => {
+      const context = { parameters: { allowedLocations: ['westeurope'] } };
+      const container = { name: 'sa/default/logs', type: 'Microsoft.Storage/storageAccounts/blobServices/containers' };
+      const allMode = { properties: { ...parameterizedPolicy.properties, mode: 'All' } };
+
+      expect(evaluator.evaluatePolicy(parameterizedPolicy, container, context)).toMatchObject({
+        matched: false,
+        effect: 'Audit',
+        exclusion: {
+          kind: 'notApplicable',
+          reason: 'Indexed mode only evaluates resource types that support tags and location; ' +
+            'Microsoft.Storage/storageAccounts/blobServices/containers does not'
+        }
+      });
+      expect(evaluator.evaluatePolicy(allMode, container, context).exclusion).toBeUndefined();
+      expect(evaluator.evaluatePolicy(parameterizedPolicy, storageAccount, context).exclusion).toBeUndefined();
+    });
+
+    test('should report data-plane modes as not evaluable', () => {
+      const keyVaultData = { properties: { ...parameterizedPolicy.properties, mode: 'Microsoft.KeyVault.Data' } };
+      const result = evaluator.evaluatePolicy(keyVaultData, { ...storageAccount, type: 'Microsoft.KeyVault/vaults' }, {
+        parameters: { allowedLocations: ['westeurope'] }
+      });
+
+      expect(result.matched).toBe(false);
+      expect(result.exclusion?.kind).toBe('notEvaluable');
+      expect(result.exclusion?.reason).toMatch(/^Microsoft\.KeyVault\.Data policies evaluate .+ not evaluable from a template$/);
+    });
+  });
+
+  describe('field resolution', () => {
+    test('should resolve built-in fields case-insensitively', () => {
+      expect(check({ field: 'type', equals: 'microsoft.storage/STORAGEACCOUNTS' })).toBe(true);
+      expect(check({ field: 'location', equals: 'EastUS' })).toBe(true);
+      expect(check({ field: 'kind', equals: 'StorageV2' })).toBe(true);
+    });
+
+    test('should resolve tag fields in all supported forms', () => {
+      expect(check({ field: "tags['Environment']", equals: 'prod' })).toBe(true);
+      expect(check({ field: 'tags[environment]', equals: 'prod' })).toBe(true);
+      expect(check({ field: 'tags.Environment', equals: 'prod' })).toBe(true);
+      expect(check({ field: 'tags', containsKey: 'environment' })).toBe(true);
+    });
+
+    test('should read the last name segment from name and the full child name from fullName', () => {
+      const database: PolicyResource = { name: 'master', fullName: 'sqlsrv/master', type: 'Microsoft.Sql/servers/databases' };
+
+      expect(check({ field: 'name', notEquals: 'master' }, database)).toBe(false);
+      expect(check({ field: 'name', equals: 'master' }, database)).toBe(true);
+      expect(check({ field: 'fullName', equals: 'sqlsrv/master' }, database)).toBe(true);
+      expect(check({ field: 'fullName', equals: 'mystorage' })).toBe(true);
+    });
+
+    test('should only leave fullName undetermined below an unresolved parent name', () => {
+      const database: PolicyResource = { name: 'appdb', fullName: "['${serverName}/appdb']", type: 'Microsoft.Sql/servers/databases' };
+      const rule = (field: string): PolicyRule => ({ if: { field, like: '*appdb' }, then: { effect: 'audit' } });
+
+      expect(evaluator.evaluateRule(rule('name'), database)).toMatchObject({ matched: true });
+      expect(evaluator.evaluateRule(rule('name'), database)).not.toHaveProperty('unresolved');
+      expect(evaluator.evaluateRule(rule('fullName'), database)).toMatchObject({ matched: false, unresolved: ['fullName'] });
+    });
+
+    test('should map top-level aliases outside of properties', () => {
+      expect(check({ field: 'Microsoft.Storage/storageAccounts/sku.name', equals: 'Standard_LRS' })).toBe(true);
+      expect(check({ field: 'Microsoft.Storage/storageAccounts/networkAcls.defaultAction', equals: 'Allow' })).toBe(true);
+    });
+  });
+
+  describe('operators', () => {
+    test('should support like and notLike wildcards', () => {
+      expect(check({ field: 'name', like: 'my*' })).toBe(true);
+      expect(check({ field: 'name', notLike: '*store' })).toBe(true);
+    });
+
+    test('should support match patterns', () => {
+      const vm: PolicyResource = { name: 'vm01', type: 'Microsoft.Compute/virtualMachines' };
+
+      expect(check({ field: 'name', match: '??##' }, vm)).toBe(true);
+      expect(check({ field: 'name', match: 'VM##' }, vm)).toBe(false);
+      expect(check({ field: 'name', matchInsensitively: 'VM##' }, vm)).toBe(true);
+      expect(check({ field: 'name', notMatch: '###' }, vm)).toBe(true);
+    });
+
+    test('should support in, notIn, contains and notContains', () => {
+      expect(check({ field: 'location', in: ['westus', 'eastus'] })).toBe(true);
+      expect(check({ field: 'location', notIn: ['westus'] })).toBe(true);
+      expect(check({ field: 'name', contains: 'STOR' })).toBe(true);
+      expect(check({ field: 'name', notContains: 'vault' })).toBe(true);
+    });
+
+    test('should compare numbers and strings', () => {
+      expect(check({ value: 5, greater: 3 })).toBe(true);
+      expect(check({ value: 5, lessOrEquals: 5 })).toBe(true);
+      expect(check({ value: '2024-01-01', less: '2025-01-01' })).toBe(true);
+      expect(check({ field: 'Microsoft.Storage/storageAccounts/allowBlobPublicAccess', greater: 0 })).toBe(false);
+    });
+
+    test('should evaluate exists against missing fields', () => {
+      expect(check({ field: 'Microsoft.Storage/storageAccounts/minimumTlsVersion', exists: true })).toBe(true);
+      expect(check({ field: 'Microsoft.Storage/storageAccounts/allowBlobPublicAccess', exists: false })).toBe(true);
+    });
+
+    test('should treat negated operators as true for missing fields', () => {
+      expect(check({ field: 'Microsoft.Storage/storageAccounts/allowBlobPublicAccess', equals: false })).toBe(false);
+      expect(check({ field: 'Microsoft.Storage/storageAccounts/allowBlobPublicAccess', notEquals: false })).toBe(true);
+    });
+
+    test('should throw for conditions without an operator', () => {
+      expect(() => check({ field: 'name' })).toThrow('has no supported operator');
+    });
+  });
+
+  describe('unresolved template expressions', () => {
+    const templateResource: PolicyResource = {
+      ...storageAccount,
+      location: '[location]',
+      tags: '[tags]' as any,
+      properties: { ...storageAccount.properties, minimumTlsVersion: '[tls2]', networkAcls: '[networkAcls]' }
+    };
+    const evaluate = (condition: PolicyCondition) =>
+      evaluator.evaluateRule({ if: condition, then: { effect: 'deny' } }, templateResource);
+
+    test('should leave conditions on unresolved values undetermined', () => {
+      const result = evaluate({ field: 'Microsoft.Storage/storageAccounts/minimumTlsVersion', notEquals: 'TLS1_2' });
+
+      expect(result.matched).toBe(false);
+      expect(result.unresolved).toEqual(['Microsoft.Storage/storageAccounts/minimumTlsVersion']);
+      expect(result.evaluations[0]).toMatchObject({ actual: '[tls2]', result: false, unresolved: true });
+      expect(evaluate({ field: 'location', notIn: ['westeurope'] }).unresolved).toEqual(['location']);
+      expect(evaluate({ field: 'tags[env]', exists: false }).unresolved).toEqual(['tags[env]']);
+      expect(evaluate({ field: 'Microsoft.Storage/storageAccounts/networkAcls.defaultAction', equals: 'Allow' }).unresolved)
+        .toEqual(['Microsoft.Storage/storageAccounts/networkAcls.defaultAction']);
+    });
+
+    test('should decide conditions that do not depend on the unresolved values', () => {
+      const allOf = evaluate({
+        allOf: [
+          { field: 'Microsoft.Storage/storageAccounts/minimumTlsVersion', notEquals: 'TLS1_2' },
+          { field: 'kind', equals: 'BlobStorage' }
+        ]
+      });
+      const anyOf = evaluate({
+        anyOf: [
+          { field: 'location', notIn: ['westeurope'] },
+          { field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly', equals: false }
+        ]
+      });
+
+      expect(allOf.matched).toBe(false);
+      expect(allOf).not.toHaveProperty('unresolved');
+      expect(anyOf.matched).toBe(true);
+      expect(anyOf).not.toHaveProperty('unresolved');
+      expect(evaluate({ not: { field: 'location', equals: 'eastus' } }).unresolved).toEqual(['location']);
+      expect(evaluate({ count: { field: 'Microsoft.Storage/storageAccounts/networkAcls.ipRules[*]' }, greater: 0 }).unresolved)
+        .toEqual(['Microsoft.Storage/storageAccounts/networkAcls.ipRules[*]']);
+    });
+  });
+
+  describe('logical operators and count', () => {
+    test('should combine anyOf and not', () => {
+      expect(check({
+        anyOf: [
+          { field: 'location', equals: 'westus' },
+          { not: { field: 'name', equals: 'other' } }
+        ]
+      })).toBe(true);
+    });
+
+    test('should count array members with a where clause', () => {
+      const condition: PolicyCondition = {
+        count: {
+          field: 'Microsoft.Storage/storageAccounts/networkAcls.ipRules[*]',
+          where: {
+            field: 'Microsoft.Storage/storageAccounts/networkAcls.ipRules[*].value',
+            equals: '10.0.0.1'
+          }
+        },
+        equals: 1
+      };
+
+      expect(check(condition)).toBe(true);
+    });
+
+    test('should resolve nested property paths of catalogued array aliases', () => {
+      const nsg: PolicyResource = {
+        name: 'nsg',
+        type: 'Microsoft.Network/networkSecurityGroups',
+        properties: {
+          securityRules: [
+            { name: 'rdp', properties: { access: 'Allow', destinationPortRange: '3389', sourceAddressPrefix: '*' } },
+            { name: 'https', properties: { access: 'Allow', destinationPortRange: '443', sourceAddressPrefix: '10.0.0.0/8' } }
+          ]
+        }
+      };
+
+      expect(check({
+        count: {
+          field: 'Microsoft.Network/networkSecurityGroups/securityRules[*]',
+          where: {
+            allOf: [
+              { field: 'Microsoft.Network/networkSecurityGroups/securityRules[*].destinationPortRange', equals: '3389' },
+              { field: 'Microsoft.Network/networkSecurityGroups/securityRules[*].sourceAddressPrefix', equals: '*' }
+            ]
+          }
+        },
+        greater: 0
+      }, nsg)).toBe(true);
+    });
+
+    test('should count all array members without a where clause', () => {
+      expect(check({
+        count: { field: 'Microsoft.Storage/storageAccounts/networkAcls.ipRules[*]', greater: 1 }
+      })).toBe(true);
+    });
+  });
+
+  describe('array aliases', () => {
+    const nsg: PolicyResource = {
+      name: 'nsg',
+      type: 'Microsoft.Network/networkSecurityGroups',
+      properties: {
+        securityRules: [
+          {
+            name: 'rdp',
+            properties: {
+              access: 'Allow',
+              direction: 'Inbound',
+              destinationPortRange: '3389',
+              sourceAddressPrefix: 'Internet'
+            }
+          },
+          {
+            name: 'web',
+            properties: {
+              access: 'Allow',
+              direction: 'Inbound',
+              destinationPortRanges: ['80', '443'],
+              sourceAddressPrefix: '*'
+            }
+          }
+        ]
+      }
+    };
+    const rules = 'Microsoft.Network/networkSecurityGroups/securityRules[*]';
+
+    test('should require every array member to match outside of count', () => {
+      expect(check({ field: `${rules}.access`, equals: 'Allow' }, nsg)).toBe(true);
+      expect(check({ field: `${rules}.sourceAddressPrefix`, equals: '*' }, nsg)).toBe(false);
+      expect(check({ field: `${rules}.destinationPortRange`, exists: true }, nsg)).toBe(false);
+    });
+
+    test('should treat conditions on empty arrays as matching', () => {
+      const empty: PolicyResource = { ...nsg, properties: { securityRules: [] } };
+
+      expect(check({ field: `${rules}.access`, equals: 'Deny' }, empty)).toBe(true);
+    });
+
+    test('should flatten nested arrays', () => {
+      expect(check({ field: `${rules}.destinationPortRanges[*]`, in: ['80', '443'] }, nsg)).toBe(true);
+      expect(check({ count: { field: `${rules}.destinationPortRanges[*]` }, equals: 2 }, nsg)).toBe(true);
+    });
+
+    test('should evaluate the NSG RDP from internet policy', () => {
+      const rdpFromInternet: PolicyCondition = {
+        count: {
+          field: rules,
+          where: {
+            allOf: [
+              { field: `${rules}.access`, equals: 'Allow' },
+              { field: `${rules}.direction`, equals: 'Inbound' },
+              {
+                anyOf: [
+                  { field: `${rules}.destinationPortRange`, equals: '3389' },
+                  {
+                    count: {
+                      field: `${rules}.destinationPortRanges[*]`,
+                      where: { value: `[current('${rules}.destinationPortRanges[*]')]`, equals: '3389' }
+                    },
+                    greater: 0
+                  }
+                ]
+              },
+              { field: `${rules}.sourceAddressPrefix`, in: ['*', 'Internet'] }
+            ]
+          }
+        },
+        greater: 0
+      };
+
+      expect(check(rdpFromInternet, nsg)).toBe(true);
+
+      const web: PolicyResource = { ...nsg, properties: { securityRules: [nsg.properties!.securityRules[1]] } };
+      expect(check(rdpFromInternet, web)).toBe(false);
+    });
+
+    test('should evaluate value counts with named current() references', () => {
+      expect(check({
+        count: {
+          value: ['Standard_LRS', 'Standard_GRS'],
+          name: 'sku',
+          where: { field: 'Microsoft.Storage/storageAccounts/sku.name', equals: "[current('sku')]" }
+        },
+        equals: 1
+      })).toBe(true);
+
+      expect(evaluator.evaluateCondition({
+        count: { value: "[parameters('ports')]", where: { value: '[current()]', greater: 1000 } },
+        equals: 1
+      }, storageAccount, { parameters: { ports: [22, 3389] } })).toBe(true);
+    });
+
+    test('should reject value counts that do not resolve to arrays', () => {
+      expect(() => check({ count: { value: 'abc', name: 'x' }, equals: 1 })).toThrow("Count value 'x' must resolve to an array");
+    });
+
+    test('should reject current() outside of count', () => {
+      expect(() => check({ value: '[current()]', equals: 1 })).toThrow('current() can only be used inside a count expression');
+    });
+  });
+});
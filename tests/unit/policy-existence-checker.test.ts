@@ -0,0 +1,209 @@
+/**
+ * Unit tests for PolicyExistenceChecker
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { PolicyExistenceChecker } from '../../src/services/policy/policy-existence-checker.js';
+import { BicepResourceParser } from '../../src/services/templates/bicep-resource-parser.js';
+import type { AzurePolicyDefinition, PolicyRule } from '../../src/types/policy.js';
+import type { TemplateResource } from '../../src/types/templates.js';
+
+describe('PolicyExistenceChecker', () => {
+  let checker: PolicyExistenceChecker;
+  let parser: BicepResourceParser;
+
+  beforeEach(() => {
+    checker = new PolicyExistenceChecker();
+    parser = new BicepResourceParser();
+  });
+
+  const definition = (policyRule: PolicyRule, parameters: Record<string, any> = {}): AzurePolicyDefinition => ({
+    properties: {
+      displayName: 'Test',
+      policyType: 'Custom',
+      mode: 'Indexed',
+      description: 'Test',
+      parameters,
+      policyRule
+    }
+  });
+
+  const diagnosticsPolicy = definition({
+    if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+    then: {
+      effect: "[parameters('effect')]",
+      details: {
+        type: 'Microsoft.Insights/diagnosticSettings',
+        existenceCondition: {
+          allOf: [
+            { field: 'Microsoft.Insights/diagnosticSettings/logs.enabled', equals: 'true' },
+            { field: 'Microsoft.Insights/diagnosticSettings/workspaceId', equals: "[parameters('workspaceId')]" }
+          ]
+        }
+      }
+    }
+  }, {
+    effect: { type: 'String', defaultValue: 'AuditIfNotExists' },
+    workspaceId: { type: 'String', defaultValue: '/workspaces/central' }
+  });
+
+  const template = (diagnostics: string): TemplateResource[] => parser.parseResources(`
+resource sa 'Microsoft.Storage/storageAccounts@2023-01-01' = {
+  name: 'mystorage'
+  location: 'eastus'
+
+  resource blobService 'blobServices' = {
+    name: 'default'
+    properties: {
+      deleteRetentionPolicy: {
+        enabled: true
+      }
+    }
+  }
+}
+
+resource other 'Microsoft.Storage/storageAccounts@2023-01-01' = {
+  name: 'otherstorage'
+  location: 'eastus'
+}
+${diagnostics}
+`);
+
+  const check = (policy: AzurePolicyDefinition, resources: TemplateResource[], symbolicName = 'sa') =>
+    checker.check(policy, resources.find(resource => resource.symbolicName === symbolicName)!, resources);
+
+  test('should be compliant when an extension resource satisfies the existence condition', () => {
+    const result = check(diagnosticsPolicy, template(`
+resource diag 'Microsoft.Insights/diagnosticSettings@2021-05-01-preview' = {
+  name: 'diag'
+  scope: sa
+  properties: {
+    workspaceId: '/workspaces/central'
+    logs: [
+      {
+        categoryGroup: 'allLogs'
+        enabled: true
+      }
+    ]
+  }
+}`));
+
+    expect(result).toMatchObject({
+      effect: 'AuditIfNotExists',
+      relatedType: 'Microsoft.Insights/diagnosticSettings',
+      satisfiedBy: 'diag',
+      compliant: true
+    });
+  });
+
+  test('should report related resources that do not satisfy the existence condition', () => {
+    const result = check(diagnosticsPolicy, template(`
+resource diag 'Microsoft.Insights/diagnosticSettings@2021-05-01-preview' = {
+  name: 'diag'
+  scope: sa
+  properties: {
+    workspaceId: '/workspaces/other'
+    logs: [
+      {
+        categoryGroup: 'allLogs'
+        enabled: true
+      }
+    ]
+  }
+}`))!;
+
+    expect(result.compliant).toBe(false);
+    expect(result.satisfiedBy).toBeUndefined();
+    expect(result.candidates).toEqual([expect.objectContaining({ symbolicName: 'diag', matched: false })]);
+    expect(result.candidates[0].evaluations).toContainEqual(expect.objectContaining({
+      field: 'Microsoft.Insights/diagnosticSettings/workspaceId',
+      actual: '/workspaces/other',
+      result: false
+    }));
+  });
+
+  test('should only consider extension resources scoped to the matched resource', () => {
+    const resources = template(`
+resource diag 'Microsoft.Insights/diagnosticSettings@2021-05-01-preview' = {
+  name: 'diag'
+  scope: other
+  properties: {
+    workspaceId: '/workspaces/central'
+    logs: [
+      {
+        enabled: true
+      }
+    ]
+  }
+}`);
+
+    expect(check(diagnosticsPolicy, resources)).toMatchObject({ candidates: [], compliant: false });
+    expect(check(diagnosticsPolicy, resources, 'other')?.compliant).toBe(true);
+  });
+
+  test('should match child resources by parent and details.name', () => {
+    const childPolicy = definition({
+      if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+      then: {
+        effect: 'deployIfNotExists',
+        details: {
+          type: 'Microsoft.Storage/storageAccounts/blobServices',
+          name: 'default',
+          existenceCondition: {
+            field: 'Microsoft.Storage/storageAccounts/blobServices/deleteRetentionPolicy.enabled',
+            equals: true
+          }
+        }
+      }
+    });
+    const resources = template('');
+
+    expect(check(childPolicy, resources)).toMatchObject({ relatedName: 'default', satisfiedBy: 'blobService', compliant: true });
+    expect(check(childPolicy, resources, 'other')).toMatchObject({ candidates: [], compliant: false });
+  });
+
+  test('should resolve field() in details and existence condition against the matched resource', () => {
+    const namedPolicy = definition({
+      if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+      then: {
+        effect: 'auditIfNotExists',
+        details: {
+          type: 'Microsoft.Network/privateEndpoints',
+          name: "[concat(field('name'), '-pe')]",
+          existenceCondition: {
+            field: 'location',
+            equals: "[field('location')]"
+          }
+        }
+      }
+    });
+    const resources = template(`
+resource pe 'Microsoft.Network/privateEndpoints@2023-04-01' = {
+  name: 'mystorage-pe'
+  location: 'eastus'
+}`);
+
+    expect(check(namedPolicy, resources)).toMatchObject({ relatedName: 'mystorage-pe', satisfiedBy: 'pe' });
+    expect(check(namedPolicy, resources, 'other')).toMatchObject({ relatedName: 'otherstorage-pe', compliant: false });
+  });
+
+  test('should return undefined for other effects or resources the rule does not match', () => {
+    const resources = template('');
+    const auditPolicy = definition({
+      if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+      then: { effect: 'audit' }
+    });
+
+    expect(check(auditPolicy, resources)).toBeUndefined();
+    expect(check(diagnosticsPolicy, resources, 'blobService')).toBeUndefined();
+  });
+
+  test('should reject existence effects without details.type', () => {
+    const policy = definition({
+      if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+      then: { effect: 'auditIfNotExists' }
+    });
+
+    expect(() => check(policy, template(''))).toThrow('auditIfNotExists effect requires details.type');
+  });
+});
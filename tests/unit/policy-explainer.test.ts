@@ -0,0 +1,113 @@
+/**
+ * Unit tests for PolicyExplainer
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { PolicyExplainer, explainPolicy } from '../../src/services/policy/policy-explainer.js';
+import type { AzurePolicyDefinition } from '../../src/types/policy.js';
+
+describe('PolicyExplainer', () => {
+  let explainer: PolicyExplainer;
+
+  beforeEach(() => {
+    explainer = new PolicyExplainer();
+  });
+
+  const httpsPolicy: AzurePolicyDefinition = {
+    properties: {
+      displayName: 'Secure transfer to storage accounts should be enabled',
+      policyType: 'BuiltIn',
+      mode: 'Indexed',
+      description: 'Audit requirement of secure transfer in your storage account',
+      parameters: {
+        effect: { type: 'String', allowedValues: ['Audit', 'Deny', 'Disabled'], defaultValue: 'Audit' }
+      },
+      policyRule: {
+        if: {
+          allOf: [
+            { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+            { field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly', notEquals: true }
+          ]
+        },
+        then: { effect: "[parameters('effect')]" }
+      }
+    }
+  };
+
+  test('should explain resource type, conditions and a parameterized effect', () => {
+    expect(explainer.explain(httpsPolicy)).toBe(
+      'Applies to storage accounts where `supportsHttpsTrafficOnly` is not true; effect is the `effect` parameter (default Audit)'
+    );
+    expect(explainPolicy(httpsPolicy)).toBe(explainer.explain(httpsPolicy));
+  });
+
+  test('should group nested allOf, anyOf and not conditions', () => {
+    const explanation = explainer.explainRule({
+      if: {
+        allOf: [
+          { field: 'type', in: ['Microsoft.Sql/servers', 'Microsoft.DBforPostgreSQL/flexibleServers'] },
+          {
+            anyOf: [
+              { field: 'tags[environment]', exists: false },
+              { not: { field: 'location', in: "[parameters('allowedLocations')]" as any } }
+            ]
+          }
+        ]
+      },
+      then: { effect: 'Deny' }
+    }, { allowedLocations: { type: 'Array', defaultValue: ['westeurope', 'northeurope'] } });
+
+    expect(explanation).toBe(
+      'Applies to Sql servers or flexible servers where (tag \'environment\' does not exist or ' +
+      'not (`location` is one of the `allowedLocations` parameter (default westeurope, northeurope))); effect is Deny'
+    );
+  });
+
+  test('should explain count expressions and value conditions', () => {
+    const explanation = explainer.explainRule({
+      if: {
+        allOf: [
+          { field: 'type', equals: 'Microsoft.Network/networkSecurityGroups' },
+          {
+            count: {
+              field: 'Microsoft.Network/networkSecurityGroups/securityRules[*]',
+              where: {
+                allOf: [
+                  { field: 'Microsoft.Network/networkSecurityGroups/securityRules[*].access', equals: 'Allow' },
+                  { field: 'Microsoft.Network/networkSecurityGroups/securityRules[*].destinationPortRange', equals: '3389' }
+                ]
+              }
+            },
+            greater: 0
+          },
+          { value: "[toLower(field('name'))]", notLike: 'test-*' }
+        ]
+      },
+      then: { effect: 'Audit' }
+    });
+
+    expect(explanation).toBe(
+      'Applies to network security groups where the number of `securityRules[*]` entries where ' +
+      "`securityRules[*].access` is 'Allow' and `securityRules[*].destinationPortRange` is '3389' is greater than 0 " +
+      "and `[toLower(field('name'))]` does not match the pattern 'test-*'; effect is Audit"
+    );
+  });
+
+  test('should explain existence conditions of auditIfNotExists policies', () => {
+    const explanation = explainer.explainRule({
+      if: { field: 'type', equals: 'Microsoft.KeyVault/vaults' },
+      then: {
+        effect: 'AuditIfNotExists',
+        details: {
+          type: 'Microsoft.Insights/diagnosticSettings',
+          existenceCondition: { field: 'Microsoft.Insights/diagnosticSettings/logs.enabled', equals: 'true' }
+        }
+      }
+    });
+
+    expect(explanation).toBe(
+      'Applies to KeyVault vaults; effect is AuditIfNotExists, which requires a related ' +
+      "Microsoft.Insights/diagnosticSettings resource where `logs.enabled` is 'true'"
+    );
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for PolicyExpressionEvaluator
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { PolicyExpressionEvaluator } from '../../src/services/policy/policy-expression.js';
+
+describe('PolicyExpressionEvaluator', () => {
+  let expressions: PolicyExpressionEvaluator;
+
+  beforeEach(() => {
+    expressions = new PolicyExpressionEvaluator();
+  });
+
+  describe('isExpression', () => {
+    test('should recognise bracketed expressions but not escaped literals', () => {
+      expect(expressions.isExpression("[parameters('effect')]")).toBe(true);
+      expect(expressions.isExpression('[[notAnExpression]')).toBe(false);
+      expect(expressions.isExpression('Audit')).toBe(false);
+      expect(expressions.isExpression(42)).toBe(false);
+    });
+  });
+
+  describe('evaluate', () => {
+    test('should resolve parameters case-insensitively', () => {
+      expect(expressions.evaluate("[parameters('Effect')]", { parameters: { effect: 'Deny' } })).toBe('Deny');
+    });
+
+    test('should throw for parameters without a value', () => {
+      expect(() => expressions.evaluate("[parameters('missing')]", { parameters: {} }))
+        .toThrow("Parameter 'missing' has no value");
+    });
+
+    test('should resolve fields through the context callback', () => {
+      const result = expressions.evaluate("[toLower(field('name'))]", {
+        resolveField: field => field === 'name' ? 'MyStorage' : undefined
+      });
+
+      expect(result).toBe('mystorage');
+    });
+
+    test('should evaluate string functions', () => {
+      expect(expressions.evaluate("[concat('tags[', parameters('tag'), ']')]", { parameters: { tag: 'env' } }))
+        .toBe('tags[env]');
+      expect(expressions.evaluate("[toUpper('abc')]")).toBe('ABC');
+      expect(expressions.evaluate("[split('a/b/c', '/')[1]]")).toBe('b');
+      expect(expressions.evaluate("[replace('a-b', '-', '_')]")).toBe('a_b');
+      expect(expressions.evaluate("[substring('abcdef', 1, 3)]")).toBe('bcd');
+      expect(expressions.evaluate("[length('abc')]")).toBe(3);
+      expect(expressions.evaluate("['it''s']")).toBe("it's");
+    });
+
+    test('should only evaluate the selected branch of if()', () => {
+      const result = expressions.evaluate(
+        "[if(empty(field('subnet')), 'none', split(field('subnet'), '/')[8])]",
+        { resolveField: () => undefined }
+      );
+
+      expect(result).toBe('none');
+    });
+
+    test('should evaluate logical, comparison and collection functions', () => {
+      expect(expressions.evaluate("[and(equals(1, 1), not(false()))]")).toBe(true);
+      expect(expressions.evaluate("[or(greater(1, 2), less(1, 2))]")).toBe(true);
+      expect(expressions.evaluate("[contains(createArray('a', 'b'), 'B')]")).toBe(true);
+      expect(expressions.evaluate("[union(createArray('a'), createArray('a', 'b'))]")).toEqual(['a', 'b']);
+    });
+
+    test('should resolve template variables and format strings', () => {
+      expect(expressions.evaluate("[format('{0}-{1}', variables('Prefix'), 7)]", { variables: { prefix: 'sa' } }))
+        .toBe('sa-7');
+      expect(() => expressions.evaluate("[variables('missing')]")).toThrow("Variable 'missing' is not defined");
+    });
+
+    test('should expose request context properties', () => {
+      expect(expressions.evaluate('[requestContext().apiVersion]', { requestContext: { apiVersion: '2023-01-01' } }))
+        .toBe('2023-01-01');
+    });
+
+    test('should reject unsupported functions and malformed expressions', () => {
+      expect(() => expressions.evaluate("[reference('x')]")).toThrow('Unsupported policy function: reference');
+      expect(() => expressions.evaluate("[concat('a']")).toThrow("Expected ',' or ')' in call to concat");
+      expect(() => expressions.evaluate('Audit')).toThrow('Not a policy expression');
+    });
+  });
+
+  describe('resolve', () => {
+    test('should resolve expressions nested in arrays and objects', () => {
+      const result = expressions.resolve(
+        { effect: "[parameters('effect')]", list: ["[parameters('location')]", 'static', '[[literal]'] },
+        { parameters: { effect: 'Audit', location: 'eastus' } }
+      );
+
+      expect(result).toEqual({ effect: 'Audit', list: ['eastus', 'static', '[literal]'] });
+    });
+  });
+});
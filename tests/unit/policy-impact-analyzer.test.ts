@@ -0,0 +1,210 @@
+/**
+ * Unit tests for PolicyImpactAnalyzer
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PolicyImpactAnalyzer } from '../../src/services/policy/policy-impact-analyzer.js';
+import type { AzurePolicyDefinition, InventoryResource, PolicyApplication } from '../../src/types/policy.js';
+
+describe('PolicyImpactAnalyzer', () => {
+  let analyzer: PolicyImpactAnalyzer;
+  let tempDir: string;
+
+  const storageAccount = (name: string, resourceGroup: string, httpsOnly: boolean): InventoryResource => ({
+    id: `/subscriptions/sub/resourceGroups/${resourceGroup}/providers/Microsoft.Storage/storageAccounts/${name}`,
+    name,
+    type: 'microsoft.storage/storageaccounts',
+    location: 'westeurope',
+    resourceGroup,
+    subscriptionId: 'sub',
+    tags: {},
+    properties: { supportsHttpsTrafficOnly: httpsOnly }
+  });
+
+  const inventory: InventoryResource[] = [
+    storageAccount('saprod1', 'rg-prod', false),
+    storageAccount('saprod2', 'rg-prod', true),
+    storageAccount('sadev', 'rg-dev', false),
+    {
+      id: '/subscriptions/sub/resourceGroups/rg-dev/providers/Microsoft.KeyVault/vaults/kv-dev',
+      name: 'kv-dev',
+      type: 'microsoft.keyvault/vaults',
+      location: 'westeurope',
+      resourceGroup: 'rg-dev',
+      tags: {},
+      properties: { enablePurgeProtection: false }
+    }
+  ];
+
+  const definition = (displayName: string, rule: any, mode = 'Indexed'): AzurePolicyDefinition => ({
+    properties: { displayName, policyType: 'Custom', mode, description: displayName, policyRule: rule }
+  });
+
+  const httpsPolicy: PolicyApplication = {
+    name: 'Secure transfer',
+    definition: definition('Secure transfer', {
+      if: {
+        allOf: [
+          { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+          { field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly', notEquals: true }
+        ]
+      },
+      then: { effect: "[parameters('effect')]" }
+    }),
+    parameters: { effect: 'Deny' }
+  };
+
+  beforeEach(() => {
+    analyzer = new PolicyImpactAnalyzer();
+    tempDir = mkdtempSync(join(tmpdir(), 'policy-impact-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should count denied resources by resource group and type', () => {
+    const report = analyzer.analyze('Secure transfer', [httpsPolicy], inventory);
+
+    expect(report).toMatchObject({
+      totalResources: 4,
+      impactedResources: 2,
+      summary: { denied: 2, audited: 0, modified: 0 },
+      notEvaluable: []
+    });
+    expect(report.byResourceGroup).toEqual([
+      { key: 'rg-dev', total: 2, counts: { denied: 1, audited: 0, modified: 0 } },
+      { key: 'rg-prod', total: 2, counts: { denied: 1, audited: 0, modified: 0 } }
+    ]);
+    expect(report.byResourceType).toEqual([
+      { key: 'microsoft.storage/storageaccounts', total: 3, counts: { denied: 2, audited: 0, modified: 0 } }
+    ]);
+    expect(report.samples.denied.map(sample => sample.name)).toEqual(['saprod1', 'sadev']);
+    expect(report.samples.denied[0].policies).toEqual([{
+      policy: 'Secure transfer',
+      reason: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly notEquals true (actual: false)'
+    }]);
+  });
+
+  test('should combine audited and modified outcomes and limit samples', () => {
+    const tagPolicy: PolicyApplication = {
+      name: 'Add environment tag',
+      definition: definition('Add environment tag', {
+        if: { field: 'tags[environment]', exists: false },
+        then: {
+          effect: 'modify',
+          details: {
+            roleDefinitionIds: ['/providers/Microsoft.Authorization/roleDefinitions/b24988ac-6180-42a0-ab88-20f7382dd24c'],
+            operations: [{ operation: 'add', field: 'tags[environment]', value: 'unknown' }]
+          }
+        }
+      })
+    };
+    const auditPolicy = { ...httpsPolicy, name: 'Audit secure transfer', parameters: { effect: 'Audit' } };
+
+    const report = analyzer.analyze('Initiative', [auditPolicy, tagPolicy], inventory, { sampleSize: 1 });
+
+    expect(report.summary).toEqual({ denied: 0, audited: 2, modified: 4 });
+    expect(report.impactedResources).toBe(4);
+    expect(report.samples.audited).toHaveLength(1);
+    expect(report.samples.modified).toHaveLength(1);
+  });
+
+  test('should only satisfy existence conditions with extension resources of the same resource', () => {
+    const diagnosticsPolicy: PolicyApplication = {
+      name: 'Storage diagnostics',
+      definition: definition('Storage diagnostics', {
+        if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+        then: { effect: 'AuditIfNotExists', details: { type: 'Microsoft.Insights/diagnosticSettings' } }
+      }, 'All')
+    };
+    const diagnostics: InventoryResource = {
+      id: `${inventory[0].id}/providers/Microsoft.Insights/diagnosticSettings/logs`,
+      name: 'logs',
+      type: 'microsoft.insights/diagnosticsettings',
+      resourceGroup: 'rg-prod',
+      properties: {}
+    };
+
+    const report = analyzer.analyze('Storage diagnostics', [diagnosticsPolicy], [...inventory, diagnostics]);
+
+    expect(report.summary).toEqual({ denied: 0, audited: 2, modified: 0 });
+    expect(report.samples.audited.map(sample => sample.name)).toEqual(['saprod2', 'sadev']);
+  });
+
+  test('should read full names of child resources from their ids', () => {
+    const database = (name: string): InventoryResource => ({
+      id: `/subscriptions/sub/resourceGroups/rg-prod/providers/Microsoft.Sql/servers/sqlsrv/databases/${name}`,
+      name,
+      type: 'microsoft.sql/servers/databases',
+      location: 'westeurope',
+      resourceGroup: 'rg-prod',
+      properties: {}
+    });
+    const userDatabases: PolicyApplication = {
+      name: 'User databases on sqlsrv',
+      definition: definition('User databases on sqlsrv', {
+        if: {
+          allOf: [
+            { field: 'type', equals: 'Microsoft.Sql/servers/databases' },
+            { field: 'name', notEquals: 'master' },
+            { field: 'fullName', like: 'sqlsrv/*' }
+          ]
+        },
+        then: { effect: 'Audit' }
+      }, 'All')
+    };
+
+    const report = analyzer.analyze('User databases on sqlsrv', [userDatabases], [database('master'), database('appdb')]);
+
+    expect(report.samples.audited.map(sample => sample.name)).toEqual(['appdb']);
+  });
+
+  test('should report data-plane policies as not evaluable', () => {
+    const secrets: PolicyApplication = {
+      name: 'Secrets should expire',
+      definition: definition('Secrets should expire', { if: { field: 'name', exists: true }, then: { effect: 'Audit' } }, 'Microsoft.KeyVault.Data')
+    };
+
+    const report = analyzer.analyze('Secrets should expire', [secrets], inventory);
+
+    expect(report.impactedResources).toBe(0);
+    expect(report.notEvaluable).toEqual([{ policy: 'Secrets should expire', reason: expect.stringContaining('Microsoft.KeyVault.Data') }]);
+  });
+
+  test('should format the report', () => {
+    const text = analyzer.formatReport(analyzer.analyze('Secure transfer', [httpsPolicy], inventory, { sampleSize: 1 }));
+
+    expect(text.split('\n')).toEqual([
+      '**Policy impact: Secure transfer** - 2 of 4 resources affected',
+      '- Denied: 2',
+      '- Audited: 0',
+      '- Modified: 0',
+      '',
+      '**By resource group:**',
+      '- rg-dev (2 resources): 1 denied, 0 audited, 0 modified',
+      '- rg-prod (2 resources): 1 denied, 0 audited, 0 modified',
+      '',
+      '**By resource type:**',
+      '- microsoft.storage/storageaccounts (3 resources): 2 denied, 0 audited, 0 modified',
+      '',
+      '**Sample denied resources:**',
+      '- saprod1 (microsoft.storage/storageaccounts, rg-prod): Secure transfer - ' +
+        'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly notEquals true (actual: false)'
+    ]);
+  });
+
+  test('should load Resource Graph exports and reject invalid inventories', async () => {
+    writeFileSync(join(tempDir, 'graph.json'), JSON.stringify({ count: 1, data: [inventory[0]] }));
+    writeFileSync(join(tempDir, 'array.json'), JSON.stringify(inventory));
+    writeFileSync(join(tempDir, 'invalid.json'), JSON.stringify([{ name: 'missing-id' }]));
+
+    expect(await analyzer.loadInventory(join(tempDir, 'graph.json'))).toHaveLength(1);
+    expect(await analyzer.loadInventory(join(tempDir, 'array.json'))).toHaveLength(4);
+    await expect(analyzer.loadInventory(join(tempDir, 'invalid.json'))).rejects.toThrow('must have an id, name and type');
+    await expect(analyzer.loadInventory(join(tempDir, 'missing.json'))).rejects.toThrow('Failed to read resource inventory');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for PolicyLinter
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { PolicyLinter, DEFAULT_LINT_RULES } from '../../src/services/policy/policy-linter.js';
+import type { AzurePolicyDefinition } from '../../src/types/policy.js';
+
+describe('PolicyLinter', () => {
+  let linter: PolicyLinter;
+
+  beforeEach(() => {
+    linter = new PolicyLinter();
+  });
+
+  const cleanPolicy: AzurePolicyDefinition = {
+    properties: {
+      displayName: 'Allowed locations for storage accounts',
+      policyType: 'Custom',
+      mode: 'Indexed',
+      description: 'Restrict the locations storage accounts can be deployed to',
+      metadata: { version: '1.0.0', category: 'Storage' },
+      parameters: {
+        effect: { type: 'String', allowedValues: ['Audit', 'Deny', 'Disabled'], defaultValue: 'Audit' },
+        listOfAllowedLocations: { type: 'Array', metadata: { strongType: 'location' } }
+      },
+      policyRule: {
+        if: {
+          allOf: [
+            { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+            { field: 'location', notIn: "[parameters('listOfAllowedLocations')]" as any }
+          ]
+        },
+        then: { effect: "[parameters('effect')]" }
+      }
+    }
+  };
+
+  const revise = (update: (properties: any) => void): AzurePolicyDefinition => {
+    const copy = JSON.parse(JSON.stringify(cleanPolicy));
+    update(copy.properties);
+    return copy;
+  };
+
+  test('should report no findings for a policy following the rules', () => {
+    const result = linter.lint(cleanPolicy);
+
+    expect(result).toMatchObject({ isValid: true, errors: [], warnings: [], findings: [] });
+    expect(result.resourceTypeCompatibility.map(c => c.resourceType)).toEqual(['Microsoft.Storage/storageAccounts']);
+  });
+
+  test('should flag governance issues as warnings', () => {
+    const result = linter.lint(revise(properties => {
+      properties.metadata = { version: '1.0', category: 'Storage Accounts' };
+      properties.policyRule.if.allOf[1] = { field: 'location', notIn: ['eastus', 'global', "[resourceGroup().location]"] };
+      properties.policyRule.then.effect = 'Deny';
+      delete properties.parameters;
+    }));
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual([
+      "[effect-parameterized] Effect 'Deny' is hard-coded; expose it as a parameter so assignments can choose it",
+      "[version-semver] metadata.version '1.0' is not a semantic version (e.g. 1.0.0 or 1.0.0-preview)",
+      "[category-built-in] metadata.category 'Storage Accounts' is not a built-in policy category",
+      "[no-hard-coded-locations] Location 'eastus' at if.allOf[1] is hard-coded; use a parameter with strongType location"
+    ]);
+  });
+
+  test('should flag an effect parameter without allowedValues', () => {
+    const result = linter.lint(revise(properties => {
+      delete properties.parameters.effect.allowedValues;
+    }));
+
+    expect(result.findings).toEqual([
+      { rule: 'effect-allowed-values', severity: 'warning', message: "Effect parameter 'effect' has no allowedValues" }
+    ]);
+  });
+
+  test('should report length limits and multi-wildcard like patterns as errors', () => {
+    const result = linter.lint(revise(properties => {
+      properties.displayName = 'x'.repeat(129);
+      properties.policyRule.if.allOf.push({
+        count: {
+          field: 'Microsoft.Storage/storageAccounts/networkAcls.ipRules[*]',
+          where: { field: 'Microsoft.Storage/storageAccounts/networkAcls.ipRules[*].value', like: '*.10.*' }
+        },
+        greater: 0
+      });
+    }));
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      '[length-limits] displayName is 129 characters (limit 128)',
+      "[like-single-wildcard] like pattern '*.10.*' at if.allOf[2].count.where has more than one * wildcard; use match or split the condition"
+    ]);
+  });
+
+  test('should support disabled rules, severity overrides and custom rules', () => {
+    linter.addRule({
+      id: 'require-owner',
+      description: 'metadata.owner must be set',
+      severity: 'error',
+      check: policy => (policy.properties.metadata as any)?.owner ? [] : ['metadata.owner is missing']
+    });
+
+    const result = linter.lint(revise(properties => {
+      properties.policyRule.then.effect = 'Audit';
+      properties.metadata.version = 'v1';
+    }), {
+      disabledRules: ['effect-parameterized'],
+      severities: { 'version-semver': 'error' }
+    });
+
+    expect(result.findings.map(finding => [finding.rule, finding.severity])).toEqual([
+      ['version-semver', 'error'],
+      ['require-owner', 'error']
+    ]);
+    expect(linter.getRules()).toHaveLength(DEFAULT_LINT_RULES.length + 1);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Unit tests for PolicyOutcomeResolver
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { PolicyOutcomeResolver } from '../../src/services/policy/policy-outcome-resolver.js';
+import type { AzurePolicyDefinition } from '../../src/types/policy.js';
+import type { TemplateResource } from '../../src/types/templates.js';
+
+describe('PolicyOutcomeResolver', () => {
+  let resolver: PolicyOutcomeResolver;
+
+  beforeEach(() => {
+    resolver = new PolicyOutcomeResolver();
+  });
+
+  const storageRule = (condition: any, then: any): AzurePolicyDefinition => ({
+    properties: {
+      displayName: 'Test',
+      policyType: 'Custom',
+      mode: 'Indexed',
+      description: 'Test',
+      policyRule: {
+        if: { allOf: [{ field: 'type', equals: 'Microsoft.Storage/storageAccounts' }, condition] },
+        then
+      }
+    }
+  });
+
+  const tlsField = 'Microsoft.Storage/storageAccounts/minimumTlsVersion';
+  const setTls = storageRule(
+    { field: tlsField, notEquals: 'TLS1_2' },
+    {
+      effect: 'modify',
+      details: {
+        roleDefinitionIds: ['/providers/Microsoft.Authorization/roleDefinitions/17d1049b-9a84-46fb-8f53-869881c3d3ab'],
+        operations: [{ operation: 'addOrReplace', field: tlsField, value: 'TLS1_2' }]
+      }
+    }
+  );
+  const denyOldTls = storageRule({ field: tlsField, notEquals: 'TLS1_2' }, { effect: 'deny' });
+  const denyPublicAccess = storageRule({ field: 'Microsoft.Storage/storageAccounts/allowBlobPublicAccess', equals: true }, { effect: 'deny' });
+  const auditHttps = storageRule({ field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly', notEquals: true }, { effect: 'audit' });
+
+  const storage = (properties: Record<string, any>): TemplateResource => ({
+    symbolicName: 'storage',
+    type: 'Microsoft.Storage/storageAccounts',
+    existing: false,
+    resource: { name: 'sa', type: 'Microsoft.Storage/storageAccounts', properties }
+  });
+
+  test('should apply modify before deny evaluates the resource', () => {
+    const outcome = resolver.resolve(storage({ minimumTlsVersion: 'TLS1_0', supportsHttpsTrafficOnly: true }), [
+      { name: 'Deny old TLS', definition: denyOldTls },
+      { name: 'Set TLS', definition: setTls }
+    ]);
+
+    expect(outcome.outcome).toBe('compliant');
+    expect(outcome.resource.properties?.minimumTlsVersion).toBe('TLS1_2');
+    expect(outcome.remediatedBy).toEqual(['Set TLS']);
+    expect(outcome.steps.map(step => [step.policy, step.stage, step.result])).toEqual([
+      ['Set TLS', 'modify', 'modified'],
+      ['Deny old TLS', 'deny', 'notApplicable']
+    ]);
+  });
+
+  test('should let deny win over audit and skip the later stages', () => {
+    const outcome = resolver.resolve(storage({ allowBlobPublicAccess: true, supportsHttpsTrafficOnly: false }), [
+      { name: 'Audit HTTPS', definition: auditHttps },
+      { name: 'Deny public access', definition: denyPublicAccess },
+      { name: 'Disabled deny', definition: denyPublicAccess, effect: 'Disabled' }
+    ]);
+
+    expect(outcome.outcome).toBe('blocked');
+    expect(outcome.blockedBy).toEqual(['Deny public access']);
+    expect(outcome.reportedBy).toEqual([]);
+    expect(outcome.steps).toEqual([
+      expect.objectContaining({ policy: 'Disabled deny', stage: 'disabled', result: 'skipped', reason: 'Effect is disabled' }),
+      expect.objectContaining({
+        policy: 'Deny public access',
+        result: 'denied',
+        blocking: true,
+        reason: 'Microsoft.Storage/storageAccounts/allowBlobPublicAccess equals true (actual: true)'
+      }),
+      expect.objectContaining({ policy: 'Audit HTTPS', result: 'skipped', reason: 'The request is denied before this stage' })
+    ]);
+  });
+
+  test('should only report non-compliance for policies that are not enforced', () => {
+    const outcome = resolver.resolve(storage({ minimumTlsVersion: 'TLS1_0', allowBlobPublicAccess: true }), [
+      { name: 'Set TLS', definition: setTls, enforced: false },
+      { name: 'Deny public access', definition: denyPublicAccess, enforced: false }
+    ]);
+
+    expect(outcome.outcome).toBe('nonCompliant');
+    expect(outcome.blockedBy).toEqual([]);
+    expect(outcome.reportedBy).toEqual(['Set TLS', 'Deny public access']);
+    expect(outcome.resource.properties?.minimumTlsVersion).toBe('TLS1_0');
+    expect(outcome.steps[0].changes).toEqual([expect.objectContaining({ path: 'properties.minimumTlsVersion', after: 'TLS1_2' })]);
+  });
+
+  test('should deny the request when append conflicts with an existing value', () => {
+    const appendDefaultAction = storageRule(
+      { field: 'Microsoft.Storage/storageAccounts/networkAcls.defaultAction', exists: true },
+      { effect: 'append', details: [{ field: 'Microsoft.Storage/storageAccounts/networkAcls.defaultAction', value: 'Deny' }] }
+    );
+
+    const outcome = resolver.resolve(storage({ networkAcls: { defaultAction: 'Allow' }, supportsHttpsTrafficOnly: false }), [
+      { name: 'Append default action', definition: appendDefaultAction },
+      { name: 'Audit HTTPS', definition: auditHttps }
+    ]);
+
+    expect(outcome.outcome).toBe('blocked');
+    expect(outcome.blockedBy).toEqual(['Append default action']);
+    expect(outcome.remediatedBy).toEqual([]);
+    expect(outcome.resource.properties?.networkAcls.defaultAction).toBe('Allow');
+    expect(outcome.steps[0]).toMatchObject({ result: 'denied', blocking: true, reason: expect.stringContaining('request would be denied') });
+    expect(outcome.steps[1]).toMatchObject({ policy: 'Audit HTTPS', result: 'skipped' });
+  });
+
+  test('should apply the conflictEffect when a modify add conflicts', () => {
+    const addTls = (conflictEffect?: string) => storageRule({ field: tlsField, exists: true }, {
+      effect: 'modify',
+      details: {
+        roleDefinitionIds: ['/providers/Microsoft.Authorization/roleDefinitions/17d1049b-9a84-46fb-8f53-869881c3d3ab'],
+        ...(conflictEffect && { conflictEffect }),
+        operations: [{ operation: 'add', field: tlsField, value: 'TLS1_2' }]
+      }
+    });
+    const resource = storage({ minimumTlsVersion: 'TLS1_0' });
+
+    const audited = resolver.resolve(resource, [{ name: 'Add TLS', definition: addTls() }]);
+    const denied = resolver.resolve(resource, [{ name: 'Add TLS', definition: addTls('Deny') }]);
+    const disabled = resolver.resolve(resource, [{ name: 'Add TLS', definition: addTls('Disabled') }]);
+
+    expect(audited.outcome).toBe('nonCompliant');
+    expect(audited.steps[0]).toMatchObject({ result: 'nonCompliant', blocking: false, reason: expect.stringContaining(tlsField) });
+    expect(audited.resource.properties?.minimumTlsVersion).toBe('TLS1_0');
+    expect(denied.outcome).toBe('blocked');
+    expect(denied.steps[0]).toMatchObject({ result: 'denied', blocking: true });
+    expect(disabled.outcome).toBe('compliant');
+    expect(disabled.steps[0].result).toBe('skipped');
+  });
+
+  test('should evaluate existence effects after deployment', () => {
+    const diagnostics = (effect: string) => storageRule(
+      { field: 'name', exists: true },
+      { effect, details: { type: 'Microsoft.Insights/diagnosticSettings' } }
+    );
+    const declaration = storage({});
+    const setting: TemplateResource = {
+      symbolicName: 'diag',
+      type: 'Microsoft.Insights/diagnosticSettings',
+      existing: false,
+      scope: 'storage',
+      resource: { name: 'diag', type: 'Microsoft.Insights/diagnosticSettings', properties: {} }
+    };
+
+    const missing = resolver.resolve(declaration, [
+      { name: 'Deploy diagnostics', definition: diagnostics('DeployIfNotExists') },
+      { name: 'Audit diagnostics', definition: diagnostics('AuditIfNotExists') },
+      { name: 'Delete protection', definition: diagnostics('DenyAction') }
+    ]);
+    const present = resolver.resolve(declaration, [{ name: 'Audit diagnostics', definition: diagnostics('AuditIfNotExists') }],
+      [declaration, setting]);
+
+    expect(missing.steps.map(step => [step.policy, step.stage, step.result])).toEqual([
+      ['Deploy diagnostics', 'postDeployment', 'deployed'],
+      ['Audit diagnostics', 'postDeployment', 'nonCompliant'],
+      ['Delete protection', 'notEvaluated', 'skipped']
+    ]);
+    expect(missing.remediatedBy).toEqual(['Deploy diagnostics']);
+    expect(present.steps[0]).toMatchObject({ result: 'compliant', reason: 'Satisfied by diag' });
+  });
+
+  test('should report policies depending on unresolved template values as not evaluable', () => {
+    const outcome = resolver.resolve(storage({ minimumTlsVersion: '[tls2]', supportsHttpsTrafficOnly: false }), [
+      { name: 'Deny old TLS', definition: denyOldTls },
+      { name: 'Set TLS', definition: setTls },
+      { name: 'Audit HTTPS', definition: auditHttps }
+    ]);
+
+    expect(outcome.outcome).toBe('nonCompliant');
+    expect(outcome.blockedBy).toEqual([]);
+    expect(outcome.reportedBy).toEqual(['Audit HTTPS']);
+    expect(outcome.steps.slice(0, 2)).toEqual([
+      expect.objectContaining({ policy: 'Set TLS', result: 'notEvaluable', reason: expect.stringMatching(/^Undetermined: .*minimumTlsVersion/) }),
+      expect.objectContaining({ policy: 'Deny old TLS', result: 'notEvaluable' })
+    ]);
+  });
+
+  test('should report data-plane policies as not evaluable', () => {
+    const dataPlane = { properties: { ...denyPublicAccess.properties, mode: 'Microsoft.Network.Data' } };
+    const outcome = resolver.resolve(storage({ allowBlobPublicAccess: true }), [{ name: 'Data plane deny', definition: dataPlane }]);
+
+    expect(outcome.outcome).toBe('compliant');
+    expect(outcome.steps).toEqual([
+      expect.objectContaining({ policy: 'Data plane deny', result: 'notEvaluable', reason: expect.stringContaining('not evaluable from a template') })
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for PolicyParameterValidator
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { PolicyParameterValidator } from '../../src/services/policy/policy-parameter-validator.js';
+import type { AzurePolicyDefinition, PolicySetDefinition } from '../../src/types/policy.js';
+
+describe('PolicyParameterValidator', () => {
+  let validator: PolicyParameterValidator;
+
+  beforeEach(() => {
+    validator = new PolicyParameterValidator();
+  });
+
+  const policy: AzurePolicyDefinition = {
+    properties: {
+      displayName: 'Allowed locations',
+      policyType: 'Custom',
+      mode: 'Indexed',
+      description: 'Test',
+      parameters: {
+        effect: { type: 'String', allowedValues: ['Audit', 'Deny', 'Disabled'], defaultValue: 'Audit' },
+        listOfAllowedLocations: { type: 'Array', metadata: { strongType: 'location' } },
+        allowedSkus: { type: 'Array', allowedValues: ['Standard_LRS', 'Standard_GRS'], defaultValue: ['Standard_LRS'] },
+        retentionDays: { type: 'Integer', defaultValue: 30 },
+        workspaceId: { type: 'String', metadata: { strongType: 'Microsoft.OperationalInsights/workspaces' }, defaultValue: '' },
+        tagValues: { type: 'Object', defaultValue: {} },
+        enabled: { type: 'Boolean', defaultValue: true }
+      },
+      policyRule: { if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' }, then: { effect: "[parameters('effect')]" } }
+    }
+  };
+
+  test('should accept valid plain and assignment-style values', () => {
+    const result = validator.validateDefinition(policy, {
+      effect: { value: 'Deny' },
+      listOfAllowedLocations: { value: ['eastus', 'westeurope'] },
+      allowedSkus: ['Standard_GRS'],
+      retentionDays: 90,
+      workspaceId: '/subscriptions/0000/resourceGroups/rg/providers/Microsoft.OperationalInsights/workspaces/central',
+      tagValues: { env: 'prod' },
+      enabled: false
+    });
+
+    expect(result).toEqual({ isValid: true, errors: [], warnings: [] });
+  });
+
+  test('should report missing required values and unknown parameters', () => {
+    const result = validator.validateDefinition(policy, { effect: 'Audit', allowedLocation: ['eastus'] });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ parameter: 'allowedLocation', code: 'unknown' }),
+      {
+        parameter: 'listOfAllowedLocations',
+        code: 'missing',
+        message: "Parameter 'listOfAllowedLocations' (Array) has no default value and must be assigned"
+      }
+    ]);
+  });
+
+  test('should report values of the wrong type', () => {
+    const result = validator.validateDefinition(policy, {
+      listOfAllowedLocations: 'eastus',
+      retentionDays: 1.5,
+      tagValues: ['env'],
+      enabled: 'true'
+    });
+
+    expect(result.errors.map(error => [error.parameter, error.code])).toEqual([
+      ['listOfAllowedLocations', 'type'],
+      ['retentionDays', 'type'],
+      ['tagValues', 'type'],
+      ['enabled', 'type']
+    ]);
+    expect(result.errors[0].message).toBe("Parameter 'listOfAllowedLocations' must be an Array but got string \"eastus\"");
+  });
+
+  test('should check allowedValues, including every array member', () => {
+    const result = validator.validateDefinition(policy, {
+      effect: 'Append',
+      listOfAllowedLocations: ['eastus'],
+      allowedSkus: ['Standard_LRS', 'Premium_LRS']
+    });
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        parameter: 'effect',
+        code: 'allowedValues',
+        message: 'Parameter \'effect\' value "Append" is not one of the allowed values: "Audit", "Deny", "Disabled"'
+      }),
+      expect.objectContaining({ parameter: 'allowedSkus', message: expect.stringContaining('"Premium_LRS"') })
+    ]);
+  });
+
+  test('should warn about values that only differ in case from an allowed value', () => {
+    const result = validator.validateDefinition(policy, { effect: 'deny', listOfAllowedLocations: ['eastus'] });
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual([expect.objectContaining({ parameter: 'effect', code: 'allowedValues' })]);
+  });
+
+  test('should warn about values that do not match the strongType', () => {
+    const result = validator.validateDefinition(policy, {
+      listOfAllowedLocations: ['East US'],
+      workspaceId: '/subscriptions/0000/resourceGroups/rg/providers/Microsoft.Storage/storageAccounts/sa'
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings.map(warning => [warning.parameter, warning.code])).toEqual([
+      ['listOfAllowedLocations', 'strongType'],
+      ['workspaceId', 'strongType']
+    ]);
+  });
+
+  test('should skip expressions and validate initiative parameters', () => {
+    const initiative: PolicySetDefinition = {
+      properties: {
+        displayName: 'Initiative',
+        policyType: 'Custom',
+        description: 'Test',
+        parameters: { effect: { type: 'String', allowedValues: ['Audit', 'Disabled'] } },
+        policyDefinitions: []
+      }
+    };
+
+    expect(validator.validateDefinition(initiative, { effect: "[parameters('effect')]" }).isValid).toBe(true);
+    expect(validator.validateDefinition(initiative, {}).errors)
+      .toEqual([expect.objectContaining({ parameter: 'effect', code: 'missing' })]);
+  });
+});
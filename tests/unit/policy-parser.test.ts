@@ -190,6 +190,60 @@ describe('PolicyParser', () => {
       expect(result.rules.logicalOperators).toEqual(expect.arrayContaining(['anyOf', 'allOf', 'not']));
       expect(result.rules.conditions.length).toBeGreaterThanOrEqual(1);
     });
+
+    test('should include count where clauses in field checks', () => {
+      const countPolicy: AzurePolicyDefinition = {
+        properties: {
+          displayName: 'Deny RDP from internet',
+          policyType: 'Custom',
+          mode: 'All',
+          description: 'Test',
+          policyRule: {
+            if: {
+              count: {
+                field: 'Microsoft.Network/networkSecurityGroups/securityRules[*]',
+                where: { field: 'Microsoft.Network/networkSecurityGroups/securityRules[*].destinationPortRange', equals: '3389' }
+              },
+              greater: 0
+            },
+            then: { effect: 'deny' }
+          }
+        }
+      };
+
+      const result = policyParser.analyzePolicyDefinition(countPolicy);
+
+      expect(result.rules.fieldChecks.map(fc => fc.field))
+        .toContain('Microsoft.Network/networkSecurityGroups/securityRules[*].destinationPortRange');
+      expect(result.resourceTypes).toContain('Microsoft.Network/networkSecurityGroups');
+    });
+
+    test('should record field checks for comparison, contains and match operators', () => {
+      const result = policyParser.analyzePolicyDefinition({
+        properties: {
+          displayName: 'Test',
+          policyType: 'Custom',
+          mode: 'All',
+          description: 'Test',
+          policyRule: {
+            if: {
+              anyOf: [
+                { field: 'Microsoft.Storage/storageAccounts/minimumTlsVersion', less: 'TLS1_2' },
+                { field: 'name', match: 'sa#####' },
+                { field: 'tags', containsKey: 'owner' }
+              ]
+            },
+            then: { effect: 'audit' }
+          }
+        }
+      });
+
+      expect(result.rules.fieldChecks.map(fc => [fc.field, fc.operators])).toEqual([
+        ['Microsoft.Storage/storageAccounts/minimumTlsVersion', ['less']],
+        ['name', ['match']],
+        ['tags', ['containsKey']]
+      ]);
+    });
   });
 
   describe('resource type extraction', () => {
@@ -199,7 +253,7 @@ describe('PolicyParser', () => {
       expect(result.resourceTypes).toContain('Microsoft.Storage/storageAccounts');
     });
 
-    test('should infer resource types from field patterns', () => {
+    test('should not invent resource types for policies without type constraints', () => {
       const policyWithFieldPattern: AzurePolicyDefinition = {
         properties: {
           displayName: 'Test Policy',
@@ -220,7 +274,82 @@ describe('PolicyParser', () => {
 
       const result = policyParser.analyzePolicyDefinition(policyWithFieldPattern);
 
-      expect(result.resourceTypes.length).toBeGreaterThan(0);
+      expect(result.resourceTypes).toEqual([]);
+      expect(result.applicability.source).toBe('unconstrained');
+    });
+
+    test('should keep like patterns and child resource types', () => {
+      const result = policyParser.analyzeResourceTypeApplicability({
+        if: {
+          anyOf: [
+            { field: 'type', like: 'Microsoft.Web/sites/*' },
+            { field: 'type', in: ['Microsoft.Sql/servers/databases/transparentDataEncryption'] }
+          ]
+        },
+        then: { effect: 'audit' }
+      });
+
+      expect(result).toEqual({
+        includes: ['Microsoft.Web/sites/*', 'Microsoft.Sql/servers/databases/transparentDataEncryption'],
+        excludes: [],
+        kinds: [],
+        excludedKinds: [],
+        source: 'typeCondition'
+      });
+    });
+
+    test('should separate excluded types and kind constraints', () => {
+      const result = policyParser.analyzeResourceTypeApplicability({
+        if: {
+          allOf: [
+            { field: 'type', equals: 'Microsoft.Web/sites' },
+            { field: 'kind', like: 'functionapp*' },
+            { not: { field: 'kind', contains: 'linux' } },
+            { field: 'type', notIn: ['Microsoft.Web/sites/slots'] },
+            { not: { field: 'kind', equals: 'workflowapp' } }
+          ]
+        },
+        then: { effect: 'audit' }
+      });
+
+      expect(result).toEqual({
+        includes: ['Microsoft.Web/sites'],
+        excludes: ['Microsoft.Web/sites/slots'],
+        kinds: ['functionapp*'],
+        excludedKinds: ['workflowapp'],
+        source: 'typeCondition'
+      });
+    });
+
+    test('should apply negation to anyOf and allOf type conditions', () => {
+      const excluded = policyParser.analyzeResourceTypeApplicability({
+        if: { not: { anyOf: [{ field: 'type', equals: 'Microsoft.Compute/virtualMachines' }, { field: 'type', like: 'Microsoft.Compute/disks*' }] } },
+        then: { effect: 'audit' }
+      });
+      const partial = policyParser.analyzeResourceTypeApplicability({
+        if: { anyOf: [{ field: 'type', equals: 'Microsoft.Compute/virtualMachines' }, { field: 'location', equals: 'westeurope' }] },
+        then: { effect: 'audit' }
+      });
+
+      expect(excluded.excludes).toEqual(['Microsoft.Compute/virtualMachines', 'Microsoft.Compute/disks*']);
+      expect(excluded.source).toBe('unconstrained');
+      expect(partial.source).toBe('unconstrained');
+    });
+
+    test('should infer resource types from aliases when the rule has no type condition', () => {
+      const result = policyParser.analyzeResourceTypeApplicability({
+        if: {
+          count: {
+            field: 'Microsoft.Network/networkSecurityGroups/securityRules[*]',
+            where: { field: 'Microsoft.Network/networkSecurityGroups/securityRules[*].access', equals: 'Allow' }
+          },
+          greater: 0
+        },
+        then: { effect: 'audit' }
+      });
+
+      expect(result.includes).toEqual(['Microsoft.Network/networkSecurityGroups']);
+      expect(result.source).toBe('aliases');
     });
   });
 
@@ -229,7 +358,15 @@ describe('PolicyParser', () => {
       const result = policyParser.analyzePolicyDefinition(samplePolicy);
 
       expect(result.effects).toHaveLength(1);
-      // Note: effect is parameterized, so it shows the parameter reference
+    });
+
+    test('should resolve parameterized effects to their default value', () => {
+      const result = policyParser.analyzePolicyDefinition(samplePolicy);
+      const effect = result.effects[0];
+
+      expect(effect.effect).toBe('Audit');
+      expect(effect.expression).toBe("[parameters('effect')]");
+      expect(effect.allowedValues).toEqual(['Audit', 'Deny', 'Disabled']);
     });
 
     test('should identify effect characteristics', () => {
@@ -279,6 +416,14 @@ describe('PolicyParser', () => {
       expect(result.resourceTypeCompatibility.length).toBeGreaterThan(0);
     });
 
+    test('should report compatibility fields as resource property paths', () => {
+      const result = policyParser.validatePolicy(samplePolicy);
+      const storage = result.resourceTypeCompatibility.find(c => c.resourceType === 'Microsoft.Storage/storageAccounts');
+
+      expect(storage?.optionalFields).toContain('properties.supportsHttpsTrafficOnly');
+      expect(storage?.optionalFields).not.toContain('Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly');
+    });
+
     test('should identify missing required fields', () => {
       const incompletePolicy = {
         properties: {
@@ -315,5 +460,133 @@ describe('PolicyParser', () => {
       expect(result.isValid).toBe(true);
       expect(result.warnings).toContain('Missing category in metadata');
     });
+
+    const withRule = (policyRule: any, overrides: Partial<AzurePolicyDefinition['properties']> = {}): AzurePolicyDefinition => ({
+      properties: {
+        displayName: 'Test Policy',
+        policyType: 'Custom',
+        mode: 'All',
+        description: 'Test policy',
+        metadata: { category: 'General' },
+        policyRule,
+        ...overrides
+      }
+    });
+
+    test('should report unknown, misspelled and missing condition operators', () => {
+      const result = policyParser.validatePolicy(withRule({
+        if: {
+          allOf: [
+            { field: 'type', equal: 'Microsoft.Storage/storageAccounts' },
+            { field: 'location', Equals: 'eastus' },
+            { field: 'kind' },
+            { not: { field: 'name', startsWith: 'prod' } },
+            { count: { field: 'Microsoft.Storage/storageAccounts/networkAcls.ipRules[*]' }, exists: true }
+          ]
+        },
+        then: { effect: 'audit' }
+      }));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        "Unknown operator 'equal' on field 'type' at if.allOf[0] (did you mean 'equals'?)",
+        "Condition on field 'kind' at if.allOf[2] has no operator",
+        "Unknown operator 'startsWith' on field 'name' at if.allOf[3].not",
+        "Unknown operator 'exists' on count at if.allOf[4]"
+      ]);
+      expect(result.warnings).toContain("Operator 'Equals' on field 'location' at if.allOf[1] should be written 'equals'");
+    });
+
+    test('should reject unsupported effects, including parameter allowed values', () => {
+      const literal = policyParser.validatePolicy(withRule({
+        if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+        then: { effect: 'Audits' }
+      }));
+      const parameterized = policyParser.validatePolicy(withRule(
+        { if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' }, then: { effect: "[parameters('effect')]" } },
+        { parameters: { effect: { type: 'String', allowedValues: ['Audit', 'Block'], defaultValue: 'Audit' } } }
+      ));
+
+      expect(literal.errors).toEqual([expect.stringContaining('Unsupported effect "Audits" (supported: addToNetworkGroup')]);
+      expect(parameterized.errors).toEqual([expect.stringContaining('Unsupported effect "Block" in parameter \'effect\'')]);
+    });
+
+    test('should require effect details for modify and deployIfNotExists', () => {
+      const modify = policyParser.validatePolicy(withRule({
+        if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+        then: { effect: 'modify', details: { operations: [{ operation: 'addOrReplace', field: 'tags.env', value: 'prod' }] } }
+      }));
+      const deploy = policyParser.validatePolicy(withRule(
+        {
+          if: { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+          then: {
+            effect: "[parameters('effect')]",
+            details: {
+              type: 'Microsoft.Insights/diagnosticSettings',
+              roleDefinitionIds: ['/providers/Microsoft.Authorization/roleDefinitions/b24988ac-6180-42a0-ab88-20f7382dd24c']
+            }
+          }
+        },
+        { parameters: { effect: { type: 'String', allowedValues: ['DeployIfNotExists', 'Disabled'], defaultValue: 'DeployIfNotExists' } } }
+      ));
+
+      expect(modify.errors).toEqual(['modify effect requires details.roleDefinitionIds']);
+      expect(deploy.errors).toEqual(['deployIfNotExists effect requires details.deployment']);
+    });
+
+    test('should report undefined and unused parameters', () => {
+      const result = policyParser.validatePolicy(withRule(
+        {
+          if: { field: 'location', notIn: "[parameters('allowedLocations')]" },
+          then: {
+            effect: 'deployIfNotExists',
+            details: {
+              type: 'Microsoft.Insights/diagnosticSettings',
+              roleDefinitionIds: ['/providers/Microsoft.Authorization/roleDefinitions/b24988ac-6180-42a0-ab88-20f7382dd24c'],
+              deployment: {
+                properties: {
+                  mode: 'incremental',
+                  template: { resources: [{ name: "[parameters('resourceName')]" }] },
+                  parameters: { workspaceId: { value: "[parameters('logAnalytics')]" } }
+                }
+              }
+            }
+          }
+        },
+        {
+          parameters: {
+            logAnalytics: { type: 'String' },
+            unusedTag: { type: 'String', defaultValue: 'env' }
+          }
+        }
+      ));
+
+      expect(result.errors).toEqual(["Parameter 'allowedLocations' is referenced but not defined"]);
+      expect(result.warnings).toEqual(["Parameter 'unusedTag' is defined but never used"]);
+    });
+
+    test('should flag Indexed mode on resource types without tags and location', () => {
+      const result = policyParser.validatePolicy(withRule(
+        {
+          if: {
+            allOf: [
+              { field: 'type', equals: 'Microsoft.Network/networkSecurityGroups/securityRules' },
+              { field: 'Microsoft.Network/networkSecurityGroups/securityRules/access', equals: 'Allow' }
+            ]
+          },
+          then: { effect: 'audit' }
+        },
+        { mode: 'Indexed' }
+      ));
+      const compatibility = result.resourceTypeCompatibility.find(
+        c => c.resourceType === 'Microsoft.Network/networkSecurityGroups/securityRules'
+      );
+
+      expect(result.isValid).toBe(true);
+      expect(compatibility?.compatible).toBe(false);
+      expect(compatibility?.reason).toContain('Indexed mode only evaluates resource types that support tags and location');
+      expect(result.warnings).toContain(compatibility?.reason);
+      expect(policyParser.validatePolicy(samplePolicy).resourceTypeCompatibility.every(c => c.compatible)).toBe(true);
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for PolicySetParser
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { PolicySetParser } from '../../src/services/policy/policy-set-parser.js';
+import type { DataSourceManager } from '../../src/services/github/data-source-manager.js';
+import type { AzurePolicyDefinition, PolicySetDefinition } from '../../src/types/policy.js';
+
+describe('PolicySetParser', () => {
+  let parser: PolicySetParser;
+  let getPolicyDefinitions: jest.Mock<(ids: string[]) => Promise<Map<string, AzurePolicyDefinition>>>;
+
+  const httpsDefinition: AzurePolicyDefinition = {
+    name: '404c3081-a854-4457-ae30-26a93ef643f9',
+    properties: {
+      displayName: 'Secure transfer to storage accounts should be enabled',
+      policyType: 'BuiltIn',
+      mode: 'Indexed',
+      description: 'Audit requirement of Secure transfer in your storage account',
+      metadata: { category: 'Storage' },
+      parameters: {
+        effect: { type: 'String', allowedValues: ['Audit', 'Deny', 'Disabled'], defaultValue: 'Audit' }
+      },
+      policyRule: {
+        if: {
+          allOf: [
+            { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+            { field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly', notEquals: true }
+          ]
+        },
+        then: { effect: "[parameters('effect')]" }
+      }
+    }
+  };
+
+  const policySet: PolicySetDefinition = {
+    name: 'storage-baseline',
+    properties: {
+      displayName: 'Storage baseline',
+      policyType: 'Custom',
+      description: 'Storage security baseline',
+      metadata: { category: 'Storage', version: '1.0.0' },
+      parameters: {
+        httpsEffect: { type: 'String', defaultValue: 'Audit' },
+        tlsEffect: { type: 'String' }
+      },
+      policyDefinitionGroups: [{ name: 'DP-3', displayName: 'Encrypt sensitive data in transit' }],
+      policyDefinitions: [
+        {
+          policyDefinitionId: '/providers/Microsoft.Authorization/policyDefinitions/404c3081-a854-4457-ae30-26a93ef643f9',
+          policyDefinitionReferenceId: 'secureTransfer',
+          parameters: { effect: { value: "[parameters('httpsEffect')]" } },
+          groupNames: ['DP-3']
+        },
+        {
+          policyDefinitionId: '/providers/Microsoft.Authorization/policyDefinitions/fe83a0eb-a853-422d-aac2-1bffd182c5d0',
+          parameters: { effect: { value: "[parameters('tlsEffect')]" } }
+        }
+      ]
+    }
+  };
+
+  beforeEach(() => {
+    getPolicyDefinitions = jest.fn(async (ids: string[]) => new Map(
+      ids.filter(id => id.endsWith(httpsDefinition.name!)).map(id => [id, httpsDefinition])
+    ));
+    parser = new PolicySetParser({ getPolicyDefinitions } as unknown as DataSourceManager);
+  });
+
+  describe('parsePolicySet', () => {
+    test('should parse a policy set definition', () => {
+      expect(parser.parsePolicySet(JSON.stringify(policySet)).properties.policyDefinitions).toHaveLength(2);
+    });
+
+    test('should reject documents without member definitions', () => {
+      expect(() => parser.parsePolicySet('{"properties": {}}')).toThrow('must contain properties.policyDefinitions');
+      expect(() => parser.parsePolicySet('not json')).toThrow('Invalid policy set JSON');
+    });
+  });
+
+  describe('analyzePolicySet', () => {
+    test('should resolve member definitions through the data source manager', async () => {
+      const result = await parser.analyzePolicySet(policySet);
+
+      expect(getPolicyDefinitions).toHaveBeenCalledWith(policySet.properties.policyDefinitions.map(d => d.policyDefinitionId));
+      expect(result.displayName).toBe('Storage baseline');
+      expect(result.groups).toHaveLength(1);
+      expect(result.members[0]).toMatchObject({
+        referenceId: 'secureTransfer',
+        groupNames: ['DP-3'],
+        parameters: { effect: 'Audit' },
+        effect: 'Audit'
+      });
+      expect(result.members[0].policy?.category).toBe('Storage');
+      expect(result.unresolvedDefinitionIds).toEqual([policySet.properties.policyDefinitions[1].policyDefinitionId]);
+    });
+
+    test('should pass assigned initiative parameters through to members', async () => {
+      const result = await parser.analyzePolicySet(policySet, { httpsEffect: { value: 'Deny' } });
+
+      expect(result.members[0].parameters).toEqual({ effect: 'Deny' });
+      expect(result.members[0].effect).toBe('Deny');
+    });
+
+    test('should leave parameters without a value to the member default', async () => {
+      const result = await parser.analyzePolicySet(policySet);
+
+      expect(result.members[1].parameters).toEqual({});
+      expect(result.members[1].referenceId).toBe('fe83a0eb-a853-422d-aac2-1bffd182c5d0');
+      expect(result.parameters.find(p => p.name === 'tlsEffect')?.required).toBe(true);
+    });
+
+    test('should prefer supplied member definitions', async () => {
+      const result = await parser.analyzePolicySet(policySet, {}, {
+        'fe83a0eb-a853-422d-aac2-1bffd182c5d0': { ...httpsDefinition, name: 'fe83a0eb-a853-422d-aac2-1bffd182c5d0' }
+      });
+
+      expect(getPolicyDefinitions).toHaveBeenCalledWith([policySet.properties.policyDefinitions[0].policyDefinitionId]);
+      expect(result.unresolvedDefinitionIds).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Unit tests for PolicyTestRunner
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PolicyTestRunner } from '../../src/services/policy/policy-test-runner.js';
+import type { AzurePolicyDefinition } from '../../src/types/policy.js';
+
+describe('PolicyTestRunner', () => {
+  let runner: PolicyTestRunner;
+  let tempDir: string;
+
+  const httpsPolicy: AzurePolicyDefinition = {
+    properties: {
+      displayName: 'Storage accounts should use HTTPS',
+      policyType: 'Custom',
+      mode: 'Indexed',
+      description: 'Deny storage accounts without HTTPS only',
+      parameters: {
+        effect: { type: 'String', allowedValues: ['Audit', 'Deny', 'Disabled'], defaultValue: 'Deny' }
+      },
+      policyRule: {
+        if: {
+          allOf: [
+            { field: 'type', equals: 'Microsoft.Storage/storageAccounts' },
+            { field: 'Microsoft.Storage/storageAccounts/supportsHttpsTrafficOnly', notEquals: true }
+          ]
+        },
+        then: { effect: "[parameters('effect')]" }
+      }
+    }
+  };
+
+  const diagnosticsPolicy: AzurePolicyDefinition = {
+    properties: {
+      displayName: 'Key vaults should have diagnostic settings',
+      policyType: 'Custom',
+      mode: 'Indexed',
+      description: 'Audit key vaults without diagnostic settings',
+      policyRule: {
+        if: { field: 'type', equals: 'Microsoft.KeyVault/vaults' },
+        then: {
+          effect: 'AuditIfNotExists',
+          details: {
+            type: 'Microsoft.Insights/diagnosticSettings',
+            existenceCondition: { field: 'Microsoft.Insights/diagnosticSettings/logs.enabled', equals: 'true' }
+          }
+        }
+      }
+    }
+  };
+
+  const storage = (httpsOnly: boolean) => ({
+    name: 'sa',
+    type: 'Microsoft.Storage/storageAccounts',
+    properties: { supportsHttpsTrafficOnly: httpsOnly }
+  });
+
+  beforeEach(() => {
+    runner = new PolicyTestRunner();
+    tempDir = mkdtempSync(join(tmpdir(), 'policy-tests-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should pass cases whose outcome matches the expectation', () => {
+    const report = runner.run(JSON.stringify(httpsPolicy), [
+      { name: 'https enabled', resource: storage(true), expected: 'compliant' },
+      { name: 'https disabled', resource: storage(false), expected: 'deny' },
+      { name: 'audit only', resource: storage(false), expected: 'non-compliant', parameters: { effect: 'Audit' } },
+      { name: 'disabled', resource: storage(false), expected: 'compliant', parameters: { effect: { value: 'Disabled' } } }
+    ]);
+
+    expect(report).toMatchObject({ policy: 'Storage accounts should use HTTPS', total: 4, passed: 4, failed: 0 });
+    expect(report.results[1]).toMatchObject({ outcome: 'nonCompliant', effect: 'Deny', passed: true });
+  });
+
+  test('should explain failing cases', () => {
+    const report = runner.run(JSON.stringify(httpsPolicy), [
+      { name: 'wrong effect', resource: storage(false), expected: 'audit' },
+      { name: 'wrongly compliant', resource: storage(true), expected: 'deny' }
+    ]);
+
+    expect(report.failed).toBe(2);
+    expect(report.results.map(result => result.message)).toEqual([
+      'Expected audit but was non-compliant with effect Deny',
+      'Expected deny but was compliant'
+    ]);
+    expect(runner.formatReport(report)).toBe(
+      'Storage accounts should use HTTPS: 0/2 passed, 2 failed\n' +
+      '❌ wrong effect - Expected audit but was non-compliant with effect Deny\n' +
+      '❌ wrongly compliant - Expected deny but was compliant'
+    );
+  });
+
+  test('should check existence conditions against related resources', () => {
+    const vault = { name: 'kv', type: 'Microsoft.KeyVault/vaults', properties: {} };
+    const diagnostics = (enabled: string) => ({
+      name: 'diag',
+      type: 'Microsoft.Insights/diagnosticSettings',
+      properties: { logs: [{ enabled }] }
+    });
+
+    const report = runner.run(JSON.stringify(diagnosticsPolicy), [
+      { name: 'with diagnostics', resource: vault, expected: 'compliant', relatedResources: [diagnostics('true')] },
+      { name: 'disabled diagnostics', resource: vault, expected: 'auditIfNotExists', relatedResources: [diagnostics('false')] },
+      { name: 'no diagnostics', resource: vault, expected: 'compliant' }
+    ]);
+
+    expect(report.results.map(result => result.passed)).toEqual([true, true, false]);
+    expect(report.results[2].message)
+      .toBe('Expected compliant but was non-compliant with effect AuditIfNotExists (no Microsoft.Insights/diagnosticSettings satisfies the existence condition)');
+  });
+
+  test('should report parameters without a value as errors', () => {
+    const policy = JSON.parse(JSON.stringify(httpsPolicy));
+    delete policy.properties.parameters.effect.defaultValue;
+
+    const report = runner.run(JSON.stringify(policy), [{ name: 'no effect', resource: storage(false), expected: 'deny' }]);
+
+    expect(report.results[0]).toMatchObject({
+      outcome: 'error',
+      passed: false,
+      message: 'Missing value for parameter(s) without a default: effect'
+    });
+  });
+
+  test('should honor the policy mode', () => {
+    const container = { name: 'sa/default/logs', type: 'Microsoft.Storage/storageAccounts/blobServices/containers' };
+    const containerPolicy = JSON.parse(JSON.stringify(httpsPolicy));
+    containerPolicy.properties.policyRule.if = { field: 'type', equals: container.type };
+    const dataPlanePolicy = { properties: { ...httpsPolicy.properties, mode: 'Microsoft.Kubernetes.Data' } };
+
+    const indexed = runner.run(JSON.stringify(containerPolicy), [{ name: 'container', resource: container, expected: 'deny' }]);
+    const dataPlane = runner.run(JSON.stringify(dataPlanePolicy), [{ name: 'data plane', resource: storage(false), expected: 'deny' }]);
+
+    expect(indexed.results[0].message).toBe('Expected deny but was compliant (Indexed mode only evaluates resource types ' +
+      'that support tags and location; Microsoft.Storage/storageAccounts/blobServices/containers does not)');
+    expect(dataPlane.results[0]).toMatchObject({ outcome: 'error', passed: false });
+    expect(dataPlane.results[0].message).toContain('not evaluable from a template');
+  });
+
+  test('should load fixtures from a directory', async () => {
+    const policyPath = join(tempDir, 'https.json');
+    const fixturesDir = mkdtempSync(join(tempDir, 'fixtures-'));
+    writeFileSync(policyPath, JSON.stringify(httpsPolicy));
+    writeFileSync(join(fixturesDir, 'compliant.json'), JSON.stringify({ resource: storage(true), expected: 'compliant' }));
+    writeFileSync(join(fixturesDir, 'denied.json'), JSON.stringify([
+      { resource: storage(false), expected: 'deny' },
+      { name: 'audited', resource: storage(false), expected: 'audit', parameters: { effect: 'Audit' } }
+    ]));
+    writeFileSync(join(fixturesDir, 'notes.txt'), 'ignored');
+
+    const report = await runner.runFiles(policyPath, fixturesDir);
+
+    expect(report.results.map(result => [result.name, result.passed])).toEqual([
+      ['compliant', true],
+      ['denied[0]', true],
+      ['audited', true]
+    ]);
+    expect(report.results[0].source).toBe(join(fixturesDir, 'compliant.json'));
+  });
+
+  test('should reject malformed fixtures', async () => {
+    writeFileSync(join(tempDir, 'broken.json'), JSON.stringify({ expected: 'compliant' }));
+
+    await expect(runner.loadCases(tempDir))
+      .rejects.toThrow(`Policy test case broken in ${join(tempDir, 'broken.json')} must have a resource and an expected outcome`);
+    await expect(runner.loadCases(join(tempDir, 'missing'))).rejects.toThrow('Failed to read policy test cases');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Unit tests for resource type applicability matching
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { appliesToResourceType, matchesTypePattern } from '../../src/services/policy/resource-type-applicability.js';
+import type { ResourceTypeApplicability } from '../../src/types/policy.js';
+
+describe('resource type applicability', () => {
+  const applicability = (overrides: Partial<ResourceTypeApplicability>): ResourceTypeApplicability => ({
+    includes: [],
+    excludes: [],
+    kinds: [],
+    excludedKinds: [],
+    source: 'typeCondition',
+    ...overrides
+  });
+
+  test('should match type patterns case-insensitively with wildcards', () => {
+    expect(matchesTypePattern('Microsoft.Web/sites/*', 'microsoft.web/sites/slots')).toBe(true);
+    expect(matchesTypePattern('Microsoft.Web/sites/*', 'Microsoft.Web/sites')).toBe(false);
+    expect(matchesTypePattern('Microsoft.Storage/storageAccounts', 'MICROSOFT.STORAGE/STORAGEACCOUNTS')).toBe(true);
+    expect(matchesTypePattern('Microsoft.Sql/servers', 'Microsoft.Sql/servers/databases')).toBe(false);
+  });
+
+  test('should apply included types unless excluded', () => {
+    const webApps = applicability({ includes: ['Microsoft.Web/sites*'], excludes: ['Microsoft.Web/sites/slots'] });
+
+    expect(appliesToResourceType(webApps, 'Microsoft.Web/sites')).toBe(true);
+    expect(appliesToResourceType(webApps, 'Microsoft.Web/sites/slots')).toBe(false);
+    expect(appliesToResourceType(webApps, 'Microsoft.Storage/storageAccounts')).toBe(false);
+  });
+
+  test('should apply unconstrained policies to every type that is not excluded', () => {
+    const everything = applicability({ excludes: ['Microsoft.Resources/*'], source: 'unconstrained' });
+
+    expect(appliesToResourceType(everything, 'Microsoft.KeyVault/vaults')).toBe(true);
+    expect(appliesToResourceType(everything, 'Microsoft.Resources/resourceGroups')).toBe(false);
+  });
+
+  test('should check kinds only when the resource kind is known', () => {
+    const functions = applicability({ includes: ['Microsoft.Web/sites'], kinds: ['functionapp*'], excludedKinds: ['functionapp,workflowapp'] });
+
+    expect(appliesToResourceType(functions, 'Microsoft.Web/sites')).toBe(true);
+    expect(appliesToResourceType(functions, 'Microsoft.Web/sites', 'functionapp,linux')).toBe(true);
+    expect(appliesToResourceType(functions, 'Microsoft.Web/sites', 'app')).toBe(false);
+    expect(appliesToResourceType(functions, 'Microsoft.Web/sites', 'functionapp,workflowapp')).toBe(false);
+  });
+});